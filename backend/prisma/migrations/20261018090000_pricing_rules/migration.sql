@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "PricingRuleType" AS ENUM ('DAY_OF_WEEK', 'DATE_RANGE');
+
+-- CreateTable
+CREATE TABLE "pricing_rules" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "type" "PricingRuleType" NOT NULL,
+    "multiplier" DECIMAL(5,2) NOT NULL,
+    "car_id" TEXT,
+    "car_type" "CarType",
+    "days_of_week" INTEGER[],
+    "start_date" DATE,
+    "end_date" DATE,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pricing_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_car_id_idx" ON "pricing_rules"("car_id");
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_car_type_idx" ON "pricing_rules"("car_type");
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_is_active_idx" ON "pricing_rules"("is_active");
+
+-- AddForeignKey
+ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_car_id_fkey" FOREIGN KEY ("car_id") REFERENCES "cars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "hold_expires_at" TIMESTAMP(3);
+
+-- Existing pending bookings get the default 24 hour hold from their creation time
+UPDATE "bookings" SET "hold_expires_at" = "created_at" + INTERVAL '24 hours' WHERE "status" = 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "bookings_status_hold_expires_at_idx" ON "bookings"("status", "hold_expires_at");
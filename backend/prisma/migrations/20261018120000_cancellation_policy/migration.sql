@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "cancellation_fee" DECIMAL(12,2),
+ADD COLUMN "refund_amount" DECIMAL(12,2);
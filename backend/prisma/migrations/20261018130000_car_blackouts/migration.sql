@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "car_blackouts" (
+    "id" TEXT NOT NULL,
+    "car_id" TEXT NOT NULL,
+    "reason" VARCHAR(255) NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "car_blackouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "car_blackouts_car_id_start_date_end_date_idx" ON "car_blackouts"("car_id", "start_date", "end_date");
+
+-- AddForeignKey
+ALTER TABLE "car_blackouts" ADD CONSTRAINT "car_blackouts_car_id_fkey" FOREIGN KEY ("car_id") REFERENCES "cars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "cars" ADD COLUMN "current_location_id" TEXT;
+
+-- Backfill: cars are parked where their most recent returned booking was dropped off
+UPDATE "cars" SET "current_location_id" = (
+    SELECT "b"."dropoff_location_id"
+    FROM "bookings" "b"
+    WHERE "b"."car_id" = "cars"."id" AND "b"."status" = 'RETURNED'
+    ORDER BY "b"."end_date" DESC, "b"."updated_at" DESC
+    LIMIT 1
+);
+
+-- CreateIndex
+CREATE INDEX "cars_current_location_id_idx" ON "cars"("current_location_id");
+
+-- AddForeignKey
+ALTER TABLE "cars" ADD CONSTRAINT "cars_current_location_id_fkey" FOREIGN KEY ("current_location_id") REFERENCES "locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "drop_fee" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "location_fees" (
+    "id" TEXT NOT NULL,
+    "pickup_location_id" TEXT NOT NULL,
+    "dropoff_location_id" TEXT NOT NULL,
+    "fee" DECIMAL(10,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "location_fees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "location_fees_pickup_location_id_dropoff_location_id_key" ON "location_fees"("pickup_location_id", "dropoff_location_id");
+
+-- AddForeignKey
+ALTER TABLE "location_fees" ADD CONSTRAINT "location_fees_pickup_location_id_fkey" FOREIGN KEY ("pickup_location_id") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "location_fees" ADD CONSTRAINT "location_fees_dropoff_location_id_fkey" FOREIGN KEY ("dropoff_location_id") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "location_opening_hours" (
+    "id" TEXT NOT NULL,
+    "location_id" TEXT NOT NULL,
+    "day_of_week" INTEGER NOT NULL,
+    "opens_at" VARCHAR(5) NOT NULL,
+    "closes_at" VARCHAR(5) NOT NULL,
+
+    CONSTRAINT "location_opening_hours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "location_closures" (
+    "id" TEXT NOT NULL,
+    "location_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "reason" VARCHAR(255),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "location_closures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "location_opening_hours_location_id_day_of_week_key" ON "location_opening_hours"("location_id", "day_of_week");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "location_closures_location_id_date_key" ON "location_closures"("location_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "location_opening_hours" ADD CONSTRAINT "location_opening_hours_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "location_closures" ADD CONSTRAINT "location_closures_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
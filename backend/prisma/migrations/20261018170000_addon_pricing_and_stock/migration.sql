@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "AddonPricingMode" AS ENUM ('PER_BOOKING', 'PER_DAY');
+
+-- AlterTable
+ALTER TABLE "addons" RENAME COLUMN "price_per_booking" TO "price";
+ALTER TABLE "addons" ADD COLUMN "pricing_mode" "AddonPricingMode" NOT NULL DEFAULT 'PER_BOOKING';
+
+-- CreateTable
+CREATE TABLE "addon_stock" (
+    "id" TEXT NOT NULL,
+    "addon_id" TEXT NOT NULL,
+    "location_id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "addon_stock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "addon_stock_addon_id_location_id_key" ON "addon_stock"("addon_id", "location_id");
+
+-- AddForeignKey
+ALTER TABLE "addon_stock" ADD CONSTRAINT "addon_stock_addon_id_fkey" FOREIGN KEY ("addon_id") REFERENCES "addons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "addon_stock" ADD CONSTRAINT "addon_stock_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
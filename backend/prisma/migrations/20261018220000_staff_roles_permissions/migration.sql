@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'STAFF';
+
+-- CreateTable
+CREATE TABLE "staff_roles" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" VARCHAR(500),
+    "permissions" TEXT[],
+    "is_built_in" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "staff_roles_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "staff_role_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "staff_roles_name_key" ON "staff_roles"("name");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_staff_role_id_fkey" FOREIGN KEY ("staff_role_id") REFERENCES "staff_roles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Built-in roles
+INSERT INTO "staff_roles" ("id", "name", "description", "permissions", "is_built_in", "updated_at") VALUES
+    (gen_random_uuid(), 'Branch Agent', 'Counter staff: confirms bookings and records pickups and returns',
+        ARRAY['booking:read', 'booking:status:confirm', 'booking:status:pickup', 'booking:status:return'], true, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'Fleet Manager', 'Manages cars, blackouts, locations and add-ons',
+        ARRAY['booking:read', 'car:write', 'location:write', 'addon:write'], true, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'Finance', 'Manages prices and fees, cancels bookings and reads revenue analytics',
+        ARRAY['booking:read', 'booking:status:cancel', 'pricing:write', 'analytics:read'], true, CURRENT_TIMESTAMP);
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "staff_locations" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "location_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "staff_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "staff_locations_user_id_location_id_key" ON "staff_locations"("user_id", "location_id");
+
+-- CreateIndex
+CREATE INDEX "staff_locations_location_id_idx" ON "staff_locations"("location_id");
+
+-- AddForeignKey
+ALTER TABLE "staff_locations" ADD CONSTRAINT "staff_locations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_locations" ADD CONSTRAINT "staff_locations_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
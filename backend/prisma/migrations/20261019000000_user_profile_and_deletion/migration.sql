@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "phone" VARCHAR(30),
+ADD COLUMN "date_of_birth" DATE,
+ADD COLUMN "driver_license_number" VARCHAR(50),
+ADD COLUMN "driver_license_country" CHAR(2),
+ADD COLUMN "driver_license_expires_at" DATE,
+ADD COLUMN "deleted_at" TIMESTAMP(3);
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "DriverVerificationStatus" AS ENUM ('UNVERIFIED', 'PENDING', 'VERIFIED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "driver_license_image_path" VARCHAR(255),
+ADD COLUMN "driver_verification_status" "DriverVerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+ADD COLUMN "driver_license_submitted_at" TIMESTAMP(3),
+ADD COLUMN "driver_verified_at" TIMESTAMP(3),
+ADD COLUMN "driver_verification_note" VARCHAR(500);
+
+-- CreateIndex
+CREATE INDEX "users_driver_verification_status_driver_license_submitted_at_idx" ON "users"("driver_verification_status", "driver_license_submitted_at");
+
+-- Counter staff check licenses at pickup, so they also work the verification queue
+UPDATE "staff_roles" SET "permissions" = array_append("permissions", 'driver:verify'), "updated_at" = CURRENT_TIMESTAMP
+WHERE "name" = 'Branch Agent' AND "is_built_in" = true;
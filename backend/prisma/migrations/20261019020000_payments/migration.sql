@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "gateway" VARCHAR(50) NOT NULL,
+    "gateway_reference" VARCHAR(255),
+    "failure_reason" VARCHAR(255),
+    "settled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "payment_id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "gateway" VARCHAR(50) NOT NULL,
+    "gateway_reference" VARCHAR(255),
+    "failure_reason" VARCHAR(255),
+    "settled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_gateway_gateway_reference_key" ON "payments"("gateway", "gateway_reference");
+
+-- CreateIndex
+CREATE INDEX "payments_booking_id_idx" ON "payments"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "payments_status_created_at_idx" ON "payments"("status", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_gateway_gateway_reference_key" ON "refunds"("gateway", "gateway_reference");
+
+-- CreateIndex
+CREATE INDEX "refunds_booking_id_idx" ON "refunds"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "refunds_payment_id_idx" ON "refunds"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "refunds_status_created_at_idx" ON "refunds"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
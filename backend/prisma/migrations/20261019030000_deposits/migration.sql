@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "DepositStatus" AS ENUM ('PENDING', 'HELD', 'RELEASED', 'CAPTURED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "car_type_deposits" (
+    "id" TEXT NOT NULL,
+    "car_type" "CarType" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "car_type_deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "deposits" (
+    "id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "DepositStatus" NOT NULL DEFAULT 'PENDING',
+    "captured_amount" DECIMAL(12,2),
+    "capture_reason" TEXT,
+    "gateway" VARCHAR(50) NOT NULL,
+    "gateway_reference" VARCHAR(255),
+    "failure_reason" VARCHAR(255),
+    "held_at" TIMESTAMP(3),
+    "settled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "car_type_deposits_car_type_key" ON "car_type_deposits"("car_type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deposits_booking_id_key" ON "deposits"("booking_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deposits_gateway_gateway_reference_key" ON "deposits"("gateway", "gateway_reference");
+
+-- CreateIndex
+CREATE INDEX "deposits_status_idx" ON "deposits"("status");
+
+-- AddForeignKey
+ALTER TABLE "deposits" ADD CONSTRAINT "deposits_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Default amounts; finance staff can change them through the admin API
+INSERT INTO "car_type_deposits" ("id", "car_type", "amount", "updated_at") VALUES
+    (gen_random_uuid(), 'HATCHBACK', 500000, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'SEDAN', 1000000, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'MPV', 1000000, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'SUV', 2000000, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'VAN', 2000000, CURRENT_TIMESTAMP);
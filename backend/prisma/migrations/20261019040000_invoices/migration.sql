@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "issued_at" TIMESTAMP(3) NOT NULL,
+    "contents" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_counters" (
+    "id" VARCHAR(50) NOT NULL,
+    "last_number" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "invoice_counters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_booking_id_key" ON "invoices"("booking_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_number_key" ON "invoices"("number");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Invoice numbers are taken from this row rather than a sequence, which may skip values
+INSERT INTO "invoice_counters" ("id", "last_number") VALUES ('invoice', 0);
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "ChargeKind" AS ENUM ('FEE', 'TAX');
+
+-- CreateEnum
+CREATE TYPE "ChargeCalculation" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "fee_amount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN "tax_amount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "charge_rules" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "kind" "ChargeKind" NOT NULL,
+    "calculation" "ChargeCalculation" NOT NULL,
+    "rate" DECIMAL(12,2) NOT NULL,
+    "location_id" TEXT,
+    "addon_id" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "charge_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_charges" (
+    "id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "rule_id" TEXT,
+    "kind" "ChargeKind" NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "rate_percent" DECIMAL(5,2),
+    "amount" DECIMAL(12,2) NOT NULL,
+
+    CONSTRAINT "booking_charges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "charge_rules_is_active_idx" ON "charge_rules"("is_active");
+
+-- CreateIndex
+CREATE INDEX "booking_charges_booking_id_idx" ON "booking_charges"("booking_id");
+
+-- AddForeignKey
+ALTER TABLE "charge_rules" ADD CONSTRAINT "charge_rules_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "charge_rules" ADD CONSTRAINT "charge_rules_addon_id_fkey" FOREIGN KEY ("addon_id") REFERENCES "addons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_charges" ADD CONSTRAINT "booking_charges_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_charges" ADD CONSTRAINT "booking_charges_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "charge_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,4 +1,4 @@
-import { PrismaClient, CarType, Transmission, FuelType, CarStatus, UserRole, BookingStatus } from '@prisma/client';
+import { PrismaClient, CarType, Transmission, FuelType, CarStatus, UserRole, BookingStatus, PricingRuleType, AddonPricingMode, DriverVerificationStatus, ChargeKind, ChargeCalculation, DiscountType } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 
 const prisma = new PrismaClient();
@@ -10,9 +10,18 @@ async function main() {
   // 1. Clear existing data (in correct order)
   // ============================================
   console.log('🗑️  Clearing existing data...');
+  await prisma.pricingRule.deleteMany();
+  await prisma.chargeRule.deleteMany();
   await prisma.auditLog.deleteMany();
   await prisma.bookingAddon.deleteMany();
+  await prisma.bookingCharge.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.invoiceCounter.updateMany({ data: { lastNumber: 0 } });
+  await prisma.deposit.deleteMany();
+  await prisma.refund.deleteMany();
+  await prisma.payment.deleteMany();
   await prisma.booking.deleteMany();
+  await prisma.promoCode.deleteMany();
   await prisma.addon.deleteMany();
   await prisma.location.deleteMany();
   await prisma.car.deleteMany();
@@ -20,16 +29,18 @@ async function main() {
   console.log('✅ Existing data cleared');
 
   // ============================================
-  // 2. Create Users (2 admins + 10 customers)
+  // 2. Create Users (2 admins + 1 staff + 10 customers)
   // ============================================
   console.log('👥 Creating users...');
   const passwordHash = await bcrypt.hash('password123', 10);
+  const emailVerifiedAt = new Date();
 
   const admin1 = await prisma.user.create({
     data: {
       email: 'admin@carrental.com',
       name: 'Admin User',
       passwordHash,
+      emailVerifiedAt,
       role: UserRole.ADMIN,
     },
   });
@@ -39,40 +50,64 @@ async function main() {
       email: 'support@carrental.com',
       name: 'Support Admin',
       passwordHash,
+      emailVerifiedAt,
       role: UserRole.ADMIN,
     },
   });
 
+  // Built-in staff roles are created by the migration
+  const branchAgentRole = await prisma.staffRole.findUniqueOrThrow({ where: { name: 'Branch Agent' } });
+  const counterAgent = await prisma.user.create({
+    data: {
+      email: 'counter@carrental.com',
+      name: 'Counter Agent',
+      passwordHash,
+      emailVerifiedAt,
+      role: UserRole.STAFF,
+      staffRoleId: branchAgentRole.id,
+    },
+  });
+
+  // John Doe has a verified driver license, so his bookings can be picked up in the demo
+  const verifiedDriver = {
+    dateOfBirth: new Date('1990-05-17'),
+    driverLicenseNumber: 'B1234567',
+    driverLicenseCountry: 'ID',
+    driverLicenseExpiresAt: new Date('2030-05-17'),
+    driverVerificationStatus: DriverVerificationStatus.VERIFIED,
+    driverVerifiedAt: emailVerifiedAt,
+  };
+
   const customers = await Promise.all([
     prisma.user.create({
-      data: { email: 'john.doe@example.com', name: 'John Doe', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'john.doe@example.com', name: 'John Doe', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER, ...verifiedDriver },
     }),
     prisma.user.create({
-      data: { email: 'jane.smith@example.com', name: 'Jane Smith', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'jane.smith@example.com', name: 'Jane Smith', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
     prisma.user.create({
-      data: { email: 'bob.wilson@example.com', name: 'Bob Wilson', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'bob.wilson@example.com', name: 'Bob Wilson', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
     prisma.user.create({
-      data: { email: 'alice.brown@example.com', name: 'Alice Brown', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'alice.brown@example.com', name: 'Alice Brown', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
     prisma.user.create({
-      data: { email: 'charlie.davis@example.com', name: 'Charlie Davis', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'charlie.davis@example.com', name: 'Charlie Davis', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
     prisma.user.create({
-      data: { email: 'emma.taylor@example.com', name: 'Emma Taylor', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'emma.taylor@example.com', name: 'Emma Taylor', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
     prisma.user.create({
-      data: { email: 'david.miller@example.com', name: 'David Miller', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'david.miller@example.com', name: 'David Miller', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
     prisma.user.create({
-      data: { email: 'sarah.anderson@example.com', name: 'Sarah Anderson', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'sarah.anderson@example.com', name: 'Sarah Anderson', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
     prisma.user.create({
-      data: { email: 'michael.thomas@example.com', name: 'Michael Thomas', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'michael.thomas@example.com', name: 'Michael Thomas', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
     prisma.user.create({
-      data: { email: 'lisa.jackson@example.com', name: 'Lisa Jackson', passwordHash, role: UserRole.CUSTOMER },
+      data: { email: 'lisa.jackson@example.com', name: 'Lisa Jackson', passwordHash, emailVerifiedAt, role: UserRole.CUSTOMER },
     }),
   ]);
   console.log(`✅ Created ${customers.length + 2} users (2 admins, ${customers.length} customers)`);
@@ -122,6 +157,10 @@ async function main() {
         name: 'Bandung City Center',
         address: 'Jl. Asia Afrika, Bandung, West Java',
         isActive: true,
+        // City branch: closed on Sundays
+        openingHours: {
+          create: [1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({ dayOfWeek, opensAt: '08:00', closesAt: '18:00' })),
+        },
       },
     }),
     prisma.location.create({
@@ -141,6 +180,29 @@ async function main() {
   ]);
   console.log(`✅ Created ${locations.length} locations`);
 
+  // The counter agent works the airport desk only
+  await prisma.staffLocation.create({
+    data: { userId: counterAgent.id, locationId: locations[0].id },
+  });
+
+  // One-way drop fees between nearby branches (locations: 0 CGK, 1 Jakarta Downtown, 3 DPS, 4 Ubud, 5 Bandung)
+  const dropFees: [number, number, number][] = [
+    [0, 1, 150000],
+    [1, 0, 150000],
+    [3, 4, 200000],
+    [4, 3, 200000],
+    [0, 5, 500000],
+    [5, 0, 500000],
+  ];
+  await prisma.locationFee.createMany({
+    data: dropFees.map(([from, to, fee]) => ({
+      pickupLocationId: locations[from].id,
+      dropoffLocationId: locations[to].id,
+      fee,
+    })),
+  });
+  console.log(`✅ Created ${dropFees.length} location drop fees`);
+
   // ============================================
   // 4. Create Add-ons (10 add-ons)
   // ============================================
@@ -150,7 +212,7 @@ async function main() {
       data: {
         name: 'GPS Navigation',
         description: 'Garmin GPS device with Indonesia maps',
-        pricePerBooking: 50000,
+        price: 50000,
         isActive: true,
       },
     }),
@@ -158,7 +220,7 @@ async function main() {
       data: {
         name: 'Child Safety Seat',
         description: 'Child car seat for kids 0-4 years',
-        pricePerBooking: 75000,
+        price: 75000,
         isActive: true,
       },
     }),
@@ -166,7 +228,7 @@ async function main() {
       data: {
         name: 'Extra Driver',
         description: 'Add an additional authorized driver',
-        pricePerBooking: 100000,
+        price: 100000,
         isActive: true,
       },
     }),
@@ -174,7 +236,7 @@ async function main() {
       data: {
         name: 'WiFi Hotspot',
         description: 'Portable WiFi device with 10GB data',
-        pricePerBooking: 80000,
+        price: 80000,
         isActive: true,
       },
     }),
@@ -182,7 +244,8 @@ async function main() {
       data: {
         name: 'Insurance Premium',
         description: 'Full coverage insurance with zero deductible',
-        pricePerBooking: 150000,
+        price: 50000,
+        pricingMode: AddonPricingMode.PER_DAY,
         isActive: true,
       },
     }),
@@ -190,7 +253,7 @@ async function main() {
       data: {
         name: 'Fuel Pre-pay',
         description: 'Pre-pay for full tank of fuel',
-        pricePerBooking: 200000,
+        price: 200000,
         isActive: true,
       },
     }),
@@ -198,7 +261,7 @@ async function main() {
       data: {
         name: 'Phone Holder',
         description: 'Magnetic phone mount for dashboard',
-        pricePerBooking: 25000,
+        price: 25000,
         isActive: true,
       },
     }),
@@ -206,7 +269,7 @@ async function main() {
       data: {
         name: 'Dash Camera',
         description: 'Front and rear dash camera recording',
-        pricePerBooking: 100000,
+        price: 100000,
         isActive: true,
       },
     }),
@@ -214,7 +277,7 @@ async function main() {
       data: {
         name: 'Toll Pass',
         description: 'E-toll card with Rp 200,000 balance',
-        pricePerBooking: 220000,
+        price: 220000,
         isActive: true,
       },
     }),
@@ -222,13 +285,25 @@ async function main() {
       data: {
         name: 'Baby Stroller',
         description: 'Compact foldable baby stroller',
-        pricePerBooking: 60000,
+        price: 60000,
         isActive: true,
       },
     }),
   ]);
   console.log(`✅ Created ${addons.length} add-ons`);
 
+  // GPS units and child seats are physical stock kept at each location
+  const stockedAddons: [number, number][] = [
+    [0, 5], // GPS Navigation
+    [1, 3], // Child Safety Seat
+  ];
+  await prisma.addonStock.createMany({
+    data: stockedAddons.flatMap(([addonIndex, quantity]) =>
+      locations.map((location) => ({ addonId: addons[addonIndex].id, locationId: location.id, quantity }))
+    ),
+  });
+  console.log(`✅ Created add-on stock at ${locations.length} locations`);
+
   // ============================================
   // 5. Create Cars (30 cars - diverse fleet)
   // ============================================
@@ -276,7 +351,10 @@ async function main() {
   ];
 
   const cars = await Promise.all(
-    carData.map((car) => prisma.car.create({ data: car }))
+    // Spread the fleet across the branches
+    carData.map((car, index) =>
+      prisma.car.create({ data: { ...car, currentLocationId: locations[index % locations.length].id } })
+    )
   );
   console.log(`✅ Created ${cars.length} cars`);
 
@@ -433,6 +511,7 @@ async function main() {
       addonPrice: 100000,
       totalPrice: basePrice + 100000,
       status: BookingStatus.PENDING,
+      holdExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
     });
   }
 
@@ -461,7 +540,7 @@ async function main() {
         bookingAddonsData.push({
           bookingId: booking.id,
           addonId: addons[addonIndex].id,
-          price: addons[addonIndex].pricePerBooking,
+          price: Number(addons[addonIndex].price) * (addons[addonIndex].pricingMode === AddonPricingMode.PER_DAY ? booking.days : 1),
         });
       }
     }
@@ -507,21 +586,98 @@ async function main() {
   );
   console.log(`✅ Created ${auditLogs.length} audit log entries`);
 
+  // ============================================
+  // 9. Create Pricing Rules (weekend + seasonal rates)
+  // ============================================
+  console.log('💰 Creating pricing rules...');
+  const pricingRules = await Promise.all([
+    prisma.pricingRule.create({
+      data: { name: 'Weekend', type: PricingRuleType.DAY_OF_WEEK, multiplier: 1.2, daysOfWeek: [0, 6] },
+    }),
+    prisma.pricingRule.create({
+      data: { name: 'SUV Weekend', type: PricingRuleType.DAY_OF_WEEK, multiplier: 1.3, carType: CarType.SUV, daysOfWeek: [0, 6] },
+    }),
+    prisma.pricingRule.create({
+      data: {
+        name: 'Year-End Peak Season',
+        type: PricingRuleType.DATE_RANGE,
+        multiplier: 1.5,
+        startDate: new Date(`${today.getFullYear()}-12-20`),
+        endDate: new Date(`${today.getFullYear() + 1}-01-03`),
+      },
+    }),
+  ]);
+  console.log(`✅ Created ${pricingRules.length} pricing rules`);
+
+  // Taxes and fees apply to new bookings only; the bookings seeded above keep their prices
+  const chargeRules = await Promise.all([
+    prisma.chargeRule.create({
+      data: { name: 'PPN', kind: ChargeKind.TAX, calculation: ChargeCalculation.PERCENTAGE, rate: 11 },
+    }),
+    prisma.chargeRule.create({
+      data: {
+        name: 'Airport service fee',
+        kind: ChargeKind.FEE,
+        calculation: ChargeCalculation.FIXED,
+        rate: 50000,
+        locationId: locations[0].id,
+      },
+    }),
+    prisma.chargeRule.create({
+      data: {
+        name: 'Insurance levy',
+        kind: ChargeKind.FEE,
+        calculation: ChargeCalculation.PERCENTAGE,
+        rate: 5,
+        addonId: addons[4].id,
+      },
+    }),
+  ]);
+  console.log(`✅ Created ${chargeRules.length} tax and fee rules`);
+
+  const promoCodes = await Promise.all([
+    prisma.promoCode.create({
+      data: {
+        code: 'SUV10',
+        description: '10% off SUVs for rentals of 3 days or more',
+        discountType: DiscountType.PERCENTAGE,
+        discountValue: 10,
+        minDays: 3,
+        carTypes: [CarType.SUV],
+      },
+    }),
+    prisma.promoCode.create({
+      data: {
+        code: 'WELCOME100',
+        description: 'Rp 100,000 off, once per customer',
+        discountType: DiscountType.FIXED,
+        discountValue: 100000,
+        maxRedemptions: 500,
+        maxRedemptionsPerUser: 1,
+      },
+    }),
+  ]);
+  console.log(`✅ Created ${promoCodes.length} promo codes`);
+
   // ============================================
   // Summary
   // ============================================
   console.log('\n🎉 Database seeding completed successfully!');
   console.log('\n📊 Summary:');
-  console.log(`   - Users: ${customers.length + 2} (2 admins, ${customers.length} customers)`);
+  console.log(`   - Users: ${customers.length + 3} (2 admins, 1 staff, ${customers.length} customers)`);
   console.log(`   - Locations: ${locations.length}`);
   console.log(`   - Add-ons: ${addons.length}`);
   console.log(`   - Cars: ${cars.length} (8 SUVs, 8 Sedans, 6 Hatchbacks, 5 MPVs, 3 Vans)`);
   console.log(`   - Bookings: ${bookings.length} (20 returned, 10 active, 10 future, 3 cancelled, 2 pending)`);
   console.log(`   - Booking Add-ons: ${bookingAddonsData.length}`);
   console.log(`   - Audit Logs: ${auditLogs.length}`);
+  console.log(`   - Pricing Rules: ${pricingRules.length}`);
+  console.log(`   - Tax and Fee Rules: ${chargeRules.length}`);
+  console.log(`   - Promo Codes: ${promoCodes.length}`);
   console.log('\n🔐 Test Credentials:');
   console.log('   Admin: admin@carrental.com / password123');
   console.log('   Support: support@carrental.com / password123');
+  console.log('   Branch agent (CGK only): counter@carrental.com / password123');
   console.log('   Customer: john.doe@example.com / password123');
   console.log('   (All users have the same password: password123)\n');
 }
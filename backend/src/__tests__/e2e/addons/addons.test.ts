@@ -0,0 +1,101 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { cleanDatabase, createTestAdmin, createTestAddon, createTestLocation } from '../../helpers/testDb.js';
+import { UserRole } from '@prisma/client';
+
+describe('Addons E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  describe('POST /api/admin/addons', () => {
+    it('should create a per-day add-on with stock per location', async () => {
+      const admin = await createTestAdmin();
+      const location = await createTestLocation();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const response = await request(app)
+        .post('/api/admin/addons')
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          name: 'Child Safety Seat',
+          price: 30000,
+          pricingMode: 'PER_DAY',
+          stock: [{ locationId: location.id, quantity: 4 }],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.pricingMode).toBe('PER_DAY');
+      expect(response.body.data.stock).toEqual([
+        expect.objectContaining({ locationId: location.id, quantity: 4 }),
+      ]);
+    });
+
+    it('should return 409 for a duplicate name', async () => {
+      const admin = await createTestAdmin();
+      await createTestAddon({ name: 'GPS Navigation' });
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const response = await request(app)
+        .post('/api/admin/addons')
+        .set('Authorization', getAuthHeader(token))
+        .send({ name: 'GPS Navigation', price: 50000 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('ADDON_NAME_EXISTS');
+    });
+
+    it('should require admin role', async () => {
+      const token = generateTestToken('user-id', 'user@example.com', UserRole.CUSTOMER).accessToken;
+
+      const response = await request(app)
+        .post('/api/admin/addons')
+        .set('Authorization', getAuthHeader(token))
+        .send({ name: 'GPS Navigation', price: 50000 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PATCH /api/admin/addons/:id', () => {
+    it('should replace the stock entries', async () => {
+      const admin = await createTestAdmin();
+      const airport = await createTestLocation();
+      const downtown = await createTestLocation({ name: 'Jakarta Downtown' });
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+      const created = await request(app)
+        .post('/api/admin/addons')
+        .set('Authorization', getAuthHeader(token))
+        .send({ name: 'GPS Navigation', price: 50000, stock: [{ locationId: airport.id, quantity: 2 }] });
+
+      const response = await request(app)
+        .patch(`/api/admin/addons/${created.body.data.id}`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ price: 60000, stock: [{ locationId: downtown.id, quantity: 5 }] });
+
+      expect(response.status).toBe(200);
+      expect(Number(response.body.data.price)).toBe(60000);
+      expect(response.body.data.stock).toEqual([
+        expect.objectContaining({ locationId: downtown.id, quantity: 5 }),
+      ]);
+    });
+  });
+
+  describe('DELETE /api/admin/addons/:id', () => {
+    it('should hide a deactivated add-on from customers', async () => {
+      const admin = await createTestAdmin();
+      const addon = await createTestAddon();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const response = await request(app)
+        .delete(`/api/admin/addons/${addon.id}`)
+        .set('Authorization', getAuthHeader(token));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.isActive).toBe(false);
+
+      const publicList = await request(app).get('/api/addons');
+      expect(publicList.body.data).toEqual([]);
+    });
+  });
+});
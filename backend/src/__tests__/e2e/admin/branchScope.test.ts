@@ -0,0 +1,123 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { UserRole } from '@prisma/client';
+import {
+  cleanDatabase,
+  createTestUser,
+  createTestAdmin,
+  createTestStaff,
+  createTestCar,
+  createTestLocation,
+  createTestBooking,
+  VERIFIED_DRIVER,
+} from '../../helpers/testDb.js';
+
+describe('Branch Scope E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  async function setupBranches() {
+    const customer = await createTestUser({ ...VERIFIED_DRIVER, email: 'customer@example.com' });
+    const airport = await createTestLocation({ name: 'Jakarta Airport' });
+    const downtown = await createTestLocation({ name: 'Jakarta Downtown' });
+    const bali = await createTestLocation({ name: 'Bali Airport' });
+    const car = await createTestCar({ currentLocationId: airport.id });
+    const airportBooking = await createTestBooking(customer.id, car.id, airport.id, airport.id, {
+      status: 'CONFIRMED',
+    });
+    const oneWayBooking = await createTestBooking(customer.id, car.id, bali.id, downtown.id, {
+      status: 'CONFIRMED',
+      startDate: new Date('2026-03-01'),
+      endDate: new Date('2026-03-05'),
+    });
+    const baliBooking = await createTestBooking(customer.id, car.id, bali.id, bali.id, {
+      status: 'CONFIRMED',
+      startDate: new Date('2026-04-01'),
+      endDate: new Date('2026-04-05'),
+    });
+    return { airport, downtown, bali, airportBooking, oneWayBooking, baliBooking };
+  }
+
+  it('should only list bookings picked up or dropped off at the staff member\'s branches', async () => {
+    const { airport, downtown, airportBooking, oneWayBooking } = await setupBranches();
+    const staff = await createTestStaff(undefined, [airport.id, downtown.id]);
+
+    const response = await request(app)
+      .get('/api/admin/bookings')
+      .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken));
+
+    expect(response.status).toBe(200);
+    const ids = response.body.data.map((booking: { id: string }) => booking.id).sort();
+    expect(ids).toEqual([airportBooking.id, oneWayBooking.id].sort());
+  });
+
+  it('should let staff without branches see every booking', async () => {
+    await setupBranches();
+    const staff = await createTestStaff();
+
+    const response = await request(app)
+      .get('/api/admin/bookings')
+      .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken));
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(3);
+  });
+
+  it('should return 403 when acting on a booking at another branch', async () => {
+    const { airport, baliBooking } = await setupBranches();
+    const staff = await createTestStaff(undefined, [airport.id]);
+
+    const response = await request(app)
+      .patch(`/api/admin/bookings/${baliBooking.id}/status`)
+      .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken))
+      .send({ status: 'PICKED_UP' });
+
+    expect(response.status).toBe(403);
+    expect(response.body.error.details.reason).toBe('OUTSIDE_BRANCH');
+  });
+
+  it('should let staff act on bookings at their branch', async () => {
+    const { airport, airportBooking } = await setupBranches();
+    const staff = await createTestStaff(undefined, [airport.id]);
+
+    const response = await request(app)
+      .patch(`/api/admin/bookings/${airportBooking.id}/status`)
+      .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken))
+      .send({ status: 'PICKED_UP', depositPaymentMethod: 'fake_success' });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should let admins assign staff to branches', async () => {
+    const { bali, baliBooking } = await setupBranches();
+    const admin = await createTestAdmin();
+    const staff = await createTestStaff();
+
+    const assigned = await request(app)
+      .put(`/api/admin/users/${staff.id}/locations`)
+      .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+      .send({ locationIds: [bali.id] });
+
+    expect(assigned.status).toBe(200);
+    expect(assigned.body.data.locationIds).toEqual([bali.id]);
+
+    const bookings = await request(app)
+      .get('/api/admin/bookings')
+      .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken));
+    expect(bookings.body.data.map((booking: { id: string }) => booking.id)).toEqual([baliBooking.id]);
+  });
+
+  it('should not assign branches to non-staff users', async () => {
+    const { bali } = await setupBranches();
+    const admin = await createTestAdmin();
+    const customer = await createTestUser({ email: 'other@example.com' });
+
+    const response = await request(app)
+      .put(`/api/admin/users/${customer.id}/locations`)
+      .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+      .send({ locationIds: [bali.id] });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,140 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { UserRole } from '@prisma/client';
+import {
+  cleanDatabase,
+  createTestUser,
+  createTestAdmin,
+  createTestStaff,
+  createTestCar,
+  createTestLocation,
+  createTestAddon,
+  daysFromNow,
+} from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+
+describe('Tax and Fee Rules E2E Tests', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    const admin = await createTestAdmin();
+    adminToken = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+  });
+
+  function createRule(body: Record<string, unknown>) {
+    return request(app)
+      .post('/api/admin/charge-rules')
+      .set('Authorization', getAuthHeader(adminToken))
+      .send(body);
+  }
+
+  describe('Managing rules', () => {
+    it('should create, list and deactivate a rule', async () => {
+      const created = await createRule({ name: 'PPN', kind: 'TAX', calculation: 'PERCENTAGE', rate: 11 });
+      expect(created.status).toBe(201);
+
+      const updated = await request(app)
+        .patch(`/api/admin/charge-rules/${created.body.data.id}`)
+        .set('Authorization', getAuthHeader(adminToken))
+        .send({ isActive: false });
+      expect(updated.status).toBe(200);
+
+      const list = await request(app)
+        .get('/api/admin/charge-rules?kind=TAX')
+        .set('Authorization', getAuthHeader(adminToken));
+      expect(list.body.data).toHaveLength(1);
+      expect(list.body.data[0].isActive).toBe(false);
+    });
+
+    it('should reject a rule scoped to both a location and an add-on', async () => {
+      const location = await createTestLocation();
+      const addon = await createTestAddon();
+
+      const response = await createRule({
+        name: 'Mixed',
+        kind: 'FEE',
+        calculation: 'FIXED',
+        rate: 10000,
+        locationId: location.id,
+        addonId: addon.id,
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject a percentage above 100', async () => {
+      const response = await createRule({ name: 'Typo', kind: 'TAX', calculation: 'PERCENTAGE', rate: 110 });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an unknown kind filter', async () => {
+      const response = await request(app)
+        .get('/api/admin/charge-rules?kind=VAT')
+        .set('Authorization', getAuthHeader(adminToken));
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.kind).toBeDefined();
+    });
+
+    it('should return 403 without the pricing permission', async () => {
+      const staff = await createTestStaff();
+
+      const response = await request(app)
+        .get('/api/admin/charge-rules')
+        .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Charges on bookings', () => {
+    it('should snapshot the applicable charges onto the booking', async () => {
+      const airport = await createTestLocation();
+      const downtown = await createTestLocation({ name: 'Downtown' });
+      const car = await createTestCar({ currentLocationId: airport.id });
+      const gps = await createTestAddon();
+      const user = await createTestUser();
+      await createRule({ name: 'PPN', kind: 'TAX', calculation: 'PERCENTAGE', rate: 11 });
+      const airportFee = await createRule({
+        name: 'Airport fee',
+        kind: 'FEE',
+        calculation: 'FIXED',
+        rate: 50000,
+        locationId: airport.id,
+      });
+      await createRule({ name: 'Downtown fee', kind: 'FEE', calculation: 'FIXED', rate: 20000, locationId: downtown.id });
+
+      // 2 days at 500,000 + GPS 50,000 + airport fee 50,000, then 11% tax
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({
+          carId: car.id,
+          pickupLocationId: airport.id,
+          dropoffLocationId: airport.id,
+          startDate: daysFromNow(10).toISOString(),
+          endDate: daysFromNow(12).toISOString(),
+          addonIds: [gps.id],
+        });
+
+      expect(response.status).toBe(201);
+      expect(Number(response.body.data.feeAmount)).toBe(50000);
+      expect(Number(response.body.data.taxAmount)).toBe(121000);
+      expect(Number(response.body.data.totalPrice)).toBe(1221000);
+      expect(response.body.data.charges.map((c: any) => [c.kind, c.name, Number(c.amount)])).toEqual([
+        ['FEE', 'Airport fee', 50000],
+        ['TAX', 'PPN', 121000],
+      ]);
+
+      // Later rule changes leave the booking alone
+      await request(app)
+        .patch(`/api/admin/charge-rules/${airportFee.body.data.id}`)
+        .set('Authorization', getAuthHeader(adminToken))
+        .send({ rate: 75000 });
+      const charges = await prisma.bookingCharge.findMany({ where: { bookingId: response.body.data.id } });
+      expect(charges.map((c) => Number(c.amount)).sort((a, b) => a - b)).toEqual([50000, 121000]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { UserRole } from '@prisma/client';
+import {
+  cleanDatabase,
+  createTestUser,
+  createTestAdmin,
+  createTestStaff,
+  createTestCar,
+  createTestLocation,
+  createTestBooking,
+  VERIFIED_DRIVER,
+} from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+
+describe('Security Deposits E2E Tests', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    // Deposit amounts outlive cleanDatabase, so pin the one these tests rely on
+    await prisma.carTypeDeposit.upsert({
+      where: { carType: 'SEDAN' },
+      create: { carType: 'SEDAN', amount: 1000000 },
+      update: { amount: 1000000 },
+    });
+    const admin = await createTestAdmin();
+    adminToken = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+  });
+
+  async function createBooking(status: string) {
+    const customer = await createTestUser(VERIFIED_DRIVER);
+    const location = await createTestLocation();
+    const car = await createTestCar({ currentLocationId: location.id });
+    const booking = await createTestBooking(customer.id, car.id, location.id, location.id, { status });
+    return { booking, customerToken: generateTestToken(customer.id, customer.email).accessToken };
+  }
+
+  function updateStatus(bookingId: string, body: Record<string, unknown>) {
+    return request(app)
+      .patch(`/api/admin/bookings/${bookingId}/status`)
+      .set('Authorization', getAuthHeader(adminToken))
+      .send(body);
+  }
+
+  describe('Deposit amounts per car type', () => {
+    it('should list every car type', async () => {
+      const response = await request(app)
+        .get('/api/admin/deposits')
+        .set('Authorization', getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(5);
+      expect(response.body.data).toContainEqual({ carType: 'SEDAN', amount: 1000000 });
+    });
+
+    it('should change the deposit of a car type', async () => {
+      const response = await request(app)
+        .put('/api/admin/deposits/SUV')
+        .set('Authorization', getAuthHeader(adminToken))
+        .send({ amount: 3000000 });
+
+      expect(response.status).toBe(200);
+      expect(Number(response.body.data.amount)).toBe(3000000);
+    });
+
+    it('should return 403 without the pricing permission', async () => {
+      const staff = await createTestStaff();
+
+      const response = await request(app)
+        .put('/api/admin/deposits/SUV')
+        .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken))
+        .send({ amount: 0 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Holds at pickup', () => {
+    it('should hold the deposit and show it on the booking', async () => {
+      const { booking, customerToken } = await createBooking('CONFIRMED');
+
+      const response = await updateStatus(booking.id, { status: 'PICKED_UP', depositPaymentMethod: 'fake_success' });
+
+      expect(response.status).toBe(200);
+      const mine = await request(app)
+        .get(`/api/bookings/${booking.id}`)
+        .set('Authorization', getAuthHeader(customerToken));
+      expect(mine.body.data.deposit.status).toBe('HELD');
+      expect(Number(mine.body.data.deposit.amount)).toBe(1000000);
+    });
+
+    it('should keep the car when the hold is declined', async () => {
+      const { booking } = await createBooking('CONFIRMED');
+
+      const response = await updateStatus(booking.id, { status: 'PICKED_UP', depositPaymentMethod: 'fake_decline' });
+
+      expect(response.status).toBe(402);
+      expect(response.body.error.code).toBe('DEPOSIT_DECLINED');
+      const unchanged = await prisma.booking.findUnique({ where: { id: booking.id }, include: { deposit: true } });
+      expect(unchanged?.status).toBe('CONFIRMED');
+      expect(unchanged?.deposit?.status).toBe('FAILED');
+    });
+
+    it('should ask for a card when the booking was not paid by card', async () => {
+      const { booking } = await createBooking('CONFIRMED');
+
+      const response = await updateStatus(booking.id, { status: 'PICKED_UP' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Settlement on return', () => {
+    async function pickedUpBooking() {
+      const { booking } = await createBooking('CONFIRMED');
+      await updateStatus(booking.id, { status: 'PICKED_UP', depositPaymentMethod: 'fake_success' });
+      return booking;
+    }
+
+    it('should release the deposit when nothing is kept', async () => {
+      const booking = await pickedUpBooking();
+
+      const response = await updateStatus(booking.id, { status: 'RETURNED' });
+
+      expect(response.status).toBe(200);
+      const deposit = await prisma.deposit.findUnique({ where: { bookingId: booking.id } });
+      expect(deposit?.status).toBe('RELEASED');
+    });
+
+    it('should capture part of the deposit for damages', async () => {
+      const booking = await pickedUpBooking();
+
+      const response = await updateStatus(booking.id, {
+        status: 'RETURNED',
+        depositCapture: { amount: 250000, reason: 'Scratched rear bumper' },
+      });
+
+      expect(response.status).toBe(200);
+      const deposit = await prisma.deposit.findUnique({ where: { bookingId: booking.id } });
+      expect(deposit?.status).toBe('CAPTURED');
+      expect(Number(deposit?.capturedAmount)).toBe(250000);
+      expect(deposit?.captureReason).toBe('Scratched rear bumper');
+    });
+
+    it('should refuse to capture more than was held', async () => {
+      const booking = await pickedUpBooking();
+
+      const response = await updateStatus(booking.id, {
+        status: 'RETURNED',
+        depositCapture: { amount: 1500000, reason: 'Write-off' },
+      });
+
+      expect(response.status).toBe(400);
+      const unchanged = await prisma.booking.findUnique({ where: { id: booking.id } });
+      expect(unchanged?.status).toBe('PICKED_UP');
+    });
+
+    it('should reject a capture sent with another status', async () => {
+      const { booking } = await createBooking('CONFIRMED');
+
+      const response = await updateStatus(booking.id, {
+        status: 'PICKED_UP',
+        depositPaymentMethod: 'fake_success',
+        depositCapture: { amount: 1000, reason: 'Fuel' },
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
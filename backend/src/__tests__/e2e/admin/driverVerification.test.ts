@@ -0,0 +1,199 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { UserRole } from '@prisma/client';
+import {
+  cleanDatabase,
+  createTestUser,
+  createTestAdmin,
+  createTestStaff,
+  createTestCar,
+  createTestLocation,
+  createTestBooking,
+  VERIFIED_DRIVER,
+} from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+
+// Smallest valid PNG: a single transparent pixel
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const licenseDetails = {
+  dateOfBirth: '1990-05-17',
+  driverLicenseNumber: 'B1234567',
+  driverLicenseCountry: 'ID',
+  driverLicenseExpiresAt: '2035-01-31',
+};
+
+describe('Driver Verification E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  async function submitLicense(user: { id: string; email: string }) {
+    return request(app)
+      .put('/api/auth/profile/driver-license')
+      .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+      .send({ ...licenseDetails, image: PNG_DATA_URL });
+  }
+
+  describe('PUT /api/auth/profile/driver-license', () => {
+    it('should store the license and queue it for review', async () => {
+      const customer = await createTestUser();
+
+      const response = await submitLicense(customer);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.driverVerificationStatus).toBe('PENDING');
+      expect(response.body.data.driverLicenseImagePath).toMatch(/^driver-licenses\/.+\.png$/);
+    });
+
+    it('should require a photo on the first submission', async () => {
+      const customer = await createTestUser();
+
+      const response = await request(app)
+        .put('/api/auth/profile/driver-license')
+        .set('Authorization', getAuthHeader(generateTestToken(customer.id, customer.email).accessToken))
+        .send(licenseDetails);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an image type other than JPEG, PNG or WebP', async () => {
+      const customer = await createTestUser();
+
+      const response = await request(app)
+        .put('/api/auth/profile/driver-license')
+        .set('Authorization', getAuthHeader(generateTestToken(customer.id, customer.email).accessToken))
+        .send({ ...licenseDetails, image: 'data:image/gif;base64,R0lGODlhAQABAAAAACw=' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Review queue', () => {
+    it('should list pending licenses and let staff with the permission approve one', async () => {
+      const customer = await createTestUser();
+      await submitLicense(customer);
+      const staff = await createTestStaff(['driver:verify']);
+      const token = generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken;
+
+      const queue = await request(app)
+        .get('/api/admin/driver-verifications')
+        .set('Authorization', getAuthHeader(token));
+
+      expect(queue.status).toBe(200);
+      expect(queue.body.data.map((user: { id: string }) => user.id)).toEqual([customer.id]);
+
+      const image = await request(app)
+        .get(`/api/admin/driver-verifications/${customer.id}/license-image`)
+        .set('Authorization', getAuthHeader(token));
+
+      expect(image.status).toBe(200);
+      expect(image.headers['content-type']).toBe('image/png');
+
+      const review = await request(app)
+        .patch(`/api/admin/driver-verifications/${customer.id}`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ status: 'VERIFIED' });
+
+      expect(review.status).toBe(200);
+      expect(review.body.data.driverVerificationStatus).toBe('VERIFIED');
+      const audit = await prisma.auditLog.findFirst({ where: { entityId: customer.id, action: 'DRIVER_VERIFIED' } });
+      expect(audit?.actorId).toBe(staff.id);
+    });
+
+    it('should require a note when rejecting', async () => {
+      const customer = await createTestUser();
+      await submitLicense(customer);
+      const admin = await createTestAdmin();
+
+      const response = await request(app)
+        .patch(`/api/admin/driver-verifications/${customer.id}`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+        .send({ status: 'REJECTED' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 409 for a license that is not awaiting review', async () => {
+      const customer = await createTestUser();
+      const admin = await createTestAdmin();
+
+      const response = await request(app)
+        .patch(`/api/admin/driver-verifications/${customer.id}`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+        .send({ status: 'VERIFIED' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('DRIVER_VERIFICATION_NOT_PENDING');
+    });
+
+    it('should keep staff without the permission out of the queue', async () => {
+      const staff = await createTestStaff(['booking:read']);
+
+      const response = await request(app)
+        .get('/api/admin/driver-verifications')
+        .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should send changed details of a verified driver back for review', async () => {
+      const customer = await createTestUser({ ...VERIFIED_DRIVER, email: 'driver@example.com' });
+      await prisma.user.update({ where: { id: customer.id }, data: { driverLicenseImagePath: 'driver-licenses/old.png' } });
+
+      const response = await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', getAuthHeader(generateTestToken(customer.id, customer.email).accessToken))
+        .send({ driverLicenseNumber: 'C7654321' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.driverVerificationStatus).toBe('PENDING');
+    });
+  });
+
+  describe('Pickup checks', () => {
+    async function createConfirmedBooking(driver: Record<string, unknown>, carType = 'SEDAN') {
+      const customer = await createTestUser({ ...driver, email: 'driver@example.com' });
+      const location = await createTestLocation();
+      const car = await createTestCar({ type: carType, currentLocationId: location.id });
+      return createTestBooking(customer.id, car.id, location.id, location.id, { status: 'CONFIRMED' });
+    }
+
+    async function markPickedUp(bookingId: string) {
+      const admin = await createTestAdmin();
+      return request(app)
+        .patch(`/api/admin/bookings/${bookingId}/status`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+        .send({ status: 'PICKED_UP', depositPaymentMethod: 'fake_success' });
+    }
+
+    it('should hand over the car to a verified driver', async () => {
+      const booking = await createConfirmedBooking(VERIFIED_DRIVER);
+
+      const response = await markPickedUp(booking.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe('PICKED_UP');
+    });
+
+    it('should refuse an unverified driver', async () => {
+      const booking = await createConfirmedBooking({ ...VERIFIED_DRIVER, driverVerificationStatus: 'PENDING' });
+
+      const response = await markPickedUp(booking.id);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('DRIVER_NOT_ELIGIBLE');
+      expect(response.body.error.details.reasons).toEqual(['DRIVER_NOT_VERIFIED']);
+    });
+
+    it('should refuse a driver under the minimum age for the car type', async () => {
+      const booking = await createConfirmedBooking({ ...VERIFIED_DRIVER, dateOfBirth: new Date('2004-01-01') }, 'VAN');
+
+      const response = await markPickedUp(booking.id);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.details.reasons).toEqual(['UNDER_MINIMUM_AGE']);
+    });
+  });
+});
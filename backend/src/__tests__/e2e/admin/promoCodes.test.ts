@@ -0,0 +1,158 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { UserRole } from '@prisma/client';
+import {
+  cleanDatabase,
+  createTestUser,
+  createTestAdmin,
+  createTestStaff,
+  createTestCar,
+  createTestLocation,
+  daysFromNow,
+} from '../../helpers/testDb.js';
+
+describe('Promo Codes E2E Tests', () => {
+  let adminToken: string;
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    const admin = await createTestAdmin();
+    adminToken = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+  });
+
+  function createPromoCode(body: Record<string, unknown>) {
+    return request(app)
+      .post('/api/admin/promo-codes')
+      .set('Authorization', getAuthHeader(adminToken))
+      .send(body);
+  }
+
+  // Each call books a new car for a new customer, starting offset days from now
+  async function bookWithCode(promoCode: string, offset = 10) {
+    const location = await createTestLocation({ name: `Location ${offset}` });
+    const car = await createTestCar({ currentLocationId: location.id });
+    const user = await createTestUser({ email: `customer-${offset}@example.com` });
+    const token = generateTestToken(user.id, user.email).accessToken;
+
+    const book = (start: number) =>
+      request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          carId: car.id,
+          pickupLocationId: location.id,
+          dropoffLocationId: location.id,
+          startDate: daysFromNow(start).toISOString(),
+          endDate: daysFromNow(start + 2).toISOString(),
+          promoCode,
+        });
+
+    return { response: await book(offset), bookAgain: () => book(offset + 5) };
+  }
+
+  describe('Managing codes', () => {
+    it('should store codes upper-case and reject duplicates', async () => {
+      const created = await createPromoCode({ code: 'spring20', discountType: 'PERCENTAGE', discountValue: 20 });
+      expect(created.status).toBe(201);
+      expect(created.body.data.code).toBe('SPRING20');
+
+      const duplicate = await createPromoCode({ code: 'SPRING20', discountType: 'FIXED', discountValue: 50000 });
+      expect(duplicate.status).toBe(409);
+    });
+
+    it('should reject a validity window that ends before it starts', async () => {
+      const response = await createPromoCode({
+        code: 'BACKWARDS',
+        discountType: 'PERCENTAGE',
+        discountValue: 10,
+        validFrom: daysFromNow(10).toISOString(),
+        validUntil: daysFromNow(5).toISOString(),
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 403 without the pricing permission', async () => {
+      const staff = await createTestStaff();
+
+      const response = await request(app)
+        .get('/api/admin/promo-codes')
+        .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Redeeming codes', () => {
+    it('should take the discount off the booking', async () => {
+      await createPromoCode({ code: 'SPRING20', discountType: 'PERCENTAGE', discountValue: 20 });
+
+      // 2 days at 500,000, less 20%
+      const { response } = await bookWithCode('spring20');
+
+      expect(response.status).toBe(201);
+      expect(Number(response.body.data.discountAmount)).toBe(200000);
+      expect(Number(response.body.data.totalPrice)).toBe(800000);
+      expect(response.body.data.promoCode.code).toBe('SPRING20');
+    });
+
+    it('should reject an unknown code', async () => {
+      const { response } = await bookWithCode('NOPE');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject a code restricted to another car type', async () => {
+      await createPromoCode({ code: 'SUVONLY', discountType: 'FIXED', discountValue: 100000, carTypes: ['SUV'] });
+
+      const { response } = await bookWithCode('SUVONLY');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should let each customer use a code only as often as allowed', async () => {
+      await createPromoCode({ code: 'WELCOME', discountType: 'FIXED', discountValue: 100000, maxRedemptionsPerUser: 1 });
+
+      const { response, bookAgain } = await bookWithCode('WELCOME');
+      expect(response.status).toBe(201);
+
+      const again = await bookAgain();
+      expect(again.status).toBe(409);
+      expect(again.body.error.code).toBe('PROMO_CODE_ALREADY_USED');
+    });
+
+    it('should stop accepting a code once its total limit is reached', async () => {
+      await createPromoCode({ code: 'FIRST1', discountType: 'FIXED', discountValue: 100000, maxRedemptions: 1 });
+      await bookWithCode('FIRST1', 10);
+
+      const { response } = await bookWithCode('FIRST1', 20);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('PROMO_CODE_EXHAUSTED');
+    });
+  });
+
+  describe('Redemption report', () => {
+    it('should count redemptions, customers and discounts per code', async () => {
+      await createPromoCode({ code: 'SPRING20', discountType: 'PERCENTAGE', discountValue: 20 });
+      await createPromoCode({ code: 'UNUSED', discountType: 'FIXED', discountValue: 50000 });
+      await bookWithCode('SPRING20', 10);
+      await bookWithCode('SPRING20', 20);
+
+      const response = await request(app)
+        .get('/api/admin/promo-codes/redemptions')
+        .set('Authorization', getAuthHeader(adminToken));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[0]).toMatchObject({
+        code: 'SPRING20',
+        redemptions: 2,
+        customers: 2,
+        discountTotal: 400000,
+        revenue: 1600000,
+      });
+      expect(response.body.data[1]).toMatchObject({ code: 'UNUSED', redemptions: 0, customers: 0 });
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { UserRole } from '@prisma/client';
+import {
+  cleanDatabase,
+  createTestUser,
+  createTestAdmin,
+  createTestStaff,
+  createTestStaffRole,
+  createTestCar,
+  createTestLocation,
+  createTestBooking,
+  VERIFIED_DRIVER,
+} from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+
+describe('Staff Roles E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  async function createBooking(status: string) {
+    const customer = await createTestUser(VERIFIED_DRIVER);
+    const location = await createTestLocation();
+    const car = await createTestCar({ currentLocationId: location.id });
+    return createTestBooking(customer.id, car.id, location.id, location.id, { status });
+  }
+
+  describe('Permission checks on admin routes', () => {
+    it('should let a branch agent mark a pickup', async () => {
+      const staff = await createTestStaff();
+      const booking = await createBooking('CONFIRMED');
+
+      const response = await request(app)
+        .patch(`/api/admin/bookings/${booking.id}/status`)
+        .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken))
+        .send({ status: 'PICKED_UP', depositPaymentMethod: 'fake_success' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe('PICKED_UP');
+    });
+
+    it('should return 403 for a status the staff role does not grant', async () => {
+      const staff = await createTestStaff();
+      const booking = await createBooking('PENDING');
+
+      const response = await request(app)
+        .patch(`/api/admin/bookings/${booking.id}/status`)
+        .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken))
+        .send({ status: 'CANCELLED' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.details.required).toBe('booking:status:cancel');
+    });
+
+    it('should keep staff out of analytics and pricing without those permissions', async () => {
+      const staff = await createTestStaff();
+      const token = generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken;
+
+      const dashboard = await request(app)
+        .get('/api/admin/dashboard')
+        .set('Authorization', getAuthHeader(token));
+      const pricingRules = await request(app)
+        .get('/api/admin/pricing-rules')
+        .set('Authorization', getAuthHeader(token));
+      const bookings = await request(app)
+        .get('/api/admin/bookings')
+        .set('Authorization', getAuthHeader(token));
+
+      expect(dashboard.status).toBe(403);
+      expect(pricingRules.status).toBe(403);
+      expect(bookings.status).toBe(200);
+    });
+
+    it('should return 403 for customers', async () => {
+      const customer = await createTestUser();
+
+      const response = await request(app)
+        .get('/api/admin/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(customer.id, customer.email).accessToken));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should use the role stored on the user rather than the one in the token', async () => {
+      const customer = await createTestUser();
+
+      const response = await request(app)
+        .get('/api/admin/dashboard')
+        .set('Authorization', getAuthHeader(generateTestToken(customer.id, customer.email, UserRole.ADMIN).accessToken));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Staff role management', () => {
+    it('should list the built-in roles', async () => {
+      const admin = await createTestAdmin();
+
+      const response = await request(app)
+        .get('/api/admin/staff-roles')
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken));
+
+      expect(response.status).toBe(200);
+      const names = response.body.data.map((role: { name: string }) => role.name);
+      expect(names).toEqual(expect.arrayContaining(['Branch Agent', 'Fleet Manager', 'Finance']));
+    });
+
+    it('should create a custom role and assign it to a user', async () => {
+      const admin = await createTestAdmin();
+      const user = await createTestUser();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const created = await request(app)
+        .post('/api/admin/staff-roles')
+        .set('Authorization', getAuthHeader(token))
+        .send({ name: 'Night Desk', permissions: ['booking:read', 'booking:status:return'] });
+
+      expect(created.status).toBe(201);
+
+      const assigned = await request(app)
+        .put(`/api/admin/users/${user.id}/role`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ role: 'STAFF', staffRoleId: created.body.data.id });
+
+      expect(assigned.status).toBe(200);
+      expect(assigned.body.data.role).toBe('STAFF');
+      expect(assigned.body.data.passwordHash).toBeUndefined();
+
+      const bookings = await request(app)
+        .get('/api/admin/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email, UserRole.CUSTOMER).accessToken));
+      expect(bookings.status).toBe(200);
+
+      const audit = await prisma.auditLog.findFirst({ where: { entityId: user.id, action: 'ROLE_CHANGED' } });
+      expect(audit?.actorId).toBe(admin.id);
+    });
+
+    it('should reject permissions that are not in the catalog', async () => {
+      const admin = await createTestAdmin();
+
+      const response = await request(app)
+        .post('/api/admin/staff-roles')
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+        .send({ name: 'Everything', permissions: ['booking:*'] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should require a staff role when making a user staff', async () => {
+      const admin = await createTestAdmin();
+      const user = await createTestUser();
+
+      const response = await request(app)
+        .put(`/api/admin/users/${user.id}/role`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+        .send({ role: 'STAFF' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should not let built-in roles be changed', async () => {
+      const admin = await createTestAdmin();
+      const builtIn = await prisma.staffRole.findUniqueOrThrow({ where: { name: 'Finance' } });
+
+      const response = await request(app)
+        .patch(`/api/admin/staff-roles/${builtIn.id}`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+        .send({ permissions: ['analytics:read'] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('STAFF_ROLE_BUILT_IN');
+    });
+
+    it('should not delete a role that is still assigned', async () => {
+      const admin = await createTestAdmin();
+      const staff = await createTestStaff();
+
+      const response = await request(app)
+        .delete(`/api/admin/staff-roles/${staff.staffRoleId}`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken));
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('STAFF_ROLE_IN_USE');
+    });
+
+    it('should delete an unused custom role', async () => {
+      const admin = await createTestAdmin();
+      const role = await createTestStaffRole();
+
+      const response = await request(app)
+        .delete(`/api/admin/staff-roles/${role.id}`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken));
+
+      expect(response.status).toBe(204);
+    });
+
+    it('should keep role management to admins', async () => {
+      const staff = await createTestStaff(['booking:read', 'car:write', 'pricing:write', 'analytics:read']);
+
+      const response = await request(app)
+        .get('/api/admin/staff-roles')
+        .set('Authorization', getAuthHeader(generateTestToken(staff.id, staff.email, UserRole.STAFF).accessToken));
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -1,6 +1,16 @@
 import request from 'supertest';
-import { app } from '../../helpers/testApp.js';
-import { cleanDatabase, createTestUser } from '../../helpers/testDb.js';
+import { UserRole, UserTokenType } from '@prisma/client';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { cleanDatabase, createTestUser, createTestAdmin } from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+import { generateOpaqueToken, generateTotpCode, timeStepAt } from '../../../infrastructure/auth/index.js';
+
+// Stores a token the way the account emails do and returns the raw value the link would carry
+async function issueUserToken(userId: string, type: UserTokenType, ttlMs: number = 60 * 60 * 1000) {
+  const { token, tokenHash, expiresAt } = generateOpaqueToken(ttlMs);
+  await prisma.userToken.create({ data: { userId, type, tokenHash, expiresAt } });
+  return token;
+}
 
 describe('Auth E2E Tests', () => {
   beforeEach(async () => {
@@ -91,6 +101,7 @@ describe('Auth E2E Tests', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data.user.email).toBe('test@example.com');
       expect(response.body.data.token.accessToken).toBeDefined();
+      expect(response.body.data.token.refreshToken).toBeDefined();
     });
 
     it('should return 401 for incorrect password', async () => {
@@ -131,6 +142,146 @@ describe('Auth E2E Tests', () => {
     });
   });
 
+  describe('Account lockout', () => {
+    const attempt = (password: string) =>
+      request(app).post('/api/auth/login').send({ email: 'test@example.com', password });
+
+    it('should lock the account after repeated failures without changing the response', async () => {
+      const user = await createTestUser({ email: 'test@example.com' });
+
+      for (let i = 0; i < 5; i++) {
+        await attempt('WrongPassword1');
+      }
+
+      const locked = await attempt('Password123');
+      const unknown = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'nobody@example.com', password: 'Password123' });
+
+      expect(locked.status).toBe(401);
+      expect(locked.body).toEqual(unknown.body);
+
+      const audit = await prisma.auditLog.findMany({ where: { entityId: user.id, action: 'ACCOUNT_LOCKED' } });
+      expect(audit).toHaveLength(1);
+    });
+
+    it('should let an admin unlock the account', async () => {
+      const user = await createTestUser({ email: 'test@example.com' });
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 60 * 60 * 1000) },
+      });
+      const admin = await createTestAdmin();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const unlock = await request(app)
+        .post(`/api/admin/users/${user.id}/unlock`)
+        .set('Authorization', getAuthHeader(token));
+      expect(unlock.status).toBe(200);
+      expect(unlock.body.data.lockedUntil).toBeNull();
+
+      const login = await attempt('Password123');
+      expect(login.status).toBe(200);
+
+      const audit = await prisma.auditLog.findFirst({ where: { entityId: user.id, action: 'ACCOUNT_UNLOCKED' } });
+      expect(audit?.actorId).toBe(admin.id);
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    const secret = 'JBSWY3DPEHPK3PXP';
+
+    it('should require a TOTP code after the password and reject its replay', async () => {
+      const admin = await createTestAdmin();
+      await prisma.user.update({
+        where: { id: admin.id },
+        data: { totpSecret: secret, totpEnabledAt: new Date() },
+      });
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'admin@example.com', password: 'Password123' });
+      expect(login.status).toBe(200);
+      expect(login.body.data.token).toBeUndefined();
+      expect(login.body.data.challenge.type).toBe('VERIFY');
+
+      const { challengeToken } = login.body.data.challenge;
+      const code = generateTotpCode(secret, timeStepAt(Date.now()));
+
+      const verify = await request(app).post('/api/auth/2fa/verify').send({ challengeToken, code });
+      expect(verify.status).toBe(200);
+      expect(verify.body.data.token.accessToken).toBeDefined();
+      expect(verify.body.data.user.totpSecret).toBeUndefined();
+
+      const replay = await request(app).post('/api/auth/2fa/verify').send({ challengeToken, code });
+      expect(replay.status).toBe(401);
+      expect(replay.body.error.code).toBe('INVALID_TWO_FACTOR_CODE');
+    });
+
+    it('should let a signed-in user enroll, then ask for a code at login until 2FA is turned off', async () => {
+      const user = await createTestUser();
+      const auth = getAuthHeader(generateTestToken(user.id, user.email).accessToken);
+
+      const enroll = await request(app).post('/api/auth/2fa/enroll').set('Authorization', auth).send({});
+      expect(enroll.status).toBe(200);
+      const step = timeStepAt(Date.now());
+
+      const confirm = await request(app)
+        .post('/api/auth/2fa/enroll/confirm')
+        .set('Authorization', auth)
+        .send({ code: generateTotpCode(enroll.body.data.secret, step) });
+      expect(confirm.status).toBe(200);
+      expect(confirm.body.data.recoveryCodes).toHaveLength(10);
+      expect(confirm.body.data.token).toBeUndefined();
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123' });
+      expect(login.body.data.challenge.type).toBe('VERIFY');
+
+      const wrongCode = await request(app)
+        .delete('/api/auth/2fa')
+        .set('Authorization', auth)
+        .send({ code: 'not-a-code' });
+      expect(wrongCode.status).toBe(400);
+      expect(wrongCode.body.error.details.fields.code).toBeDefined();
+
+      const disable = await request(app)
+        .delete('/api/auth/2fa')
+        .set('Authorization', auth)
+        .send({ code: confirm.body.data.recoveryCodes[0] });
+      expect(disable.status).toBe(204);
+
+      const relogin = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123' });
+      expect(relogin.body.data.token.accessToken).toBeDefined();
+    });
+
+    it('should not enroll without a challenge token or a signed-in user', async () => {
+      const response = await request(app).post('/api/auth/2fa/enroll').send({});
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should not accept a challenge token as an access token', async () => {
+      const admin = await createTestAdmin();
+      await prisma.user.update({
+        where: { id: admin.id },
+        data: { totpSecret: secret, totpEnabledAt: new Date() },
+      });
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'admin@example.com', password: 'Password123' });
+
+      const response = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', getAuthHeader(login.body.data.challenge.challengeToken));
+
+      expect(response.status).toBe(401);
+    });
+  });
+
   describe('GET /api/auth/profile', () => {
     it('should get user profile with valid token', async () => {
       const user = await createTestUser();
@@ -169,4 +320,167 @@ describe('Auth E2E Tests', () => {
       expect(response.body.success).toBe(false);
     });
   });
+
+  describe('POST /api/auth/refresh', () => {
+    async function login() {
+      await createTestUser({ email: 'test@example.com' });
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123' });
+      return response.body.data.token.refreshToken as string;
+    }
+
+    it('should rotate the refresh token', async () => {
+      const refreshToken = await login();
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.token.accessToken).toBeDefined();
+      expect(response.body.data.token.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should revoke the whole session when a used refresh token is replayed', async () => {
+      const refreshToken = await login();
+      const rotated = await request(app).post('/api/auth/refresh').send({ refreshToken });
+
+      const replay = await request(app).post('/api/auth/refresh').send({ refreshToken });
+      expect(replay.status).toBe(401);
+      expect(replay.body.error.code).toBe('REFRESH_TOKEN_REUSED');
+
+      // The token issued by the legitimate rotation is revoked too
+      const next = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: rotated.body.data.token.refreshToken });
+      expect(next.status).toBe(401);
+    });
+
+    it('should return 401 for an unknown refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'not-a-real-token' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error.code).toBe('INVALID_REFRESH_TOKEN');
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the refresh token', async () => {
+      await createTestUser({ email: 'test@example.com' });
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123' });
+      const { refreshToken } = login.body.data.token;
+
+      const logout = await request(app).post('/api/auth/logout').send({ refreshToken });
+      expect(logout.status).toBe(204);
+
+      const refresh = await request(app).post('/api/auth/refresh').send({ refreshToken });
+      expect(refresh.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/auth/verify-email', () => {
+    it('should mark the email as verified and reject the token afterwards', async () => {
+      const user = await createTestUser({ emailVerifiedAt: null });
+      const token = await issueUserToken(user.id, UserTokenType.EMAIL_VERIFICATION);
+
+      const response = await request(app).post('/api/auth/verify-email').send({ token });
+      expect(response.status).toBe(204);
+
+      const updated = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(updated?.emailVerifiedAt).not.toBeNull();
+
+      const reuse = await request(app).post('/api/auth/verify-email').send({ token });
+      expect(reuse.status).toBe(400);
+    });
+
+    it('should reject an expired token', async () => {
+      const user = await createTestUser({ emailVerifiedAt: null });
+      const token = await issueUserToken(user.id, UserTokenType.EMAIL_VERIFICATION, -1000);
+
+      const response = await request(app).post('/api/auth/verify-email').send({ token });
+      expect(response.status).toBe(400);
+    });
+
+    it('should issue a verification token on registration', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'newuser@example.com', name: 'New User', password: 'Password123' });
+
+      const tokens = await prisma.userToken.findMany({ where: { type: UserTokenType.EMAIL_VERIFICATION } });
+      expect(tokens).toHaveLength(1);
+    });
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should respond the same way for unknown emails', async () => {
+      await createTestUser({ email: 'test@example.com' });
+
+      const known = await request(app).post('/api/auth/forgot-password').send({ email: 'test@example.com' });
+      const unknown = await request(app).post('/api/auth/forgot-password').send({ email: 'nobody@example.com' });
+
+      expect(known.status).toBe(204);
+      expect(unknown.status).toBe(204);
+      expect(await prisma.userToken.count({ where: { type: UserTokenType.PASSWORD_RESET } })).toBe(1);
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    it('should change the password and sign out existing sessions', async () => {
+      const user = await createTestUser({ email: 'test@example.com' });
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123' });
+      const token = await issueUserToken(user.id, UserTokenType.PASSWORD_RESET);
+
+      const reset = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'NewPassword456' });
+      expect(reset.status).toBe(204);
+
+      const oldLogin = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123' });
+      expect(oldLogin.status).toBe(401);
+
+      const newLogin = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'NewPassword456' });
+      expect(newLogin.status).toBe(200);
+
+      const refresh = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: login.body.data.token.refreshToken });
+      expect(refresh.status).toBe(401);
+
+      const reuse = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'AnotherPassword789' });
+      expect(reuse.status).toBe(400);
+    });
+
+    it('should unlock a locked account and audit the unlock', async () => {
+      const user = await createTestUser({ email: 'test@example.com' });
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 60 * 60 * 1000) },
+      });
+      const token = await issueUserToken(user.id, UserTokenType.PASSWORD_RESET);
+
+      const reset = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'NewPassword456' });
+      expect(reset.status).toBe(204);
+
+      const unlocked = await prisma.user.findUnique({ where: { id: user.id } });
+      expect(unlocked?.failedLoginAttempts).toBe(0);
+      expect(unlocked?.lockedUntil).toBeNull();
+      const audit = await prisma.auditLog.findFirst({ where: { entityId: user.id, action: 'ACCOUNT_UNLOCKED' } });
+      expect(audit?.afterJson).toEqual({ reason: 'PASSWORD_RESET' });
+    });
+  });
 });
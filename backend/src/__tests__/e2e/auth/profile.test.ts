@@ -0,0 +1,176 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import {
+  cleanDatabase,
+  createTestUser,
+  createTestCar,
+  createTestLocation,
+  createTestBooking,
+} from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+
+describe('Profile E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  describe('PATCH /api/auth/profile', () => {
+    it('should update name, phone and driver details', async () => {
+      const user = await createTestUser();
+
+      const response = await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({
+          name: 'Jane Doe',
+          phone: '+62 812 3456 7890',
+          dateOfBirth: '1990-05-17',
+          driverLicenseNumber: 'B 1234 567',
+          driverLicenseCountry: 'id',
+          driverLicenseExpiresAt: '2030-01-31',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        name: 'Jane Doe',
+        phone: '+62 812 3456 7890',
+        driverLicenseCountry: 'ID',
+      });
+      expect(response.body.data.dateOfBirth).toBe('1990-05-17T00:00:00.000Z');
+      expect(response.body.data.passwordHash).toBeUndefined();
+    });
+
+    it('should not let the email be changed', async () => {
+      const user = await createTestUser();
+
+      await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({ email: 'other@example.com', name: 'Jane Doe' });
+
+      const stored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      expect(stored.email).toBe('test@example.com');
+    });
+
+    it('should return 400 for a birth date in the future', async () => {
+      const user = await createTestUser();
+
+      const response = await request(app)
+        .patch('/api/auth/profile')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({ dateOfBirth: '2999-01-01' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/auth/change-password', () => {
+    it('should change the password and sign out other sessions', async () => {
+      const user = await createTestUser();
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'Password123' });
+
+      const response = await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', getAuthHeader(login.body.data.token.accessToken))
+        .send({ currentPassword: 'Password123', newPassword: 'NewPassword456' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.token.refreshToken).toBeDefined();
+
+      const oldSession = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: login.body.data.token.refreshToken });
+      expect(oldSession.status).toBe(401);
+
+      const relogin = await request(app)
+        .post('/api/auth/login')
+        .send({ email: user.email, password: 'NewPassword456' });
+      expect(relogin.status).toBe(200);
+    });
+
+    it('should return 400 for a wrong current password', async () => {
+      const user = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({ currentPassword: 'WrongPassword1', newPassword: 'NewPassword456' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/auth/profile/export', () => {
+    it('should download the profile, bookings and audit entries as JSON', async () => {
+      const user = await createTestUser();
+      const location = await createTestLocation();
+      const car = await createTestCar();
+      const booking = await createTestBooking(user.id, car.id, location.id, location.id, { status: 'RETURNED' });
+      await prisma.auditLog.create({
+        data: { actorId: user.id, entityType: 'Booking', entityId: booking.id, action: 'CREATED' },
+      });
+
+      const response = await request(app)
+        .get('/api/auth/profile/export')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken));
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toContain('attachment');
+      expect(response.body.profile.email).toBe('test@example.com');
+      expect(response.body.profile.passwordHash).toBeUndefined();
+      expect(response.body.bookings).toHaveLength(1);
+      expect(response.body.bookings[0].car.id).toBe(car.id);
+      expect(response.body.auditLogs).toHaveLength(1);
+    });
+  });
+
+  describe('DELETE /api/auth/profile', () => {
+    it('should anonymize the account and keep its bookings', async () => {
+      const user = await createTestUser({ email: 'jane@example.com' });
+      const location = await createTestLocation();
+      const car = await createTestCar();
+      const booking = await createTestBooking(user.id, car.id, location.id, location.id, { status: 'RETURNED' });
+      const token = generateTestToken(user.id, user.email).accessToken;
+
+      const response = await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', getAuthHeader(token))
+        .send({ password: 'Password123' });
+
+      expect(response.status).toBe(204);
+
+      const stored = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+      expect(stored.email).toBe(`deleted-${user.id}@deleted.invalid`);
+      expect(stored.name).toBe('Deleted User');
+      expect(stored.deletedAt).not.toBeNull();
+      expect(await prisma.booking.findUnique({ where: { id: booking.id } })).not.toBeNull();
+
+      const profile = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', getAuthHeader(token));
+      expect(profile.status).toBe(401);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'jane@example.com', password: 'Password123' });
+      expect(login.status).toBe(401);
+    });
+
+    it('should return 409 while a booking is still active', async () => {
+      const user = await createTestUser();
+      const location = await createTestLocation();
+      const car = await createTestCar();
+      await createTestBooking(user.id, car.id, location.id, location.id, { status: 'CONFIRMED' });
+
+      const response = await request(app)
+        .delete('/api/auth/profile')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({ password: 'Password123' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('ACTIVE_BOOKINGS_EXIST');
+    });
+  });
+});
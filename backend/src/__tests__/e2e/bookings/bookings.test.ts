@@ -0,0 +1,407 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { UserRole } from '@prisma/client';
+import { cleanDatabase, createTestUser, createTestAdmin, createTestCar, createTestLocation, createTestBooking, createTestAddon, daysFromNow } from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+import { MAX_RENTAL_DAYS } from '../../../shared/constants/index.js';
+
+describe('Bookings E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  describe('POST /api/bookings', () => {
+    it('should let exactly one of several concurrent requests book the same car', async () => {
+      const car = await createTestCar();
+      const location = await createTestLocation();
+      const users = await Promise.all(
+        [1, 2, 3, 4, 5].map((i) => createTestUser({ email: `racer${i}@example.com` }))
+      );
+
+      const payload = {
+        carId: car.id,
+        pickupLocationId: location.id,
+        dropoffLocationId: location.id,
+        startDate: daysFromNow(10).toISOString(),
+        endDate: daysFromNow(13).toISOString(),
+      };
+
+      const responses = await Promise.all(
+        users.map((user) =>
+          request(app)
+            .post('/api/bookings')
+            .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+            .send(payload)
+        )
+      );
+
+      const statuses = responses.map((response) => response.status);
+      expect(statuses.filter((status) => status === 201)).toHaveLength(1);
+      expect(statuses.filter((status) => status === 409)).toHaveLength(users.length - 1);
+
+      const bookings = await prisma.booking.count({ where: { carId: car.id } });
+      expect(bookings).toBe(1);
+    });
+
+    it('should return 409 when the car is already booked for overlapping dates', async () => {
+      const user = await createTestUser();
+      const car = await createTestCar();
+      const location = await createTestLocation();
+      const token = generateTestToken(user.id, user.email).accessToken;
+
+      const first = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          carId: car.id,
+          pickupLocationId: location.id,
+          dropoffLocationId: location.id,
+          startDate: daysFromNow(10).toISOString(),
+          endDate: daysFromNow(13).toISOString(),
+        });
+      expect(first.status).toBe(201);
+
+      const second = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          carId: car.id,
+          pickupLocationId: location.id,
+          dropoffLocationId: location.id,
+          startDate: daysFromNow(12).toISOString(),
+          endDate: daysFromNow(15).toISOString(),
+        });
+
+      expect(second.status).toBe(409);
+      expect(second.body.error.code).toBe('CAR_NOT_AVAILABLE');
+    });
+
+    it('should only show the customer\'s contact details on the booking', async () => {
+      const user = await createTestUser();
+      const car = await createTestCar();
+      const location = await createTestLocation();
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({
+          carId: car.id,
+          pickupLocationId: location.id,
+          dropoffLocationId: location.id,
+          startDate: daysFromNow(10).toISOString(),
+          endDate: daysFromNow(13).toISOString(),
+        });
+
+      expect(response.status).toBe(201);
+      expect(Object.keys(response.body.data.user).sort()).toEqual(['email', 'id', 'name', 'phone']);
+    });
+
+    it('should reject a pickup location where the car is not parked', async () => {
+      const user = await createTestUser();
+      const airport = await createTestLocation();
+      const downtown = await createTestLocation({ name: 'Jakarta Downtown' });
+      const car = await createTestCar({ currentLocationId: airport.id });
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({
+          carId: car.id,
+          pickupLocationId: downtown.id,
+          dropoffLocationId: downtown.id,
+          startDate: daysFromNow(10).toISOString(),
+          endDate: daysFromNow(13).toISOString(),
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.pickupLocationId).toBeDefined();
+    });
+
+    it('should reject a rental longer than the maximum', async () => {
+      const user = await createTestUser();
+      const car = await createTestCar();
+      const location = await createTestLocation();
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({
+          carId: car.id,
+          pickupLocationId: location.id,
+          dropoffLocationId: location.id,
+          startDate: daysFromNow(1).toISOString(),
+          endDate: daysFromNow(MAX_RENTAL_DAYS + 2).toISOString(),
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.endDate).toBeDefined();
+      expect(await prisma.booking.count()).toBe(0);
+    });
+
+    it('should reject a one-way trip that strands a later booking', async () => {
+      const user = await createTestUser();
+      const airport = await createTestLocation();
+      const downtown = await createTestLocation({ name: 'Jakarta Downtown' });
+      const car = await createTestCar({ currentLocationId: airport.id });
+      await createTestBooking(user.id, car.id, airport.id, airport.id, {
+        status: 'CONFIRMED',
+        startDate: daysFromNow(10),
+        endDate: daysFromNow(12),
+      });
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({
+          carId: car.id,
+          pickupLocationId: airport.id,
+          dropoffLocationId: downtown.id,
+          startDate: daysFromNow(1).toISOString(),
+          endDate: daysFromNow(3).toISOString(),
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.dropoffLocationId).toBeDefined();
+    });
+
+    it('should reject a dropoff on a day the location is closed', async () => {
+      const user = await createTestUser();
+      const car = await createTestCar();
+      const location = await createTestLocation();
+      const endDate = daysFromNow(13);
+      await prisma.locationClosure.create({
+        data: { locationId: location.id, date: endDate, reason: 'Public holiday' },
+      });
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({
+          carId: car.id,
+          pickupLocationId: location.id,
+          dropoffLocationId: location.id,
+          startDate: daysFromNow(10).toISOString(),
+          endDate: endDate.toISOString(),
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.dropoffLocationId[0]).toContain('Public holiday');
+      expect(response.body.error.details.fields.pickupLocationId).toBeUndefined();
+    });
+
+    it('should return 409 when every unit of an add-on is booked at the pickup location', async () => {
+      const user = await createTestUser();
+      const location = await createTestLocation();
+      const [firstCar, secondCar] = await Promise.all([createTestCar(), createTestCar({ model: 'Corolla' })]);
+      const seat = await createTestAddon({ name: 'Child Safety Seat' });
+      await prisma.addonStock.create({ data: { addonId: seat.id, locationId: location.id, quantity: 1 } });
+      const token = generateTestToken(user.id, user.email).accessToken;
+
+      const bookCar = (carId: string) =>
+        request(app)
+          .post('/api/bookings')
+          .set('Authorization', getAuthHeader(token))
+          .send({
+            carId,
+            pickupLocationId: location.id,
+            dropoffLocationId: location.id,
+            startDate: daysFromNow(10).toISOString(),
+            endDate: daysFromNow(13).toISOString(),
+            addonIds: [seat.id],
+          });
+
+      expect((await bookCar(firstCar.id)).status).toBe(201);
+
+      const second = await bookCar(secondCar.id);
+      expect(second.status).toBe(409);
+      expect(second.body.error.code).toBe('ADDON_OUT_OF_STOCK');
+      expect(second.body.error.details.addonIds).toEqual([seat.id]);
+    });
+  });
+
+  describe('PATCH /api/admin/bookings/:id/status', () => {
+    it('should move the car to the dropoff location when it is returned', async () => {
+      const admin = await createTestAdmin();
+      const user = await createTestUser();
+      const airport = await createTestLocation();
+      const downtown = await createTestLocation({ name: 'Jakarta Downtown' });
+      const car = await createTestCar({ currentLocationId: airport.id });
+      const booking = await createTestBooking(user.id, car.id, airport.id, downtown.id, {
+        status: 'PICKED_UP',
+      });
+
+      const response = await request(app)
+        .patch(`/api/admin/bookings/${booking.id}/status`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+        .send({ status: 'RETURNED' });
+
+      expect(response.status).toBe(200);
+      const returnedCar = await prisma.car.findUnique({ where: { id: car.id } });
+      expect(returnedCar?.currentLocationId).toBe(downtown.id);
+    });
+  });
+
+  describe('Idempotency-Key', () => {
+    async function setup() {
+      const user = await createTestUser();
+      const car = await createTestCar();
+      const location = await createTestLocation();
+      const token = generateTestToken(user.id, user.email).accessToken;
+      const payload = {
+        carId: car.id,
+        pickupLocationId: location.id,
+        dropoffLocationId: location.id,
+        startDate: daysFromNow(10).toISOString(),
+        endDate: daysFromNow(13).toISOString(),
+      };
+      return { user, car, token, payload };
+    }
+
+    it('should replay the original response when a booking request is retried', async () => {
+      const { car, token, payload } = await setup();
+
+      const first = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .set('Idempotency-Key', 'retry-key-1')
+        .send(payload);
+      const retry = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .set('Idempotency-Key', 'retry-key-1')
+        .send(payload);
+
+      expect(first.status).toBe(201);
+      expect(retry.status).toBe(201);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.data.id).toBe(first.body.data.id);
+      expect(await prisma.booking.count({ where: { carId: car.id } })).toBe(1);
+    });
+
+    it('should return 422 when the key is reused with a different body', async () => {
+      const { token, payload } = await setup();
+
+      await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .set('Idempotency-Key', 'retry-key-2')
+        .send(payload);
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .set('Idempotency-Key', 'retry-key-2')
+        .send({ ...payload, endDate: daysFromNow(14).toISOString() });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    });
+
+    it('should process the retry again when the first request never stored a response', async () => {
+      const { user, car, token, payload } = await setup();
+      await prisma.idempotencyKey.create({
+        data: {
+          key: 'retry-key-3',
+          userId: user.id,
+          requestHash: 'abandoned',
+          createdAt: new Date(Date.now() - 10 * 60 * 1000),
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        },
+      });
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .set('Idempotency-Key', 'retry-key-3')
+        .send(payload);
+
+      expect(response.status).toBe(201);
+      expect(response.headers['idempotent-replayed']).toBeUndefined();
+      expect(await prisma.booking.count({ where: { carId: car.id } })).toBe(1);
+    });
+  });
+
+  describe('PATCH /api/bookings/:id', () => {
+    it('should move the booking to new dates and report the price difference', async () => {
+      const user = await createTestUser();
+      const car = await createTestCar({ dailyPrice: '500000' });
+      const location = await createTestLocation();
+      const token = generateTestToken(user.id, user.email).accessToken;
+
+      const created = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          carId: car.id,
+          pickupLocationId: location.id,
+          dropoffLocationId: location.id,
+          startDate: daysFromNow(10).toISOString(),
+          endDate: daysFromNow(13).toISOString(),
+        });
+
+      const response = await request(app)
+        .patch(`/api/bookings/${created.body.data.id}`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ endDate: daysFromNow(15).toISOString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.booking.days).toBe(5);
+      expect(response.body.data.priceDifference).toBe(1000000);
+
+      const audit = await prisma.auditLog.findFirst({
+        where: { entityId: created.body.data.id, action: 'BOOKING_MODIFIED' },
+      });
+      expect(audit).not.toBeNull();
+    });
+
+    it('should not move the dropoff away from where the next booking starts', async () => {
+      const user = await createTestUser();
+      const airport = await createTestLocation();
+      const downtown = await createTestLocation({ name: 'Jakarta Downtown' });
+      const car = await createTestCar({ currentLocationId: airport.id });
+      const earlier = await createTestBooking(user.id, car.id, airport.id, airport.id, {
+        startDate: daysFromNow(1),
+        endDate: daysFromNow(3),
+      });
+      await createTestBooking(user.id, car.id, airport.id, airport.id, {
+        status: 'CONFIRMED',
+        startDate: daysFromNow(10),
+        endDate: daysFromNow(12),
+      });
+
+      const response = await request(app)
+        .patch(`/api/bookings/${earlier.id}`)
+        .set('Authorization', getAuthHeader(generateTestToken(user.id, user.email).accessToken))
+        .send({ dropoffLocationId: downtown.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.dropoffLocationId).toBeDefined();
+      const unchanged = await prisma.booking.findUnique({ where: { id: earlier.id } });
+      expect(unchanged?.dropoffLocationId).toBe(airport.id);
+    });
+
+    it('should not let a customer modify another user\'s booking', async () => {
+      const owner = await createTestUser();
+      const other = await createTestUser({ email: 'other@example.com' });
+      const car = await createTestCar();
+      const location = await createTestLocation();
+
+      const created = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', getAuthHeader(generateTestToken(owner.id, owner.email).accessToken))
+        .send({
+          carId: car.id,
+          pickupLocationId: location.id,
+          dropoffLocationId: location.id,
+          startDate: daysFromNow(10).toISOString(),
+          endDate: daysFromNow(13).toISOString(),
+        });
+
+      const response = await request(app)
+        .patch(`/api/bookings/${created.body.data.id}`)
+        .set('Authorization', getAuthHeader(generateTestToken(other.id, other.email).accessToken))
+        .send({ endDate: daysFromNow(15).toISOString() });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
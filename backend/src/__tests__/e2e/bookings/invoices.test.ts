@@ -0,0 +1,95 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { cleanDatabase, createTestUser, createTestCar, createTestLocation, createTestBooking } from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+
+describe('Invoices E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  async function setupBooking(status = 'CONFIRMED', email = 'test@example.com') {
+    const customer = await createTestUser({ email });
+    const location = await createTestLocation({ name: `Branch ${email}` });
+    const car = await createTestCar({ currentLocationId: location.id });
+    const booking = await createTestBooking(customer.id, car.id, location.id, location.id, { status });
+    const token = generateTestToken(customer.id, customer.email).accessToken;
+    return { booking, token };
+  }
+
+  function getInvoice(bookingId: string, token: string) {
+    return request(app)
+      .get(`/api/bookings/${bookingId}/invoice.pdf`)
+      .set('Authorization', getAuthHeader(token))
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+  }
+
+  describe('GET /api/bookings/:id/invoice.pdf', () => {
+    it('should issue a numbered invoice as a PDF', async () => {
+      const { booking, token } = await setupBooking();
+
+      const response = await getInvoice(booking.id, token);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.headers['content-disposition']).toContain('INV-000001.pdf');
+      expect((response.body as Buffer).subarray(0, 8).toString()).toBe('%PDF-1.4');
+    });
+
+    it('should return the same document when regenerated', async () => {
+      const { booking, token } = await setupBooking();
+
+      const first = await getInvoice(booking.id, token);
+      await prisma.booking.update({ where: { id: booking.id }, data: { totalPrice: '1' } });
+      const second = await getInvoice(booking.id, token);
+
+      expect((second.body as Buffer).equals(first.body as Buffer)).toBe(true);
+      expect(await prisma.invoice.count()).toBe(1);
+    });
+
+    it('should number invoices without gaps', async () => {
+      const pending = await setupBooking('PENDING', 'pending@example.com');
+      const first = await setupBooking('CONFIRMED', 'first@example.com');
+      const second = await setupBooking('RETURNED', 'second@example.com');
+
+      const refused = await getInvoice(pending.booking.id, pending.token);
+      await getInvoice(first.booking.id, first.token);
+      await getInvoice(second.booking.id, second.token);
+
+      expect(refused.status).toBe(409);
+      const invoices = await prisma.invoice.findMany({ orderBy: { number: 'asc' } });
+      expect(invoices.map((invoice) => invoice.number)).toEqual([1, 2]);
+    });
+
+    it("should not let a customer download someone else's invoice", async () => {
+      const { booking } = await setupBooking();
+      const other = await createTestUser({ email: 'other@example.com' });
+
+      const response = await getInvoice(booking.id, generateTestToken(other.id, other.email).accessToken);
+
+      expect(response.status).toBe(403);
+      expect(await prisma.invoice.count()).toBe(0);
+    });
+  });
+
+  describe('PATCH /api/bookings/:id', () => {
+    it('should not modify a booking once its invoice has been issued', async () => {
+      const { booking, token } = await setupBooking();
+      await getInvoice(booking.id, token);
+
+      const response = await request(app)
+        .patch(`/api/bookings/${booking.id}`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ addonIds: [] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('BOOKING_INVOICED');
+      expect(await prisma.auditLog.count({ where: { action: 'BOOKING_MODIFIED' } })).toBe(0);
+    });
+  });
+});
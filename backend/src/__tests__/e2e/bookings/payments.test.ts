@@ -0,0 +1,183 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { UserRole } from '@prisma/client';
+import {
+  cleanDatabase,
+  createTestUser,
+  createTestAdmin,
+  createTestCar,
+  createTestLocation,
+  createTestBooking,
+  daysFromNow,
+} from '../../helpers/testDb.js';
+import { prisma } from '../../../infrastructure/database/prisma.js';
+
+describe('Payments E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  async function setupBooking() {
+    const customer = await createTestUser();
+    const location = await createTestLocation();
+    const car = await createTestCar({ currentLocationId: location.id });
+    const booking = await createTestBooking(customer.id, car.id, location.id, location.id, {
+      startDate: daysFromNow(10),
+      endDate: daysFromNow(12),
+    });
+    const token = generateTestToken(customer.id, customer.email).accessToken;
+    return { customer, booking, token };
+  }
+
+  describe('POST /api/bookings/:id/payments', () => {
+    it('should confirm a PENDING booking once it is fully paid', async () => {
+      const { booking, token } = await setupBooking();
+
+      const deposit = await request(app)
+        .post(`/api/bookings/${booking.id}/payments`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ amount: 500000, paymentMethod: 'fake_success' });
+
+      expect(deposit.status).toBe(201);
+      expect(deposit.body.data.payment.status).toBe('SUCCEEDED');
+      expect(deposit.body.data.booking.status).toBe('PENDING');
+
+      const balance = await request(app)
+        .post(`/api/bookings/${booking.id}/payments`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ paymentMethod: 'fake_success' });
+
+      expect(balance.status).toBe(201);
+      expect(Number(balance.body.data.payment.amount)).toBe(1500000);
+      expect(balance.body.data.booking.status).toBe('CONFIRMED');
+      expect(balance.body.data.booking.payments).toHaveLength(2);
+    });
+
+    it('should keep a declined payment on record and answer 402', async () => {
+      const { booking, token } = await setupBooking();
+
+      const response = await request(app)
+        .post(`/api/bookings/${booking.id}/payments`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ paymentMethod: 'fake_decline' });
+
+      expect(response.status).toBe(402);
+      expect(response.body.error.code).toBe('PAYMENT_DECLINED');
+      const payment = await prisma.payment.findFirst({ where: { bookingId: booking.id } });
+      expect(payment?.status).toBe('FAILED');
+      const unchanged = await prisma.booking.findUnique({ where: { id: booking.id } });
+      expect(unchanged?.status).toBe('PENDING');
+    });
+
+    it('should leave an asynchronous payment PENDING', async () => {
+      const { booking, token } = await setupBooking();
+
+      const response = await request(app)
+        .post(`/api/bookings/${booking.id}/payments`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ paymentMethod: 'fake_async' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.payment.status).toBe('PENDING');
+      expect(response.body.data.booking.status).toBe('PENDING');
+    });
+
+    it('should refuse more than the outstanding balance', async () => {
+      const { booking, token } = await setupBooking();
+
+      const response = await request(app)
+        .post(`/api/bookings/${booking.id}/payments`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ amount: 2500000, paymentMethod: 'fake_success' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.amount).toBeDefined();
+      expect(await prisma.payment.count({ where: { bookingId: booking.id } })).toBe(0);
+    });
+
+    it('should let only one of two concurrent payments take the balance', async () => {
+      const { booking, token } = await setupBooking();
+
+      const responses = await Promise.all(
+        [1, 2].map(() =>
+          request(app)
+            .post(`/api/bookings/${booking.id}/payments`)
+            .set('Authorization', getAuthHeader(token))
+            .send({ paymentMethod: 'fake_success' })
+        )
+      );
+
+      expect(responses.map((response) => response.status).sort()).toEqual([201, 409]);
+      const payments = await prisma.payment.findMany({ where: { bookingId: booking.id } });
+      expect(payments).toHaveLength(1);
+      expect(Number(payments[0].amount)).toBe(2000000);
+    });
+
+    it("should not let a customer pay for someone else's booking", async () => {
+      const { booking } = await setupBooking();
+      const other = await createTestUser({ email: 'other@example.com' });
+
+      const response = await request(app)
+        .post(`/api/bookings/${booking.id}/payments`)
+        .set('Authorization', getAuthHeader(generateTestToken(other.id, other.email).accessToken))
+        .send({ paymentMethod: 'fake_success' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Refunds on cancellation', () => {
+    it('should refund what was paid when cancelling within the free period', async () => {
+      const { booking, token } = await setupBooking();
+      await request(app)
+        .post(`/api/bookings/${booking.id}/payments`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ paymentMethod: 'fake_success' });
+
+      const response = await request(app)
+        .post(`/api/bookings/${booking.id}/cancel`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ reason: 'Plans changed' });
+
+      expect(response.status).toBe(200);
+      const refunds = await prisma.refund.findMany({ where: { bookingId: booking.id } });
+      expect(refunds).toHaveLength(1);
+      expect(Number(refunds[0].amount)).toBe(2000000);
+      expect(refunds[0].status).toBe('SUCCEEDED');
+    });
+
+    it('should not create a refund for an unpaid booking', async () => {
+      const { booking, token } = await setupBooking();
+
+      await request(app)
+        .post(`/api/bookings/${booking.id}/cancel`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ reason: 'Plans changed' });
+
+      expect(await prisma.refund.count({ where: { bookingId: booking.id } })).toBe(0);
+    });
+
+    it('should refund a paid booking cancelled by staff', async () => {
+      const { booking, token } = await setupBooking();
+      await request(app)
+        .post(`/api/bookings/${booking.id}/payments`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ paymentMethod: 'fake_success' });
+      const admin = await createTestAdmin();
+
+      const response = await request(app)
+        .patch(`/api/admin/bookings/${booking.id}/status`)
+        .set('Authorization', getAuthHeader(generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken))
+        .send({ status: 'CANCELLED', reason: 'Car off the road' });
+
+      expect(response.status).toBe(200);
+      const cancelled = await prisma.booking.findUnique({ where: { id: booking.id } });
+      expect(cancelled?.cancelReason).toBe('Car off the road');
+      expect(Number(cancelled?.cancellationFee)).toBe(0);
+      expect(Number(cancelled?.refundAmount)).toBe(2000000);
+      const refunds = await prisma.refund.findMany({ where: { bookingId: booking.id } });
+      expect(refunds).toHaveLength(1);
+      expect(Number(refunds[0].amount)).toBe(2000000);
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import request from 'supertest';
 import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
-import { cleanDatabase, createTestUser, createTestAdmin, createTestCar } from '../../helpers/testDb.js';
+import { cleanDatabase, createTestUser, createTestAdmin, createTestCar, createTestLocation, createTestBooking, daysFromNow } from '../../helpers/testDb.js';
 import { UserRole } from '@prisma/client';
+import { MAX_RENTAL_DAYS } from '../../../shared/constants/index.js';
 
 describe('Cars E2E Tests', () => {
   beforeEach(async () => {
@@ -96,6 +97,42 @@ describe('Cars E2E Tests', () => {
     });
   });
 
+  describe('GET /api/cars/:id/price', () => {
+    it('should price each day of the rental', async () => {
+      const car = await createTestCar();
+
+      const response = await request(app)
+        .get(`/api/cars/${car.id}/price`)
+        .query({ startDate: daysFromNow(10).toISOString(), endDate: daysFromNow(13).toISOString() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.days).toBe(3);
+      expect(response.body.data.dailyRates).toHaveLength(3);
+    });
+
+    it('should reject a start date in the past', async () => {
+      const car = await createTestCar();
+
+      const response = await request(app)
+        .get(`/api/cars/${car.id}/price`)
+        .query({ startDate: daysFromNow(-3).toISOString(), endDate: daysFromNow(2).toISOString() });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.startDate).toBeDefined();
+    });
+
+    it('should reject a rental longer than the maximum', async () => {
+      const car = await createTestCar();
+
+      const response = await request(app)
+        .get(`/api/cars/${car.id}/price`)
+        .query({ startDate: daysFromNow(1).toISOString(), endDate: daysFromNow(MAX_RENTAL_DAYS + 2).toISOString() });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.details.fields.endDate).toBeDefined();
+    });
+  });
+
   describe('POST /api/cars', () => {
     it('should create a car as admin', async () => {
       const admin = await createTestAdmin();
@@ -189,4 +226,129 @@ describe('Cars E2E Tests', () => {
       expect(response.status).toBe(404);
     });
   });
+
+  describe('Car blackouts', () => {
+    it('should block availability during a blackout', async () => {
+      const admin = await createTestAdmin();
+      const car = await createTestCar();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const createResponse = await request(app)
+        .post(`/api/admin/cars/${car.id}/blackouts`)
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          reason: 'Scheduled service',
+          startDate: '2026-03-01T00:00:00.000Z',
+          endDate: '2026-03-03T00:00:00.000Z',
+        });
+
+      expect(createResponse.status).toBe(201);
+      expect(createResponse.body.data.affectedBookings).toEqual([]);
+
+      const response = await request(app)
+        .get(`/api/cars/${car.id}/availability`)
+        .query({ startDate: '2026-03-02T00:00:00.000Z', endDate: '2026-03-05T00:00:00.000Z' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.available).toBe(false);
+      expect(response.body.data.conflictingBlackouts).toHaveLength(1);
+      expect(response.body.data.conflictingBlackouts[0].reason).toBe('Scheduled service');
+    });
+
+    it('should reject a blackout overlapping bookings unless forced', async () => {
+      const admin = await createTestAdmin();
+      const user = await createTestUser();
+      const car = await createTestCar();
+      const location = await createTestLocation();
+      const booking = await createTestBooking(user.id, car.id, location.id, location.id, {
+        startDate: new Date('2026-03-01'),
+        endDate: new Date('2026-03-04'),
+      });
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+      const body = {
+        reason: 'Accident repair',
+        startDate: '2026-03-02T00:00:00.000Z',
+        endDate: '2026-03-06T00:00:00.000Z',
+      };
+
+      const rejected = await request(app)
+        .post(`/api/admin/cars/${car.id}/blackouts`)
+        .set('Authorization', getAuthHeader(token))
+        .send(body);
+
+      expect(rejected.status).toBe(409);
+      expect(rejected.body.error.code).toBe('BLACKOUT_OVERLAPS_BOOKINGS');
+
+      const forced = await request(app)
+        .post(`/api/admin/cars/${car.id}/blackouts`)
+        .set('Authorization', getAuthHeader(token))
+        .send({ ...body, force: true });
+
+      expect(forced.status).toBe(201);
+      expect(forced.body.data.affectedBookings.map((b: { id: string }) => b.id)).toEqual([booking.id]);
+    });
+
+    it('should delete a blackout', async () => {
+      const admin = await createTestAdmin();
+      const car = await createTestCar();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const created = await request(app)
+        .post(`/api/admin/cars/${car.id}/blackouts`)
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          reason: 'Inspection',
+          startDate: '2026-03-01T00:00:00.000Z',
+          endDate: '2026-03-02T00:00:00.000Z',
+        });
+
+      const response = await request(app)
+        .delete(`/api/admin/cars/${car.id}/blackouts/${created.body.data.blackout.id}`)
+        .set('Authorization', getAuthHeader(token));
+
+      expect(response.status).toBe(204);
+
+      const list = await request(app)
+        .get(`/api/admin/cars/${car.id}/blackouts`)
+        .set('Authorization', getAuthHeader(token));
+
+      expect(list.body.data).toEqual([]);
+    });
+  });
+
+  describe('GET /api/cars with pickupLocationId', () => {
+    it('should only list cars parked at the pickup location', async () => {
+      const airport = await createTestLocation();
+      const downtown = await createTestLocation({ name: 'Jakarta Downtown' });
+      await createTestCar({ model: 'Airport Car', currentLocationId: airport.id });
+      await createTestCar({ model: 'Downtown Car', currentLocationId: downtown.id });
+
+      const response = await request(app).get(`/api/cars?pickupLocationId=${airport.id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((car: { model: string }) => car.model)).toEqual(['Airport Car']);
+    });
+
+    it('should place a car at the dropoff location of its previous booking', async () => {
+      const user = await createTestUser();
+      const airport = await createTestLocation();
+      const downtown = await createTestLocation({ name: 'Jakarta Downtown' });
+      const car = await createTestCar({ currentLocationId: airport.id });
+      await createTestBooking(user.id, car.id, airport.id, downtown.id, {
+        startDate: new Date('2026-03-01'),
+        endDate: new Date('2026-03-04'),
+        status: 'CONFIRMED',
+      });
+
+      const before = await request(app)
+        .get(`/api/cars?pickupLocationId=${airport.id}`)
+        .query({ startDate: '2026-02-20T00:00:00.000Z', endDate: '2026-02-25T00:00:00.000Z' });
+      const after = await request(app)
+        .get(`/api/cars?pickupLocationId=${downtown.id}`)
+        .query({ startDate: '2026-03-10T00:00:00.000Z', endDate: '2026-03-12T00:00:00.000Z' });
+
+      expect(before.body.data.map((c: { id: string }) => c.id)).toEqual([car.id]);
+      expect(after.body.data.map((c: { id: string }) => c.id)).toEqual([car.id]);
+    });
+  });
 });
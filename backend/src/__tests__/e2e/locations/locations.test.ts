@@ -0,0 +1,86 @@
+import request from 'supertest';
+import { app, generateTestToken, getAuthHeader } from '../../helpers/testApp.js';
+import { cleanDatabase, createTestAdmin, createTestLocation } from '../../helpers/testDb.js';
+import { UserRole } from '@prisma/client';
+
+describe('Locations E2E Tests', () => {
+  beforeEach(async () => {
+    await cleanDatabase();
+  });
+
+  describe('POST /api/admin/locations', () => {
+    it('should create a location with opening hours and closures', async () => {
+      const admin = await createTestAdmin();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          name: 'Bali Canggu',
+          address: 'Jl. Batu Bolong',
+          openingHours: [
+            { dayOfWeek: 1, opensAt: '08:00', closesAt: '18:00' },
+            { dayOfWeek: 2, opensAt: '08:00', closesAt: '18:00' },
+          ],
+          closures: [{ date: '2026-03-19T00:00:00.000Z', reason: 'Nyepi' }],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.openingHours).toHaveLength(2);
+      expect(response.body.data.closures[0].reason).toBe('Nyepi');
+    });
+
+    it('should reject opening hours that close before they open', async () => {
+      const admin = await createTestAdmin();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .set('Authorization', getAuthHeader(token))
+        .send({
+          name: 'Bali Canggu',
+          openingHours: [{ dayOfWeek: 1, opensAt: '18:00', closesAt: '08:00' }],
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 409 for a duplicate name', async () => {
+      const admin = await createTestAdmin();
+      await createTestLocation({ name: 'Bali Canggu' });
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const response = await request(app)
+        .post('/api/admin/locations')
+        .set('Authorization', getAuthHeader(token))
+        .send({ name: 'Bali Canggu' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('LOCATION_NAME_EXISTS');
+    });
+  });
+
+  describe('DELETE /api/admin/locations/:id', () => {
+    it('should hide a deactivated location from customers', async () => {
+      const admin = await createTestAdmin();
+      const location = await createTestLocation();
+      const token = generateTestToken(admin.id, admin.email, UserRole.ADMIN).accessToken;
+
+      const response = await request(app)
+        .delete(`/api/admin/locations/${location.id}`)
+        .set('Authorization', getAuthHeader(token));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.isActive).toBe(false);
+
+      const publicList = await request(app).get('/api/locations');
+      expect(publicList.body.data).toEqual([]);
+
+      const adminList = await request(app)
+        .get('/api/admin/locations')
+        .set('Authorization', getAuthHeader(token));
+      expect(adminList.body.data).toHaveLength(1);
+    });
+  });
+});
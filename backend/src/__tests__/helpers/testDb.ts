@@ -1,16 +1,54 @@
 import { prisma } from '../../infrastructure/database/prisma.js';
-import { UserRole, CarType, Transmission, FuelType, BookingStatus, CarStatus } from '@prisma/client';
+import {
+  UserRole,
+  CarType,
+  Transmission,
+  FuelType,
+  BookingStatus,
+  CarStatus,
+  AddonPricingMode,
+  DriverVerificationStatus,
+} from '@prisma/client';
 import bcrypt from 'bcryptjs';
 
 export async function cleanDatabase() {
   // Delete in correct order to respect foreign keys
+  await prisma.idempotencyKey.deleteMany();
+  await prisma.pricingRule.deleteMany();
+  await prisma.chargeRule.deleteMany();
+  await prisma.carBlackout.deleteMany();
+  await prisma.locationFee.deleteMany();
+  await prisma.locationOpeningHours.deleteMany();
+  await prisma.locationClosure.deleteMany();
   await prisma.auditLog.deleteMany();
   await prisma.bookingAddon.deleteMany();
+  await prisma.bookingCharge.deleteMany();
+  await prisma.addonStock.deleteMany();
+  await prisma.staffLocation.deleteMany();
+  await prisma.invoice.deleteMany();
+  await prisma.invoiceCounter.updateMany({ data: { lastNumber: 0 } });
+  await prisma.deposit.deleteMany();
+  await prisma.refund.deleteMany();
+  await prisma.payment.deleteMany();
   await prisma.booking.deleteMany();
+  await prisma.promoCode.deleteMany();
   await prisma.addon.deleteMany();
   await prisma.location.deleteMany();
   await prisma.car.deleteMany();
+  await prisma.refreshToken.deleteMany();
+  await prisma.userToken.deleteMany();
+  await prisma.recoveryCode.deleteMany();
   await prisma.user.deleteMany();
+  // Built-in roles come from the migration and are kept
+  await prisma.staffRole.deleteMany({ where: { isBuiltIn: false } });
+}
+
+// Midnight UTC the given number of days from today
+export function daysFromNow(days: number): Date {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
 }
 
 export async function createTestUser(overrides?: any) {
@@ -21,10 +59,27 @@ export async function createTestUser(overrides?: any) {
       name: overrides?.name || 'Test User',
       passwordHash,
       role: overrides?.role || UserRole.CUSTOMER,
+      emailVerifiedAt: overrides?.emailVerifiedAt !== undefined ? overrides.emailVerifiedAt : new Date(),
+      staffRoleId: overrides?.staffRoleId ?? null,
+      dateOfBirth: overrides?.dateOfBirth ?? null,
+      driverLicenseNumber: overrides?.driverLicenseNumber ?? null,
+      driverLicenseCountry: overrides?.driverLicenseCountry ?? null,
+      driverLicenseExpiresAt: overrides?.driverLicenseExpiresAt ?? null,
+      driverVerificationStatus: overrides?.driverVerificationStatus || DriverVerificationStatus.UNVERIFIED,
+      driverLicenseSubmittedAt: overrides?.driverLicenseSubmittedAt ?? null,
     },
   });
 }
 
+// Driver details that pass the pickup checks for any car type
+export const VERIFIED_DRIVER = {
+  dateOfBirth: new Date('1990-01-01'),
+  driverLicenseNumber: 'B1234567',
+  driverLicenseCountry: 'ID',
+  driverLicenseExpiresAt: new Date('2035-12-31'),
+  driverVerificationStatus: DriverVerificationStatus.VERIFIED,
+};
+
 export async function createTestAdmin() {
   return createTestUser({
     email: 'admin@example.com',
@@ -33,6 +88,32 @@ export async function createTestAdmin() {
   });
 }
 
+export async function createTestStaffRole(overrides?: any) {
+  return prisma.staffRole.create({
+    data: {
+      name: overrides?.name || 'Counter Agent',
+      description: overrides?.description ?? null,
+      permissions: overrides?.permissions || ['booking:read', 'booking:status:pickup', 'booking:status:return'],
+    },
+  });
+}
+
+export async function createTestStaff(permissions?: string[], locationIds: string[] = []) {
+  const staffRole = await createTestStaffRole(permissions ? { permissions } : undefined);
+  const staff = await createTestUser({
+    email: 'staff@example.com',
+    name: 'Test Staff',
+    role: UserRole.STAFF,
+    staffRoleId: staffRole.id,
+  });
+  if (locationIds.length > 0) {
+    await prisma.staffLocation.createMany({
+      data: locationIds.map((locationId) => ({ userId: staff.id, locationId })),
+    });
+  }
+  return staff;
+}
+
 export async function createTestCar(overrides?: any) {
   return prisma.car.create({
     data: {
@@ -46,6 +127,7 @@ export async function createTestCar(overrides?: any) {
       dailyPrice: overrides?.dailyPrice || '500000',
       status: overrides?.status || CarStatus.ACTIVE,
       images: overrides?.images || ['camry-1.jpg'],
+      currentLocationId: overrides?.currentLocationId ?? null,
     },
   });
 }
@@ -65,7 +147,8 @@ export async function createTestAddon(overrides?: any) {
     data: {
       name: overrides?.name || 'GPS Navigation',
       description: overrides?.description || 'GPS device rental',
-      pricePerBooking: overrides?.pricePerBooking || '50000',
+      price: overrides?.price || '50000',
+      pricingMode: overrides?.pricingMode || AddonPricingMode.PER_BOOKING,
       isActive: overrides?.isActive !== undefined ? overrides.isActive : true,
     },
   });
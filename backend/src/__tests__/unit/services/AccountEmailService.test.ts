@@ -0,0 +1,70 @@
+import { UserTokenType } from '@prisma/client';
+import { AccountEmailService } from '../../../application/services/AccountEmailService.js';
+import { IUserTokenRepository } from '../../../domain/repositories/index.js';
+import { hashOpaqueToken } from '../../../infrastructure/auth/index.js';
+import { Mailer } from '../../../infrastructure/mail/index.js';
+
+const user = { id: 'user-1', email: 'test@example.com', name: 'Test User' };
+
+function buildRepository() {
+  return {
+    create: jest.fn().mockResolvedValue(undefined),
+    consume: jest.fn(),
+    invalidateAll: jest.fn().mockResolvedValue(undefined),
+  } as unknown as jest.Mocked<IUserTokenRepository>;
+}
+
+function buildMailer(send = jest.fn().mockResolvedValue(undefined)): jest.Mocked<Mailer> {
+  return { send } as jest.Mocked<Mailer>;
+}
+
+function linkTokenOf(mailer: jest.Mocked<Mailer>): string {
+  const text: string = mailer.send.mock.calls[0][0].text;
+  const match = text.match(/token=([\w-]+)/);
+  return match ? match[1] : '';
+}
+
+describe('AccountEmailService', () => {
+  it('should email a verification link and store only the hash of its token', async () => {
+    const repository = buildRepository();
+    const mailer = buildMailer();
+    const service = new AccountEmailService(repository, mailer);
+
+    await service.sendVerificationEmail(user);
+
+    const token = linkTokenOf(mailer);
+    expect(mailer.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: user.email, text: expect.stringContaining('/verify-email?token=') })
+    );
+    expect(repository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: user.id,
+        type: UserTokenType.EMAIL_VERIFICATION,
+        tokenHash: hashOpaqueToken(token),
+      })
+    );
+  });
+
+  it('should invalidate earlier reset links before issuing a new one', async () => {
+    const repository = buildRepository();
+    const mailer = buildMailer();
+    const service = new AccountEmailService(repository, mailer);
+
+    await service.sendPasswordResetEmail(user);
+
+    expect(repository.invalidateAll).toHaveBeenCalledWith(user.id, UserTokenType.PASSWORD_RESET);
+    expect(repository.invalidateAll.mock.invocationCallOrder[0])
+      .toBeLessThan(repository.create.mock.invocationCallOrder[0]);
+
+    const { expiresAt } = repository.create.mock.calls[0][0];
+    expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+  });
+
+  it('should not throw when the mailer fails', async () => {
+    const repository = buildRepository();
+    const mailer = buildMailer(jest.fn().mockRejectedValue(new Error('SMTP down')));
+    const service = new AccountEmailService(repository, mailer);
+
+    await expect(service.sendPasswordResetEmail(user)).resolves.toBeUndefined();
+  });
+});
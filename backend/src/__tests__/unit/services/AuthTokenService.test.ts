@@ -0,0 +1,71 @@
+import { RefreshToken, UserRole } from '@prisma/client';
+import { AuthTokenService } from '../../../application/services/AuthTokenService.js';
+import { IRefreshTokenRepository } from '../../../domain/repositories/index.js';
+import { hashRefreshToken } from '../../../infrastructure/auth/index.js';
+
+const user = { id: 'user-1', email: 'test@example.com', role: UserRole.CUSTOMER };
+
+function buildStoredToken(overrides: Partial<RefreshToken> = {}): RefreshToken {
+  return {
+    id: 'token-1',
+    userId: user.id,
+    familyId: 'family-1',
+    tokenHash: 'hash',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revokedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function buildRepository(stored: RefreshToken | null, revoked: boolean = true) {
+  return {
+    create: jest.fn().mockImplementation(async (data) => buildStoredToken(data)),
+    findByHash: jest.fn().mockResolvedValue(stored),
+    revoke: jest.fn().mockResolvedValue(revoked),
+    revokeFamily: jest.fn().mockResolvedValue(undefined),
+  } as unknown as jest.Mocked<IRefreshTokenRepository>;
+}
+
+describe('AuthTokenService', () => {
+  it('should store only the hash of a newly issued refresh token', async () => {
+    const repository = buildRepository(null);
+    const service = new AuthTokenService(repository);
+
+    const tokens = await service.issue(user, 'family-1');
+
+    expect(tokens.accessToken).toBeDefined();
+    expect(repository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: user.id,
+        familyId: 'family-1',
+        tokenHash: hashRefreshToken(tokens.refreshToken),
+      })
+    );
+  });
+
+  it('should consume an active refresh token once', async () => {
+    const repository = buildRepository(buildStoredToken());
+    const service = new AuthTokenService(repository);
+
+    await expect(service.consume('token')).resolves.toEqual({ userId: user.id, familyId: 'family-1' });
+    expect(repository.findByHash).toHaveBeenCalledWith(hashRefreshToken('token'));
+    expect(repository.revokeFamily).not.toHaveBeenCalled();
+  });
+
+  it('should revoke the whole family when a used token is presented again', async () => {
+    const repository = buildRepository(buildStoredToken({ revokedAt: new Date() }), false);
+    const service = new AuthTokenService(repository);
+
+    await expect(service.consume('token')).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+    expect(repository.revokeFamily).toHaveBeenCalledWith('family-1');
+  });
+
+  it('should reject an expired refresh token', async () => {
+    const repository = buildRepository(buildStoredToken({ expiresAt: new Date(Date.now() - 1000) }));
+    const service = new AuthTokenService(repository);
+
+    await expect(service.consume('token')).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    expect(repository.revoke).not.toHaveBeenCalled();
+  });
+});
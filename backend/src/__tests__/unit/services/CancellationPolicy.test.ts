@@ -0,0 +1,40 @@
+import { Prisma } from '@prisma/client';
+import { CancellationPolicy } from '../../../application/services/CancellationPolicy.js';
+
+const policy = new CancellationPolicy([
+  { minHoursBeforeStart: 48, feePercent: 0 },
+  { minHoursBeforeStart: 0, feePercent: 50 },
+]);
+
+const booking = {
+  startDate: new Date('2026-03-10T00:00:00Z'),
+  totalPrice: new Prisma.Decimal(1000000),
+};
+
+describe('CancellationPolicy', () => {
+  it('should be free before the free cancellation cutoff', () => {
+    const terms = policy.evaluate(booking, new Date('2026-03-07T00:00:00Z'));
+
+    expect(terms.allowed).toBe(true);
+    expect(terms.feePercent).toBe(0);
+    expect(terms.cancellationFee).toBe(0);
+    expect(terms.refundAmount).toBe(1000000);
+  });
+
+  it('should charge the late fee inside the cutoff', () => {
+    const terms = policy.evaluate(booking, new Date('2026-03-09T12:00:00Z'));
+
+    expect(terms.allowed).toBe(true);
+    expect(terms.hoursBeforeStart).toBe(12);
+    expect(terms.cancellationFee).toBe(500000);
+    expect(terms.refundAmount).toBe(500000);
+  });
+
+  it('should not allow cancellation or refund once the start date is reached', () => {
+    const terms = policy.evaluate(booking, new Date('2026-03-10T00:00:00Z'));
+
+    expect(terms.allowed).toBe(false);
+    expect(terms.cancellationFee).toBe(1000000);
+    expect(terms.refundAmount).toBe(0);
+  });
+});
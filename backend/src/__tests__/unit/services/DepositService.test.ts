@@ -0,0 +1,127 @@
+import { CarType, CarTypeDeposit, Deposit, DepositStatus, Payment, PaymentStatus } from '@prisma/client';
+import { DepositService } from '../../../application/services/DepositService.js';
+import { ConflictError, PaymentRequiredError, ValidationError } from '../../../domain/errors/index.js';
+import { DepositOutcome, IDepositRepository, IPaymentRepository } from '../../../domain/repositories/index.js';
+import { FakePaymentGateway, FAKE_PAYMENT_METHODS } from '../../../infrastructure/payments/index.js';
+
+const booking = { id: 'b1' };
+
+// Deposits kept in memory so the service sees its own writes
+function buildDepositRepository(configured: Partial<Record<CarType, number>>, deposits: Deposit[] = []) {
+  const repository = {
+    findCarTypeDeposit: jest.fn(async (carType: CarType) =>
+      configured[carType] === undefined ? null : ({ carType, amount: configured[carType] } as unknown as CarTypeDeposit)
+    ),
+    findByBookingId: jest.fn(async (bookingId: string) => deposits.find((d) => d.bookingId === bookingId) ?? null),
+    start: jest.fn(async (bookingId: string, amount: number, gateway: string) => {
+      const deposit = { id: 'd1', bookingId, amount, gateway, status: DepositStatus.PENDING } as unknown as Deposit;
+      deposits.splice(0, deposits.length, deposit);
+      return deposit;
+    }),
+    recordOutcome: jest.fn(async (id: string, outcome: DepositOutcome) => {
+      const deposit = deposits.find((d) => d.id === id)!;
+      Object.assign(deposit, outcome);
+      return deposit;
+    }),
+  };
+  return repository as unknown as jest.Mocked<IDepositRepository>;
+}
+
+function setup(configured: Partial<Record<CarType, number>> = { SEDAN: 1000 }, payments: Payment[] = []) {
+  const deposits: Deposit[] = [];
+  const gateway = new FakePaymentGateway();
+  const depositRepository = buildDepositRepository(configured, deposits);
+  const paymentRepository = {
+    findByBookingId: jest.fn().mockResolvedValue(payments),
+  } as unknown as jest.Mocked<IPaymentRepository>;
+
+  return {
+    service: new DepositService(depositRepository, paymentRepository, gateway),
+    depositRepository,
+    deposits,
+  };
+}
+
+describe('DepositService', () => {
+  describe('hold', () => {
+    it('should hold the car type deposit on the card presented', async () => {
+      const { service } = setup();
+
+      const deposit = await service.hold(booking, CarType.SEDAN, FAKE_PAYMENT_METHODS.SUCCESS);
+
+      expect(deposit?.status).toBe(DepositStatus.HELD);
+      expect(deposit?.gatewayReference).toMatch(/^fake_hd_/);
+      expect(Number(deposit?.amount)).toBe(1000);
+    });
+
+    it('should take no deposit for a car type without one', async () => {
+      const { service, depositRepository } = setup({ SEDAN: 1000, SUV: 0 });
+
+      expect(await service.hold(booking, CarType.SUV)).toBeNull();
+      expect(await service.hold(booking, CarType.VAN)).toBeNull();
+      expect(depositRepository.start).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the card the booking was paid with', async () => {
+      const paid = { status: PaymentStatus.SUCCEEDED, gateway: 'fake', gatewayReference: 'fake_ch_1' } as Payment;
+      const { service } = setup({ SEDAN: 1000 }, [paid]);
+
+      const deposit = await service.hold(booking, CarType.SEDAN);
+
+      expect(deposit?.status).toBe(DepositStatus.HELD);
+    });
+
+    it('should ask for a card when the booking was not paid by card', async () => {
+      const { service } = setup();
+
+      await expect(service.hold(booking, CarType.SEDAN)).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should record a declined hold and refuse with a 402', async () => {
+      const { service, deposits } = setup();
+
+      await expect(service.hold(booking, CarType.SEDAN, FAKE_PAYMENT_METHODS.DECLINE)).rejects.toBeInstanceOf(
+        PaymentRequiredError
+      );
+      expect(deposits[0].status).toBe(DepositStatus.FAILED);
+      expect(deposits[0].failureReason).toBe('Card declined');
+    });
+  });
+
+  describe('settle', () => {
+    it('should release the whole deposit when nothing is kept', async () => {
+      const { service } = setup();
+      await service.hold(booking, CarType.SEDAN, FAKE_PAYMENT_METHODS.SUCCESS);
+
+      const deposit = await service.settle('b1');
+
+      expect(deposit?.status).toBe(DepositStatus.RELEASED);
+      expect(deposit?.settledAt).toBeInstanceOf(Date);
+    });
+
+    it('should capture part of the deposit for damages', async () => {
+      const { service } = setup();
+      await service.hold(booking, CarType.SEDAN, FAKE_PAYMENT_METHODS.SUCCESS);
+
+      const deposit = await service.settle('b1', { amount: 250, reason: 'Scratched bumper' });
+
+      expect(deposit?.status).toBe(DepositStatus.CAPTURED);
+      expect(deposit?.capturedAmount).toBe(250);
+      expect(deposit?.captureReason).toBe('Scratched bumper');
+    });
+
+    it('should refuse to capture more than was held', async () => {
+      const { service } = setup();
+      await service.hold(booking, CarType.SEDAN, FAKE_PAYMENT_METHODS.SUCCESS);
+
+      await expect(service.settle('b1', { amount: 1500, reason: 'Write-off' })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('should refuse a capture when no deposit is held', async () => {
+      const { service } = setup();
+
+      expect(await service.settle('b1')).toBeNull();
+      await expect(service.settle('b1', { amount: 100, reason: 'Fuel' })).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+});
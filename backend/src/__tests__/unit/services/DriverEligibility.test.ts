@@ -0,0 +1,82 @@
+import { DriverVerificationStatus } from '@prisma/client';
+import { DriverEligibilityPolicy, ageOn } from '../../../application/services/DriverEligibility.js';
+
+const policy = new DriverEligibilityPolicy({ SEDAN: 21, VAN: 25 });
+
+const booking = {
+  startDate: new Date('2026-03-10'),
+  endDate: new Date('2026-03-14'),
+};
+
+const verifiedDriver = {
+  driverVerificationStatus: DriverVerificationStatus.VERIFIED,
+  dateOfBirth: new Date('1995-06-01'),
+  driverLicenseExpiresAt: new Date('2028-01-01'),
+};
+
+describe('DriverEligibilityPolicy', () => {
+  it('should accept a verified driver old enough with a license valid for the whole rental', () => {
+    const result = policy.evaluate(verifiedDriver, { type: 'SEDAN' }, booking);
+
+    expect(result).toEqual({ eligible: true, reasons: [], age: 30, minimumAge: 21 });
+  });
+
+  it('should require staff verification', () => {
+    const result = policy.evaluate(
+      { ...verifiedDriver, driverVerificationStatus: DriverVerificationStatus.PENDING },
+      { type: 'SEDAN' },
+      booking
+    );
+
+    expect(result.eligible).toBe(false);
+    expect(result.reasons).toEqual(['DRIVER_NOT_VERIFIED']);
+  });
+
+  it('should accept a license expiring on the return day but not the day before', () => {
+    const onReturnDay = policy.evaluate(
+      { ...verifiedDriver, driverLicenseExpiresAt: new Date('2026-03-14') },
+      { type: 'SEDAN' },
+      booking
+    );
+    const dayBefore = policy.evaluate(
+      { ...verifiedDriver, driverLicenseExpiresAt: new Date('2026-03-13') },
+      { type: 'SEDAN' },
+      booking
+    );
+
+    expect(onReturnDay.eligible).toBe(true);
+    expect(dayBefore.reasons).toEqual(['LICENSE_EXPIRES_BEFORE_RETURN']);
+  });
+
+  it('should apply the minimum age of the car type', () => {
+    const driver = { ...verifiedDriver, dateOfBirth: new Date('2003-01-01') };
+
+    expect(policy.evaluate(driver, { type: 'SEDAN' }, booking).eligible).toBe(true);
+    expect(policy.evaluate(driver, { type: 'VAN' }, booking)).toMatchObject({
+      eligible: false,
+      reasons: ['UNDER_MINIMUM_AGE'],
+      age: 23,
+      minimumAge: 25,
+    });
+  });
+
+  it('should report every failed check for a driver without details', () => {
+    const result = policy.evaluate(
+      { driverVerificationStatus: DriverVerificationStatus.UNVERIFIED, dateOfBirth: null, driverLicenseExpiresAt: null },
+      { type: 'SEDAN' },
+      booking
+    );
+
+    expect(result.reasons).toEqual(['DRIVER_NOT_VERIFIED', 'LICENSE_EXPIRES_BEFORE_RETURN', 'UNDER_MINIMUM_AGE']);
+    expect(result.age).toBeNull();
+  });
+});
+
+describe('ageOn', () => {
+  it('should only count a year once the birthday is reached', () => {
+    const dateOfBirth = new Date('2005-03-10');
+
+    expect(ageOn(dateOfBirth, new Date('2026-03-09'))).toBe(20);
+    expect(ageOn(dateOfBirth, new Date('2026-03-10'))).toBe(21);
+  });
+});
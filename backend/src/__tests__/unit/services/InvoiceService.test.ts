@@ -0,0 +1,144 @@
+import { BookingStatus, ChargeKind, Invoice } from '@prisma/client';
+import { BookingWithRelations, InvoiceContents } from '../../../domain/entities/index.js';
+import { InvoiceService, InvoiceSettings } from '../../../application/services/InvoiceService.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import { IInvoiceRepository } from '../../../domain/repositories/index.js';
+import { formatRupiah, renderInvoicePdf } from '../../../infrastructure/pdf/index.js';
+
+const settings: InvoiceSettings = {
+  numberPrefix: 'INV-',
+  company: { name: 'Car Rental', address: 'Jl. Sudirman 1', taxId: '01.234', email: 'billing@example.com', phone: '' },
+};
+
+const booking = {
+  id: 'b1',
+  status: BookingStatus.CONFIRMED,
+  days: 3,
+  basePrice: 1500000 as unknown,
+  dropFee: 250000 as unknown,
+  totalPrice: 2108500 as unknown,
+  startDate: new Date('2026-03-10'),
+  endDate: new Date('2026-03-13'),
+  user: { name: 'Test User', email: 'test@example.com' },
+  car: { brand: 'Toyota', model: 'Camry', year: 2024 },
+  pickupLocation: { name: 'Airport' },
+  dropoffLocation: { name: 'Downtown' },
+  bookingAddons: [{ price: 100000, addon: { name: 'GPS' } }],
+  charges: [
+    { kind: ChargeKind.FEE, name: 'Airport fee', ratePercent: null, amount: 50000 },
+    { kind: ChargeKind.TAX, name: 'PPN', ratePercent: 11, amount: 208500 },
+  ],
+} as unknown as BookingWithRelations;
+
+// Numbers handed out in order, as the counter row does
+function buildInvoiceRepository() {
+  const invoices: Invoice[] = [];
+  const repository = {
+    findByBookingId: jest.fn(async (bookingId: string) => invoices.find((i) => i.bookingId === bookingId) ?? null),
+    issue: jest.fn(async (bookingId: string, issuedAt: Date, build: (number: number) => InvoiceContents) => {
+      const number = invoices.length + 1;
+      const invoice = { id: `i${number}`, bookingId, number, issuedAt, contents: build(number) } as unknown as Invoice;
+      invoices.push(invoice);
+      return invoice;
+    }),
+  };
+  return repository as unknown as jest.Mocked<IInvoiceRepository>;
+}
+
+describe('InvoiceService', () => {
+  it('should invoice the price snapshot stored on the booking', async () => {
+    const service = new InvoiceService(buildInvoiceRepository(), settings);
+
+    const invoice = await service.issue(booking, new Date('2026-03-01T10:00:00Z'));
+
+    expect(invoice.number).toBe('INV-000001');
+    expect(invoice.lines).toEqual([
+      { description: 'Car rental, 3 days', amount: 1500000 },
+      { description: 'GPS', amount: 100000 },
+      { description: 'One-way drop fee', amount: 250000 },
+      { description: 'Airport fee', amount: 50000 },
+    ]);
+    expect(invoice.subtotal).toBe(1900000);
+    expect(invoice.taxLines).toEqual([{ name: 'PPN', ratePercent: 11, amount: 208500 }]);
+    expect(invoice.total).toBe(2108500);
+    expect(invoice.rental).toMatchObject({ car: 'Toyota Camry 2024', startDate: '2026-03-10', endDate: '2026-03-13' });
+  });
+
+  it('should show a promo code discount as a negative line', () => {
+    const service = new InvoiceService(buildInvoiceRepository(), settings);
+    const discounted = {
+      ...booking,
+      discountAmount: 300000,
+      promoCode: { code: 'SPRING20' },
+      charges: [],
+      totalPrice: 1550000,
+    } as unknown as BookingWithRelations;
+
+    const invoice = service.buildContents(discounted, 1, new Date('2026-03-01T10:00:00Z'));
+
+    expect(invoice.lines[invoice.lines.length - 1]).toEqual({ description: 'Promo code SPRING20', amount: -300000 });
+    expect(invoice.subtotal).toBe(1550000);
+  });
+
+  it('should hand out consecutive numbers and keep an issued invoice unchanged', async () => {
+    const repository = buildInvoiceRepository();
+    const service = new InvoiceService(repository, settings);
+
+    const first = await service.issue(booking);
+    const second = await service.issue({ ...booking, id: 'b2' } as BookingWithRelations);
+    const again = await new InvoiceService(repository, { ...settings, numberPrefix: 'NEW-' }).issue({
+      ...booking,
+      totalPrice: 999 as unknown,
+    } as BookingWithRelations);
+
+    expect([first.number, second.number]).toEqual(['INV-000001', 'INV-000002']);
+    expect(again).toEqual(first);
+    expect(repository.issue).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not invoice a booking that is not confirmed', async () => {
+    const repository = buildInvoiceRepository();
+    const service = new InvoiceService(repository, settings);
+
+    await expect(service.issue({ ...booking, status: BookingStatus.PENDING } as BookingWithRelations)).rejects.toBeInstanceOf(
+      ConflictError
+    );
+    expect(repository.issue).not.toHaveBeenCalled();
+  });
+});
+
+describe('renderInvoicePdf', () => {
+  const contents = new InvoiceService(buildInvoiceRepository(), settings).buildContents(
+    booking,
+    7,
+    new Date('2026-03-01T10:00:00Z')
+  );
+
+  it('should render the same bytes every time', () => {
+    const pdf = renderInvoicePdf(contents);
+
+    expect(pdf.subarray(0, 8).toString()).toBe('%PDF-1.4');
+    expect(renderInvoicePdf(JSON.parse(JSON.stringify(contents))).equals(pdf)).toBe(true);
+  });
+
+  it('should escape text that would end a PDF string', () => {
+    const pdf = renderInvoicePdf({ ...contents, billTo: { name: 'A (B) \\ C', email: '' } }).toString('latin1');
+
+    expect(pdf).toContain('(A \\(B\\) \\\\ C) Tj');
+    expect(pdf).toContain('(Number: INV-000007)');
+  });
+
+  it('should still render invoices issued with the tax included in the total', () => {
+    const { subtotal: _subtotal, ...issuedEarlier } = contents;
+
+    const pdf = renderInvoicePdf(issuedEarlier).toString('latin1');
+
+    expect(pdf).toContain('(Includes PPN 11%) Tj');
+    expect(pdf).not.toContain('(Subtotal) Tj');
+  });
+
+  it('should format rupiah with dots between thousands', () => {
+    expect(formatRupiah(1850000)).toBe('Rp 1.850.000');
+    expect(formatRupiah(183333.33)).toBe('Rp 183.333,33');
+  });
+});
@@ -0,0 +1,50 @@
+import { LocationWithSchedule } from '../../../domain/entities/index.js';
+import { closedReason } from '../../../application/services/LocationSchedule.js';
+
+function buildLocation(overrides: Partial<LocationWithSchedule> = {}): LocationWithSchedule {
+  return {
+    id: 'loc-1',
+    name: 'Jakarta Airport',
+    address: null,
+    isActive: true,
+    createdAt: new Date('2026-01-01'),
+    openingHours: [],
+    closures: [],
+    ...overrides,
+  };
+}
+
+// Monday to Friday, 08:00 - 18:00
+const weekdayHours = [1, 2, 3, 4, 5].map((dayOfWeek) => ({
+  id: `hours-${dayOfWeek}`,
+  locationId: 'loc-1',
+  dayOfWeek,
+  opensAt: '08:00',
+  closesAt: '18:00',
+}));
+
+describe('closedReason', () => {
+  it('should treat a location without opening hours as always open', () => {
+    // Sunday
+    expect(closedReason(buildLocation(), new Date('2026-02-08'))).toBeNull();
+  });
+
+  it('should be closed on days without opening hours', () => {
+    const location = buildLocation({ openingHours: weekdayHours });
+
+    expect(closedReason(location, new Date('2026-02-09'))).toBeNull();
+    expect(closedReason(location, new Date('2026-02-08'))).toBe('closed on Sundays');
+  });
+
+  it('should be closed on closure dates even when the weekday is open', () => {
+    const location = buildLocation({
+      openingHours: weekdayHours,
+      closures: [
+        { id: 'closure-1', locationId: 'loc-1', date: new Date('2026-12-25'), reason: 'Christmas', createdAt: new Date() },
+      ],
+    });
+
+    expect(closedReason(location, new Date('2026-12-25T00:00:00.000Z'))).toBe('closed on 2026-12-25 (Christmas)');
+    expect(closedReason(location, new Date('2026-12-24'))).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+import { Booking, BookingStatus, Payment, PaymentStatus, Refund } from '@prisma/client';
+import { PaymentService, LATE_PAYMENT_REFUND_REASON } from '../../../application/services/PaymentService.js';
+import { SettlePendingPaymentsUseCase } from '../../../application/use-cases/payment/index.js';
+import {
+  GatewayOutcome,
+  IAuditLogRepository,
+  IBookingRepository,
+  IPaymentRepository,
+} from '../../../domain/repositories/index.js';
+import { FakePaymentGateway, FAKE_PAYMENT_METHODS } from '../../../infrastructure/payments/index.js';
+
+function buildBooking(overrides: Partial<Booking> = {}): Booking {
+  return {
+    id: 'b1',
+    status: BookingStatus.PENDING,
+    totalPrice: 1000 as unknown,
+    ...overrides,
+  } as Booking;
+}
+
+function buildPayment(id: string, amount: number, status: PaymentStatus = PaymentStatus.SUCCEEDED): Payment {
+  return {
+    id,
+    bookingId: 'b1',
+    amount: amount as unknown,
+    status,
+    gateway: 'fake',
+    gatewayReference: `ref-${id}`,
+  } as Payment;
+}
+
+// Ledger kept in memory so the service sees its own writes
+function buildPaymentRepository(payments: Payment[] = [], refunds: Refund[] = []) {
+  const repository = {
+    create: jest.fn(async (data: { bookingId: string; amount: number; gateway: string }) => {
+      const payment = { ...buildPayment(`p${payments.length + 1}`, data.amount, PaymentStatus.PENDING), gatewayReference: null };
+      payments.push(payment);
+      return payment;
+    }),
+    findByBookingId: jest.fn(async () => payments),
+    findPending: jest.fn(async () => payments.filter((payment) => payment.status === PaymentStatus.PENDING)),
+    recordOutcome: jest.fn(async (id: string, outcome: GatewayOutcome) => {
+      const payment = payments.find((p) => p.id === id && p.status === PaymentStatus.PENDING);
+      if (!payment) return null;
+      Object.assign(payment, outcome);
+      return payment;
+    }),
+    createRefund: jest.fn(async (data: { paymentId: string; amount: number }) => {
+      const refund = {
+        id: `r${refunds.length + 1}`,
+        bookingId: 'b1',
+        paymentId: data.paymentId,
+        amount: data.amount,
+        gateway: 'fake',
+        status: PaymentStatus.PENDING,
+      } as unknown as Refund;
+      refunds.push(refund);
+      return refund;
+    }),
+    findRefundsByBookingId: jest.fn(async () => refunds),
+    findPendingRefunds: jest.fn(async () => refunds.filter((refund) => refund.status === PaymentStatus.PENDING)),
+    recordRefundOutcome: jest.fn(async (id: string, outcome: GatewayOutcome) => {
+      const refund = refunds.find((r) => r.id === id && r.status === PaymentStatus.PENDING);
+      if (!refund) return null;
+      Object.assign(refund, outcome);
+      return refund;
+    }),
+  };
+  return repository as unknown as jest.Mocked<IPaymentRepository>;
+}
+
+function setup(booking: Booking, payments: Payment[] = [], refunds: Refund[] = []) {
+  let now = new Date('2026-03-01T10:00:00Z').getTime();
+  const gateway = new FakePaymentGateway(5000, () => now);
+  const paymentRepository = buildPaymentRepository(payments, refunds);
+  const bookingRepository = {
+    findById: jest.fn().mockResolvedValue(booking),
+    confirmPending: jest.fn().mockResolvedValue(true),
+  } as unknown as jest.Mocked<IBookingRepository>;
+  const auditLogRepository = { create: jest.fn() } as unknown as jest.Mocked<IAuditLogRepository>;
+  const service = new PaymentService(paymentRepository, bookingRepository, auditLogRepository, gateway);
+
+  return {
+    service,
+    gateway,
+    paymentRepository,
+    bookingRepository,
+    auditLogRepository,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('PaymentService', () => {
+  describe('charge', () => {
+    it('should confirm a PENDING booking once it is fully paid', async () => {
+      const { service, bookingRepository, auditLogRepository } = setup(buildBooking());
+
+      const payment = await service.charge(buildBooking(), 1000, FAKE_PAYMENT_METHODS.SUCCESS);
+
+      expect(payment.status).toBe(PaymentStatus.SUCCEEDED);
+      expect(payment.gatewayReference).toMatch(/^fake_ch_/);
+      expect(bookingRepository.confirmPending).toHaveBeenCalledWith('b1');
+      expect(auditLogRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityId: 'b1',
+          action: 'STATUS_CHANGED_TO_CONFIRMED',
+          afterJson: { status: 'CONFIRMED', reason: 'Fully paid', paymentId: payment.id },
+        })
+      );
+    });
+
+    it('should leave a part-paid booking PENDING', async () => {
+      const { service, bookingRepository } = setup(buildBooking());
+
+      await service.charge(buildBooking(), 400, FAKE_PAYMENT_METHODS.SUCCESS);
+
+      expect(bookingRepository.confirmPending).not.toHaveBeenCalled();
+    });
+
+    it('should record a declined payment without confirming', async () => {
+      const { service, bookingRepository } = setup(buildBooking());
+
+      const payment = await service.charge(buildBooking(), 1000, FAKE_PAYMENT_METHODS.DECLINE);
+
+      expect(payment.status).toBe(PaymentStatus.FAILED);
+      expect(payment.failureReason).toBe('Card declined');
+      expect(bookingRepository.confirmPending).not.toHaveBeenCalled();
+    });
+
+    it('should confirm an asynchronous payment when the settlement sweep sees it succeed', async () => {
+      const { service, gateway, paymentRepository, bookingRepository, advance } = setup(buildBooking());
+      const settle = new SettlePendingPaymentsUseCase(paymentRepository, service, gateway);
+
+      const payment = await service.charge(buildBooking(), 1000, FAKE_PAYMENT_METHODS.ASYNC);
+      expect(payment.status).toBe(PaymentStatus.PENDING);
+      expect(await settle.execute()).toBe(0);
+
+      advance(5000);
+
+      expect(await settle.execute()).toBe(1);
+      expect(payment.status).toBe(PaymentStatus.SUCCEEDED);
+      expect(bookingRepository.confirmPending).toHaveBeenCalledWith('b1');
+    });
+
+    it('should refund a payment that settles after the booking was cancelled', async () => {
+      const { service, paymentRepository, bookingRepository } = setup(
+        buildBooking({ status: BookingStatus.CANCELLED })
+      );
+
+      const payment = await service.charge(buildBooking(), 1000, FAKE_PAYMENT_METHODS.SUCCESS);
+
+      expect(paymentRepository.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentId: payment.id, amount: 1000, reason: LATE_PAYMENT_REFUND_REASON })
+      );
+      expect(bookingRepository.confirmPending).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundBooking', () => {
+    it('should refund the newest payments first and skip what was already refunded', async () => {
+      const payments = [buildPayment('p1', 600), buildPayment('p2', 400), buildPayment('p3', 300, PaymentStatus.FAILED)];
+      const refunds = [
+        { id: 'r0', paymentId: 'p2', amount: 100, status: PaymentStatus.SUCCEEDED } as unknown as Refund,
+      ];
+      const { service, paymentRepository } = setup(buildBooking(), payments, refunds);
+
+      const started = await service.refundBooking('b1', 'Plans changed', 500);
+
+      expect(started.map((refund) => [refund.paymentId, Number(refund.amount)])).toEqual([
+        ['p2', 300],
+        ['p1', 200],
+      ]);
+      expect(started.every((refund) => refund.status === PaymentStatus.SUCCEEDED)).toBe(true);
+      expect(paymentRepository.createRefund).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refund everything kept when no amount is given', async () => {
+      const { service } = setup(buildBooking(), [buildPayment('p1', 250)]);
+
+      const started = await service.refundBooking('b1', 'Hold expired');
+
+      expect(started.map((refund) => Number(refund.amount))).toEqual([250]);
+      expect(await service.amountPaid('b1')).toBe(0);
+    });
+  });
+
+  describe('refundCancellation', () => {
+    it('should refund what was paid less the fee still owed, up to the refund amount', async () => {
+      const { service } = setup(buildBooking(), [buildPayment('p1', 400)]);
+
+      const started = await service.refundCancellation('b1', 'Plans changed', { cancellationFee: 100, refundAmount: 900 });
+
+      expect(started.map((refund) => Number(refund.amount))).toEqual([300]);
+    });
+
+    it('should refund nothing when the payments do not cover the fee', async () => {
+      const { service, paymentRepository } = setup(buildBooking(), [buildPayment('p1', 50)]);
+
+      const started = await service.refundCancellation('b1', 'Plans changed', { cancellationFee: 100, refundAmount: 900 });
+
+      expect(started).toEqual([]);
+      expect(paymentRepository.createRefund).not.toHaveBeenCalled();
+    });
+  });
+});
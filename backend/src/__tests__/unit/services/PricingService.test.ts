@@ -0,0 +1,288 @@
+import {
+  Prisma,
+  Addon,
+  PricingRule,
+  PricingRuleType,
+  CarType,
+  AddonPricingMode,
+  ChargeRule,
+  ChargeKind,
+  ChargeCalculation,
+  DiscountType,
+  PromoCode,
+} from '@prisma/client';
+import { PricingService, chargesOf, promoCodeIdOf, selectRule } from '../../../application/services/PricingService.js';
+import { IPricingRuleRepository } from '../../../domain/repositories/index.js';
+
+function buildRule(overrides: Partial<PricingRule>): PricingRule {
+  return {
+    id: overrides.id || 'rule-1',
+    name: overrides.name || 'Rule',
+    type: overrides.type || PricingRuleType.DAY_OF_WEEK,
+    multiplier: overrides.multiplier || new Prisma.Decimal(1),
+    carId: overrides.carId ?? null,
+    carType: overrides.carType ?? null,
+    daysOfWeek: overrides.daysOfWeek || [],
+    startDate: overrides.startDate ?? null,
+    endDate: overrides.endDate ?? null,
+    priority: overrides.priority ?? 0,
+    isActive: overrides.isActive ?? true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function buildChargeRule(overrides: Partial<ChargeRule>): ChargeRule {
+  return {
+    id: overrides.id || 'charge-1',
+    name: overrides.name || 'Charge',
+    kind: overrides.kind || ChargeKind.TAX,
+    calculation: overrides.calculation || ChargeCalculation.PERCENTAGE,
+    rate: overrides.rate || new Prisma.Decimal(10),
+    locationId: overrides.locationId ?? null,
+    addonId: overrides.addonId ?? null,
+    isActive: overrides.isActive ?? true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function buildService(rules: PricingRule[]): PricingService {
+  const repository = {
+    findApplicable: jest.fn().mockResolvedValue(rules),
+  } as unknown as IPricingRuleRepository;
+  return new PricingService(repository);
+}
+
+const car = { id: 'car-1', type: CarType.SEDAN, dailyPrice: new Prisma.Decimal(500000) };
+
+describe('PricingService', () => {
+  describe('priceRental', () => {
+    it('should use the daily price when no rules apply', async () => {
+      const service = buildService([]);
+
+      // Monday 2026-02-02 to Thursday 2026-02-05
+      const result = await service.priceRental(car, new Date('2026-02-02'), new Date('2026-02-05'));
+
+      expect(result.days).toBe(3);
+      expect(result.dailyRates.map((d) => d.rate)).toEqual([500000, 500000, 500000]);
+      expect(result.basePrice).toBe(1500000);
+    });
+
+    it('should apply a weekend multiplier only to weekend days', async () => {
+      const weekend = buildRule({ name: 'Weekend', multiplier: new Prisma.Decimal(1.2), daysOfWeek: [0, 6] });
+      const service = buildService([weekend]);
+
+      // Friday 2026-02-06 to Monday 2026-02-09: Fri, Sat, Sun
+      const result = await service.priceRental(car, new Date('2026-02-06'), new Date('2026-02-09'));
+
+      expect(result.dailyRates.map((d) => d.rate)).toEqual([500000, 600000, 600000]);
+      expect(result.dailyRates[1].ruleName).toBe('Weekend');
+      expect(result.basePrice).toBe(1700000);
+    });
+
+    it('should let a date range override win over a weekend multiplier', async () => {
+      const weekend = buildRule({ id: 'weekend', multiplier: new Prisma.Decimal(1.2), daysOfWeek: [0, 6] });
+      const holiday = buildRule({
+        id: 'holiday',
+        type: PricingRuleType.DATE_RANGE,
+        multiplier: new Prisma.Decimal(2),
+        startDate: new Date('2026-02-07'),
+        endDate: new Date('2026-02-07'),
+      });
+      const service = buildService([weekend, holiday]);
+
+      const result = await service.priceRental(car, new Date('2026-02-07'), new Date('2026-02-09'));
+
+      expect(result.dailyRates.map((d) => d.ruleId)).toEqual(['holiday', 'weekend']);
+      expect(result.basePrice).toBe(1600000);
+    });
+  });
+
+  describe('quoteBooking', () => {
+    it('should itemize each rental day and each addon', async () => {
+      const weekend = buildRule({ name: 'Weekend', multiplier: new Prisma.Decimal(1.2), daysOfWeek: [0, 6] });
+      const service = buildService([weekend]);
+      const gps = {
+        id: 'addon-1',
+        name: 'GPS Navigation',
+        price: new Prisma.Decimal(50000),
+        pricingMode: AddonPricingMode.PER_BOOKING,
+      } as Addon;
+
+      // Friday 2026-02-06 to Sunday 2026-02-08: Fri, Sat
+      const quote = await service.quoteBooking(car, [gps], new Date('2026-02-06'), new Date('2026-02-08'));
+
+      expect(quote.lines).toEqual([
+        { type: 'BASE', description: 'Daily rate', amount: 500000, date: '2026-02-06' },
+        { type: 'BASE', description: 'Daily rate (Weekend)', amount: 600000, date: '2026-02-07' },
+        { type: 'ADDON', description: 'GPS Navigation', amount: 50000, referenceId: 'addon-1' },
+      ]);
+      expect(quote.basePrice).toBe(1100000);
+      expect(quote.addonPrice).toBe(50000);
+      expect(quote.totalPrice).toBe(1150000);
+    });
+
+    it('should charge per-day addons for every rental day', async () => {
+      const service = buildService([]);
+      const insurance = {
+        id: 'addon-2',
+        name: 'Insurance Premium',
+        price: new Prisma.Decimal(40000),
+        pricingMode: AddonPricingMode.PER_DAY,
+      } as Addon;
+
+      // Monday 2026-02-02 to Thursday 2026-02-05: Mon, Tue, Wed
+      const quote = await service.quoteBooking(car, [insurance], new Date('2026-02-02'), new Date('2026-02-05'));
+
+      expect(quote.lines[quote.lines.length - 1]).toEqual({
+        type: 'ADDON',
+        description: 'Insurance Premium (3 days)',
+        amount: 120000,
+        referenceId: 'addon-2',
+      });
+      expect(quote.addonPrice).toBe(120000);
+      expect(quote.totalPrice).toBe(1620000);
+    });
+
+    it('should add a one-way drop fee as its own line', async () => {
+      const service = buildService([]);
+
+      // Monday 2026-02-02 to Wednesday 2026-02-04: Mon, Tue
+      const quote = await service.quoteBooking(car, [], new Date('2026-02-02'), new Date('2026-02-04'), 250000);
+
+      expect(quote.lines[quote.lines.length - 1]).toEqual({
+        type: 'DROP_FEE',
+        description: 'One-way drop fee',
+        amount: 250000,
+      });
+      expect(quote.dropFee).toBe(250000);
+      expect(quote.totalPrice).toBe(1250000);
+    });
+
+    it('should charge fees on the subtotal and taxes on the subtotal plus fees', async () => {
+      const service = buildService([]);
+      const airportFee = buildChargeRule({
+        id: 'airport',
+        name: 'Airport fee',
+        kind: ChargeKind.FEE,
+        calculation: ChargeCalculation.FIXED,
+        rate: new Prisma.Decimal(50000),
+        locationId: 'loc-1',
+      });
+      const ppn = buildChargeRule({ id: 'ppn', name: 'PPN', rate: new Prisma.Decimal(11) });
+
+      // Monday 2026-02-02 to Wednesday 2026-02-04: Mon, Tue
+      const quote = await service.quoteBooking(car, [], new Date('2026-02-02'), new Date('2026-02-04'), 0, [
+        ppn,
+        airportFee,
+      ]);
+
+      expect(quote.lines.slice(-2)).toEqual([
+        { type: 'FEE', description: 'Airport fee', amount: 50000, referenceId: 'airport' },
+        { type: 'TAX', description: 'PPN', amount: 115500, referenceId: 'ppn', rate: 11 },
+      ]);
+      expect(quote.feeAmount).toBe(50000);
+      expect(quote.taxAmount).toBe(115500);
+      expect(quote.totalPrice).toBe(1165500);
+      expect(chargesOf(quote)).toEqual([
+        { ruleId: 'airport', kind: ChargeKind.FEE, name: 'Airport fee', ratePercent: null, amount: 50000 },
+        { ruleId: 'ppn', kind: ChargeKind.TAX, name: 'PPN', ratePercent: 11, amount: 115500 },
+      ]);
+    });
+
+    it('should charge add-on rules on that add-on only, and only when it is booked', async () => {
+      const service = buildService([]);
+      const insurance = {
+        id: 'addon-2',
+        name: 'Insurance Premium',
+        price: new Prisma.Decimal(40000),
+        pricingMode: AddonPricingMode.PER_DAY,
+      } as Addon;
+      const levy = buildChargeRule({ id: 'levy', name: 'Insurance levy', kind: ChargeKind.FEE, addonId: 'addon-2' });
+      const gpsLevy = buildChargeRule({ id: 'gps-levy', name: 'GPS levy', kind: ChargeKind.FEE, addonId: 'addon-1' });
+      const inactive = buildChargeRule({ id: 'old', isActive: false });
+
+      // Monday 2026-02-02 to Thursday 2026-02-05: Mon, Tue, Wed
+      const quote = await service.quoteBooking(car, [insurance], new Date('2026-02-02'), new Date('2026-02-05'), 0, [
+        levy,
+        gpsLevy,
+        inactive,
+      ]);
+
+      expect(quote.lines[quote.lines.length - 1]).toEqual({
+        type: 'FEE',
+        description: 'Insurance levy (Insurance Premium)',
+        amount: 12000,
+        referenceId: 'levy',
+        rate: 10,
+      });
+      expect(quote.feeAmount).toBe(12000);
+      expect(quote.taxAmount).toBe(0);
+      expect(quote.totalPrice).toBe(1632000);
+    });
+
+    it('should take a promo code off the rental price before taxes', async () => {
+      const service = buildService([]);
+      const promoCode = {
+        id: 'promo-1',
+        code: 'SPRING20',
+        discountType: DiscountType.PERCENTAGE,
+        discountValue: new Prisma.Decimal(20),
+      } as PromoCode;
+      const gps = {
+        id: 'addon-1',
+        name: 'GPS',
+        price: new Prisma.Decimal(50000),
+        pricingMode: AddonPricingMode.PER_BOOKING,
+      } as Addon;
+      const ppn = buildChargeRule({ id: 'ppn', name: 'PPN', rate: new Prisma.Decimal(11) });
+
+      // Monday 2026-02-02 to Wednesday 2026-02-04: Mon, Tue
+      const quote = await service.quoteBooking(
+        car,
+        [gps],
+        new Date('2026-02-02'),
+        new Date('2026-02-04'),
+        0,
+        [ppn],
+        promoCode
+      );
+
+      expect(quote.lines).toContainEqual({
+        type: 'DISCOUNT',
+        description: 'Promo code SPRING20',
+        amount: 200000,
+        referenceId: 'promo-1',
+      });
+      expect(quote.discountAmount).toBe(200000);
+      expect(quote.taxAmount).toBe(93500);
+      expect(quote.totalPrice).toBe(943500);
+      expect(promoCodeIdOf(quote)).toBe('promo-1');
+    });
+  });
+
+  describe('selectRule', () => {
+    it('should prefer car-specific rules over car type and fleet-wide rules', () => {
+      const fleet = buildRule({ id: 'fleet', daysOfWeek: [6], priority: 10 });
+      const byType = buildRule({ id: 'type', carType: CarType.SEDAN, daysOfWeek: [6] });
+      const byCar = buildRule({ id: 'car', carId: 'car-1', daysOfWeek: [6] });
+
+      expect(selectRule([fleet, byType, byCar], '2026-02-07', 6)?.id).toBe('car');
+      expect(selectRule([fleet, byType], '2026-02-07', 6)?.id).toBe('type');
+    });
+
+    it('should break ties by priority', () => {
+      const low = buildRule({ id: 'low', daysOfWeek: [6], priority: 1 });
+      const high = buildRule({ id: 'high', daysOfWeek: [6], priority: 5 });
+
+      expect(selectRule([low, high], '2026-02-07', 6)?.id).toBe('high');
+    });
+
+    it('should ignore inactive rules', () => {
+      const inactive = buildRule({ daysOfWeek: [6], isActive: false });
+
+      expect(selectRule([inactive], '2026-02-07', 6)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { CarType, DiscountType, Prisma, PromoCode } from '@prisma/client';
+import {
+  normalizePromoCode,
+  promoCodeIneligibility,
+  promoDiscount,
+} from '../../../application/services/PromoCodeRules.js';
+
+function buildPromoCode(overrides: Partial<PromoCode> = {}): PromoCode {
+  return {
+    id: 'promo-1',
+    code: 'SPRING',
+    description: null,
+    discountType: DiscountType.PERCENTAGE,
+    discountValue: new Prisma.Decimal(10),
+    validFrom: null,
+    validUntil: null,
+    maxRedemptions: null,
+    maxRedemptionsPerUser: null,
+    minDays: null,
+    carTypes: [],
+    carIds: [],
+    isActive: true,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    ...overrides,
+  };
+}
+
+const booking = { car: { id: 'car-1', type: CarType.SEDAN }, days: 3 };
+const now = new Date('2026-03-10T09:00:00Z');
+
+describe('normalizePromoCode', () => {
+  it('should ignore case and surrounding whitespace', () => {
+    expect(normalizePromoCode('  spring ')).toBe('SPRING');
+  });
+});
+
+describe('promoCodeIneligibility', () => {
+  it('should accept a code without restrictions', () => {
+    expect(promoCodeIneligibility(buildPromoCode(), booking, now)).toBeNull();
+  });
+
+  it('should reject inactive codes and codes outside their validity window', () => {
+    expect(promoCodeIneligibility(buildPromoCode({ isActive: false }), booking, now)).toBe('is no longer available');
+    expect(promoCodeIneligibility(buildPromoCode({ validFrom: new Date('2026-04-01') }), booking, now)).toBe(
+      'can only be used from 2026-04-01'
+    );
+    expect(promoCodeIneligibility(buildPromoCode({ validUntil: new Date('2026-03-01') }), booking, now)).toBe(
+      'has expired'
+    );
+  });
+
+  it('should skip the validity checks for a code that was already redeemed', () => {
+    const expired = buildPromoCode({ isActive: false, validUntil: new Date('2026-03-01') });
+
+    expect(promoCodeIneligibility(expired, booking, null)).toBeNull();
+  });
+
+  it('should enforce the minimum rental length and the car restrictions', () => {
+    expect(promoCodeIneligibility(buildPromoCode({ minDays: 5 }), booking, null)).toBe(
+      'requires a rental of at least 5 days'
+    );
+    expect(promoCodeIneligibility(buildPromoCode({ carTypes: [CarType.SUV, CarType.VAN] }), booking, now)).toBe(
+      'only applies to SUV, VAN cars'
+    );
+    expect(promoCodeIneligibility(buildPromoCode({ carIds: ['car-2'] }), booking, now)).toBe(
+      'does not apply to this car'
+    );
+    expect(
+      promoCodeIneligibility(buildPromoCode({ carTypes: [CarType.SEDAN], carIds: ['car-1'] }), booking, now)
+    ).toBeNull();
+  });
+});
+
+describe('promoDiscount', () => {
+  it('should take a percentage of the rental price', () => {
+    expect(promoDiscount(buildPromoCode({ discountValue: new Prisma.Decimal(12.5) }), 333333)).toBe(41666.63);
+  });
+
+  it('should never discount more than the rental price', () => {
+    const fixed = buildPromoCode({ discountType: DiscountType.FIXED, discountValue: new Prisma.Decimal(750000) });
+
+    expect(promoDiscount(fixed, 1000000)).toBe(750000);
+    expect(promoDiscount(fixed, 500000)).toBe(500000);
+  });
+});
@@ -0,0 +1,107 @@
+import { User, UserRole } from '@prisma/client';
+import { TwoFactorService } from '../../../application/services/TwoFactorService.js';
+import { IRecoveryCodeRepository, IUserRepository } from '../../../domain/repositories/index.js';
+import {
+  generateTotpCode,
+  hashRecoveryCode,
+  signTwoFactorChallenge,
+  timeStepAt,
+} from '../../../infrastructure/auth/index.js';
+
+// RFC 6238 test secret ("12345678901234567890" in base32)
+const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const user = {
+  id: 'user-1',
+  role: UserRole.ADMIN,
+  totpSecret: secret,
+  totpEnabledAt: new Date(),
+} as User;
+
+function buildService(claimed: boolean = true, consumed: boolean = true) {
+  const userRepository = {
+    claimTotpStep: jest.fn().mockResolvedValue(claimed),
+  } as unknown as jest.Mocked<IUserRepository>;
+  const recoveryCodeRepository = {
+    replaceAll: jest.fn().mockResolvedValue(undefined),
+    consume: jest.fn().mockResolvedValue(consumed),
+  } as unknown as jest.Mocked<IRecoveryCodeRepository>;
+
+  return {
+    service: new TwoFactorService(userRepository, recoveryCodeRepository, true),
+    userRepository,
+    recoveryCodeRepository,
+  };
+}
+
+describe('TOTP codes', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotpCode(secret, timeStepAt(59 * 1000))).toBe('287082');
+    expect(generateTotpCode(secret, timeStepAt(1111111109 * 1000))).toBe('081804');
+  });
+});
+
+describe('TwoFactorService', () => {
+  it('should accept a current code once and record its time step', async () => {
+    const { service, userRepository } = buildService();
+    const step = timeStepAt(Date.now());
+
+    await expect(service.verifyCode(user, generateTotpCode(secret, step))).resolves.toBe(true);
+    expect(userRepository.claimTotpStep).toHaveBeenCalledWith(user.id, step);
+  });
+
+  it('should reject a code whose time step was already used', async () => {
+    const { service } = buildService(false);
+
+    await expect(service.verifyCode(user, generateTotpCode(secret, timeStepAt(Date.now())))).resolves.toBe(false);
+  });
+
+  it('should reject a code from outside the drift window', async () => {
+    const { service, userRepository } = buildService();
+
+    const stale = generateTotpCode(secret, timeStepAt(Date.now()) - 5);
+
+    await expect(service.verifyCode(user, stale)).resolves.toBe(false);
+    expect(userRepository.claimTotpStep).not.toHaveBeenCalled();
+  });
+
+  it('should accept a recovery code typed in any case', async () => {
+    const { service, recoveryCodeRepository } = buildService();
+
+    await expect(service.verifyCode(user, 'A1B2C-3D4E5')).resolves.toBe(true);
+    expect(recoveryCodeRepository.consume).toHaveBeenCalledWith(user.id, hashRecoveryCode('a1b2c3d4e5'));
+  });
+
+  it('should store only hashes of newly issued recovery codes', async () => {
+    const { service, recoveryCodeRepository } = buildService();
+
+    const codes = await service.issueRecoveryCodes(user.id);
+
+    expect(codes).toHaveLength(10);
+    expect(recoveryCodeRepository.replaceAll).toHaveBeenCalledWith(user.id, codes.map(hashRecoveryCode));
+  });
+
+  it('should only resolve challenges of the expected type', () => {
+    const { service } = buildService();
+    const { challengeToken } = signTwoFactorChallenge(user.id, 'ENROLL');
+
+    expect(service.resolveChallenge(challengeToken, 'ENROLL')).toBe(user.id);
+    expect(() => service.resolveChallenge(challengeToken, 'VERIFY')).toThrow('Invalid or expired two-factor challenge');
+  });
+
+  it('should enroll a signed-in user without a challenge', () => {
+    const { service } = buildService();
+    const { challengeToken } = signTwoFactorChallenge(user.id, 'ENROLL');
+
+    expect(service.enrollingUserId({ userId: 'user-2' })).toBe('user-2');
+    expect(service.enrollingUserId({ challengeToken })).toBe(user.id);
+  });
+
+  it('should only keep admins from turning 2FA off while it is mandatory', () => {
+    const customer = { ...user, role: UserRole.CUSTOMER };
+
+    expect(buildService().service.canDisable(user)).toBe(false);
+    expect(buildService().service.canDisable(customer)).toBe(true);
+    expect(new TwoFactorService({} as IUserRepository, {} as IRecoveryCodeRepository, false).canDisable(user)).toBe(true);
+  });
+});
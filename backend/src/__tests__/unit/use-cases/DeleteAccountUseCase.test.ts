@@ -0,0 +1,90 @@
+import { Booking, BookingStatus, User, UserRole } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import { DeleteAccountUseCase } from '../../../application/use-cases/auth/DeleteAccountUseCase.js';
+import { IAuditLogRepository, IBookingRepository, IUserRepository } from '../../../domain/repositories/index.js';
+import { FileStorage } from '../../../infrastructure/storage/index.js';
+import { ConflictError, ForbiddenError, ValidationError } from '../../../domain/errors/index.js';
+
+const passwordHash = bcrypt.hashSync('Password123', 4);
+
+function buildUseCase(user: Partial<User>, bookingStatuses: BookingStatus[] = []) {
+  const userRepository = {
+    findById: jest.fn().mockResolvedValue({ id: 'user-1', role: UserRole.CUSTOMER, passwordHash, ...user }),
+    anonymize: jest.fn(),
+  } as unknown as jest.Mocked<IUserRepository>;
+  const bookingRepository = {
+    findAllByUserId: jest.fn().mockResolvedValue(
+      bookingStatuses.map((status, index) => ({ id: `b${index}`, status }) as Booking)
+    ),
+  } as unknown as jest.Mocked<IBookingRepository>;
+  const auditLogRepository = { create: jest.fn() } as unknown as jest.Mocked<IAuditLogRepository>;
+  const fileStorage = { delete: jest.fn() } as unknown as jest.Mocked<FileStorage>;
+
+  return {
+    useCase: new DeleteAccountUseCase(userRepository, bookingRepository, auditLogRepository, fileStorage),
+    userRepository,
+    auditLogRepository,
+    fileStorage,
+  };
+}
+
+describe('DeleteAccountUseCase', () => {
+  const now = new Date('2026-03-01T10:00:00Z');
+
+  it('should anonymize personal data and keep the bookings', async () => {
+    const { useCase, userRepository, auditLogRepository, fileStorage } = buildUseCase(
+      {
+        email: 'jane@example.com',
+        phone: '+62 812 0000',
+        driverLicenseNumber: 'B1234567',
+        driverLicenseImagePath: 'driver-licenses/user-1-abc.jpg',
+      },
+      [BookingStatus.RETURNED, BookingStatus.CANCELLED]
+    );
+
+    await useCase.execute({ userId: 'user-1', password: 'Password123' }, now);
+
+    const [id, data] = userRepository.anonymize.mock.calls[0];
+    expect(id).toBe('user-1');
+    expect(data).toMatchObject({
+      email: 'deleted-user-1@deleted.invalid',
+      name: 'Deleted User',
+      phone: null,
+      driverLicenseNumber: null,
+      driverLicenseImagePath: null,
+      driverVerificationStatus: 'UNVERIFIED',
+      totpSecret: null,
+      deletedAt: now,
+    });
+    expect(await bcrypt.compare('Password123', data.passwordHash as string)).toBe(false);
+    expect(fileStorage.delete).toHaveBeenCalledWith('driver-licenses/user-1-abc.jpg');
+    expect(auditLogRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'ACCOUNT_DELETED', afterJson: { bookingsKept: 2 } })
+    );
+  });
+
+  it('should require the current password', async () => {
+    const { useCase, userRepository } = buildUseCase({});
+
+    await expect(useCase.execute({ userId: 'user-1', password: 'wrong' }, now))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(userRepository.anonymize).not.toHaveBeenCalled();
+  });
+
+  it('should refuse while bookings are still active', async () => {
+    const { useCase, userRepository } = buildUseCase({}, [BookingStatus.RETURNED, BookingStatus.CONFIRMED]);
+
+    const result = useCase.execute({ userId: 'user-1', password: 'Password123' }, now);
+
+    await expect(result).rejects.toBeInstanceOf(ConflictError);
+    await expect(result).rejects.toMatchObject({ code: 'ACTIVE_BOOKINGS_EXIST', details: { bookingIds: ['b1'] } });
+    expect(userRepository.anonymize).not.toHaveBeenCalled();
+  });
+
+  it('should not let admins delete themselves', async () => {
+    const { useCase } = buildUseCase({ role: UserRole.ADMIN });
+
+    await expect(useCase.execute({ userId: 'user-1', password: 'Password123' }, now))
+      .rejects.toBeInstanceOf(ForbiddenError);
+  });
+});
@@ -0,0 +1,61 @@
+import { Booking, BookingStatus } from '@prisma/client';
+import {
+  ExpirePendingBookingsUseCase,
+  HOLD_EXPIRED_REASON,
+} from '../../../application/use-cases/booking/ExpirePendingBookingsUseCase.js';
+import { PaymentService } from '../../../application/services/PaymentService.js';
+import { IAuditLogRepository, IBookingRepository } from '../../../domain/repositories/index.js';
+
+function buildBooking(id: string): Booking {
+  return {
+    id,
+    status: BookingStatus.PENDING,
+    holdExpiresAt: new Date('2026-02-01T10:00:00Z'),
+  } as Booking;
+}
+
+function buildPaymentService(): PaymentService {
+  return { refundBooking: jest.fn().mockResolvedValue([]) } as unknown as PaymentService;
+}
+
+describe('ExpirePendingBookingsUseCase', () => {
+  it('should cancel expired holds and audit them without an actor', async () => {
+    const bookingRepository = {
+      findExpiredHolds: jest.fn().mockResolvedValue([buildBooking('b1'), buildBooking('b2')]),
+      expireHold: jest.fn().mockResolvedValue(true),
+    } as unknown as IBookingRepository;
+    const auditLogRepository = { create: jest.fn() } as unknown as IAuditLogRepository;
+    const paymentService = buildPaymentService();
+    const useCase = new ExpirePendingBookingsUseCase(bookingRepository, auditLogRepository, paymentService);
+
+    const cancelled = await useCase.execute(new Date('2026-02-01T12:00:00Z'));
+
+    expect(cancelled).toBe(2);
+    expect(bookingRepository.expireHold).toHaveBeenCalledWith('b1', HOLD_EXPIRED_REASON);
+    expect(auditLogRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entityId: 'b1',
+        action: 'STATUS_CHANGED_TO_CANCELLED',
+        afterJson: { status: 'CANCELLED', reason: HOLD_EXPIRED_REASON },
+      })
+    );
+    expect((auditLogRepository.create as jest.Mock).mock.calls[0][0].actorId).toBeUndefined();
+    expect(paymentService.refundBooking).toHaveBeenCalledWith('b1', HOLD_EXPIRED_REASON);
+  });
+
+  it('should skip bookings that were confirmed before the sweep reached them', async () => {
+    const bookingRepository = {
+      findExpiredHolds: jest.fn().mockResolvedValue([buildBooking('b1')]),
+      expireHold: jest.fn().mockResolvedValue(false),
+    } as unknown as IBookingRepository;
+    const auditLogRepository = { create: jest.fn() } as unknown as IAuditLogRepository;
+    const paymentService = buildPaymentService();
+    const useCase = new ExpirePendingBookingsUseCase(bookingRepository, auditLogRepository, paymentService);
+
+    const cancelled = await useCase.execute();
+
+    expect(cancelled).toBe(0);
+    expect(auditLogRepository.create).not.toHaveBeenCalled();
+    expect(paymentService.refundBooking).not.toHaveBeenCalled();
+  });
+});
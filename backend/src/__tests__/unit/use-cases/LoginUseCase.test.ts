@@ -0,0 +1,144 @@
+import { User, UserRole } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import { LoginUseCase, SignedInOutput } from '../../../application/use-cases/auth/LoginUseCase.js';
+import { AuthTokenService } from '../../../application/services/AuthTokenService.js';
+import { AccountLockoutService, lockoutMinutesFor } from '../../../application/services/AccountLockoutService.js';
+import { TwoFactorService } from '../../../application/services/TwoFactorService.js';
+import { IAuditLogRepository, IRecoveryCodeRepository, IUserRepository } from '../../../domain/repositories/index.js';
+import { UnauthorizedError } from '../../../domain/errors/index.js';
+
+const passwordHash = bcrypt.hashSync('Password123', 4);
+
+function buildUser(overrides: Partial<User> = {}): User {
+  return {
+    id: 'user-1',
+    email: 'test@example.com',
+    name: 'Test User',
+    passwordHash,
+    role: UserRole.CUSTOMER,
+    emailVerifiedAt: new Date(),
+    phone: null,
+    dateOfBirth: null,
+    driverLicenseNumber: null,
+    driverLicenseCountry: null,
+    driverLicenseExpiresAt: null,
+    driverLicenseImagePath: null,
+    driverVerificationStatus: 'UNVERIFIED',
+    driverLicenseSubmittedAt: null,
+    driverVerifiedAt: null,
+    driverVerificationNote: null,
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+    totpSecret: null,
+    totpEnabledAt: null,
+    totpLastUsedStep: null,
+    staffRoleId: null,
+    deletedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function buildUseCase(user: User | null, options: { failedAttemptsAfter?: number; requireAdminTwoFactor?: boolean } = {}) {
+  const userRepository = {
+    findByEmail: jest.fn().mockResolvedValue(user),
+    update: jest.fn().mockResolvedValue(user),
+    recordFailedLogin: jest.fn().mockResolvedValue(options.failedAttemptsAfter ?? 1),
+  } as unknown as jest.Mocked<IUserRepository>;
+  const authTokenService = {
+    issue: jest.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' }),
+  } as unknown as AuthTokenService;
+  const auditLogRepository = { create: jest.fn() } as unknown as jest.Mocked<IAuditLogRepository>;
+  const twoFactorService = new TwoFactorService(
+    userRepository,
+    {} as IRecoveryCodeRepository,
+    options.requireAdminTwoFactor ?? false
+  );
+
+  return {
+    useCase: new LoginUseCase(
+      userRepository,
+      authTokenService,
+      new AccountLockoutService(userRepository, auditLogRepository),
+      twoFactorService
+    ),
+    userRepository,
+    authTokenService,
+    auditLogRepository,
+  };
+}
+
+describe('lockoutMinutesFor', () => {
+  it('should double the lock for every failure past the threshold, up to the cap', () => {
+    expect(lockoutMinutesFor(4)).toBe(0);
+    expect(lockoutMinutesFor(5)).toBe(1);
+    expect(lockoutMinutesFor(6)).toBe(2);
+    expect(lockoutMinutesFor(8)).toBe(8);
+    expect(lockoutMinutesFor(20)).toBe(60);
+  });
+});
+
+describe('LoginUseCase', () => {
+  it('should lock the account and audit it once the threshold is reached', async () => {
+    const { useCase, userRepository, auditLogRepository } = buildUseCase(
+      buildUser({ failedLoginAttempts: 4 }),
+      { failedAttemptsAfter: 5 }
+    );
+
+    await expect(useCase.execute({ email: 'test@example.com', password: 'wrong' }))
+      .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+
+    expect(userRepository.update).toHaveBeenCalledWith('user-1', { lockedUntil: expect.any(Date) });
+    expect(auditLogRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: 'User', entityId: 'user-1', action: 'ACCOUNT_LOCKED' })
+    );
+  });
+
+  it('should reject the correct password while locked with the same error as a wrong one', async () => {
+    const lockedUntil = new Date(Date.now() + 60 * 1000);
+    const { useCase, userRepository } = buildUseCase(buildUser({ failedLoginAttempts: 5, lockedUntil }));
+
+    const error = await useCase.execute({ email: 'test@example.com', password: 'Password123' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error).toMatchObject({ code: 'INVALID_CREDENTIALS', message: 'Invalid email or password' });
+    expect(userRepository.recordFailedLogin).not.toHaveBeenCalled();
+  });
+
+  it('should clear an expired lock on a successful login', async () => {
+    const lockedUntil = new Date(Date.now() - 60 * 1000);
+    const { useCase, userRepository, auditLogRepository } = buildUseCase(
+      buildUser({ failedLoginAttempts: 5, lockedUntil })
+    );
+
+    const result = (await useCase.execute({ email: 'test@example.com', password: 'Password123' })) as SignedInOutput;
+
+    expect(result.user.lockedUntil).toBeNull();
+    expect(userRepository.update).toHaveBeenCalledWith('user-1', { failedLoginAttempts: 0, lockedUntil: null });
+    expect(auditLogRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'ACCOUNT_UNLOCKED', afterJson: { reason: 'LOCK_EXPIRED' } })
+    );
+  });
+
+  it('should return a challenge instead of tokens when TOTP is enabled', async () => {
+    const { useCase, authTokenService, userRepository } = buildUseCase(
+      buildUser({ failedLoginAttempts: 2, totpSecret: 'JBSWY3DPEHPK3PXP', totpEnabledAt: new Date() })
+    );
+
+    const result = await useCase.execute({ email: 'test@example.com', password: 'Password123' });
+
+    expect(result).toEqual({ challenge: expect.objectContaining({ type: 'VERIFY' }) });
+    expect(authTokenService.issue).not.toHaveBeenCalled();
+    // Failures are only cleared once the second factor has passed too
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should require enrollment from admins when 2FA is mandatory', async () => {
+    const { useCase } = buildUseCase(buildUser({ role: UserRole.ADMIN }), { requireAdminTwoFactor: true });
+
+    const result = await useCase.execute({ email: 'test@example.com', password: 'Password123' });
+
+    expect(result).toEqual({ challenge: expect.objectContaining({ type: 'ENROLL' }) });
+  });
+});
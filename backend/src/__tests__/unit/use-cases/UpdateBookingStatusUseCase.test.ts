@@ -0,0 +1,299 @@
+import { BookingStatus, CarType, DriverVerificationStatus, User } from '@prisma/client';
+import { BookingWithRelations } from '../../../domain/entities/index.js';
+import { UpdateBookingStatusUseCase } from '../../../application/use-cases/admin/UpdateBookingStatusUseCase.js';
+import { IAuditLogRepository, IBookingRepository, ICarRepository, IUserRepository } from '../../../domain/repositories/index.js';
+import { ConflictError, ForbiddenError, PaymentRequiredError, ValidationError } from '../../../domain/errors/index.js';
+import { DepositService } from '../../../application/services/DepositService.js';
+import { CancellationPolicy } from '../../../application/services/CancellationPolicy.js';
+import { PaymentService } from '../../../application/services/PaymentService.js';
+import { PERMISSIONS, resolveBranchScope, resolvePermissions } from '../../../shared/constants/index.js';
+
+const verifiedDriver = {
+  id: 'u1',
+  driverVerificationStatus: DriverVerificationStatus.VERIFIED,
+  dateOfBirth: new Date('1990-01-01'),
+  driverLicenseExpiresAt: new Date('2030-12-31'),
+} as User;
+
+function buildUseCase(status: BookingStatus, driver: Partial<User> = {}) {
+  const booking = {
+    id: 'b1',
+    userId: 'u1',
+    carId: 'c1',
+    pickupLocationId: 'l1',
+    dropoffLocationId: 'l2',
+    startDate: new Date('2026-03-10'),
+    endDate: new Date('2026-03-14'),
+    totalPrice: 1000000 as unknown,
+    status,
+    car: { id: 'c1', type: CarType.SEDAN },
+  } as BookingWithRelations;
+  const bookingRepository = {
+    findById: jest.fn().mockResolvedValue(booking),
+    updateStatus: jest.fn().mockImplementation(async (id: string, next: BookingStatus) => ({ ...booking, status: next })),
+    cancel: jest.fn().mockImplementation(async (id: string, data: object) => ({
+      ...booking,
+      ...data,
+      status: BookingStatus.CANCELLED,
+    })),
+  } as unknown as jest.Mocked<IBookingRepository>;
+  const carRepository = { update: jest.fn() } as unknown as jest.Mocked<ICarRepository>;
+  const userRepository = {
+    findById: jest.fn().mockResolvedValue({ ...verifiedDriver, ...driver }),
+  } as unknown as jest.Mocked<IUserRepository>;
+  const auditLogRepository = { create: jest.fn() } as unknown as jest.Mocked<IAuditLogRepository>;
+  const depositService = {
+    hold: jest.fn().mockResolvedValue(null),
+    settle: jest.fn().mockResolvedValue(null),
+  } as unknown as jest.Mocked<DepositService>;
+  const paymentService = {
+    refundCancellation: jest.fn().mockResolvedValue([]),
+  } as unknown as jest.Mocked<PaymentService>;
+
+  return {
+    useCase: new UpdateBookingStatusUseCase(
+      bookingRepository,
+      carRepository,
+      userRepository,
+      auditLogRepository,
+      depositService,
+      new CancellationPolicy(),
+      paymentService
+    ),
+    bookingRepository,
+    auditLogRepository,
+    depositService,
+    paymentService,
+  };
+}
+
+describe('UpdateBookingStatusUseCase permissions', () => {
+  it('should allow a status the user holds the permission for', async () => {
+    const { useCase } = buildUseCase(BookingStatus.CONFIRMED);
+
+    const booking = await useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.PICKED_UP,
+      adminId: 'staff-1',
+      permissions: ['booking:status:pickup'],
+      locationIds: null,
+    });
+
+    expect(booking.status).toBe(BookingStatus.PICKED_UP);
+  });
+
+  it('should reject a status the user lacks the permission for before touching the booking', async () => {
+    const { useCase, bookingRepository } = buildUseCase(BookingStatus.PENDING);
+
+    await expect(useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.CANCELLED,
+      adminId: 'staff-1',
+      permissions: ['booking:status:pickup', 'booking:status:return'],
+      locationIds: null,
+    })).rejects.toBeInstanceOf(ForbiddenError);
+    expect(bookingRepository.findById).not.toHaveBeenCalled();
+  });
+
+  it('should still validate the transition for users with the permission', async () => {
+    const { useCase } = buildUseCase(BookingStatus.PENDING);
+
+    await expect(useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.RETURNED,
+      adminId: 'admin-1',
+      permissions: resolvePermissions('ADMIN'),
+      locationIds: null,
+    })).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('UpdateBookingStatusUseCase branch scope', () => {
+  it('should allow a booking dropped off at one of the user\'s branches', async () => {
+    const { useCase } = buildUseCase(BookingStatus.PICKED_UP);
+
+    const booking = await useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.RETURNED,
+      adminId: 'staff-1',
+      permissions: ['booking:status:return'],
+      locationIds: ['l2'],
+    });
+
+    expect(booking.status).toBe(BookingStatus.RETURNED);
+  });
+
+  it('should reject a booking outside the user\'s branches with a 403', async () => {
+    const { useCase, bookingRepository } = buildUseCase(BookingStatus.CONFIRMED);
+
+    const result = useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.PICKED_UP,
+      adminId: 'staff-1',
+      permissions: ['booking:status:pickup'],
+      locationIds: ['l3'],
+    });
+
+    await expect(result).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(result).rejects.toMatchObject({ details: { reason: 'OUTSIDE_BRANCH' } });
+    expect(bookingRepository.updateStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('UpdateBookingStatusUseCase driver checks at pickup', () => {
+  it('should refuse the pickup until the driver is verified', async () => {
+    const { useCase, bookingRepository } = buildUseCase(BookingStatus.CONFIRMED, {
+      driverVerificationStatus: DriverVerificationStatus.PENDING,
+    });
+
+    const result = useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.PICKED_UP,
+      adminId: 'staff-1',
+      permissions: ['booking:status:pickup'],
+      locationIds: null,
+    });
+
+    await expect(result).rejects.toBeInstanceOf(ConflictError);
+    await expect(result).rejects.toMatchObject({
+      code: 'DRIVER_NOT_ELIGIBLE',
+      details: { reasons: ['DRIVER_NOT_VERIFIED'] },
+    });
+    expect(bookingRepository.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a license that expires during the rental', async () => {
+    const { useCase } = buildUseCase(BookingStatus.CONFIRMED, { driverLicenseExpiresAt: new Date('2026-03-12') });
+
+    await expect(useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.PICKED_UP,
+      adminId: 'staff-1',
+      permissions: ['booking:status:pickup'],
+      locationIds: null,
+    })).rejects.toMatchObject({ details: { reasons: ['LICENSE_EXPIRES_BEFORE_RETURN'] } });
+  });
+
+  it('should not check the driver for other transitions', async () => {
+    const { useCase } = buildUseCase(BookingStatus.PENDING, {
+      driverVerificationStatus: DriverVerificationStatus.UNVERIFIED,
+    });
+
+    const booking = await useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.CONFIRMED,
+      adminId: 'staff-1',
+      permissions: ['booking:status:confirm'],
+      locationIds: null,
+    });
+
+    expect(booking.status).toBe(BookingStatus.CONFIRMED);
+  });
+});
+
+describe('UpdateBookingStatusUseCase deposits', () => {
+  it('should hold the deposit on the card presented at pickup', async () => {
+    const { useCase, depositService } = buildUseCase(BookingStatus.CONFIRMED);
+
+    await useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.PICKED_UP,
+      adminId: 'staff-1',
+      permissions: ['booking:status:pickup'],
+      locationIds: null,
+      depositPaymentMethod: 'fake_success',
+    });
+
+    expect(depositService.hold).toHaveBeenCalledWith(expect.objectContaining({ id: 'b1' }), CarType.SEDAN, 'fake_success');
+  });
+
+  it('should not hand over the car when the deposit hold is declined', async () => {
+    const { useCase, bookingRepository, depositService } = buildUseCase(BookingStatus.CONFIRMED);
+    depositService.hold.mockRejectedValue(new PaymentRequiredError('Deposit hold was declined', 'DEPOSIT_DECLINED'));
+
+    await expect(useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.PICKED_UP,
+      adminId: 'staff-1',
+      permissions: ['booking:status:pickup'],
+      locationIds: null,
+    })).rejects.toMatchObject({ code: 'DEPOSIT_DECLINED' });
+    expect(bookingRepository.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('should settle the deposit on return and record what was kept', async () => {
+    const { useCase, depositService, auditLogRepository } = buildUseCase(BookingStatus.PICKED_UP);
+    depositService.settle.mockResolvedValue({
+      status: 'CAPTURED',
+      amount: 1000000 as unknown,
+      capturedAmount: 250000 as unknown,
+      captureReason: 'Scratched bumper',
+    } as Awaited<ReturnType<DepositService['settle']>>);
+
+    await useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.RETURNED,
+      adminId: 'staff-1',
+      permissions: ['booking:status:return'],
+      locationIds: null,
+      depositCapture: { amount: 250000, reason: 'Scratched bumper' },
+    });
+
+    expect(depositService.settle).toHaveBeenCalledWith('b1', { amount: 250000, reason: 'Scratched bumper' });
+    expect(auditLogRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      afterJson: expect.objectContaining({
+        deposit: { status: 'CAPTURED', amount: 1000000, capturedAmount: 250000, captureReason: 'Scratched bumper' },
+      }),
+    }));
+  });
+});
+
+describe('UpdateBookingStatusUseCase cancellations', () => {
+  it('should record the fee and refund what was paid, as a customer cancellation does', async () => {
+    const { useCase, bookingRepository, paymentService } = buildUseCase(BookingStatus.CONFIRMED);
+
+    const booking = await useCase.execute({
+      bookingId: 'b1',
+      status: BookingStatus.CANCELLED,
+      adminId: 'staff-1',
+      permissions: ['booking:status:cancel'],
+      locationIds: null,
+    });
+
+    const terms = new CancellationPolicy().evaluate({ startDate: new Date('2026-03-10'), totalPrice: 1000000 as never });
+    expect(booking.status).toBe(BookingStatus.CANCELLED);
+    expect(bookingRepository.cancel).toHaveBeenCalledWith('b1', {
+      cancelReason: 'Cancelled by staff',
+      cancellationFee: terms.cancellationFee,
+      refundAmount: terms.refundAmount,
+    });
+    expect(bookingRepository.updateStatus).not.toHaveBeenCalled();
+    expect(paymentService.refundCancellation).toHaveBeenCalledWith(
+      'b1',
+      'Cancelled by staff',
+      expect.objectContaining({ cancellationFee: terms.cancellationFee, refundAmount: terms.refundAmount })
+    );
+  });
+});
+
+describe('resolveBranchScope', () => {
+  it('should only scope staff with assigned branches', () => {
+    expect(resolveBranchScope('STAFF', ['l1'])).toEqual(['l1']);
+    expect(resolveBranchScope('STAFF', [])).toBeNull();
+    expect(resolveBranchScope('ADMIN', ['l1'])).toBeNull();
+  });
+});
+
+describe('resolvePermissions', () => {
+  it('should give admins every permission', () => {
+    expect(resolvePermissions('ADMIN')).toEqual([...PERMISSIONS]);
+  });
+
+  it('should give staff only the known permissions of their role', () => {
+    expect(resolvePermissions('STAFF', ['booking:read', 'payroll:write'])).toEqual(['booking:read']);
+  });
+
+  it('should give customers nothing, whatever role they are linked to', () => {
+    expect(resolvePermissions('CUSTOMER', ['booking:read'])).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { User, UserTokenType } from '../../domain/entities/index.js';
+import { IUserTokenRepository } from '../../domain/repositories/index.js';
+import { generateOpaqueToken } from '../../infrastructure/auth/index.js';
+import { Mailer, MailMessage } from '../../infrastructure/mail/index.js';
+import logger from '../../infrastructure/logger/index.js';
+import { ACCOUNT_EMAIL_TOKENS, FRONTEND_URL } from '../../shared/constants/index.js';
+
+type Recipient = Pick<User, 'id' | 'email' | 'name'>;
+
+/**
+ * Sends the emails that carry single-use account links. Each new email
+ * invalidates the previous link of the same kind. Delivery failures are
+ * logged rather than thrown so they never reveal whether an account exists.
+ */
+export class AccountEmailService {
+  constructor(
+    private userTokenRepository: IUserTokenRepository,
+    private mailer: Mailer
+  ) {}
+
+  async sendVerificationEmail(user: Recipient): Promise<void> {
+    const token = await this.issue(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+      ACCOUNT_EMAIL_TOKENS.VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+    );
+
+    await this.deliver({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'Please confirm your email address by opening this link:',
+        `${FRONTEND_URL}/verify-email?token=${token}`,
+        '',
+        `The link expires in ${ACCOUNT_EMAIL_TOKENS.VERIFICATION_TTL_HOURS} hours.`,
+      ].join('\n'),
+    });
+  }
+
+  async sendPasswordResetEmail(user: Recipient): Promise<void> {
+    const token = await this.issue(
+      user.id,
+      UserTokenType.PASSWORD_RESET,
+      ACCOUNT_EMAIL_TOKENS.PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+    );
+
+    await this.deliver({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'Someone asked to reset the password of your account. If it was you, open this link:',
+        `${FRONTEND_URL}/reset-password?token=${token}`,
+        '',
+        `The link expires in ${ACCOUNT_EMAIL_TOKENS.PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for it, ignore this email.`,
+      ].join('\n'),
+    });
+  }
+
+  private async issue(userId: string, type: UserTokenType, ttlMs: number): Promise<string> {
+    await this.userTokenRepository.invalidateAll(userId, type);
+
+    const { token, tokenHash, expiresAt } = generateOpaqueToken(ttlMs);
+    await this.userTokenRepository.create({ userId, type, tokenHash, expiresAt });
+
+    return token;
+  }
+
+  private async deliver(message: MailMessage): Promise<void> {
+    try {
+      await this.mailer.send(message);
+    } catch (error) {
+      logger.error('Failed to send email', { subject: message.subject, error: (error as Error).message });
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { User } from '../../domain/entities/index.js';
+import { IAuditLogRepository, IUserRepository } from '../../domain/repositories/index.js';
+import { LOGIN_LOCKOUT } from '../../shared/constants/index.js';
+
+export type AccountUnlockReason = 'LOCK_EXPIRED' | 'PASSWORD_RESET';
+
+/**
+ * Lock duration after the given number of consecutive failures, or 0 while
+ * still under the threshold.
+ */
+export function lockoutMinutesFor(failedAttempts: number): number {
+  if (failedAttempts < LOGIN_LOCKOUT.MAX_FAILED_ATTEMPTS) {
+    return 0;
+  }
+
+  const doublings = failedAttempts - LOGIN_LOCKOUT.MAX_FAILED_ATTEMPTS;
+  return Math.min(LOGIN_LOCKOUT.BASE_MINUTES * 2 ** doublings, LOGIN_LOCKOUT.MAX_MINUTES);
+}
+
+/**
+ * Counts failed sign-in attempts per account, wrong passwords and wrong
+ * second-factor codes alike, and locks the account with exponential backoff.
+ */
+export class AccountLockoutService {
+  constructor(
+    private userRepository: IUserRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  isLocked(user: User, now: Date = new Date()): boolean {
+    return user.lockedUntil !== null && user.lockedUntil > now;
+  }
+
+  async recordFailure(user: User, now: Date = new Date()): Promise<void> {
+    const failedAttempts = await this.userRepository.recordFailedLogin(user.id);
+
+    const minutes = lockoutMinutesFor(failedAttempts);
+    if (minutes === 0) {
+      return;
+    }
+
+    const lockedUntil = new Date(now.getTime() + minutes * 60 * 1000);
+    await this.userRepository.update(user.id, { lockedUntil });
+
+    await this.auditLogRepository.create({
+      entityType: 'User',
+      entityId: user.id,
+      action: 'ACCOUNT_LOCKED',
+      afterJson: { failedLoginAttempts: failedAttempts, lockedUntil: lockedUntil.toISOString() },
+    });
+  }
+
+  // Call once the user is fully signed in; clears the failure count and any expired lock
+  async recordSuccess(user: User): Promise<void> {
+    await this.reset(user, 'LOCK_EXPIRED');
+  }
+
+  // Clears the failure count and any lock; lifting a lock is audited with the reason
+  async reset(user: User, reason: AccountUnlockReason): Promise<void> {
+    if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+      return;
+    }
+
+    await this.userRepository.update(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+
+    if (user.lockedUntil) {
+      await this.auditLogRepository.create({
+        entityType: 'User',
+        entityId: user.id,
+        action: 'ACCOUNT_UNLOCKED',
+        beforeJson: { failedLoginAttempts: user.failedLoginAttempts, lockedUntil: user.lockedUntil.toISOString() },
+        afterJson: { reason },
+      });
+    }
+  }
+}
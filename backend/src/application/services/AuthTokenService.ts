@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import { User } from '../../domain/entities/index.js';
+import { UnauthorizedError } from '../../domain/errors/index.js';
+import { IRefreshTokenRepository } from '../../domain/repositories/index.js';
+import { generateRefreshToken, generateToken, hashRefreshToken, TokenPair } from '../../infrastructure/auth/index.js';
+
+export interface AuthTokens extends TokenPair {
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Issues access/refresh token pairs. Each login starts a token family; every
+ * refresh revokes the presented token and issues the next one in the family.
+ * Presenting an already-used token means it was stolen or replayed, so the
+ * whole family is revoked and the user has to log in again.
+ */
+export class AuthTokenService {
+  constructor(private refreshTokenRepository: IRefreshTokenRepository) {}
+
+  async issue(user: Pick<User, 'id' | 'email' | 'role'>, familyId: string = randomUUID()): Promise<AuthTokens> {
+    const token = generateToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+    });
+    const { refreshToken, tokenHash, expiresAt } = generateRefreshToken();
+
+    await this.refreshTokenRepository.create({
+      userId: user.id,
+      familyId,
+      tokenHash,
+      expiresAt,
+    });
+
+    return { ...token, refreshToken, refreshTokenExpiresAt: expiresAt };
+  }
+
+  // Revokes the presented token and returns its owner and family, ready to issue the next token
+  async consume(refreshToken: string): Promise<{ userId: string; familyId: string }> {
+    const stored = await this.refreshTokenRepository.findByHash(hashRefreshToken(refreshToken));
+    if (!stored || stored.expiresAt <= new Date()) {
+      throw new UnauthorizedError('Invalid or expired refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+
+    const rotated = await this.refreshTokenRepository.revoke(stored.id);
+    if (!rotated) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+      throw new UnauthorizedError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+    }
+
+    return { userId: stored.userId, familyId: stored.familyId };
+  }
+
+  async revokeFamilyOf(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenRepository.findByHash(hashRefreshToken(refreshToken));
+    if (stored) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+    }
+  }
+}
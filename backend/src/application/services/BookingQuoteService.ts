@@ -0,0 +1,286 @@
+import { Addon, Car, LocationWithSchedule, PromoCode } from '../../domain/entities/index.js';
+import { ConflictError, NotFoundError, ValidationError, ValidationFieldError } from '../../domain/errors/index.js';
+import {
+  IAddonRepository,
+  ICarRepository,
+  IChargeRuleRepository,
+  ILocationFeeRepository,
+  ILocationRepository,
+  IPromoCodeRepository,
+} from '../../domain/repositories/index.js';
+import { signQuoteToken, verifyQuoteToken, SignedQuote } from '../../infrastructure/auth/index.js';
+import { calculateDays, isPastDate } from '../../shared/utils/date.js';
+import { MAX_RENTAL_DAYS } from '../../shared/constants/index.js';
+import { BookingQuote, PricingService } from './PricingService.js';
+import { closedReason } from './LocationSchedule.js';
+import { normalizePromoCode, promoCodeIneligibility } from './PromoCodeRules.js';
+
+export interface BookingQuoteRequest {
+  carId: string;
+  pickupLocationId: string;
+  dropoffLocationId: string;
+  startDate: Date;
+  endDate: Date;
+  addonIds?: string[];
+  promoCode?: string;
+  // The customer, when known, for per-customer promo code limits
+  userId?: string;
+}
+
+export interface PreparedBooking {
+  car: Car;
+  pickupLocation: LocationWithSchedule;
+  dropoffLocation: LocationWithSchedule;
+  addons: Addon[];
+  quote: BookingQuote;
+}
+
+// What a quote token carries: the request it was priced for and the resulting quote
+interface QuoteTokenPayload {
+  carId: string;
+  pickupLocationId: string;
+  dropoffLocationId: string;
+  startDate: string;
+  endDate: string;
+  addonIds: string[];
+  promoCode: string | null;
+  quote: BookingQuote;
+}
+
+function toTokenRequest(request: BookingQuoteRequest): Omit<QuoteTokenPayload, 'quote'> {
+  return {
+    carId: request.carId,
+    pickupLocationId: request.pickupLocationId,
+    dropoffLocationId: request.dropoffLocationId,
+    startDate: request.startDate.toISOString(),
+    endDate: request.endDate.toISOString(),
+    addonIds: [...new Set(request.addonIds || [])].sort(),
+    promoCode: request.promoCode ? normalizePromoCode(request.promoCode) : null,
+  };
+}
+
+/**
+ * Validates and prices a booking request. Shared by the quote endpoint and
+ * booking creation so both always agree on the price.
+ */
+export class BookingQuoteService {
+  constructor(
+    private carRepository: ICarRepository,
+    private locationRepository: ILocationRepository,
+    private addonRepository: IAddonRepository,
+    private locationFeeRepository: ILocationFeeRepository,
+    private chargeRuleRepository: IChargeRuleRepository,
+    private promoCodeRepository: IPromoCodeRepository,
+    private pricingService: PricingService
+  ) {}
+
+  // excludeBookingId: the booking being modified, which must not affect where the car is
+  async prepare(request: BookingQuoteRequest, excludeBookingId?: string): Promise<PreparedBooking> {
+    // Validate dates
+    if (isPastDate(request.startDate)) {
+      throw new ValidationError('Start date cannot be in the past', [
+        { field: 'startDate', message: 'Start date must be today or in the future' },
+      ]);
+    }
+
+    if (request.endDate <= request.startDate) {
+      throw new ValidationError('End date must be after start date', [
+        { field: 'endDate', message: 'End date must be after start date' },
+      ]);
+    }
+
+    if (calculateDays(request.startDate, request.endDate) > MAX_RENTAL_DAYS) {
+      throw new ValidationError(`Rentals cannot be longer than ${MAX_RENTAL_DAYS} days`, [
+        { field: 'endDate', message: `End date must be within ${MAX_RENTAL_DAYS} days of the start date` },
+      ]);
+    }
+
+    // Check if car exists and is active
+    const car = await this.carRepository.findById(request.carId);
+    if (!car) {
+      throw new NotFoundError('Car', request.carId);
+    }
+    if (car.status !== 'ACTIVE') {
+      throw new ConflictError('Car is not available for booking', 'CAR_NOT_AVAILABLE');
+    }
+
+    // Validate locations
+    const [pickupLocation, dropoffLocation] = await Promise.all([
+      this.locationRepository.findById(request.pickupLocationId),
+      this.locationRepository.findById(request.dropoffLocationId),
+    ]);
+
+    if (!pickupLocation) {
+      throw new NotFoundError('Pickup location', request.pickupLocationId);
+    }
+    if (!dropoffLocation) {
+      throw new NotFoundError('Dropoff location', request.dropoffLocationId);
+    }
+
+    // Cars are handed over on the start date and taken back on the end date
+    const locationErrors: ValidationFieldError[] = [];
+    const handovers = [
+      { field: 'pickupLocationId', location: pickupLocation, date: request.startDate },
+      { field: 'dropoffLocationId', location: dropoffLocation, date: request.endDate },
+    ];
+    for (const { field, location, date } of handovers) {
+      const reason = location.isActive ? closedReason(location, date) : 'no longer in service';
+      if (reason) {
+        locationErrors.push({ field, message: `${location.name} is ${reason}` });
+      }
+    }
+    if (locationErrors.length > 0) {
+      throw new ValidationError('The selected location is closed on the chosen date', locationErrors);
+    }
+
+    // The car can only be picked up where it will be parked when the rental starts
+    const carLocationId = await this.carRepository.findLocationAt(car.id, request.startDate, excludeBookingId);
+    if (carLocationId && carLocationId !== request.pickupLocationId) {
+      throw new ValidationError('Car is not available at the selected pickup location', [
+        { field: 'pickupLocationId', message: 'The car will be at a different location at pickup time' },
+      ]);
+    }
+
+    // and must be returned where its next booking picks it up
+    const nextPickupLocationId = await this.carRepository.findNextPickupLocation(
+      car.id,
+      request.endDate,
+      excludeBookingId
+    );
+    if (nextPickupLocationId && nextPickupLocationId !== request.dropoffLocationId) {
+      throw new ValidationError('Car must be returned where its next booking starts', [
+        { field: 'dropoffLocationId', message: 'The car is booked from a different location after this rental' },
+      ]);
+    }
+
+    // Validate addons
+    const addonIds = [...new Set(request.addonIds || [])];
+    let addons: Addon[] = [];
+
+    if (addonIds.length > 0) {
+      addons = await this.addonRepository.findByIds(addonIds);
+
+      if (addons.length !== addonIds.length) {
+        throw new ValidationError('Some add-ons were not found', [
+          { field: 'addonIds', message: 'Invalid addon IDs provided' },
+        ]);
+      }
+    }
+
+    // One-way trips pay the fee configured for the location pair, if any
+    let dropFee = 0;
+    if (request.pickupLocationId !== request.dropoffLocationId) {
+      const locationFee = await this.locationFeeRepository.findByPair(
+        request.pickupLocationId,
+        request.dropoffLocationId
+      );
+      dropFee = locationFee ? Number(locationFee.fee) : 0;
+    }
+
+    const promoCode = request.promoCode
+      ? await this.findUsablePromoCode(request, car, excludeBookingId)
+      : null;
+
+    // Taxes and fees that apply fleet-wide, at the pickup location or to one of the add-ons
+    const chargeRules = await this.chargeRuleRepository.findApplicable(
+      request.pickupLocationId,
+      addons.map((addon) => addon.id)
+    );
+
+    const quote = await this.pricingService.quoteBooking(
+      car,
+      addons,
+      request.startDate,
+      request.endDate,
+      dropFee,
+      chargeRules,
+      promoCode
+    );
+
+    return { car, pickupLocation, dropoffLocation, addons, quote };
+  }
+
+  /**
+   * Looks up the promo code and checks it applies to this booking and has
+   * redemptions left; BookingRepository recounts them when the booking is written.
+   * A booking being modified keeps the code it was made with, so only the
+   * booking restrictions (rental days, car) are checked again.
+   */
+  private async findUsablePromoCode(
+    request: BookingQuoteRequest,
+    car: Car,
+    excludeBookingId?: string
+  ): Promise<PromoCode> {
+    const promoCode = await this.promoCodeRepository.findByCode(normalizePromoCode(request.promoCode!));
+    if (!promoCode) {
+      throw new ValidationError('Invalid promo code', [
+        { field: 'promoCode', message: 'Promo code not found' },
+      ]);
+    }
+
+    const days = calculateDays(request.startDate, request.endDate);
+    const modifying = excludeBookingId !== undefined;
+    const reason = promoCodeIneligibility(promoCode, { car, days }, modifying ? null : new Date());
+    if (reason) {
+      throw new ValidationError(`Promo code ${promoCode.code} ${reason}`, [
+        { field: 'promoCode', message: `This promo code ${reason}` },
+      ]);
+    }
+    if (modifying) {
+      return promoCode;
+    }
+
+    if (promoCode.maxRedemptions !== null) {
+      const redemptions = await this.promoCodeRepository.countRedemptions(promoCode.id);
+      if (redemptions >= promoCode.maxRedemptions) {
+        throw new ConflictError('Promo code has been fully redeemed', 'PROMO_CODE_EXHAUSTED');
+      }
+    }
+    if (request.userId && promoCode.maxRedemptionsPerUser !== null) {
+      const redemptions = await this.promoCodeRepository.countRedemptions(promoCode.id, { userId: request.userId });
+      if (redemptions >= promoCode.maxRedemptionsPerUser) {
+        throw new ConflictError('You have already used this promo code', 'PROMO_CODE_ALREADY_USED');
+      }
+    }
+
+    return promoCode;
+  }
+
+  sign(request: BookingQuoteRequest, quote: BookingQuote): SignedQuote {
+    const payload: QuoteTokenPayload = { ...toTokenRequest(request), quote };
+    return signQuoteToken(payload);
+  }
+
+  // Returns the price locked in by a quote token, provided it was issued for this exact request
+  redeem(quoteToken: string, request: BookingQuoteRequest): BookingQuote {
+    let payload: QuoteTokenPayload;
+    try {
+      payload = verifyQuoteToken<QuoteTokenPayload>(quoteToken);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TokenExpiredError') {
+        throw new ConflictError('Price quote has expired, please request a new quote', 'QUOTE_EXPIRED');
+      }
+      throw new ValidationError('Invalid price quote', [
+        { field: 'quoteToken', message: 'Quote token is invalid' },
+      ]);
+    }
+
+    const expected = toTokenRequest(request);
+    const matches =
+      payload.carId === expected.carId &&
+      payload.pickupLocationId === expected.pickupLocationId &&
+      payload.dropoffLocationId === expected.dropoffLocationId &&
+      payload.startDate === expected.startDate &&
+      payload.endDate === expected.endDate &&
+      payload.addonIds.join(',') === expected.addonIds.join(',') &&
+      payload.promoCode === expected.promoCode;
+
+    if (!matches) {
+      throw new ValidationError('Price quote does not match the booking details', [
+        { field: 'quoteToken', message: 'Quote was issued for a different car, period, location, add-ons or promo code' },
+      ]);
+    }
+
+    return payload.quote;
+  }
+}
@@ -0,0 +1,56 @@
+import { Booking } from '../../domain/entities/index.js';
+import { CANCELLATION_POLICY } from '../../shared/constants/index.js';
+import { roundMoney } from './PricingService.js';
+
+export interface CancellationTier {
+  minHoursBeforeStart: number;
+  feePercent: number;
+}
+
+export interface CancellationTerms {
+  // Customers may only cancel before the rental period starts
+  allowed: boolean;
+  hoursBeforeStart: number;
+  feePercent: number;
+  cancellationFee: number;
+  refundAmount: number;
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export const DEFAULT_CANCELLATION_TIERS: CancellationTier[] = [
+  { minHoursBeforeStart: CANCELLATION_POLICY.FREE_HOURS, feePercent: 0 },
+  { minHoursBeforeStart: 0, feePercent: CANCELLATION_POLICY.LATE_FEE_PERCENT },
+];
+
+/**
+ * Computes what cancelling a booking costs. The first tier whose cutoff the
+ * cancellation still meets applies; after the start date the whole price is kept.
+ */
+export class CancellationPolicy {
+  private tiers: CancellationTier[];
+
+  constructor(tiers: CancellationTier[] = DEFAULT_CANCELLATION_TIERS) {
+    this.tiers = [...tiers].sort((a, b) => b.minHoursBeforeStart - a.minHoursBeforeStart);
+  }
+
+  evaluate(booking: Pick<Booking, 'startDate' | 'totalPrice'>, now: Date = new Date()): CancellationTerms {
+    const totalPrice = Number(booking.totalPrice);
+    const hoursBeforeStart = (booking.startDate.getTime() - now.getTime()) / MS_PER_HOUR;
+    const allowed = hoursBeforeStart > 0;
+
+    const tier = allowed
+      ? this.tiers.find((t) => hoursBeforeStart >= t.minHoursBeforeStart)
+      : undefined;
+    const feePercent = tier ? tier.feePercent : 100;
+    const cancellationFee = roundMoney((totalPrice * feePercent) / 100);
+
+    return {
+      allowed,
+      hoursBeforeStart: Math.round(hoursBeforeStart * 100) / 100,
+      feePercent,
+      cancellationFee,
+      refundAmount: roundMoney(totalPrice - cancellationFee),
+    };
+  }
+}
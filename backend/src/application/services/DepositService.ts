@@ -0,0 +1,120 @@
+import { Booking, CarType, Deposit, DepositStatus, PaymentStatus } from '../../domain/entities/index.js';
+import { ConflictError, PaymentRequiredError, ValidationError } from '../../domain/errors/index.js';
+import { IDepositRepository, IPaymentRepository } from '../../domain/repositories/index.js';
+import { PaymentGateway } from '../../infrastructure/payments/index.js';
+
+export interface DepositCapture {
+  amount: number;
+  reason: string;
+}
+
+/**
+ * Holds the car type's deposit on the customer's card when the car is picked up,
+ * and on return either releases it or keeps part of it for damages or fees.
+ */
+export class DepositService {
+  constructor(
+    private depositRepository: IDepositRepository,
+    private paymentRepository: IPaymentRepository,
+    private gateway: PaymentGateway
+  ) {}
+
+  // Returns null when the car type takes no deposit; a declined hold throws
+  async hold(
+    booking: Pick<Booking, 'id'>,
+    carType: CarType,
+    paymentMethod?: string,
+    now: Date = new Date()
+  ): Promise<Deposit | null> {
+    const config = await this.depositRepository.findCarTypeDeposit(carType);
+    const amount = config ? Number(config.amount) : 0;
+    if (amount <= 0) return null;
+
+    // A hold left from an earlier pickup attempt that did not go through is reused
+    const existing = await this.depositRepository.findByBookingId(booking.id);
+    if (existing?.status === DepositStatus.HELD) return existing;
+
+    // Without a card presented at the counter, the card the booking was paid with is held
+    let paymentReference: string | undefined;
+    if (!paymentMethod) {
+      const payments = await this.paymentRepository.findByBookingId(booking.id);
+      paymentReference = payments
+        .filter((payment) => payment.status === PaymentStatus.SUCCEEDED && payment.gateway === this.gateway.name)
+        .map((payment) => payment.gatewayReference)
+        .filter((reference): reference is string => !!reference)
+        .at(-1);
+      if (!paymentReference) {
+        throw new ValidationError('A payment method is needed for the deposit', [
+          { field: 'depositPaymentMethod', message: 'Required when the booking was not paid by card' },
+        ]);
+      }
+    }
+
+    const deposit = await this.depositRepository.start(booking.id, amount, this.gateway.name);
+    const result = await this.gateway.hold({ depositId: deposit.id, amount, paymentMethod, paymentReference });
+
+    if (result.status !== 'SUCCEEDED') {
+      const failureReason = result.failureReason || 'Hold was not approved';
+      await this.depositRepository.recordOutcome(deposit.id, {
+        status: DepositStatus.FAILED,
+        gatewayReference: result.reference,
+        failureReason,
+      });
+      throw new PaymentRequiredError('Deposit hold was declined', 'DEPOSIT_DECLINED', {
+        depositId: deposit.id,
+        failureReason,
+      });
+    }
+
+    return this.depositRepository.recordOutcome(deposit.id, {
+      status: DepositStatus.HELD,
+      gatewayReference: result.reference,
+      heldAt: now,
+    });
+  }
+
+  /**
+   * Releases the booking's deposit, or captures part of it and releases the rest.
+   * If the gateway refuses, the deposit stays HELD with the reason for staff to follow up.
+   */
+  async settle(bookingId: string, capture?: DepositCapture, now: Date = new Date()): Promise<Deposit | null> {
+    const deposit = await this.depositRepository.findByBookingId(bookingId);
+    if (!deposit || deposit.status !== DepositStatus.HELD) {
+      if (capture) {
+        throw new ConflictError('No deposit is held for this booking', 'NO_DEPOSIT_HELD');
+      }
+      return deposit;
+    }
+
+    if (capture && capture.amount > Number(deposit.amount)) {
+      throw new ValidationError('Cannot capture more than the deposit', [
+        { field: 'depositCapture.amount', message: `Must be at most ${Number(deposit.amount)}` },
+      ]);
+    }
+
+    const holdReference = deposit.gatewayReference ?? '';
+    const result = capture
+      ? await this.gateway.capture({ holdReference, amount: capture.amount })
+      : await this.gateway.release(holdReference);
+
+    if (result.status !== 'SUCCEEDED') {
+      return this.depositRepository.recordOutcome(deposit.id, {
+        status: DepositStatus.HELD,
+        failureReason: result.failureReason || 'Gateway did not settle the hold',
+      });
+    }
+
+    return this.depositRepository.recordOutcome(
+      deposit.id,
+      capture
+        ? {
+            status: DepositStatus.CAPTURED,
+            capturedAmount: capture.amount,
+            captureReason: capture.reason,
+            failureReason: null,
+            settledAt: now,
+          }
+        : { status: DepositStatus.RELEASED, failureReason: null, settledAt: now }
+    );
+  }
+}
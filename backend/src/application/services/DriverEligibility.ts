@@ -0,0 +1,59 @@
+import { Booking, Car, DriverVerificationStatus, User } from '../../domain/entities/index.js';
+import { DRIVER_MIN_AGE } from '../../shared/constants/index.js';
+
+export type DriverIneligibilityReason =
+  | 'DRIVER_NOT_VERIFIED'
+  | 'LICENSE_EXPIRES_BEFORE_RETURN'
+  | 'UNDER_MINIMUM_AGE';
+
+export interface DriverEligibility {
+  eligible: boolean;
+  reasons: DriverIneligibilityReason[];
+  // Age on the rental's start date; null when the date of birth is unknown
+  age: number | null;
+  minimumAge: number;
+}
+
+type Driver = Pick<User, 'driverVerificationStatus' | 'dateOfBirth' | 'driverLicenseExpiresAt'>;
+
+// Whole years between the date of birth and the given day, in UTC like the stored dates
+export function ageOn(dateOfBirth: Date, day: Date): number {
+  let age = day.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const beforeBirthday =
+    day.getUTCMonth() < dateOfBirth.getUTCMonth() ||
+    (day.getUTCMonth() === dateOfBirth.getUTCMonth() && day.getUTCDate() < dateOfBirth.getUTCDate());
+  if (beforeBirthday) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * Decides whether a driver may take a car at pickup: their license must have been
+ * verified by staff, stay valid until the booking's end date, and they must be old
+ * enough for the car's type when the rental starts.
+ */
+export class DriverEligibilityPolicy {
+  constructor(private minimumAges: Record<string, number> = DRIVER_MIN_AGE) {}
+
+  evaluate(driver: Driver, car: Pick<Car, 'type'>, booking: Pick<Booking, 'startDate' | 'endDate'>): DriverEligibility {
+    const reasons: DriverIneligibilityReason[] = [];
+    const minimumAge = this.minimumAges[car.type] ?? 0;
+
+    if (driver.driverVerificationStatus !== DriverVerificationStatus.VERIFIED) {
+      reasons.push('DRIVER_NOT_VERIFIED');
+    }
+
+    // Both are calendar dates, so a license expiring on the return day still covers it
+    if (!driver.driverLicenseExpiresAt || driver.driverLicenseExpiresAt < booking.endDate) {
+      reasons.push('LICENSE_EXPIRES_BEFORE_RETURN');
+    }
+
+    const age = driver.dateOfBirth ? ageOn(driver.dateOfBirth, booking.startDate) : null;
+    if (age === null || age < minimumAge) {
+      reasons.push('UNDER_MINIMUM_AGE');
+    }
+
+    return { eligible: reasons.length === 0, reasons, age, minimumAge };
+  }
+}
@@ -0,0 +1,112 @@
+import { BookingStatus, BookingWithRelations, ChargeKind, InvoiceContents } from '../../domain/entities/index.js';
+import { ConflictError } from '../../domain/errors/index.js';
+import { IInvoiceRepository } from '../../domain/repositories/index.js';
+import { INVOICE } from '../../shared/constants/index.js';
+import { roundMoney } from './PricingService.js';
+
+export interface InvoiceSettings {
+  numberPrefix: string;
+  company: InvoiceContents['company'];
+}
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  numberPrefix: INVOICE.NUMBER_PREFIX,
+  company: {
+    name: INVOICE.COMPANY_NAME,
+    address: INVOICE.COMPANY_ADDRESS,
+    taxId: INVOICE.COMPANY_TAX_ID,
+    email: INVOICE.COMPANY_EMAIL,
+    phone: INVOICE.COMPANY_PHONE,
+  },
+};
+
+const INVOICEABLE_STATUSES: BookingStatus[] = [BookingStatus.CONFIRMED, BookingStatus.PICKED_UP, BookingStatus.RETURNED];
+
+const toDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Issues booking invoices from the price snapshot stored on the booking. Settings
+ * and the booking are read once, when the invoice is issued; later changes to
+ * either never alter an invoice already handed out.
+ */
+export class InvoiceService {
+  constructor(
+    private invoiceRepository: IInvoiceRepository,
+    private settings: InvoiceSettings = DEFAULT_INVOICE_SETTINGS
+  ) {}
+
+  formatNumber(number: number): string {
+    return `${this.settings.numberPrefix}${String(number).padStart(6, '0')}`;
+  }
+
+  // Returns the booking's invoice, issuing it on first request
+  async issue(booking: BookingWithRelations, now: Date = new Date()): Promise<InvoiceContents> {
+    const existing = await this.invoiceRepository.findByBookingId(booking.id);
+    if (existing) {
+      return existing.contents as unknown as InvoiceContents;
+    }
+
+    if (!INVOICEABLE_STATUSES.includes(booking.status)) {
+      throw new ConflictError('Only confirmed bookings can be invoiced', 'BOOKING_NOT_INVOICEABLE', {
+        status: booking.status,
+      });
+    }
+
+    const invoice = await this.invoiceRepository.issue(booking.id, now, (number) =>
+      this.buildContents(booking, number, now)
+    );
+    return invoice.contents as unknown as InvoiceContents;
+  }
+
+  buildContents(booking: BookingWithRelations, number: number, issuedAt: Date): InvoiceContents {
+    const charges = booking.charges ?? [];
+    const lines = [
+      { description: `Car rental, ${booking.days} days`, amount: Number(booking.basePrice) },
+      ...(booking.bookingAddons ?? []).map((bookingAddon) => ({
+        description: bookingAddon.addon?.name ?? 'Add-on',
+        amount: Number(bookingAddon.price),
+      })),
+    ];
+    if (Number(booking.dropFee) > 0) {
+      lines.push({ description: 'One-way drop fee', amount: Number(booking.dropFee) });
+    }
+    if (Number(booking.discountAmount) > 0) {
+      const description = booking.promoCode ? `Promo code ${booking.promoCode.code}` : 'Discount';
+      lines.push({ description, amount: -Number(booking.discountAmount) });
+    }
+    for (const charge of charges.filter((c) => c.kind === ChargeKind.FEE)) {
+      lines.push({ description: charge.name, amount: Number(charge.amount) });
+    }
+    const taxLines = charges
+      .filter((charge) => charge.kind === ChargeKind.TAX)
+      .map((charge) => ({
+        name: charge.name,
+        ratePercent: charge.ratePercent === null ? null : Number(charge.ratePercent),
+        amount: Number(charge.amount),
+      }));
+    const total = Number(booking.totalPrice);
+
+    return {
+      number: this.formatNumber(number),
+      issuedAt: issuedAt.toISOString(),
+      company: { ...this.settings.company },
+      billTo: {
+        name: booking.user?.name ?? '',
+        email: booking.user?.email ?? '',
+      },
+      rental: {
+        bookingId: booking.id,
+        car: booking.car ? `${booking.car.brand} ${booking.car.model} ${booking.car.year}` : '',
+        pickupLocation: booking.pickupLocation?.name ?? '',
+        dropoffLocation: booking.dropoffLocation?.name ?? '',
+        startDate: toDate(booking.startDate),
+        endDate: toDate(booking.endDate),
+        days: booking.days,
+      },
+      lines,
+      subtotal: roundMoney(total - taxLines.reduce((sum, tax) => sum + tax.amount, 0)),
+      taxLines,
+      total,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { LocationWithSchedule } from '../../domain/entities/index.js';
+
+const DAY_NAMES = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays'];
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Why a location cannot hand over or take back cars on a day, or null when it
+ * is open. Closure dates override the weekly hours; a location without any
+ * weekly hours is open every day.
+ */
+export function closedReason(location: LocationWithSchedule, date: Date): string | null {
+  const dateKey = toDateKey(date);
+  const closure = (location.closures || []).find((c) => toDateKey(c.date) === dateKey);
+  if (closure) {
+    return closure.reason ? `closed on ${dateKey} (${closure.reason})` : `closed on ${dateKey}`;
+  }
+
+  const openingHours = location.openingHours || [];
+  const dayOfWeek = date.getUTCDay();
+  if (openingHours.length > 0 && !openingHours.some((hours) => hours.dayOfWeek === dayOfWeek)) {
+    return `closed on ${DAY_NAMES[dayOfWeek]}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,173 @@
+import { Booking, BookingStatus, Payment, PaymentStatus, Refund } from '../../domain/entities/index.js';
+import {
+  IAuditLogRepository,
+  IBookingRepository,
+  IPaymentRepository,
+} from '../../domain/repositories/index.js';
+import { GatewayResult, PaymentGateway } from '../../infrastructure/payments/index.js';
+import { CancellationTerms } from './CancellationPolicy.js';
+import { roundMoney } from './PricingService.js';
+
+export const LATE_PAYMENT_REFUND_REASON = 'Payment settled after the booking was cancelled';
+
+const sumOf = (items: { amount: unknown }[]) => roundMoney(items.reduce((sum, item) => sum + Number(item.amount), 0));
+
+/**
+ * Keeps the payment ledger in step with the gateway. Every charge and refund is
+ * recorded before the gateway is called and updated with its answer, so nothing
+ * the gateway took is ever missing from the books.
+ */
+export class PaymentService {
+  constructor(
+    private paymentRepository: IPaymentRepository,
+    private bookingRepository: IBookingRepository,
+    private auditLogRepository: IAuditLogRepository,
+    private gateway: PaymentGateway
+  ) {}
+
+  // Money kept for the booking: successful payments less refunds that have not failed
+  async amountPaid(bookingId: string): Promise<number> {
+    const [payments, refunds] = await Promise.all([
+      this.paymentRepository.findByBookingId(bookingId),
+      this.paymentRepository.findRefundsByBookingId(bookingId),
+    ]);
+
+    return roundMoney(
+      sumOf(payments.filter((payment) => payment.status === PaymentStatus.SUCCEEDED)) -
+        sumOf(refunds.filter((refund) => refund.status !== PaymentStatus.FAILED))
+    );
+  }
+
+  async charge(booking: Booking, amount: number, paymentMethod: string): Promise<Payment> {
+    const payment = await this.paymentRepository.create({
+      bookingId: booking.id,
+      amount,
+      gateway: this.gateway.name,
+    });
+
+    const result = await this.gateway.charge({
+      paymentId: payment.id,
+      amount,
+      paymentMethod,
+      description: `Booking ${booking.id}`,
+    });
+
+    return this.applyPaymentResult(payment, result);
+  }
+
+  // Records the gateway's answer; a payment that succeeds may confirm its booking
+  async applyPaymentResult(payment: Payment, result: GatewayResult, now: Date = new Date()): Promise<Payment> {
+    const settled = await this.paymentRepository.recordOutcome(payment.id, {
+      status: PaymentStatus[result.status],
+      gatewayReference: result.reference,
+      failureReason: result.failureReason,
+      settledAt: result.status === 'PENDING' ? undefined : now,
+    });
+
+    // Settled by someone else in the meantime
+    if (!settled) return payment;
+
+    if (settled.status === PaymentStatus.SUCCEEDED) {
+      await this.onPaymentSucceeded(settled);
+    }
+    return settled;
+  }
+
+  async applyRefundResult(refund: Refund, result: GatewayResult, now: Date = new Date()): Promise<Refund> {
+    const settled = await this.paymentRepository.recordRefundOutcome(refund.id, {
+      status: PaymentStatus[result.status],
+      gatewayReference: result.reference,
+      failureReason: result.failureReason,
+      settledAt: result.status === 'PENDING' ? undefined : now,
+    });
+
+    return settled ?? refund;
+  }
+
+  // Only money actually paid goes back on cancellation, less the fee the customer still owes
+  async refundCancellation(
+    bookingId: string,
+    reason: string,
+    terms: Pick<CancellationTerms, 'cancellationFee' | 'refundAmount'>
+  ): Promise<Refund[]> {
+    const paid = await this.amountPaid(bookingId);
+    const refund = Math.min(terms.refundAmount, roundMoney(paid - terms.cancellationFee));
+    return refund > 0 ? this.refundBooking(bookingId, reason, refund) : [];
+  }
+
+  /**
+   * Returns money paid for the booking, newest payments first, up to the given
+   * amount or everything still kept. Failed refunds stay on record for staff to
+   * follow up rather than failing the caller.
+   */
+  async refundBooking(bookingId: string, reason: string, amount?: number): Promise<Refund[]> {
+    const [payments, refunds] = await Promise.all([
+      this.paymentRepository.findByBookingId(bookingId),
+      this.paymentRepository.findRefundsByBookingId(bookingId),
+    ]);
+
+    let remaining = roundMoney(amount ?? (await this.amountPaid(bookingId)));
+    const started: Refund[] = [];
+
+    const succeeded = payments.filter((payment) => payment.status === PaymentStatus.SUCCEEDED).reverse();
+    for (const payment of succeeded) {
+      if (remaining <= 0) break;
+
+      const alreadyRefunded = sumOf(
+        refunds.filter((refund) => refund.paymentId === payment.id && refund.status !== PaymentStatus.FAILED)
+      );
+      const portion = Math.min(remaining, roundMoney(Number(payment.amount) - alreadyRefunded));
+      if (portion <= 0) continue;
+
+      started.push(await this.refundPayment(payment, portion, reason));
+      remaining = roundMoney(remaining - portion);
+    }
+
+    return started;
+  }
+
+  private async refundPayment(payment: Payment, amount: number, reason: string): Promise<Refund> {
+    const refund = await this.paymentRepository.createRefund({
+      bookingId: payment.bookingId,
+      paymentId: payment.id,
+      amount,
+      gateway: payment.gateway,
+      reason,
+    });
+
+    const result = await this.gateway.refund({
+      refundId: refund.id,
+      paymentReference: payment.gatewayReference ?? '',
+      amount,
+    });
+
+    return this.applyRefundResult(refund, result);
+  }
+
+  private async onPaymentSucceeded(payment: Payment): Promise<void> {
+    const booking = await this.bookingRepository.findById(payment.bookingId, false);
+    if (!booking) return;
+
+    // The hold expired or the customer cancelled while the payment was still settling
+    if (booking.status === BookingStatus.CANCELLED) {
+      await this.refundPayment(payment, Number(payment.amount), LATE_PAYMENT_REFUND_REASON);
+      return;
+    }
+
+    if (booking.status !== BookingStatus.PENDING) return;
+    if ((await this.amountPaid(booking.id)) < Number(booking.totalPrice)) return;
+
+    // Skip a booking that expired or was confirmed by staff meanwhile
+    const confirmed = await this.bookingRepository.confirmPending(booking.id);
+    if (!confirmed) return;
+
+    // System action: no actor
+    await this.auditLogRepository.create({
+      entityType: 'Booking',
+      entityId: booking.id,
+      action: `STATUS_CHANGED_TO_${BookingStatus.CONFIRMED}`,
+      beforeJson: { status: booking.status },
+      afterJson: { status: BookingStatus.CONFIRMED, reason: 'Fully paid', paymentId: payment.id },
+    });
+  }
+}
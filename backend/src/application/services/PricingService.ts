@@ -0,0 +1,286 @@
+import {
+  Addon,
+  AddonPricingMode,
+  Car,
+  ChargeCalculation,
+  ChargeKind,
+  ChargeRule,
+  PricingRule,
+  PricingRuleType,
+  PromoCode,
+} from '../../domain/entities/index.js';
+import { BookingChargeData, IPricingRuleRepository } from '../../domain/repositories/index.js';
+import { calculateDays } from '../../shared/utils/date.js';
+import { promoDiscount } from './PromoCodeRules.js';
+
+export interface DailyRate {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number;
+  baseRate: number;
+  multiplier: number;
+  rate: number;
+  ruleId: string | null;
+  ruleName: string | null;
+}
+
+export interface RentalPrice {
+  days: number;
+  dailyRates: DailyRate[];
+  basePrice: number;
+}
+
+export type QuoteLineType = 'BASE' | 'ADDON' | 'DROP_FEE' | 'DISCOUNT' | 'FEE' | 'TAX';
+
+export interface QuoteLine {
+  type: QuoteLineType;
+  description: string;
+  amount: number;
+  date?: string; // BASE lines: the rental day being priced
+  referenceId?: string; // ADDON lines: the addon ID; DISCOUNT lines: the promo code ID; FEE and TAX lines: the charge rule ID
+  rate?: number; // FEE and TAX lines: the percentage applied, absent for fixed amounts
+}
+
+export interface BookingQuote {
+  days: number;
+  lines: QuoteLine[];
+  basePrice: number;
+  addonPrice: number;
+  dropFee: number;
+  discountAmount: number;
+  feeAmount: number;
+  taxAmount: number;
+  totalPrice: number;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Price charged for each addon, keyed by addon ID
+export function addonPricesOf(quote: BookingQuote): Map<string, number> {
+  const addonPrices = new Map<string, number>();
+  for (const line of quote.lines) {
+    if (line.type === 'ADDON' && line.referenceId) {
+      addonPrices.set(line.referenceId, line.amount);
+    }
+  }
+  return addonPrices;
+}
+
+// Promo code the quote was discounted with, if any
+export function promoCodeIdOf(quote: BookingQuote): string | null {
+  return quote.lines.find((line) => line.type === 'DISCOUNT')?.referenceId ?? null;
+}
+
+// Fee and tax lines as they are snapshotted onto the booking
+export function chargesOf(quote: BookingQuote): BookingChargeData[] {
+  return quote.lines
+    .filter((line) => (line.type === 'FEE' || line.type === 'TAX') && line.referenceId)
+    .map((line) => ({
+      ruleId: line.referenceId!,
+      kind: line.type === 'FEE' ? ChargeKind.FEE : ChargeKind.TAX,
+      name: line.description,
+      ratePercent: line.rate ?? null,
+      amount: line.amount,
+    }));
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Car-specific rules beat car type rules, which beat fleet-wide rules
+function scopeRank(rule: PricingRule): number {
+  if (rule.carId) return 2;
+  if (rule.carType) return 1;
+  return 0;
+}
+
+function ruleApplies(rule: PricingRule, dateKey: string, dayOfWeek: number): boolean {
+  if (rule.type === PricingRuleType.DAY_OF_WEEK) {
+    return rule.daysOfWeek.includes(dayOfWeek);
+  }
+
+  if (!rule.startDate || !rule.endDate) return false;
+  return toDateKey(rule.startDate) <= dateKey && dateKey <= toDateKey(rule.endDate);
+}
+
+/**
+ * Picks the single rule that prices a day. Date range overrides (peak season,
+ * holidays) win over day-of-week multipliers, then the narrower scope wins,
+ * then the higher priority.
+ */
+export function selectRule(rules: PricingRule[], dateKey: string, dayOfWeek: number): PricingRule | null {
+  const candidates = rules.filter((rule) => rule.isActive && ruleApplies(rule, dateKey, dayOfWeek));
+  if (candidates.length === 0) return null;
+
+  candidates.sort((a, b) => {
+    const typeDiff = Number(b.type === PricingRuleType.DATE_RANGE) - Number(a.type === PricingRuleType.DATE_RANGE);
+    if (typeDiff !== 0) return typeDiff;
+    const scopeDiff = scopeRank(b) - scopeRank(a);
+    if (scopeDiff !== 0) return scopeDiff;
+    return b.priority - a.priority;
+  });
+
+  return candidates[0];
+}
+
+export class PricingService {
+  constructor(private pricingRuleRepository: IPricingRuleRepository) {}
+
+  // Prices each rental day separately against the car's daily price
+  async priceRental(car: Pick<Car, 'id' | 'type' | 'dailyPrice'>, startDate: Date, endDate: Date): Promise<RentalPrice> {
+    const days = calculateDays(startDate, endDate);
+    const lastDay = new Date(startDate.getTime() + (days - 1) * MS_PER_DAY);
+    const rules = await this.pricingRuleRepository.findApplicable(car.id, car.type, startDate, lastDay);
+    const baseRate = Number(car.dailyPrice);
+
+    const dailyRates: DailyRate[] = [];
+    for (let i = 0; i < days; i++) {
+      const day = new Date(startDate.getTime() + i * MS_PER_DAY);
+      const dateKey = toDateKey(day);
+      const dayOfWeek = day.getUTCDay();
+      const rule = selectRule(rules, dateKey, dayOfWeek);
+      const multiplier = rule ? Number(rule.multiplier) : 1;
+
+      dailyRates.push({
+        date: dateKey,
+        dayOfWeek,
+        baseRate,
+        multiplier,
+        rate: roundMoney(baseRate * multiplier),
+        ruleId: rule?.id ?? null,
+        ruleName: rule?.name ?? null,
+      });
+    }
+
+    return {
+      days,
+      dailyRates,
+      basePrice: roundMoney(dailyRates.reduce((sum, d) => sum + d.rate, 0)),
+    };
+  }
+
+  // Builds the itemized price of a booking: one line per rental day and per addon, plus any one-way drop fee
+  // and promo code discount, then the fee and tax lines from the applicable charge rules.
+  // PER_DAY addons are charged for every rental day, PER_BOOKING addons once.
+  // The promo code must already have been checked as usable for this booking.
+  async quoteBooking(
+    car: Pick<Car, 'id' | 'type' | 'dailyPrice'>,
+    addons: Addon[],
+    startDate: Date,
+    endDate: Date,
+    dropFee: number = 0,
+    chargeRules: ChargeRule[] = [],
+    promoCode: PromoCode | null = null
+  ): Promise<BookingQuote> {
+    const rental = await this.priceRental(car, startDate, endDate);
+
+    const lines: QuoteLine[] = rental.dailyRates.map((day) => ({
+      type: 'BASE',
+      description: day.ruleName ? `Daily rate (${day.ruleName})` : 'Daily rate',
+      amount: day.rate,
+      date: day.date,
+    }));
+
+    for (const addon of addons) {
+      const perDay = addon.pricingMode === AddonPricingMode.PER_DAY;
+      lines.push({
+        type: 'ADDON',
+        description: perDay ? `${addon.name} (${rental.days} days)` : addon.name,
+        amount: roundMoney(Number(addon.price) * (perDay ? rental.days : 1)),
+        referenceId: addon.id,
+      });
+    }
+
+    if (dropFee > 0) {
+      lines.push({
+        type: 'DROP_FEE',
+        description: 'One-way drop fee',
+        amount: roundMoney(dropFee),
+      });
+    }
+
+    if (promoCode) {
+      const discount = promoDiscount(promoCode, rental.basePrice);
+      if (discount > 0) {
+        lines.push({
+          type: 'DISCOUNT',
+          description: `Promo code ${promoCode.code}`,
+          amount: discount,
+          referenceId: promoCode.id,
+        });
+      }
+    }
+
+    const sumOf = (type: QuoteLineType) =>
+      roundMoney(lines.filter((line) => line.type === type).reduce((sum, line) => sum + line.amount, 0));
+
+    const basePrice = rental.basePrice;
+    const addonPrice = sumOf('ADDON');
+    const dropFeeAmount = sumOf('DROP_FEE');
+    const discountAmount = sumOf('DISCOUNT');
+    const subtotal = roundMoney(basePrice + addonPrice + dropFeeAmount - discountAmount);
+
+    // Fees are charged on the subtotal and taxes on the subtotal plus fees
+    lines.push(...this.chargeLines(chargeRules, ChargeKind.FEE, subtotal, addons, lines));
+    const feeAmount = sumOf('FEE');
+    lines.push(...this.chargeLines(chargeRules, ChargeKind.TAX, roundMoney(subtotal + feeAmount), addons, lines));
+    const taxAmount = sumOf('TAX');
+
+    return {
+      days: rental.days,
+      lines,
+      basePrice,
+      addonPrice,
+      dropFee: dropFeeAmount,
+      discountAmount,
+      feeAmount,
+      taxAmount,
+      totalPrice: roundMoney(subtotal + feeAmount + taxAmount),
+    };
+  }
+
+  // Add-on rules are charged on that add-on's line alone and skipped when the add-on was not booked;
+  // every other rule is charged on the whole base.
+  private chargeLines(
+    rules: ChargeRule[],
+    kind: ChargeKind,
+    base: number,
+    addons: Addon[],
+    lines: QuoteLine[]
+  ): QuoteLine[] {
+    const charges: QuoteLine[] = [];
+
+    for (const rule of rules) {
+      if (!rule.isActive || rule.kind !== kind) continue;
+
+      let chargedOn = base;
+      let description = rule.name;
+      if (rule.addonId) {
+        const addon = addons.find((a) => a.id === rule.addonId);
+        const addonLine = lines.find((line) => line.type === 'ADDON' && line.referenceId === rule.addonId);
+        if (!addon || !addonLine) continue;
+        chargedOn = addonLine.amount;
+        description = `${rule.name} (${addon.name})`;
+      }
+
+      const rate = Number(rule.rate);
+      const percentage = rule.calculation === ChargeCalculation.PERCENTAGE;
+      const amount = roundMoney(percentage ? (chargedOn * rate) / 100 : rate);
+      if (amount <= 0) continue;
+
+      charges.push({
+        type: kind === ChargeKind.FEE ? 'FEE' : 'TAX',
+        description,
+        amount,
+        referenceId: rule.id,
+        ...(percentage && { rate }),
+      });
+    }
+
+    return charges;
+  }
+}
@@ -0,0 +1,47 @@
+import { Car, DiscountType, PromoCode } from '../../domain/entities/index.js';
+
+// Codes are stored upper-case so customers can type them in any case
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Why a promo code cannot be used on a booking, or null when it can. Without a
+ * redemption time only the booking restrictions are checked, as for a code that
+ * was already redeemed. Redemption limits are not checked here, since they
+ * depend on the bookings already made.
+ */
+export function promoCodeIneligibility(
+  promoCode: PromoCode,
+  booking: { car: Pick<Car, 'id' | 'type'>; days: number },
+  redeemedAt: Date | null
+): string | null {
+  if (redeemedAt) {
+    if (!promoCode.isActive) {
+      return 'is no longer available';
+    }
+    if (promoCode.validFrom && redeemedAt < promoCode.validFrom) {
+      return `can only be used from ${promoCode.validFrom.toISOString().slice(0, 10)}`;
+    }
+    if (promoCode.validUntil && redeemedAt > promoCode.validUntil) {
+      return 'has expired';
+    }
+  }
+  if (promoCode.minDays && booking.days < promoCode.minDays) {
+    return `requires a rental of at least ${promoCode.minDays} days`;
+  }
+  if (promoCode.carTypes.length > 0 && !promoCode.carTypes.includes(booking.car.type)) {
+    return `only applies to ${promoCode.carTypes.join(', ')} cars`;
+  }
+  if (promoCode.carIds.length > 0 && !promoCode.carIds.includes(booking.car.id)) {
+    return 'does not apply to this car';
+  }
+  return null;
+}
+
+// Taken off the rental price only, never more than the rental price itself
+export function promoDiscount(promoCode: Pick<PromoCode, 'discountType' | 'discountValue'>, rentalPrice: number): number {
+  const value = Number(promoCode.discountValue);
+  const discount = promoCode.discountType === DiscountType.PERCENTAGE ? (rentalPrice * value) / 100 : value;
+  return Math.round(Math.min(discount, rentalPrice) * 100) / 100;
+}
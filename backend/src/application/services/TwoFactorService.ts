@@ -0,0 +1,80 @@
+import { User, UserRole } from '../../domain/entities/index.js';
+import { UnauthorizedError } from '../../domain/errors/index.js';
+import { IRecoveryCodeRepository, IUserRepository } from '../../domain/repositories/index.js';
+import {
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  signTwoFactorChallenge,
+  verifyTotpCode,
+  verifyTwoFactorChallenge,
+  TwoFactorChallenge,
+  TwoFactorChallengeType,
+} from '../../infrastructure/auth/index.js';
+import { REQUIRE_ADMIN_TWO_FACTOR } from '../../shared/constants/index.js';
+
+const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+// Enrollment is started from a login ENROLL challenge or by a user who is already signed in
+export type TwoFactorEnrollee = { challengeToken: string } | { userId: string };
+
+export class TwoFactorService {
+  constructor(
+    private userRepository: IUserRepository,
+    private recoveryCodeRepository: IRecoveryCodeRepository,
+    private requireForAdmins: boolean = REQUIRE_ADMIN_TWO_FACTOR
+  ) {}
+
+  /**
+   * The second step a user must complete after a correct password, or null if
+   * the password alone is enough. Enrolled users always get a code prompt;
+   * admins without an authenticator must enroll when 2FA is mandatory.
+   */
+  challengeFor(user: User): TwoFactorChallenge | null {
+    if (user.totpEnabledAt) {
+      return signTwoFactorChallenge(user.id, 'VERIFY');
+    }
+    if (this.requireForAdmins && user.role === UserRole.ADMIN) {
+      return signTwoFactorChallenge(user.id, 'ENROLL');
+    }
+    return null;
+  }
+
+  // Returns the id of the user the challenge was issued to
+  resolveChallenge(challengeToken: string, type: TwoFactorChallengeType): string {
+    try {
+      return verifyTwoFactorChallenge(challengeToken, type);
+    } catch {
+      throw new UnauthorizedError('Invalid or expired two-factor challenge', 'INVALID_TWO_FACTOR_CHALLENGE');
+    }
+  }
+
+  enrollingUserId(enrollee: TwoFactorEnrollee): string {
+    return 'userId' in enrollee ? enrollee.userId : this.resolveChallenge(enrollee.challengeToken, 'ENROLL');
+  }
+
+  // Admins keep their second factor while it is mandatory for them
+  canDisable(user: User): boolean {
+    return !(this.requireForAdmins && user.role === UserRole.ADMIN);
+  }
+
+  // Accepts a current TOTP code, each at most once, or an unused recovery code
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (!user.totpSecret || !user.totpEnabledAt) {
+      return false;
+    }
+
+    if (TOTP_CODE_PATTERN.test(code)) {
+      const step = verifyTotpCode(user.totpSecret, code);
+      return step !== null && this.userRepository.claimTotpStep(user.id, step);
+    }
+
+    return this.recoveryCodeRepository.consume(user.id, hashRecoveryCode(code));
+  }
+
+  // Issues a fresh set of recovery codes; the plain codes are only ever returned here
+  async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = generateRecoveryCodes();
+    await this.recoveryCodeRepository.replaceAll(userId, codes.map(hashRecoveryCode));
+    return codes;
+  }
+}
@@ -0,0 +1,36 @@
+import { AddonWithStock } from '../../../domain/entities/index.js';
+import { ConflictError, NotFoundError } from '../../../domain/errors/index.js';
+import { AddonData, AddonStockData, IAddonRepository, ILocationRepository } from '../../../domain/repositories/index.js';
+
+export type CreateAddonInput = AddonData;
+
+// Stock can only be kept at existing locations
+export async function assertStockLocationsExist(
+  locationRepository: ILocationRepository,
+  stock: AddonStockData[] = []
+): Promise<void> {
+  for (const entry of stock) {
+    const location = await locationRepository.findById(entry.locationId);
+    if (!location) {
+      throw new NotFoundError('Location', entry.locationId);
+    }
+  }
+}
+
+export class CreateAddonUseCase {
+  constructor(
+    private addonRepository: IAddonRepository,
+    private locationRepository: ILocationRepository
+  ) {}
+
+  async execute(input: CreateAddonInput): Promise<AddonWithStock> {
+    const existingAddon = await this.addonRepository.findByName(input.name);
+    if (existingAddon) {
+      throw new ConflictError('An add-on with this name already exists', 'ADDON_NAME_EXISTS');
+    }
+
+    await assertStockLocationsExist(this.locationRepository, input.stock);
+
+    return this.addonRepository.create(input);
+  }
+}
@@ -0,0 +1,17 @@
+import { AddonWithStock } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { IAddonRepository } from '../../../domain/repositories/index.js';
+
+// Add-ons are never deleted: past bookings keep pointing at them
+export class DeactivateAddonUseCase {
+  constructor(private addonRepository: IAddonRepository) {}
+
+  async execute(addonId: string): Promise<AddonWithStock> {
+    const existingAddon = await this.addonRepository.findById(addonId);
+    if (!existingAddon) {
+      throw new NotFoundError('Add-on', addonId);
+    }
+
+    return this.addonRepository.update(addonId, { isActive: false });
+  }
+}
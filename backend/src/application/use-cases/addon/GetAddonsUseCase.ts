@@ -1,10 +1,10 @@
-import { Addon } from '../../../domain/entities/index.js';
+import { AddonWithStock } from '../../../domain/entities/index.js';
 import { IAddonRepository } from '../../../domain/repositories/index.js';
 
 export class GetAddonsUseCase {
   constructor(private addonRepository: IAddonRepository) {}
 
-  async execute(activeOnly: boolean = true): Promise<Addon[]> {
+  async execute(activeOnly: boolean = true): Promise<AddonWithStock[]> {
     return this.addonRepository.findAll(activeOnly);
   }
 }
@@ -0,0 +1,31 @@
+import { AddonWithStock } from '../../../domain/entities/index.js';
+import { ConflictError, NotFoundError } from '../../../domain/errors/index.js';
+import { AddonData, IAddonRepository, ILocationRepository } from '../../../domain/repositories/index.js';
+import { assertStockLocationsExist } from './CreateAddonUseCase.js';
+
+export type UpdateAddonInput = Partial<AddonData> & { isActive?: boolean };
+
+export class UpdateAddonUseCase {
+  constructor(
+    private addonRepository: IAddonRepository,
+    private locationRepository: ILocationRepository
+  ) {}
+
+  async execute(addonId: string, input: UpdateAddonInput): Promise<AddonWithStock> {
+    const existingAddon = await this.addonRepository.findById(addonId);
+    if (!existingAddon) {
+      throw new NotFoundError('Add-on', addonId);
+    }
+
+    if (input.name && input.name !== existingAddon.name) {
+      const sameName = await this.addonRepository.findByName(input.name);
+      if (sameName) {
+        throw new ConflictError('An add-on with this name already exists', 'ADDON_NAME_EXISTS');
+      }
+    }
+
+    await assertStockLocationsExist(this.locationRepository, input.stock);
+
+    return this.addonRepository.update(addonId, input);
+  }
+}
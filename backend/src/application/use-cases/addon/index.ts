@@ -0,0 +1,6 @@
+export { GetAddonsUseCase } from './GetAddonsUseCase.js';
+export { CreateAddonUseCase } from './CreateAddonUseCase.js';
+export type { CreateAddonInput } from './CreateAddonUseCase.js';
+export { UpdateAddonUseCase } from './UpdateAddonUseCase.js';
+export type { UpdateAddonInput } from './UpdateAddonUseCase.js';
+export { DeactivateAddonUseCase } from './DeactivateAddonUseCase.js';
@@ -0,0 +1,56 @@
+import { UserRole } from '../../../domain/entities/index.js';
+import { NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { IAuditLogRepository, ILocationRepository, IUserRepository } from '../../../domain/repositories/index.js';
+
+export interface AssignStaffLocationsInput {
+  userId: string;
+  // An empty list removes the branch scope, so the staff member sees every branch
+  locationIds: string[];
+  adminId: string;
+}
+
+export interface StaffLocationsOutput {
+  userId: string;
+  locationIds: string[];
+}
+
+export class AssignStaffLocationsUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private locationRepository: ILocationRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(input: AssignStaffLocationsInput): Promise<StaffLocationsOutput> {
+    const user = await this.userRepository.findByIdWithStaffAccess(input.userId);
+    if (!user) {
+      throw new NotFoundError('User', input.userId);
+    }
+
+    if (user.role !== UserRole.STAFF) {
+      throw new ValidationError('Only staff users can be assigned to branches', [
+        { field: 'id', message: 'Make the user STAFF before assigning branches' },
+      ]);
+    }
+
+    for (const locationId of input.locationIds) {
+      const location = await this.locationRepository.findById(locationId);
+      if (!location) {
+        throw new NotFoundError('Location', locationId);
+      }
+    }
+
+    await this.userRepository.setStaffLocations(user.id, input.locationIds);
+
+    await this.auditLogRepository.create({
+      actorId: input.adminId,
+      entityType: 'User',
+      entityId: user.id,
+      action: 'STAFF_LOCATIONS_CHANGED',
+      beforeJson: { locationIds: (user.staffLocations ?? []).map((staffLocation) => staffLocation.locationId) },
+      afterJson: { locationIds: input.locationIds },
+    });
+
+    return { userId: user.id, locationIds: input.locationIds };
+  }
+}
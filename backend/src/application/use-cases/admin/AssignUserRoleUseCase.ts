@@ -0,0 +1,62 @@
+import { UserRole, UserWithoutPassword } from '../../../domain/entities/index.js';
+import { NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { IAuditLogRepository, IStaffRoleRepository, IUserRepository } from '../../../domain/repositories/index.js';
+
+export interface AssignUserRoleInput {
+  userId: string;
+  role: UserRole;
+  // Required for STAFF, ignored for other roles
+  staffRoleId?: string | null;
+  adminId: string;
+}
+
+export class AssignUserRoleUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private staffRoleRepository: IStaffRoleRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(input: AssignUserRoleInput): Promise<UserWithoutPassword> {
+    // Keeps the last admin from locking everyone out of role management by accident
+    if (input.userId === input.adminId) {
+      throw new ValidationError('You cannot change your own role', [
+        { field: 'id', message: 'Ask another admin to change your role' },
+      ]);
+    }
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError('User', input.userId);
+    }
+
+    let staffRoleId: string | null = null;
+    if (input.role === UserRole.STAFF) {
+      if (!input.staffRoleId) {
+        throw new ValidationError('Staff users need a staff role', [
+          { field: 'staffRoleId', message: 'Staff role is required for STAFF users' },
+        ]);
+      }
+      const staffRole = await this.staffRoleRepository.findById(input.staffRoleId);
+      if (!staffRole) {
+        throw new NotFoundError('Staff role', input.staffRoleId);
+      }
+      staffRoleId = staffRole.id;
+    }
+
+    const updated = await this.userRepository.update(user.id, { role: input.role, staffRoleId });
+
+    await this.auditLogRepository.create({
+      actorId: input.adminId,
+      entityType: 'User',
+      entityId: user.id,
+      action: 'ROLE_CHANGED',
+      beforeJson: { role: user.role, staffRoleId: user.staffRoleId },
+      afterJson: { role: updated.role, staffRoleId: updated.staffRoleId },
+    });
+
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = updated;
+
+    return userWithoutPassword;
+  }
+}
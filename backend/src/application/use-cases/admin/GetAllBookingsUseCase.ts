@@ -5,12 +5,18 @@ export interface GetAllBookingsInput {
   filters: BookingFilters;
   pagination: PaginationParams;
   sort?: BookingSortOptions;
+  // Branches the acting user is limited to; null means every branch
+  locationIds: string[] | null;
 }
 
 export class GetAllBookingsUseCase {
   constructor(private bookingRepository: IBookingRepository) {}
 
   async execute(input: GetAllBookingsInput): Promise<PaginatedResult<BookingWithRelations>> {
-    return this.bookingRepository.findAll(input.filters, input.pagination, input.sort);
+    return this.bookingRepository.findAll(
+      { ...input.filters, locationIds: input.locationIds },
+      input.pagination,
+      input.sort
+    );
   }
 }
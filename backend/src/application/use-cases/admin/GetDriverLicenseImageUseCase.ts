@@ -0,0 +1,33 @@
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { FileStorage } from '../../../infrastructure/storage/index.js';
+
+export interface DriverLicenseImage {
+  data: Buffer;
+  contentType: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+export class GetDriverLicenseImageUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private fileStorage: FileStorage
+  ) {}
+
+  async execute(userId: string): Promise<DriverLicenseImage> {
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.driverLicenseImagePath) {
+      throw new NotFoundError('Driver license image', userId);
+    }
+
+    const extension = user.driverLicenseImagePath.split('.').pop() ?? '';
+    const data = await this.fileStorage.read(user.driverLicenseImagePath);
+
+    return { data, contentType: CONTENT_TYPES[extension] ?? 'application/octet-stream' };
+  }
+}
@@ -0,0 +1,13 @@
+import { DriverVerificationStatus, UserWithoutPassword } from '../../../domain/entities/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+
+export class GetDriverVerificationsUseCase {
+  constructor(private userRepository: IUserRepository) {}
+
+  // Defaults to the review queue: licenses waiting for a decision, oldest first
+  async execute(status: DriverVerificationStatus = DriverVerificationStatus.PENDING): Promise<UserWithoutPassword[]> {
+    const users = await this.userRepository.findByDriverVerificationStatus(status);
+
+    return users.map(({ passwordHash: _, totpSecret: __, ...userWithoutPassword }) => userWithoutPassword);
+  }
+}
@@ -0,0 +1,56 @@
+import { DriverVerificationStatus, UserWithoutPassword } from '../../../domain/entities/index.js';
+import { ConflictError, NotFoundError } from '../../../domain/errors/index.js';
+import { IAuditLogRepository, IUserRepository } from '../../../domain/repositories/index.js';
+
+export interface ReviewDriverVerificationInput {
+  userId: string;
+  status: typeof DriverVerificationStatus.VERIFIED | typeof DriverVerificationStatus.REJECTED;
+  // Required when rejecting; tells the customer what to fix
+  note?: string;
+  adminId: string;
+}
+
+export class ReviewDriverVerificationUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(input: ReviewDriverVerificationInput, now: Date = new Date()): Promise<UserWithoutPassword> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user || user.deletedAt) {
+      throw new NotFoundError('User', input.userId);
+    }
+
+    // Only a submission can be decided on, and deciding twice would hide the first decision
+    if (user.driverVerificationStatus !== DriverVerificationStatus.PENDING) {
+      throw new ConflictError('Driver license is not awaiting review', 'DRIVER_VERIFICATION_NOT_PENDING', {
+        status: user.driverVerificationStatus,
+      });
+    }
+
+    const updated = await this.userRepository.update(user.id, {
+      driverVerificationStatus: input.status,
+      driverVerifiedAt: input.status === DriverVerificationStatus.VERIFIED ? now : null,
+      driverVerificationNote: input.note ?? null,
+    });
+
+    await this.auditLogRepository.create({
+      actorId: input.adminId,
+      entityType: 'User',
+      entityId: user.id,
+      action: input.status === DriverVerificationStatus.VERIFIED ? 'DRIVER_VERIFIED' : 'DRIVER_REJECTED',
+      beforeJson: { driverVerificationStatus: user.driverVerificationStatus },
+      afterJson: {
+        driverVerificationStatus: input.status,
+        driverLicenseNumber: user.driverLicenseNumber,
+        driverLicenseExpiresAt: user.driverLicenseExpiresAt?.toISOString() ?? null,
+        note: input.note ?? null,
+      },
+    });
+
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = updated;
+
+    return userWithoutPassword;
+  }
+}
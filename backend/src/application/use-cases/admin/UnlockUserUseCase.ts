@@ -0,0 +1,40 @@
+import { UserWithoutPassword } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { IAuditLogRepository, IUserRepository } from '../../../domain/repositories/index.js';
+
+export interface UnlockUserInput {
+  userId: string;
+  adminId: string;
+}
+
+export class UnlockUserUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(input: UnlockUserInput): Promise<UserWithoutPassword> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError('User', input.userId);
+    }
+
+    const updated = await this.userRepository.update(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+
+    await this.auditLogRepository.create({
+      actorId: input.adminId,
+      entityType: 'User',
+      entityId: user.id,
+      action: 'ACCOUNT_UNLOCKED',
+      beforeJson: {
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockedUntil: user.lockedUntil?.toISOString() ?? null,
+      },
+      afterJson: { reason: 'ADMIN_UNLOCK' },
+    });
+
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = updated;
+
+    return userWithoutPassword;
+  }
+}
@@ -1,27 +1,65 @@
-import { Booking, BookingStatus } from '../../../domain/entities/index.js';
-import { IBookingRepository, IAuditLogRepository } from '../../../domain/repositories/index.js';
-import { NotFoundError, ValidationError } from '../../../domain/errors/index.js';
-import { BOOKING_STATUS_TRANSITIONS } from '../../../shared/constants/index.js';
+import { Booking, BookingStatus, Deposit } from '../../../domain/entities/index.js';
+import { IBookingRepository, ICarRepository, IUserRepository, IAuditLogRepository } from '../../../domain/repositories/index.js';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { BOOKING_STATUS_PERMISSIONS, BOOKING_STATUS_TRANSITIONS, Permission } from '../../../shared/constants/index.js';
+import { DriverEligibilityPolicy } from '../../services/DriverEligibility.js';
+import { DepositCapture, DepositService } from '../../services/DepositService.js';
+import { CancellationPolicy, CancellationTerms } from '../../services/CancellationPolicy.js';
+import { PaymentService } from '../../services/PaymentService.js';
+
+const STAFF_CANCEL_REASON = 'Cancelled by staff';
 
 export interface UpdateBookingStatusInput {
   bookingId: string;
   status: BookingStatus;
   adminId: string;
+  // The acting user's permissions; each target status needs its own booking:status:* grant
+  permissions: Permission[];
+  // Branches the acting user is limited to; null means every branch
+  locationIds: string[] | null;
   reason?: string;
+  // Card presented at pickup for the deposit; defaults to the card the booking was paid with
+  depositPaymentMethod?: string;
+  // Part of the deposit kept on return; without it the whole deposit is released
+  depositCapture?: DepositCapture;
 }
 
 export class UpdateBookingStatusUseCase {
   constructor(
     private bookingRepository: IBookingRepository,
-    private auditLogRepository: IAuditLogRepository
+    private carRepository: ICarRepository,
+    private userRepository: IUserRepository,
+    private auditLogRepository: IAuditLogRepository,
+    private depositService: DepositService,
+    private cancellationPolicy: CancellationPolicy,
+    private paymentService: PaymentService,
+    private driverEligibilityPolicy: DriverEligibilityPolicy = new DriverEligibilityPolicy()
   ) {}
 
   async execute(input: UpdateBookingStatusInput): Promise<Booking> {
+    const requiredPermission = BOOKING_STATUS_PERMISSIONS[input.status];
+    if (requiredPermission && !input.permissions.includes(requiredPermission)) {
+      throw new ForbiddenError(`Not allowed to set booking status to '${input.status}'`, {
+        required: requiredPermission,
+      });
+    }
+
     const booking = await this.bookingRepository.findById(input.bookingId);
     if (!booking) {
       throw new NotFoundError('Booking', input.bookingId);
     }
 
+    // The booking exists, so a branch-scoped user gets a 403 rather than a 404
+    if (
+      input.locationIds &&
+      !input.locationIds.includes(booking.pickupLocationId) &&
+      !input.locationIds.includes(booking.dropoffLocationId)
+    ) {
+      throw new ForbiddenError('Booking belongs to a branch you are not assigned to', {
+        reason: 'OUTSIDE_BRANCH',
+      });
+    }
+
     // Validate status transition
     const allowedTransitions = BOOKING_STATUS_TRANSITIONS[booking.status] || [];
     if (!allowedTransitions.includes(input.status)) {
@@ -34,12 +72,56 @@ export class UpdateBookingStatusUseCase {
       );
     }
 
-    // Update status
-    const updatedBooking = await this.bookingRepository.updateStatus(
-      input.bookingId,
-      input.status,
-      input.status === BookingStatus.CANCELLED ? input.reason : undefined
-    );
+    // Keys are only handed over to a verified driver who may drive this car for the whole rental,
+    // once the deposit is held; a declined hold stops the pickup
+    let deposit: Deposit | null = null;
+    if (input.status === BookingStatus.PICKED_UP) {
+      const { car } = booking;
+      const driver = await this.userRepository.findById(booking.userId);
+      if (!driver) {
+        throw new NotFoundError('User', booking.userId);
+      }
+      if (!car) {
+        throw new NotFoundError('Car', booking.carId);
+      }
+      const eligibility = this.driverEligibilityPolicy.evaluate(driver, car, booking);
+      if (!eligibility.eligible) {
+        throw new ConflictError('Driver is not eligible to pick up this car', 'DRIVER_NOT_ELIGIBLE', {
+          reasons: eligibility.reasons,
+          age: eligibility.age,
+          minimumAge: eligibility.minimumAge,
+        });
+      }
+
+      deposit = await this.depositService.hold(booking, car.type, input.depositPaymentMethod);
+    }
+
+    // On return the deposit is released, or part of it kept for damages or fees
+    if (input.status === BookingStatus.RETURNED) {
+      deposit = await this.depositService.settle(booking.id, input.depositCapture);
+    }
+
+    // Staff cancellations follow the same policy as the customer's own, fee and refund included;
+    // after the start date the whole price is kept
+    let terms: CancellationTerms | null = null;
+    let updatedBooking: Booking;
+    if (input.status === BookingStatus.CANCELLED) {
+      terms = this.cancellationPolicy.evaluate(booking);
+      const cancelReason = input.reason || STAFF_CANCEL_REASON;
+      updatedBooking = await this.bookingRepository.cancel(input.bookingId, {
+        cancelReason,
+        cancellationFee: terms.cancellationFee,
+        refundAmount: terms.refundAmount,
+      });
+      await this.paymentService.refundCancellation(booking.id, cancelReason, terms);
+    } else {
+      updatedBooking = await this.bookingRepository.updateStatus(input.bookingId, input.status);
+    }
+
+    // A returned car stays at the branch it was dropped off at
+    if (input.status === BookingStatus.RETURNED) {
+      await this.carRepository.update(booking.carId, { currentLocationId: booking.dropoffLocationId });
+    }
 
     // Create audit log
     await this.auditLogRepository.create({
@@ -48,7 +130,19 @@ export class UpdateBookingStatusUseCase {
       entityId: input.bookingId,
       action: `STATUS_CHANGED_TO_${input.status}`,
       beforeJson: { status: booking.status },
-      afterJson: { status: input.status, reason: input.reason },
+      afterJson: {
+        status: input.status,
+        reason: input.reason,
+        ...(terms && { cancellationFee: terms.cancellationFee, refundAmount: terms.refundAmount }),
+        ...(deposit && {
+          deposit: {
+            status: deposit.status,
+            amount: Number(deposit.amount),
+            capturedAmount: deposit.capturedAmount === null ? undefined : Number(deposit.capturedAmount),
+            captureReason: deposit.captureReason ?? undefined,
+          },
+        }),
+      },
     });
 
     return updatedBooking;
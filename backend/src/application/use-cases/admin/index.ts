@@ -3,3 +3,14 @@ export type { GetAllBookingsInput } from './GetAllBookingsUseCase.js';
 export { UpdateBookingStatusUseCase } from './UpdateBookingStatusUseCase.js';
 export type { UpdateBookingStatusInput } from './UpdateBookingStatusUseCase.js';
 export { GetDashboardStatsUseCase } from './GetDashboardStatsUseCase.js';
+export { UnlockUserUseCase } from './UnlockUserUseCase.js';
+export type { UnlockUserInput } from './UnlockUserUseCase.js';
+export { AssignUserRoleUseCase } from './AssignUserRoleUseCase.js';
+export type { AssignUserRoleInput } from './AssignUserRoleUseCase.js';
+export { AssignStaffLocationsUseCase } from './AssignStaffLocationsUseCase.js';
+export type { AssignStaffLocationsInput, StaffLocationsOutput } from './AssignStaffLocationsUseCase.js';
+export { GetDriverVerificationsUseCase } from './GetDriverVerificationsUseCase.js';
+export { ReviewDriverVerificationUseCase } from './ReviewDriverVerificationUseCase.js';
+export type { ReviewDriverVerificationInput } from './ReviewDriverVerificationUseCase.js';
+export { GetDriverLicenseImageUseCase } from './GetDriverLicenseImageUseCase.js';
+export type { DriverLicenseImage } from './GetDriverLicenseImageUseCase.js';
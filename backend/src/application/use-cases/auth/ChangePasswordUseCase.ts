@@ -0,0 +1,51 @@
+import { NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { IRefreshTokenRepository, IUserRepository } from '../../../domain/repositories/index.js';
+import { comparePassword, hashPassword } from '../../../infrastructure/auth/index.js';
+import { AuthTokens, AuthTokenService } from '../../services/AuthTokenService.js';
+
+export interface ChangePasswordInput {
+  userId: string;
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ChangePasswordOutput {
+  token: AuthTokens;
+}
+
+export class ChangePasswordUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private refreshTokenRepository: IRefreshTokenRepository,
+    private authTokenService: AuthTokenService
+  ) {}
+
+  async execute(input: ChangePasswordInput): Promise<ChangePasswordOutput> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError('User', input.userId);
+    }
+
+    // A 400 rather than a 401, so the client does not treat it as an expired session
+    const isCurrentPasswordValid = await comparePassword(input.currentPassword, user.passwordHash);
+    if (!isCurrentPasswordValid) {
+      throw new ValidationError('Current password is incorrect', [
+        { field: 'currentPassword', message: 'Current password is incorrect' },
+      ]);
+    }
+
+    if (input.currentPassword === input.newPassword) {
+      throw new ValidationError('New password must be different', [
+        { field: 'newPassword', message: 'New password must differ from the current one' },
+      ]);
+    }
+
+    await this.userRepository.update(user.id, { passwordHash: await hashPassword(input.newPassword) });
+
+    // Sign out every other session and hand this one a fresh token pair
+    await this.refreshTokenRepository.revokeAllForUser(user.id);
+    const token = await this.authTokenService.issue(user);
+
+    return { token };
+  }
+}
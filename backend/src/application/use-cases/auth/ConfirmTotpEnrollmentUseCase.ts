@@ -0,0 +1,72 @@
+import { ConflictError, UnauthorizedError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { verifyTotpCode } from '../../../infrastructure/auth/index.js';
+import { AuthTokens, AuthTokenService } from '../../services/AuthTokenService.js';
+import { AccountLockoutService } from '../../services/AccountLockoutService.js';
+import { TwoFactorEnrollee, TwoFactorService } from '../../services/TwoFactorService.js';
+import { SignedInOutput } from './LoginUseCase.js';
+
+export type ConfirmTotpEnrollmentInput = TwoFactorEnrollee & {
+  code: string;
+};
+
+export interface ConfirmTotpEnrollmentOutput extends Omit<SignedInOutput, 'token'> {
+  // Only when enrolling completes a login; a signed-in user keeps their session
+  token?: AuthTokens;
+  recoveryCodes: string[];
+}
+
+export class ConfirmTotpEnrollmentUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private authTokenService: AuthTokenService,
+    private accountLockoutService: AccountLockoutService,
+    private twoFactorService: TwoFactorService
+  ) {}
+
+  // A first valid code proves the authenticator is set up; it enables 2FA and completes a pending sign-in
+  async execute(input: ConfirmTotpEnrollmentInput): Promise<ConfirmTotpEnrollmentOutput> {
+    const userId = this.twoFactorService.enrollingUserId(input);
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired two-factor challenge', 'INVALID_TWO_FACTOR_CHALLENGE');
+    }
+    if (user.totpEnabledAt) {
+      throw new ConflictError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+    if (!user.totpSecret) {
+      throw new ConflictError('Start two-factor enrollment first', 'TWO_FACTOR_ENROLLMENT_NOT_STARTED');
+    }
+
+    const now = new Date();
+    if (this.accountLockoutService.isLocked(user, now)) {
+      throw new UnauthorizedError('Invalid two-factor code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const step = verifyTotpCode(user.totpSecret, input.code);
+    if (step === null) {
+      await this.accountLockoutService.recordFailure(user, now);
+      throw new UnauthorizedError('Invalid two-factor code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const enrolled = await this.userRepository.update(user.id, {
+      totpEnabledAt: now,
+      totpLastUsedStep: step,
+    });
+    const recoveryCodes = await this.twoFactorService.issueRecoveryCodes(user.id);
+
+    await this.accountLockoutService.recordSuccess(user);
+
+    const token = 'challengeToken' in input ? await this.authTokenService.issue(user) : undefined;
+
+    // Remove credentials from response
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = enrolled;
+
+    return {
+      user: { ...userWithoutPassword, failedLoginAttempts: 0, lockedUntil: null },
+      ...(token && { token }),
+      recoveryCodes,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { randomBytes } from 'crypto';
+import { DriverVerificationStatus, UserRole } from '../../../domain/entities/index.js';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { IAuditLogRepository, IBookingRepository, IUserRepository } from '../../../domain/repositories/index.js';
+import { comparePassword, hashPassword } from '../../../infrastructure/auth/index.js';
+import { FileStorage } from '../../../infrastructure/storage/index.js';
+import { ACTIVE_BOOKING_STATUSES } from '../../../shared/constants/index.js';
+
+export interface DeleteAccountInput {
+  userId: string;
+  password: string;
+}
+
+/**
+ * Deletes an account by anonymizing it. Bookings stay in place for financial
+ * reporting but no longer point at anyone identifiable; credentials, sessions
+ * and pending email links are removed so the account can never sign in again.
+ */
+export class DeleteAccountUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private bookingRepository: IBookingRepository,
+    private auditLogRepository: IAuditLogRepository,
+    private fileStorage: FileStorage
+  ) {}
+
+  async execute(input: DeleteAccountInput, now: Date = new Date()): Promise<void> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError('User', input.userId);
+    }
+
+    const isPasswordValid = await comparePassword(input.password, user.passwordHash);
+    if (!isPasswordValid) {
+      throw new ValidationError('Password is incorrect', [
+        { field: 'password', message: 'Password is incorrect' },
+      ]);
+    }
+
+    // Otherwise the last admin could remove themselves and nobody could run the back office
+    if (user.role === UserRole.ADMIN) {
+      throw new ForbiddenError('Admin accounts cannot be deleted by their owner', { reason: 'ADMIN_ACCOUNT' });
+    }
+
+    const bookings = await this.bookingRepository.findAllByUserId(user.id);
+    const activeBookings = bookings.filter((booking) =>
+      (ACTIVE_BOOKING_STATUSES as readonly string[]).includes(booking.status)
+    );
+    if (activeBookings.length > 0) {
+      throw new ConflictError('Cancel or complete your active bookings before deleting your account', 'ACTIVE_BOOKINGS_EXIST', {
+        bookingIds: activeBookings.map((booking) => booking.id),
+      });
+    }
+
+    await this.userRepository.anonymize(user.id, {
+      email: `deleted-${user.id}@deleted.invalid`,
+      name: 'Deleted User',
+      // A hash of random bytes nobody knows, so no password matches it
+      passwordHash: await hashPassword(randomBytes(32).toString('hex')),
+      role: UserRole.CUSTOMER,
+      emailVerifiedAt: null,
+      phone: null,
+      dateOfBirth: null,
+      driverLicenseNumber: null,
+      driverLicenseCountry: null,
+      driverLicenseExpiresAt: null,
+      driverLicenseImagePath: null,
+      driverVerificationStatus: DriverVerificationStatus.UNVERIFIED,
+      driverLicenseSubmittedAt: null,
+      driverVerifiedAt: null,
+      driverVerificationNote: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      staffRoleId: null,
+      deletedAt: now,
+    });
+
+    if (user.driverLicenseImagePath) {
+      await this.fileStorage.delete(user.driverLicenseImagePath);
+    }
+
+    await this.auditLogRepository.create({
+      actorId: user.id,
+      entityType: 'User',
+      entityId: user.id,
+      action: 'ACCOUNT_DELETED',
+      afterJson: { bookingsKept: bookings.length },
+    });
+  }
+}
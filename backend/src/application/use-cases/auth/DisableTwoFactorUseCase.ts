@@ -0,0 +1,51 @@
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { IRecoveryCodeRepository, IUserRepository } from '../../../domain/repositories/index.js';
+import { AccountLockoutService } from '../../services/AccountLockoutService.js';
+import { TwoFactorService } from '../../services/TwoFactorService.js';
+
+export interface DisableTwoFactorInput {
+  userId: string;
+  // A code from the authenticator app or one of the recovery codes
+  code: string;
+}
+
+function invalidCodeError(): ValidationError {
+  return new ValidationError('Invalid two-factor code', [{ field: 'code', message: 'Invalid two-factor code' }]);
+}
+
+export class DisableTwoFactorUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private recoveryCodeRepository: IRecoveryCodeRepository,
+    private accountLockoutService: AccountLockoutService,
+    private twoFactorService: TwoFactorService
+  ) {}
+
+  // Removes the authenticator secret and every recovery code
+  async execute(input: DisableTwoFactorInput): Promise<void> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError('User', input.userId);
+    }
+    if (!user.totpEnabledAt) {
+      throw new ConflictError('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED');
+    }
+    if (!this.twoFactorService.canDisable(user)) {
+      throw new ForbiddenError('Two-factor authentication is required for admins');
+    }
+
+    // A 400 rather than a 401, so the client does not treat it as an expired session
+    const now = new Date();
+    if (this.accountLockoutService.isLocked(user, now)) {
+      throw invalidCodeError();
+    }
+    if (!(await this.twoFactorService.verifyCode(user, input.code))) {
+      await this.accountLockoutService.recordFailure(user, now);
+      throw invalidCodeError();
+    }
+    await this.accountLockoutService.recordSuccess(user);
+
+    await this.userRepository.update(user.id, { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null });
+    await this.recoveryCodeRepository.replaceAll(user.id, []);
+  }
+}
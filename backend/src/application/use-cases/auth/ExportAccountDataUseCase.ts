@@ -0,0 +1,41 @@
+import { AuditLog, BookingWithRelations, UserWithoutPassword } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { IAuditLogRepository, IBookingRepository, IUserRepository } from '../../../domain/repositories/index.js';
+
+export interface AccountDataExport {
+  exportedAt: Date;
+  profile: UserWithoutPassword;
+  bookings: BookingWithRelations[];
+  auditLogs: AuditLog[];
+}
+
+/**
+ * Collects everything held on the user: their profile (without credentials),
+ * every booking with its car, locations and add-ons, and the audit entries
+ * they made or that concern their account or bookings.
+ */
+export class ExportAccountDataUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private bookingRepository: IBookingRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(userId: string, now: Date = new Date()): Promise<AccountDataExport> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    const bookings = await this.bookingRepository.findAllByUserId(userId);
+    const auditLogs = await this.auditLogRepository.findForUser(
+      userId,
+      bookings.map((booking) => booking.id)
+    );
+
+    // Remove credentials from the export
+    const { passwordHash: _, totpSecret: __, ...profile } = user;
+
+    return { exportedAt: now, profile, bookings, auditLogs };
+  }
+}
@@ -0,0 +1,23 @@
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { AccountEmailService } from '../../services/AccountEmailService.js';
+
+export interface ForgotPasswordInput {
+  email: string;
+}
+
+export class ForgotPasswordUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private accountEmailService: AccountEmailService
+  ) {}
+
+  // Succeeds whether or not the email is registered so accounts cannot be enumerated
+  async execute(input: ForgotPasswordInput): Promise<void> {
+    const user = await this.userRepository.findByEmail(input.email);
+    if (!user) {
+      return;
+    }
+
+    await this.accountEmailService.sendPasswordResetEmail(user);
+  }
+}
@@ -1,20 +1,32 @@
 import { UserWithoutPassword } from '../../../domain/entities/index.js';
 import { NotFoundError } from '../../../domain/errors/index.js';
 import { IUserRepository } from '../../../domain/repositories/index.js';
+import { Permission, resolvePermissions, resolveBranchScope } from '../../../shared/constants/index.js';
+
+export interface ProfileOutput extends UserWithoutPassword {
+  // Lets the client show only the back-office areas the user can use
+  permissions: Permission[];
+  // Branches a staff member is limited to; null means every branch
+  locationIds: string[] | null;
+}
 
 export class GetProfileUseCase {
   constructor(private userRepository: IUserRepository) {}
 
-  async execute(userId: string): Promise<UserWithoutPassword> {
-    const user = await this.userRepository.findById(userId);
+  async execute(userId: string): Promise<ProfileOutput> {
+    const user = await this.userRepository.findByIdWithStaffAccess(userId);
 
     if (!user) {
       throw new NotFoundError('User', userId);
     }
 
-    // Remove password from response
-    const { passwordHash: _, ...userWithoutPassword } = user;
+    // Remove credentials from response
+    const { passwordHash: _, totpSecret: __, staffRole, staffLocations, ...userWithoutPassword } = user;
 
-    return userWithoutPassword;
+    return {
+      ...userWithoutPassword,
+      permissions: resolvePermissions(user.role, staffRole?.permissions),
+      locationIds: resolveBranchScope(user.role, staffLocations?.map((staffLocation) => staffLocation.locationId)),
+    };
   }
 }
@@ -1,46 +1,76 @@
 import { UserWithoutPassword } from '../../../domain/entities/index.js';
 import { UnauthorizedError } from '../../../domain/errors/index.js';
 import { IUserRepository } from '../../../domain/repositories/index.js';
-import { comparePassword, generateToken, TokenPair } from '../../../infrastructure/auth/index.js';
+import { comparePassword, TwoFactorChallenge } from '../../../infrastructure/auth/index.js';
+import { AuthTokens, AuthTokenService } from '../../services/AuthTokenService.js';
+import { AccountLockoutService } from '../../services/AccountLockoutService.js';
+import { TwoFactorService } from '../../services/TwoFactorService.js';
 
 export interface LoginInput {
   email: string;
   password: string;
 }
 
-export interface LoginOutput {
+export interface SignedInOutput {
   user: UserWithoutPassword;
-  token: TokenPair;
+  token: AuthTokens;
 }
 
+// Returned instead of tokens when the user must also pass a second factor
+export interface TwoFactorChallengeOutput {
+  challenge: TwoFactorChallenge;
+}
+
+export type LoginOutput = SignedInOutput | TwoFactorChallengeOutput;
+
+// Checked when the email is unknown so the response takes as long as a real password check
+const UNKNOWN_USER_HASH = '$2b$10$IOX/7iwmkmXuDAX.97L6/efCvDZv9YTS5RLCTdKnu9yvFuTrGsVPG';
+
 export class LoginUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private authTokenService: AuthTokenService,
+    private accountLockoutService: AccountLockoutService,
+    private twoFactorService: TwoFactorService
+  ) {}
 
   async execute(input: LoginInput): Promise<LoginOutput> {
     // Find user by email
     const user = await this.userRepository.findByEmail(input.email);
     if (!user) {
+      await comparePassword(input.password, UNKNOWN_USER_HASH);
       throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS');
     }
 
-    // Verify password
+    // Verify password. A locked account gets the same response even for the right
+    // password, so neither the lock nor the account's existence is revealed
     const isPasswordValid = await comparePassword(input.password, user.passwordHash);
+    const now = new Date();
+    if (this.accountLockoutService.isLocked(user, now)) {
+      throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS');
+    }
     if (!isPasswordValid) {
+      await this.accountLockoutService.recordFailure(user, now);
       throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS');
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // The failure count is only cleared once every step has passed, so a known
+    // password does not buy unlimited guesses at the second factor
+    const challenge = this.twoFactorService.challengeFor(user);
+    if (challenge) {
+      return { challenge };
+    }
+
+    await this.accountLockoutService.recordSuccess(user);
+
+    // Generate access and refresh tokens, starting a new session
+    const token = await this.authTokenService.issue(user);
 
-    // Remove password from response
-    const { passwordHash: _, ...userWithoutPassword } = user;
+    // Remove credentials from response
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = user;
 
     return {
-      user: userWithoutPassword,
+      user: { ...userWithoutPassword, failedLoginAttempts: 0, lockedUntil: null },
       token,
     };
   }
@@ -0,0 +1,14 @@
+import { AuthTokenService } from '../../services/AuthTokenService.js';
+
+export interface LogoutInput {
+  refreshToken: string;
+}
+
+export class LogoutUseCase {
+  constructor(private authTokenService: AuthTokenService) {}
+
+  // Signs out the session the token belongs to; unknown tokens are ignored so logout always succeeds
+  async execute(input: LogoutInput): Promise<void> {
+    await this.authTokenService.revokeFamilyOf(input.refreshToken);
+  }
+}
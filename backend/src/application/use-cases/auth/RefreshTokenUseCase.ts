@@ -0,0 +1,32 @@
+import { UnauthorizedError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { AuthTokens, AuthTokenService } from '../../services/AuthTokenService.js';
+
+export interface RefreshTokenInput {
+  refreshToken: string;
+}
+
+export interface RefreshTokenOutput {
+  token: AuthTokens;
+}
+
+export class RefreshTokenUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private authTokenService: AuthTokenService
+  ) {}
+
+  async execute(input: RefreshTokenInput): Promise<RefreshTokenOutput> {
+    const { userId, familyId } = await this.authTokenService.consume(input.refreshToken);
+
+    // Reload the user so the new access token carries their current role
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+
+    const token = await this.authTokenService.issue(user, familyId);
+
+    return { token };
+  }
+}
@@ -0,0 +1,46 @@
+import { ConflictError, NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { AccountLockoutService } from '../../services/AccountLockoutService.js';
+import { TwoFactorService } from '../../services/TwoFactorService.js';
+
+export interface RegenerateRecoveryCodesInput {
+  userId: string;
+  // A code from the authenticator app or one of the current recovery codes
+  code: string;
+}
+
+function invalidCodeError(): ValidationError {
+  return new ValidationError('Invalid two-factor code', [{ field: 'code', message: 'Invalid two-factor code' }]);
+}
+
+export class RegenerateRecoveryCodesUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private accountLockoutService: AccountLockoutService,
+    private twoFactorService: TwoFactorService
+  ) {}
+
+  // Replaces every recovery code; the old ones stop working
+  async execute(input: RegenerateRecoveryCodesInput): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError('User', input.userId);
+    }
+    if (!user.totpEnabledAt) {
+      throw new ConflictError('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    // A 400 rather than a 401, so the client does not treat it as an expired session
+    const now = new Date();
+    if (this.accountLockoutService.isLocked(user, now)) {
+      throw invalidCodeError();
+    }
+    if (!(await this.twoFactorService.verifyCode(user, input.code))) {
+      await this.accountLockoutService.recordFailure(user, now);
+      throw invalidCodeError();
+    }
+    await this.accountLockoutService.recordSuccess(user);
+
+    return { recoveryCodes: await this.twoFactorService.issueRecoveryCodes(user.id) };
+  }
+}
@@ -1,7 +1,9 @@
 import { User, UserWithoutPassword } from '../../../domain/entities/index.js';
 import { ConflictError } from '../../../domain/errors/index.js';
 import { IUserRepository } from '../../../domain/repositories/index.js';
-import { hashPassword, generateToken, TokenPair } from '../../../infrastructure/auth/index.js';
+import { hashPassword } from '../../../infrastructure/auth/index.js';
+import { AuthTokens, AuthTokenService } from '../../services/AuthTokenService.js';
+import { AccountEmailService } from '../../services/AccountEmailService.js';
 
 export interface RegisterInput {
   email: string;
@@ -11,11 +13,15 @@ export interface RegisterInput {
 
 export interface RegisterOutput {
   user: UserWithoutPassword;
-  token: TokenPair;
+  token: AuthTokens;
 }
 
 export class RegisterUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private authTokenService: AuthTokenService,
+    private accountEmailService: AccountEmailService
+  ) {}
 
   async execute(input: RegisterInput): Promise<RegisterOutput> {
     // Check if user already exists
@@ -34,15 +40,13 @@ export class RegisterUseCase {
       passwordHash,
     });
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    await this.accountEmailService.sendVerificationEmail(user);
+
+    // Generate access and refresh tokens, starting a new session
+    const token = await this.authTokenService.issue(user);
 
-    // Remove password from response
-    const { passwordHash: _, ...userWithoutPassword } = user;
+    // Remove credentials from response
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = user;
 
     return {
       user: userWithoutPassword,
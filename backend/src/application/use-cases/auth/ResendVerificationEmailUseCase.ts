@@ -0,0 +1,24 @@
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { AccountEmailService } from '../../services/AccountEmailService.js';
+
+export class ResendVerificationEmailUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private accountEmailService: AccountEmailService
+  ) {}
+
+  // Already verified accounts get no email; the request still succeeds
+  async execute(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    if (user.emailVerifiedAt) {
+      return;
+    }
+
+    await this.accountEmailService.sendVerificationEmail(user);
+  }
+}
@@ -0,0 +1,50 @@
+import { UserTokenType } from '../../../domain/entities/index.js';
+import { ValidationError } from '../../../domain/errors/index.js';
+import {
+  IUserRepository,
+  IUserTokenRepository,
+  IRefreshTokenRepository,
+} from '../../../domain/repositories/index.js';
+import { hashOpaqueToken, hashPassword } from '../../../infrastructure/auth/index.js';
+import { AccountLockoutService } from '../../services/AccountLockoutService.js';
+
+export interface ResetPasswordInput {
+  token: string;
+  password: string;
+}
+
+export class ResetPasswordUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private userTokenRepository: IUserTokenRepository,
+    private refreshTokenRepository: IRefreshTokenRepository,
+    private accountLockoutService: AccountLockoutService
+  ) {}
+
+  async execute(input: ResetPasswordInput): Promise<void> {
+    const userToken = await this.userTokenRepository.consume(
+      hashOpaqueToken(input.token),
+      UserTokenType.PASSWORD_RESET
+    );
+    const user = userToken && (await this.userRepository.findById(userToken.userId));
+    if (!user) {
+      throw new ValidationError('Password reset link is invalid or has expired', [
+        { field: 'token', message: 'Invalid or expired token' },
+      ]);
+    }
+
+    const passwordHash = await hashPassword(input.password);
+
+    // The link proves control of the inbox, so the address counts as verified too
+    await this.userRepository.update(user.id, {
+      passwordHash,
+      emailVerifiedAt: new Date(),
+    });
+
+    // A lockout caused by guesses at the old password no longer applies
+    await this.accountLockoutService.reset(user, 'PASSWORD_RESET');
+
+    // Sign out every existing session, which may belong to whoever knew the old password
+    await this.refreshTokenRepository.revokeAllForUser(user.id);
+  }
+}
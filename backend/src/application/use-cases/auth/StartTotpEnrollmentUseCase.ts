@@ -0,0 +1,39 @@
+import { ConflictError, UnauthorizedError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { buildOtpauthUri, generateTotpSecret } from '../../../infrastructure/auth/index.js';
+import { TwoFactorEnrollee, TwoFactorService } from '../../services/TwoFactorService.js';
+
+export type StartTotpEnrollmentInput = TwoFactorEnrollee;
+
+export interface StartTotpEnrollmentOutput {
+  secret: string;
+  otpauthUri: string;
+}
+
+export class StartTotpEnrollmentUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private twoFactorService: TwoFactorService
+  ) {}
+
+  // Stores a new pending secret; starting again replaces a secret that was never confirmed
+  async execute(input: StartTotpEnrollmentInput): Promise<StartTotpEnrollmentOutput> {
+    const userId = this.twoFactorService.enrollingUserId(input);
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired two-factor challenge', 'INVALID_TWO_FACTOR_CHALLENGE');
+    }
+    if (user.totpEnabledAt) {
+      throw new ConflictError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret = generateTotpSecret();
+    await this.userRepository.update(user.id, { totpSecret: secret });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { randomBytes } from 'crypto';
+import { DriverVerificationStatus, UserWithoutPassword } from '../../../domain/entities/index.js';
+import { NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { FileStorage } from '../../../infrastructure/storage/index.js';
+import { DRIVER_LICENSE_IMAGE } from '../../../shared/constants/index.js';
+
+export interface SubmitDriverLicenseInput {
+  userId: string;
+  dateOfBirth: Date;
+  driverLicenseNumber: string;
+  driverLicenseCountry: string;
+  driverLicenseExpiresAt: Date;
+  // Photo of the license as a base64 data URL; may be left out to keep the one already uploaded
+  image?: string;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+function decodeImage(dataUrl: string): { data: Buffer; contentType: string } {
+  const match = /^data:([a-z/]+);base64,(.+)$/.exec(dataUrl);
+  const contentType = match?.[1] ?? '';
+  if (!match || !(DRIVER_LICENSE_IMAGE.CONTENT_TYPES as readonly string[]).includes(contentType)) {
+    throw new ValidationError('License image must be a JPEG, PNG or WebP file', [
+      { field: 'image', message: 'Unsupported image type' },
+    ]);
+  }
+
+  const data = Buffer.from(match[2], 'base64');
+  if (data.length === 0 || data.length > DRIVER_LICENSE_IMAGE.MAX_BYTES) {
+    throw new ValidationError('License image is empty or too large', [
+      { field: 'image', message: `Image must be at most ${Math.floor(DRIVER_LICENSE_IMAGE.MAX_BYTES / 1024 / 1024)} MB` },
+    ]);
+  }
+
+  return { data, contentType };
+}
+
+/**
+ * Records the customer's driver license and queues it for staff review.
+ * Resubmitting replaces the previous details and clears any earlier decision.
+ */
+export class SubmitDriverLicenseUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private fileStorage: FileStorage
+  ) {}
+
+  async execute(input: SubmitDriverLicenseInput, now: Date = new Date()): Promise<UserWithoutPassword> {
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new NotFoundError('User', input.userId);
+    }
+
+    if (input.driverLicenseExpiresAt <= now) {
+      throw new ValidationError('Driver license has expired', [
+        { field: 'driverLicenseExpiresAt', message: 'License must not be expired' },
+      ]);
+    }
+
+    if (!input.image && !user.driverLicenseImagePath) {
+      throw new ValidationError('A photo of the license is required', [
+        { field: 'image', message: 'Image is required' },
+      ]);
+    }
+
+    let imagePath = user.driverLicenseImagePath;
+    if (input.image) {
+      const { data, contentType } = decodeImage(input.image);
+      imagePath = `driver-licenses/${user.id}-${randomBytes(8).toString('hex')}.${IMAGE_EXTENSIONS[contentType]}`;
+      await this.fileStorage.save(imagePath, data);
+    }
+
+    const updated = await this.userRepository.update(user.id, {
+      dateOfBirth: input.dateOfBirth,
+      driverLicenseNumber: input.driverLicenseNumber,
+      driverLicenseCountry: input.driverLicenseCountry,
+      driverLicenseExpiresAt: input.driverLicenseExpiresAt,
+      driverLicenseImagePath: imagePath,
+      driverVerificationStatus: DriverVerificationStatus.PENDING,
+      driverLicenseSubmittedAt: now,
+      driverVerifiedAt: null,
+      driverVerificationNote: null,
+    });
+
+    // The old photo is only removed once the new one is on record
+    if (user.driverLicenseImagePath && user.driverLicenseImagePath !== imagePath) {
+      await this.fileStorage.delete(user.driverLicenseImagePath);
+    }
+
+    // Remove credentials from response
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = updated;
+
+    return userWithoutPassword;
+  }
+}
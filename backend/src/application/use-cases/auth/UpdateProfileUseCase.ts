@@ -0,0 +1,56 @@
+import { DriverVerificationStatus, User, UserWithoutPassword } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+
+export interface UpdateProfileInput {
+  userId: string;
+  name?: string;
+  phone?: string | null;
+  dateOfBirth?: Date | null;
+  driverLicenseNumber?: string | null;
+  driverLicenseCountry?: string | null;
+  driverLicenseExpiresAt?: Date | null;
+}
+
+const DRIVER_FIELDS = ['dateOfBirth', 'driverLicenseNumber', 'driverLicenseCountry', 'driverLicenseExpiresAt'] as const;
+
+function sameValue(a: string | Date | null, b: string | Date | null | undefined): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+export class UpdateProfileUseCase {
+  constructor(private userRepository: IUserRepository) {}
+
+  async execute(input: UpdateProfileInput): Promise<UserWithoutPassword> {
+    const { userId, ...changes } = input;
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    // Staff approved the old details, so changed ones go back into the review queue
+    const data: Partial<User> = { ...changes };
+    const driverDetailsChanged = DRIVER_FIELDS.some(
+      (field) => changes[field] !== undefined && !sameValue(user[field], changes[field])
+    );
+    if (driverDetailsChanged && user.driverVerificationStatus !== DriverVerificationStatus.UNVERIFIED) {
+      data.driverVerificationStatus = user.driverLicenseImagePath
+        ? DriverVerificationStatus.PENDING
+        : DriverVerificationStatus.UNVERIFIED;
+      data.driverLicenseSubmittedAt = user.driverLicenseImagePath ? new Date() : null;
+      data.driverVerifiedAt = null;
+      data.driverVerificationNote = null;
+    }
+
+    const updated = await this.userRepository.update(userId, data);
+
+    // Remove credentials from response
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = updated;
+
+    return userWithoutPassword;
+  }
+}
@@ -0,0 +1,29 @@
+import { UserTokenType } from '../../../domain/entities/index.js';
+import { ValidationError } from '../../../domain/errors/index.js';
+import { IUserRepository, IUserTokenRepository } from '../../../domain/repositories/index.js';
+import { hashOpaqueToken } from '../../../infrastructure/auth/index.js';
+
+export interface VerifyEmailInput {
+  token: string;
+}
+
+export class VerifyEmailUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private userTokenRepository: IUserTokenRepository
+  ) {}
+
+  async execute(input: VerifyEmailInput): Promise<void> {
+    const userToken = await this.userTokenRepository.consume(
+      hashOpaqueToken(input.token),
+      UserTokenType.EMAIL_VERIFICATION
+    );
+    if (!userToken) {
+      throw new ValidationError('Verification link is invalid or has expired', [
+        { field: 'token', message: 'Invalid or expired token' },
+      ]);
+    }
+
+    await this.userRepository.update(userToken.userId, { emailVerifiedAt: new Date() });
+  }
+}
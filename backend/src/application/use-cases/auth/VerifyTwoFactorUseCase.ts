@@ -0,0 +1,53 @@
+import { UnauthorizedError } from '../../../domain/errors/index.js';
+import { IUserRepository } from '../../../domain/repositories/index.js';
+import { AuthTokenService } from '../../services/AuthTokenService.js';
+import { AccountLockoutService } from '../../services/AccountLockoutService.js';
+import { TwoFactorService } from '../../services/TwoFactorService.js';
+import { SignedInOutput } from './LoginUseCase.js';
+
+export interface VerifyTwoFactorInput {
+  challengeToken: string;
+  // A code from the authenticator app or one of the recovery codes
+  code: string;
+}
+
+export class VerifyTwoFactorUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private authTokenService: AuthTokenService,
+    private accountLockoutService: AccountLockoutService,
+    private twoFactorService: TwoFactorService
+  ) {}
+
+  async execute(input: VerifyTwoFactorInput): Promise<SignedInOutput> {
+    const userId = this.twoFactorService.resolveChallenge(input.challengeToken, 'VERIFY');
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('Invalid or expired two-factor challenge', 'INVALID_TWO_FACTOR_CHALLENGE');
+    }
+
+    const now = new Date();
+    if (this.accountLockoutService.isLocked(user, now)) {
+      throw new UnauthorizedError('Invalid two-factor code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    const isCodeValid = await this.twoFactorService.verifyCode(user, input.code);
+    if (!isCodeValid) {
+      await this.accountLockoutService.recordFailure(user, now);
+      throw new UnauthorizedError('Invalid two-factor code', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    await this.accountLockoutService.recordSuccess(user);
+
+    const token = await this.authTokenService.issue(user);
+
+    // Remove credentials from response
+    const { passwordHash: _, totpSecret: __, ...userWithoutPassword } = user;
+
+    return {
+      user: { ...userWithoutPassword, failedLoginAttempts: 0, lockedUntil: null },
+      token,
+    };
+  }
+}
@@ -1,5 +1,37 @@
 export { RegisterUseCase } from './RegisterUseCase.js';
 export type { RegisterInput, RegisterOutput } from './RegisterUseCase.js';
 export { LoginUseCase } from './LoginUseCase.js';
-export type { LoginInput, LoginOutput } from './LoginUseCase.js';
+export type { LoginInput, LoginOutput, SignedInOutput, TwoFactorChallengeOutput } from './LoginUseCase.js';
 export { GetProfileUseCase } from './GetProfileUseCase.js';
+export type { ProfileOutput } from './GetProfileUseCase.js';
+export { RefreshTokenUseCase } from './RefreshTokenUseCase.js';
+export type { RefreshTokenInput, RefreshTokenOutput } from './RefreshTokenUseCase.js';
+export { LogoutUseCase } from './LogoutUseCase.js';
+export type { LogoutInput } from './LogoutUseCase.js';
+export { VerifyEmailUseCase } from './VerifyEmailUseCase.js';
+export type { VerifyEmailInput } from './VerifyEmailUseCase.js';
+export { ResendVerificationEmailUseCase } from './ResendVerificationEmailUseCase.js';
+export { ForgotPasswordUseCase } from './ForgotPasswordUseCase.js';
+export type { ForgotPasswordInput } from './ForgotPasswordUseCase.js';
+export { ResetPasswordUseCase } from './ResetPasswordUseCase.js';
+export type { ResetPasswordInput } from './ResetPasswordUseCase.js';
+export { VerifyTwoFactorUseCase } from './VerifyTwoFactorUseCase.js';
+export type { VerifyTwoFactorInput } from './VerifyTwoFactorUseCase.js';
+export { StartTotpEnrollmentUseCase } from './StartTotpEnrollmentUseCase.js';
+export type { StartTotpEnrollmentInput, StartTotpEnrollmentOutput } from './StartTotpEnrollmentUseCase.js';
+export { ConfirmTotpEnrollmentUseCase } from './ConfirmTotpEnrollmentUseCase.js';
+export type { ConfirmTotpEnrollmentInput, ConfirmTotpEnrollmentOutput } from './ConfirmTotpEnrollmentUseCase.js';
+export { RegenerateRecoveryCodesUseCase } from './RegenerateRecoveryCodesUseCase.js';
+export type { RegenerateRecoveryCodesInput } from './RegenerateRecoveryCodesUseCase.js';
+export { DisableTwoFactorUseCase } from './DisableTwoFactorUseCase.js';
+export type { DisableTwoFactorInput } from './DisableTwoFactorUseCase.js';
+export { UpdateProfileUseCase } from './UpdateProfileUseCase.js';
+export type { UpdateProfileInput } from './UpdateProfileUseCase.js';
+export { ChangePasswordUseCase } from './ChangePasswordUseCase.js';
+export type { ChangePasswordInput, ChangePasswordOutput } from './ChangePasswordUseCase.js';
+export { ExportAccountDataUseCase } from './ExportAccountDataUseCase.js';
+export type { AccountDataExport } from './ExportAccountDataUseCase.js';
+export { DeleteAccountUseCase } from './DeleteAccountUseCase.js';
+export type { DeleteAccountInput } from './DeleteAccountUseCase.js';
+export { SubmitDriverLicenseUseCase } from './SubmitDriverLicenseUseCase.js';
+export type { SubmitDriverLicenseInput } from './SubmitDriverLicenseUseCase.js';
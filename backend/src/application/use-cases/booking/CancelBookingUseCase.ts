@@ -1,7 +1,9 @@
-import { Booking, BookingStatus, UserRole } from '../../../domain/entities/index.js';
+import { Booking, UserRole } from '../../../domain/entities/index.js';
 import { NotFoundError, ForbiddenError, ConflictError } from '../../../domain/errors/index.js';
 import { IBookingRepository } from '../../../domain/repositories/index.js';
-import { BOOKING_STATUS_TRANSITIONS } from '../../../shared/constants/index.js';
+import { BOOKING_STATUS_TRANSITIONS, ERROR_CODES } from '../../../shared/constants/index.js';
+import { CancellationPolicy } from '../../services/CancellationPolicy.js';
+import { PaymentService } from '../../services/PaymentService.js';
 
 export interface CancelBookingInput {
   bookingId: string;
@@ -11,7 +13,11 @@ export interface CancelBookingInput {
 }
 
 export class CancelBookingUseCase {
-  constructor(private bookingRepository: IBookingRepository) {}
+  constructor(
+    private bookingRepository: IBookingRepository,
+    private cancellationPolicy: CancellationPolicy,
+    private paymentService: PaymentService
+  ) {}
 
   async execute(input: CancelBookingInput): Promise<Booking> {
     // Get booking
@@ -35,11 +41,24 @@ export class CancelBookingUseCase {
       );
     }
 
-    // Update booking status
-    return this.bookingRepository.updateStatus(
-      input.bookingId,
-      BookingStatus.CANCELLED,
-      input.cancelReason
-    );
+    // Customers can only cancel before the start date; admins may still cancel without refund
+    const terms = this.cancellationPolicy.evaluate(booking);
+    if (!terms.allowed && input.userRole !== UserRole.ADMIN) {
+      throw new ConflictError(
+        'Bookings can only be cancelled before the start date',
+        ERROR_CODES.CANCELLATION_NOT_ALLOWED
+      );
+    }
+
+    // Cancel booking, recording the fee and refund
+    const cancelled = await this.bookingRepository.cancel(input.bookingId, {
+      cancelReason: input.cancelReason,
+      cancellationFee: terms.cancellationFee,
+      refundAmount: terms.refundAmount,
+    });
+
+    await this.paymentService.refundCancellation(booking.id, input.cancelReason, terms);
+
+    return cancelled;
   }
 }
@@ -1,7 +1,14 @@
 import { BookingWithRelations } from '../../../domain/entities/index.js';
-import { NotFoundError, ConflictError, ValidationError } from '../../../domain/errors/index.js';
-import { IBookingRepository, ICarRepository, ILocationRepository, IAddonRepository } from '../../../domain/repositories/index.js';
-import { calculateDays, isPastDate } from '../../../shared/utils/date.js';
+import { ConflictError, ForbiddenError, NotFoundError } from '../../../domain/errors/index.js';
+import {
+  IAddonRepository,
+  IBookingRepository,
+  ICarRepository,
+  IUserRepository,
+} from '../../../domain/repositories/index.js';
+import { BookingQuoteService } from '../../services/BookingQuoteService.js';
+import { addonPricesOf, chargesOf, promoCodeIdOf } from '../../services/PricingService.js';
+import { BOOKING_HOLD_MINUTES, REQUIRE_VERIFIED_EMAIL_FOR_BOOKING } from '../../../shared/constants/index.js';
 
 export interface CreateBookingInput {
   userId: string;
@@ -11,38 +18,35 @@ export interface CreateBookingInput {
   startDate: Date;
   endDate: Date;
   addonIds?: string[];
+  promoCode?: string;
+  quoteToken?: string;
 }
 
 export class CreateBookingUseCase {
   constructor(
     private bookingRepository: IBookingRepository,
     private carRepository: ICarRepository,
-    private locationRepository: ILocationRepository,
-    private addonRepository: IAddonRepository
+    private addonRepository: IAddonRepository,
+    private bookingQuoteService: BookingQuoteService,
+    private userRepository: IUserRepository,
+    private requireVerifiedEmail: boolean = REQUIRE_VERIFIED_EMAIL_FOR_BOOKING
   ) {}
 
   async execute(input: CreateBookingInput): Promise<BookingWithRelations> {
-    // Validate dates
-    if (isPastDate(input.startDate)) {
-      throw new ValidationError('Start date cannot be in the past', [
-        { field: 'startDate', message: 'Start date must be today or in the future' },
-      ]);
-    }
-
-    if (input.endDate <= input.startDate) {
-      throw new ValidationError('End date must be after start date', [
-        { field: 'endDate', message: 'End date must be after start date' },
-      ]);
+    if (this.requireVerifiedEmail) {
+      const user = await this.userRepository.findById(input.userId);
+      if (!user) {
+        throw new NotFoundError('User', input.userId);
+      }
+      if (!user.emailVerifiedAt) {
+        throw new ForbiddenError('Verify your email address before booking', {
+          reason: 'EMAIL_NOT_VERIFIED',
+        });
+      }
     }
 
-    // Check if car exists and is active
-    const car = await this.carRepository.findById(input.carId);
-    if (!car) {
-      throw new NotFoundError('Car', input.carId);
-    }
-    if (car.status !== 'ACTIVE') {
-      throw new ConflictError('Car is not available for booking', 'CAR_NOT_AVAILABLE');
-    }
+    // Validate dates, car, locations, addons and promo code, and price the booking
+    const prepared = await this.bookingQuoteService.prepare(input);
 
     // Check if car is available for the requested dates
     const isAvailable = await this.carRepository.checkAvailability(
@@ -57,42 +61,25 @@ export class CreateBookingUseCase {
       );
     }
 
-    // Validate locations
-    const [pickupLocation, dropoffLocation] = await Promise.all([
-      this.locationRepository.findById(input.pickupLocationId),
-      this.locationRepository.findById(input.dropoffLocationId),
-    ]);
-
-    if (!pickupLocation) {
-      throw new NotFoundError('Pickup location', input.pickupLocationId);
-    }
-    if (!dropoffLocation) {
-      throw new NotFoundError('Dropoff location', input.dropoffLocationId);
+    // Physical addons (child seats, GPS units) are limited per pickup location
+    const outOfStock = await this.addonRepository.findOutOfStock(
+      prepared.addons.map((addon) => addon.id),
+      input.pickupLocationId,
+      input.startDate,
+      input.endDate
+    );
+    if (outOfStock.length > 0) {
+      throw new ConflictError(
+        `Add-ons out of stock for the selected dates: ${outOfStock.map((addon) => addon.name).join(', ')}`,
+        'ADDON_OUT_OF_STOCK',
+        { addonIds: outOfStock.map((addon) => addon.id) }
+      );
     }
 
-    // Calculate days and base price
-    const days = calculateDays(input.startDate, input.endDate);
-    const basePrice = Number(car.dailyPrice) * days;
-
-    // Process addons
-    let addonPrice = 0;
-    const addonPrices = new Map<string, number>();
-
-    if (input.addonIds && input.addonIds.length > 0) {
-      const addons = await this.addonRepository.findByIds(input.addonIds);
-
-      if (addons.length !== input.addonIds.length) {
-        throw new ValidationError('Some add-ons were not found', [
-          { field: 'addonIds', message: 'Invalid addon IDs provided' },
-        ]);
-      }
-
-      for (const addon of addons) {
-        const price = Number(addon.pricePerBooking);
-        addonPrice += price;
-        addonPrices.set(addon.id, price);
-      }
-    }
+    // A valid quote token locks in the price the customer was shown
+    const quote = input.quoteToken
+      ? this.bookingQuoteService.redeem(input.quoteToken, input)
+      : prepared.quote;
 
     // Create booking
     const booking = await this.bookingRepository.create({
@@ -102,12 +89,19 @@ export class CreateBookingUseCase {
       dropoffLocationId: input.dropoffLocationId,
       startDate: input.startDate,
       endDate: input.endDate,
-      days,
-      basePrice,
-      addonPrice,
-      totalPrice: basePrice + addonPrice,
-      addonIds: input.addonIds || [],
-      addonPrices,
+      days: quote.days,
+      basePrice: quote.basePrice,
+      addonPrice: quote.addonPrice,
+      dropFee: quote.dropFee,
+      discountAmount: quote.discountAmount,
+      feeAmount: quote.feeAmount,
+      taxAmount: quote.taxAmount,
+      totalPrice: quote.totalPrice,
+      promoCodeId: promoCodeIdOf(quote),
+      addonIds: prepared.addons.map((addon) => addon.id),
+      addonPrices: addonPricesOf(quote),
+      charges: chargesOf(quote),
+      holdExpiresAt: new Date(Date.now() + BOOKING_HOLD_MINUTES * 60 * 1000),
     });
 
     return booking;
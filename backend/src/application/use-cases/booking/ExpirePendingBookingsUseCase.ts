@@ -0,0 +1,40 @@
+import { BookingStatus } from '../../../domain/entities/index.js';
+import { IBookingRepository, IAuditLogRepository } from '../../../domain/repositories/index.js';
+import { PaymentService } from '../../services/PaymentService.js';
+
+export const HOLD_EXPIRED_REASON = 'Automatically cancelled: booking was not confirmed before the hold expired';
+
+export class ExpirePendingBookingsUseCase {
+  constructor(
+    private bookingRepository: IBookingRepository,
+    private auditLogRepository: IAuditLogRepository,
+    private paymentService: PaymentService
+  ) {}
+
+  // Cancels PENDING bookings whose hold has expired; returns how many were cancelled
+  async execute(now: Date = new Date()): Promise<number> {
+    const expiredBookings = await this.bookingRepository.findExpiredHolds(now);
+    let cancelled = 0;
+
+    for (const booking of expiredBookings) {
+      // Skip bookings confirmed or cancelled since they were loaded
+      const expired = await this.bookingRepository.expireHold(booking.id, HOLD_EXPIRED_REASON);
+      if (!expired) continue;
+
+      // System action: no actor
+      await this.auditLogRepository.create({
+        entityType: 'Booking',
+        entityId: booking.id,
+        action: `STATUS_CHANGED_TO_${BookingStatus.CANCELLED}`,
+        beforeJson: { status: booking.status, holdExpiresAt: booking.holdExpiresAt },
+        afterJson: { status: BookingStatus.CANCELLED, reason: HOLD_EXPIRED_REASON },
+      });
+
+      // A part-paid booking gets everything back; the customer did not cancel it
+      await this.paymentService.refundBooking(booking.id, HOLD_EXPIRED_REASON);
+      cancelled++;
+    }
+
+    return cancelled;
+  }
+}
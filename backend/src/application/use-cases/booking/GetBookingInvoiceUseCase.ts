@@ -0,0 +1,32 @@
+import { UserRole } from '../../../domain/entities/index.js';
+import { ForbiddenError, NotFoundError } from '../../../domain/errors/index.js';
+import { IBookingRepository } from '../../../domain/repositories/index.js';
+import { renderInvoicePdf } from '../../../infrastructure/pdf/index.js';
+import { InvoiceService } from '../../services/InvoiceService.js';
+
+export interface BookingInvoicePdf {
+  filename: string;
+  data: Buffer;
+}
+
+export class GetBookingInvoiceUseCase {
+  constructor(
+    private bookingRepository: IBookingRepository,
+    private invoiceService: InvoiceService
+  ) {}
+
+  async execute(bookingId: string, userId: string, userRole: UserRole): Promise<BookingInvoicePdf> {
+    const booking = await this.bookingRepository.findById(bookingId, true);
+    if (!booking) {
+      throw new NotFoundError('Booking', bookingId);
+    }
+
+    if (userRole !== UserRole.ADMIN && booking.userId !== userId) {
+      throw new ForbiddenError('You can only view your own bookings');
+    }
+
+    const invoice = await this.invoiceService.issue(booking);
+
+    return { filename: `${invoice.number}.pdf`, data: renderInvoicePdf(invoice) };
+  }
+}
@@ -0,0 +1,51 @@
+import { BookingStatus, UserRole } from '../../../domain/entities/index.js';
+import { NotFoundError, ForbiddenError } from '../../../domain/errors/index.js';
+import { IBookingRepository } from '../../../domain/repositories/index.js';
+import { BOOKING_STATUS_TRANSITIONS } from '../../../shared/constants/index.js';
+import { CancellationPolicy, CancellationTerms } from '../../services/CancellationPolicy.js';
+
+export interface CancellationPreview extends CancellationTerms {
+  bookingId: string;
+  status: BookingStatus;
+  totalPrice: number;
+  // Why the booking cannot be cancelled, when allowed is false
+  reason?: string;
+}
+
+export class GetCancellationPreviewUseCase {
+  constructor(
+    private bookingRepository: IBookingRepository,
+    private cancellationPolicy: CancellationPolicy
+  ) {}
+
+  async execute(bookingId: string, userId: string, userRole: UserRole): Promise<CancellationPreview> {
+    const booking = await this.bookingRepository.findById(bookingId, false);
+
+    if (!booking) {
+      throw new NotFoundError('Booking', bookingId);
+    }
+
+    // Only allow user to preview their own bookings, unless they're an admin
+    if (userRole !== UserRole.ADMIN && booking.userId !== userId) {
+      throw new ForbiddenError('You can only view your own bookings');
+    }
+
+    const terms = this.cancellationPolicy.evaluate(booking);
+    const preview: CancellationPreview = {
+      bookingId: booking.id,
+      status: booking.status,
+      totalPrice: Number(booking.totalPrice),
+      ...terms,
+    };
+
+    const allowedTransitions = BOOKING_STATUS_TRANSITIONS[booking.status] || [];
+    if (!allowedTransitions.includes('CANCELLED')) {
+      return { ...preview, allowed: false, reason: `Cannot cancel booking in ${booking.status} status` };
+    }
+    if (!terms.allowed) {
+      return { ...preview, reason: 'Bookings can only be cancelled before the start date' };
+    }
+
+    return preview;
+  }
+}
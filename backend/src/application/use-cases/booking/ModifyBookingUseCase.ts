@@ -0,0 +1,183 @@
+import { BookingStatus, BookingWithRelations } from '../../../domain/entities/index.js';
+import { NotFoundError, ForbiddenError, ConflictError } from '../../../domain/errors/index.js';
+import {
+  IAddonRepository,
+  IBookingRepository,
+  ICarRepository,
+  IAuditLogRepository,
+  IInvoiceRepository,
+} from '../../../domain/repositories/index.js';
+import { BookingQuoteRequest, BookingQuoteService } from '../../services/BookingQuoteService.js';
+import { addonPricesOf, chargesOf, promoCodeIdOf, roundMoney } from '../../services/PricingService.js';
+
+export interface ModifyBookingInput {
+  bookingId: string;
+  userId: string;
+  carId?: string;
+  pickupLocationId?: string;
+  dropoffLocationId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  addonIds?: string[];
+}
+
+export interface ModifyBookingOutput {
+  booking: BookingWithRelations;
+  previousTotalPrice: number;
+  newTotalPrice: number;
+  // Positive: the customer owes more; negative: the customer gets money back
+  priceDifference: number;
+}
+
+const MODIFIABLE_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+// What a customer can change on a booking
+type BookingDetails = Required<Omit<BookingQuoteRequest, 'promoCode' | 'userId'>>;
+
+// Fields recorded in the audit log before and after a modification
+function snapshot(request: BookingDetails, totalPrice: number) {
+  return {
+    carId: request.carId,
+    pickupLocationId: request.pickupLocationId,
+    dropoffLocationId: request.dropoffLocationId,
+    startDate: request.startDate.toISOString(),
+    endDate: request.endDate.toISOString(),
+    addonIds: request.addonIds,
+    totalPrice,
+  };
+}
+
+export class ModifyBookingUseCase {
+  constructor(
+    private bookingRepository: IBookingRepository,
+    private carRepository: ICarRepository,
+    private addonRepository: IAddonRepository,
+    private auditLogRepository: IAuditLogRepository,
+    private bookingQuoteService: BookingQuoteService,
+    private invoiceRepository: IInvoiceRepository
+  ) {}
+
+  async execute(input: ModifyBookingInput): Promise<ModifyBookingOutput> {
+    const booking = await this.bookingRepository.findById(input.bookingId);
+    if (!booking) {
+      throw new NotFoundError('Booking', input.bookingId);
+    }
+
+    if (booking.userId !== input.userId) {
+      throw new ForbiddenError('You can only modify your own bookings');
+    }
+
+    if (!MODIFIABLE_STATUSES.includes(booking.status)) {
+      throw new ConflictError(
+        `Cannot modify booking in ${booking.status} status`,
+        'BOOKING_NOT_MODIFIABLE'
+      );
+    }
+
+    // An issued invoice is frozen, so the booking it bills must not change; the update
+    // checks again under the booking lock in case an invoice is issued meanwhile
+    const invoice = await this.invoiceRepository.findByBookingId(booking.id);
+    if (invoice) {
+      throw new ConflictError(
+        'Cannot modify a booking that has already been invoiced',
+        'BOOKING_INVOICED'
+      );
+    }
+
+    const current: BookingDetails = {
+      carId: booking.carId,
+      pickupLocationId: booking.pickupLocationId,
+      dropoffLocationId: booking.dropoffLocationId,
+      startDate: booking.startDate,
+      endDate: booking.endDate,
+      addonIds: (booking.bookingAddons || []).map((bookingAddon) => bookingAddon.addonId),
+    };
+    const requested: BookingDetails = {
+      carId: input.carId ?? current.carId,
+      pickupLocationId: input.pickupLocationId ?? current.pickupLocationId,
+      dropoffLocationId: input.dropoffLocationId ?? current.dropoffLocationId,
+      startDate: input.startDate ?? current.startDate,
+      endDate: input.endDate ?? current.endDate,
+      addonIds: input.addonIds ?? current.addonIds,
+    };
+
+    // Validate the new details and reprice the booking, keeping the promo code it was made with
+    const prepared = await this.bookingQuoteService.prepare(
+      { ...requested, promoCode: booking.promoCode?.code, userId: booking.userId },
+      booking.id
+    );
+
+    // The booking's own slot does not count as a conflict
+    const isAvailable = await this.carRepository.checkAvailability(
+      requested.carId,
+      requested.startDate,
+      requested.endDate,
+      booking.id
+    );
+    if (!isAvailable) {
+      throw new ConflictError(
+        'Car is not available for the selected dates',
+        'CAR_NOT_AVAILABLE'
+      );
+    }
+
+    // Physical addons (child seats, GPS units) are limited per pickup location
+    const outOfStock = await this.addonRepository.findOutOfStock(
+      prepared.addons.map((addon) => addon.id),
+      requested.pickupLocationId,
+      requested.startDate,
+      requested.endDate,
+      booking.id
+    );
+    if (outOfStock.length > 0) {
+      throw new ConflictError(
+        `Add-ons out of stock for the selected dates: ${outOfStock.map((addon) => addon.name).join(', ')}`,
+        'ADDON_OUT_OF_STOCK',
+        { addonIds: outOfStock.map((addon) => addon.id) }
+      );
+    }
+
+    const { quote } = prepared;
+
+    const updatedBooking = await this.bookingRepository.update(booking.id, {
+      carId: requested.carId,
+      pickupLocationId: requested.pickupLocationId,
+      dropoffLocationId: requested.dropoffLocationId,
+      startDate: requested.startDate,
+      endDate: requested.endDate,
+      days: quote.days,
+      basePrice: quote.basePrice,
+      addonPrice: quote.addonPrice,
+      dropFee: quote.dropFee,
+      discountAmount: quote.discountAmount,
+      feeAmount: quote.feeAmount,
+      taxAmount: quote.taxAmount,
+      totalPrice: quote.totalPrice,
+      promoCodeId: promoCodeIdOf(quote),
+      addonIds: prepared.addons.map((addon) => addon.id),
+      addonPrices: addonPricesOf(quote),
+      charges: chargesOf(quote),
+    });
+
+    const previousTotalPrice = Number(booking.totalPrice);
+
+    await this.auditLogRepository.create({
+      actorId: input.userId,
+      entityType: 'Booking',
+      entityId: booking.id,
+      action: 'BOOKING_MODIFIED',
+      beforeJson: snapshot(current, previousTotalPrice),
+      afterJson: snapshot(
+        { ...requested, addonIds: prepared.addons.map((addon) => addon.id) },
+        quote.totalPrice
+      ),
+    });
+
+    return {
+      booking: updatedBooking,
+      previousTotalPrice,
+      newTotalPrice: quote.totalPrice,
+      priceDifference: roundMoney(quote.totalPrice - previousTotalPrice),
+    };
+  }
+}
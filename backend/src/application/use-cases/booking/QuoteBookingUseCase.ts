@@ -0,0 +1,24 @@
+import { BookingQuoteRequest, BookingQuoteService } from '../../services/BookingQuoteService.js';
+import { BookingQuote } from '../../services/PricingService.js';
+
+export type QuoteBookingInput = BookingQuoteRequest;
+
+export interface QuoteBookingOutput extends BookingQuote {
+  quoteToken: string;
+  expiresAt: Date;
+}
+
+export class QuoteBookingUseCase {
+  constructor(private bookingQuoteService: BookingQuoteService) {}
+
+  async execute(input: QuoteBookingInput): Promise<QuoteBookingOutput> {
+    const { quote } = await this.bookingQuoteService.prepare(input);
+    const { quoteToken, expiresAt } = this.bookingQuoteService.sign(input, quote);
+
+    return {
+      ...quote,
+      quoteToken,
+      expiresAt,
+    };
+  }
+}
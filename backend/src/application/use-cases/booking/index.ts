@@ -1,6 +1,15 @@
 export { CreateBookingUseCase } from './CreateBookingUseCase.js';
 export type { CreateBookingInput } from './CreateBookingUseCase.js';
+export { QuoteBookingUseCase } from './QuoteBookingUseCase.js';
+export type { QuoteBookingInput, QuoteBookingOutput } from './QuoteBookingUseCase.js';
+export { ModifyBookingUseCase } from './ModifyBookingUseCase.js';
+export type { ModifyBookingInput, ModifyBookingOutput } from './ModifyBookingUseCase.js';
 export { GetBookingsUseCase } from './GetBookingsUseCase.js';
 export { GetBookingByIdUseCase } from './GetBookingByIdUseCase.js';
 export { CancelBookingUseCase } from './CancelBookingUseCase.js';
 export type { CancelBookingInput } from './CancelBookingUseCase.js';
+export { GetCancellationPreviewUseCase } from './GetCancellationPreviewUseCase.js';
+export type { CancellationPreview } from './GetCancellationPreviewUseCase.js';
+export { ExpirePendingBookingsUseCase, HOLD_EXPIRED_REASON } from './ExpirePendingBookingsUseCase.js';
+export { GetBookingInvoiceUseCase } from './GetBookingInvoiceUseCase.js';
+export type { BookingInvoicePdf } from './GetBookingInvoiceUseCase.js';
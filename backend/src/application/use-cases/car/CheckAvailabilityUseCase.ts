@@ -1,4 +1,4 @@
-import { ICarRepository, IBookingRepository } from '../../../domain/repositories/index.js';
+import { ICarRepository, IBookingRepository, ICarBlackoutRepository } from '../../../domain/repositories/index.js';
 import { NotFoundError } from '../../../domain/errors/index.js';
 
 export interface CheckAvailabilityInput {
@@ -14,18 +14,27 @@ export interface ConflictingBooking {
   status: string;
 }
 
+export interface ConflictingBlackout {
+  id: string;
+  reason: string;
+  startDate: Date;
+  endDate: Date;
+}
+
 export interface CheckAvailabilityOutput {
   available: boolean;
   carId: string;
   requestedStartDate: Date;
   requestedEndDate: Date;
   conflictingBookings: ConflictingBooking[];
+  conflictingBlackouts: ConflictingBlackout[];
 }
 
 export class CheckAvailabilityUseCase {
   constructor(
     private carRepository: ICarRepository,
-    private bookingRepository: IBookingRepository
+    private bookingRepository: IBookingRepository,
+    private carBlackoutRepository: ICarBlackoutRepository
   ) {}
 
   async execute(input: CheckAvailabilityInput): Promise<CheckAvailabilityOutput> {
@@ -42,8 +51,9 @@ export class CheckAvailabilityUseCase {
       input.endDate
     );
 
-    // Get conflicting bookings if not available
+    // Get conflicting bookings and blackouts if not available
     let conflictingBookings: ConflictingBooking[] = [];
+    let conflictingBlackouts: ConflictingBlackout[] = [];
 
     if (!isAvailable) {
       const bookings = await this.bookingRepository.findConflicting(
@@ -58,6 +68,19 @@ export class CheckAvailabilityUseCase {
         endDate: booking.endDate,
         status: booking.status,
       }));
+
+      const blackouts = await this.carBlackoutRepository.findOverlapping(
+        input.carId,
+        input.startDate,
+        input.endDate
+      );
+
+      conflictingBlackouts = blackouts.map(blackout => ({
+        id: blackout.id,
+        reason: blackout.reason,
+        startDate: blackout.startDate,
+        endDate: blackout.endDate,
+      }));
     }
 
     return {
@@ -66,6 +89,7 @@ export class CheckAvailabilityUseCase {
       requestedStartDate: input.startDate,
       requestedEndDate: input.endDate,
       conflictingBookings,
+      conflictingBlackouts,
     };
   }
 }
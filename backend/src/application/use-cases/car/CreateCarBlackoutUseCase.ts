@@ -0,0 +1,91 @@
+import { CarBlackout } from '../../../domain/entities/index.js';
+import { NotFoundError, ConflictError, ValidationError } from '../../../domain/errors/index.js';
+import {
+  ICarRepository,
+  IBookingRepository,
+  ICarBlackoutRepository,
+  IAuditLogRepository,
+} from '../../../domain/repositories/index.js';
+import { ConflictingBooking } from './CheckAvailabilityUseCase.js';
+
+export interface CreateCarBlackoutInput {
+  carId: string;
+  adminId: string;
+  reason: string;
+  startDate: Date;
+  endDate: Date;
+  // Create the blackout even if it overlaps active bookings
+  force?: boolean;
+}
+
+export interface CreateCarBlackoutOutput {
+  blackout: CarBlackout;
+  // Active bookings inside the blackout; only non-empty for forced blackouts
+  affectedBookings: ConflictingBooking[];
+}
+
+export class CreateCarBlackoutUseCase {
+  constructor(
+    private carRepository: ICarRepository,
+    private bookingRepository: IBookingRepository,
+    private carBlackoutRepository: ICarBlackoutRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(input: CreateCarBlackoutInput): Promise<CreateCarBlackoutOutput> {
+    if (input.endDate < input.startDate) {
+      throw new ValidationError('End date must not be before start date', [
+        { field: 'endDate', message: 'End date must be on or after start date' },
+      ]);
+    }
+
+    const car = await this.carRepository.findById(input.carId);
+    if (!car) {
+      throw new NotFoundError('Car', input.carId);
+    }
+
+    const bookings = await this.bookingRepository.findConflicting(
+      input.carId,
+      input.startDate,
+      input.endDate
+    );
+    const affectedBookings: ConflictingBooking[] = bookings.map((booking) => ({
+      id: booking.id,
+      startDate: booking.startDate,
+      endDate: booking.endDate,
+      status: booking.status,
+    }));
+
+    if (affectedBookings.length > 0 && !input.force) {
+      throw new ConflictError(
+        'Blackout overlaps existing bookings; resend with force to create it anyway',
+        'BLACKOUT_OVERLAPS_BOOKINGS',
+        { conflictingBookings: affectedBookings }
+      );
+    }
+
+    const blackout = await this.carBlackoutRepository.create({
+      carId: input.carId,
+      reason: input.reason,
+      startDate: input.startDate,
+      endDate: input.endDate,
+    });
+
+    await this.auditLogRepository.create({
+      actorId: input.adminId,
+      entityType: 'Car',
+      entityId: input.carId,
+      action: 'BLACKOUT_CREATED',
+      afterJson: {
+        blackoutId: blackout.id,
+        reason: blackout.reason,
+        startDate: input.startDate.toISOString(),
+        endDate: input.endDate.toISOString(),
+        forced: affectedBookings.length > 0,
+        affectedBookingIds: affectedBookings.map((booking) => booking.id),
+      },
+    });
+
+    return { blackout, affectedBookings };
+  }
+}
@@ -1,5 +1,6 @@
 import { Car, CarType, Transmission, FuelType } from '../../../domain/entities/index.js';
-import { ICarRepository } from '../../../domain/repositories/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { ICarRepository, ILocationRepository } from '../../../domain/repositories/index.js';
 
 export interface CreateCarInput {
   brand: string;
@@ -11,12 +12,23 @@ export interface CreateCarInput {
   fuel: FuelType;
   dailyPrice: number;
   images?: string[];
+  currentLocationId?: string;
 }
 
 export class CreateCarUseCase {
-  constructor(private carRepository: ICarRepository) {}
+  constructor(
+    private carRepository: ICarRepository,
+    private locationRepository: ILocationRepository
+  ) {}
 
   async execute(input: CreateCarInput): Promise<Car> {
+    if (input.currentLocationId) {
+      const location = await this.locationRepository.findById(input.currentLocationId);
+      if (!location) {
+        throw new NotFoundError('Location', input.currentLocationId);
+      }
+    }
+
     return this.carRepository.create({
       brand: input.brand,
       model: input.model,
@@ -28,6 +40,7 @@ export class CreateCarUseCase {
       dailyPrice: input.dailyPrice,
       images: input.images || [],
       status: 'ACTIVE',
+      currentLocationId: input.currentLocationId ?? null,
     });
   }
 }
@@ -0,0 +1,31 @@
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { ICarBlackoutRepository, IAuditLogRepository } from '../../../domain/repositories/index.js';
+
+export class DeleteCarBlackoutUseCase {
+  constructor(
+    private carBlackoutRepository: ICarBlackoutRepository,
+    private auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(carId: string, blackoutId: string, adminId: string): Promise<void> {
+    const blackout = await this.carBlackoutRepository.findById(blackoutId);
+    if (!blackout || blackout.carId !== carId) {
+      throw new NotFoundError('Blackout', blackoutId);
+    }
+
+    await this.carBlackoutRepository.delete(blackoutId);
+
+    await this.auditLogRepository.create({
+      actorId: adminId,
+      entityType: 'Car',
+      entityId: carId,
+      action: 'BLACKOUT_DELETED',
+      beforeJson: {
+        blackoutId: blackout.id,
+        reason: blackout.reason,
+        startDate: blackout.startDate.toISOString(),
+        endDate: blackout.endDate.toISOString(),
+      },
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { CarBlackout } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { ICarRepository, ICarBlackoutRepository } from '../../../domain/repositories/index.js';
+
+export class GetCarBlackoutsUseCase {
+  constructor(
+    private carRepository: ICarRepository,
+    private carBlackoutRepository: ICarBlackoutRepository
+  ) {}
+
+  async execute(carId: string): Promise<CarBlackout[]> {
+    const car = await this.carRepository.findById(carId);
+    if (!car) {
+      throw new NotFoundError('Car', carId);
+    }
+
+    return this.carBlackoutRepository.findByCarId(carId);
+  }
+}
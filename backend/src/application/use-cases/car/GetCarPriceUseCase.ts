@@ -0,0 +1,58 @@
+import { NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import { ICarRepository } from '../../../domain/repositories/index.js';
+import { PricingService, RentalPrice } from '../../services/PricingService.js';
+import { MAX_RENTAL_DAYS } from '../../../shared/constants/index.js';
+import { calculateDays, isPastDate } from '../../../shared/utils/date.js';
+
+export interface GetCarPriceInput {
+  carId: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface GetCarPriceOutput extends RentalPrice {
+  carId: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export class GetCarPriceUseCase {
+  constructor(
+    private carRepository: ICarRepository,
+    private pricingService: PricingService
+  ) {}
+
+  async execute(input: GetCarPriceInput): Promise<GetCarPriceOutput> {
+    if (isPastDate(input.startDate)) {
+      throw new ValidationError('Start date cannot be in the past', [
+        { field: 'startDate', message: 'Start date must be today or in the future' },
+      ]);
+    }
+
+    if (input.endDate <= input.startDate) {
+      throw new ValidationError('End date must be after start date', [
+        { field: 'endDate', message: 'End date must be after start date' },
+      ]);
+    }
+
+    if (calculateDays(input.startDate, input.endDate) > MAX_RENTAL_DAYS) {
+      throw new ValidationError(`Rentals cannot be longer than ${MAX_RENTAL_DAYS} days`, [
+        { field: 'endDate', message: `End date must be within ${MAX_RENTAL_DAYS} days of the start date` },
+      ]);
+    }
+
+    const car = await this.carRepository.findById(input.carId);
+    if (!car) {
+      throw new NotFoundError('Car', input.carId);
+    }
+
+    const price = await this.pricingService.priceRental(car, input.startDate, input.endDate);
+
+    return {
+      carId: car.id,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      ...price,
+    };
+  }
+}
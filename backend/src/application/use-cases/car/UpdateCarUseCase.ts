@@ -1,6 +1,6 @@
 import { Car, CarType, Transmission, FuelType, CarStatus } from '../../../domain/entities/index.js';
 import { NotFoundError, ConflictError } from '../../../domain/errors/index.js';
-import { ICarRepository } from '../../../domain/repositories/index.js';
+import { ICarRepository, ILocationRepository } from '../../../domain/repositories/index.js';
 
 export interface UpdateCarInput {
   brand?: string;
@@ -13,10 +13,14 @@ export interface UpdateCarInput {
   dailyPrice?: number;
   images?: string[];
   status?: CarStatus;
+  currentLocationId?: string;
 }
 
 export class UpdateCarUseCase {
-  constructor(private carRepository: ICarRepository) {}
+  constructor(
+    private carRepository: ICarRepository,
+    private locationRepository: ILocationRepository
+  ) {}
 
   async execute(carId: string, input: UpdateCarInput): Promise<Car> {
     // Check if car exists
@@ -36,6 +40,13 @@ export class UpdateCarUseCase {
       }
     }
 
+    if (input.currentLocationId) {
+      const location = await this.locationRepository.findById(input.currentLocationId);
+      if (!location) {
+        throw new NotFoundError('Location', input.currentLocationId);
+      }
+    }
+
     return this.carRepository.update(carId, input);
   }
 }
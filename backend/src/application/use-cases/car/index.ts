@@ -4,3 +4,9 @@ export { CreateCarUseCase } from './CreateCarUseCase.js';
 export type { CreateCarInput } from './CreateCarUseCase.js';
 export { UpdateCarUseCase } from './UpdateCarUseCase.js';
 export type { UpdateCarInput } from './UpdateCarUseCase.js';
+export { GetCarPriceUseCase } from './GetCarPriceUseCase.js';
+export type { GetCarPriceInput, GetCarPriceOutput } from './GetCarPriceUseCase.js';
+export { GetCarBlackoutsUseCase } from './GetCarBlackoutsUseCase.js';
+export { CreateCarBlackoutUseCase } from './CreateCarBlackoutUseCase.js';
+export type { CreateCarBlackoutInput, CreateCarBlackoutOutput } from './CreateCarBlackoutUseCase.js';
+export { DeleteCarBlackoutUseCase } from './DeleteCarBlackoutUseCase.js';
@@ -0,0 +1,18 @@
+import { LocationWithSchedule } from '../../../domain/entities/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import { ILocationRepository, LocationData } from '../../../domain/repositories/index.js';
+
+export type CreateLocationInput = LocationData;
+
+export class CreateLocationUseCase {
+  constructor(private locationRepository: ILocationRepository) {}
+
+  async execute(input: CreateLocationInput): Promise<LocationWithSchedule> {
+    const existingLocation = await this.locationRepository.findByName(input.name);
+    if (existingLocation) {
+      throw new ConflictError('A location with this name already exists', 'LOCATION_NAME_EXISTS');
+    }
+
+    return this.locationRepository.create(input);
+  }
+}
@@ -0,0 +1,17 @@
+import { LocationWithSchedule } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { ILocationRepository } from '../../../domain/repositories/index.js';
+
+// Locations are never deleted: past bookings keep pointing at them
+export class DeactivateLocationUseCase {
+  constructor(private locationRepository: ILocationRepository) {}
+
+  async execute(locationId: string): Promise<LocationWithSchedule> {
+    const existingLocation = await this.locationRepository.findById(locationId);
+    if (!existingLocation) {
+      throw new NotFoundError('Location', locationId);
+    }
+
+    return this.locationRepository.update(locationId, { isActive: false });
+  }
+}
@@ -1,10 +1,10 @@
-import { Location } from '../../../domain/entities/index.js';
+import { LocationWithSchedule } from '../../../domain/entities/index.js';
 import { ILocationRepository } from '../../../domain/repositories/index.js';
 
 export class GetLocationsUseCase {
   constructor(private locationRepository: ILocationRepository) {}
 
-  async execute(activeOnly: boolean = true): Promise<Location[]> {
+  async execute(activeOnly: boolean = true): Promise<LocationWithSchedule[]> {
     return this.locationRepository.findAll(activeOnly);
   }
 }
@@ -0,0 +1,25 @@
+import { LocationWithSchedule } from '../../../domain/entities/index.js';
+import { ConflictError, NotFoundError } from '../../../domain/errors/index.js';
+import { ILocationRepository, LocationData } from '../../../domain/repositories/index.js';
+
+export type UpdateLocationInput = Partial<LocationData> & { isActive?: boolean };
+
+export class UpdateLocationUseCase {
+  constructor(private locationRepository: ILocationRepository) {}
+
+  async execute(locationId: string, input: UpdateLocationInput): Promise<LocationWithSchedule> {
+    const existingLocation = await this.locationRepository.findById(locationId);
+    if (!existingLocation) {
+      throw new NotFoundError('Location', locationId);
+    }
+
+    if (input.name && input.name !== existingLocation.name) {
+      const sameName = await this.locationRepository.findByName(input.name);
+      if (sameName) {
+        throw new ConflictError('A location with this name already exists', 'LOCATION_NAME_EXISTS');
+      }
+    }
+
+    return this.locationRepository.update(locationId, input);
+  }
+}
@@ -0,0 +1,6 @@
+export { GetLocationsUseCase } from './GetLocationsUseCase.js';
+export { CreateLocationUseCase } from './CreateLocationUseCase.js';
+export type { CreateLocationInput } from './CreateLocationUseCase.js';
+export { UpdateLocationUseCase } from './UpdateLocationUseCase.js';
+export type { UpdateLocationInput } from './UpdateLocationUseCase.js';
+export { DeactivateLocationUseCase } from './DeactivateLocationUseCase.js';
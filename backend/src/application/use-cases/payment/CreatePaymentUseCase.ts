@@ -0,0 +1,78 @@
+import { BookingStatus, BookingWithRelations, Payment, PaymentStatus, UserRole } from '../../../domain/entities/index.js';
+import { ConflictError, ForbiddenError, NotFoundError, PaymentRequiredError, ValidationError } from '../../../domain/errors/index.js';
+import { IBookingRepository, IPaymentRepository } from '../../../domain/repositories/index.js';
+import { PaymentService } from '../../services/PaymentService.js';
+import { roundMoney } from '../../services/PricingService.js';
+
+export interface CreatePaymentInput {
+  bookingId: string;
+  userId: string;
+  userRole: UserRole;
+  // Defaults to the whole outstanding balance
+  amount?: number;
+  paymentMethod: string;
+}
+
+export interface CreatePaymentOutput {
+  payment: Payment;
+  booking: BookingWithRelations;
+}
+
+const PAYABLE_STATUSES: BookingStatus[] = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+export class CreatePaymentUseCase {
+  constructor(
+    private bookingRepository: IBookingRepository,
+    private paymentRepository: IPaymentRepository,
+    private paymentService: PaymentService
+  ) {}
+
+  async execute(input: CreatePaymentInput): Promise<CreatePaymentOutput> {
+    const booking = await this.bookingRepository.findById(input.bookingId, false);
+    if (!booking) {
+      throw new NotFoundError('Booking', input.bookingId);
+    }
+
+    // Only allow user to pay for their own bookings, unless they're an admin
+    if (input.userRole !== UserRole.ADMIN && booking.userId !== input.userId) {
+      throw new ForbiddenError('You can only pay for your own bookings');
+    }
+
+    if (!PAYABLE_STATUSES.includes(booking.status)) {
+      throw new ConflictError(`Cannot pay for a booking in ${booking.status} status`, 'BOOKING_NOT_PAYABLE');
+    }
+
+    // Payments still settling count against the balance so they cannot be doubled up
+    const payments = await this.paymentRepository.findByBookingId(booking.id);
+    const taken = payments
+      .filter((payment) => payment.status !== PaymentStatus.FAILED)
+      .reduce((sum, payment) => sum + Number(payment.amount), 0);
+    const outstanding = roundMoney(Number(booking.totalPrice) - taken);
+    if (outstanding <= 0) {
+      throw new ConflictError('Booking is already paid', 'BOOKING_ALREADY_PAID');
+    }
+
+    if (input.amount !== undefined && input.amount > outstanding) {
+      throw new ValidationError('Payment exceeds the outstanding balance', [
+        { field: 'amount', message: `Must be at most the outstanding balance of ${outstanding}` },
+      ]);
+    }
+
+    // The payment is recorded under the booking's row lock, which rechecks the balance
+    // so concurrent payments cannot both take it
+    const payment = await this.paymentService.charge(booking, input.amount ?? outstanding, input.paymentMethod);
+    if (payment.status === PaymentStatus.FAILED) {
+      throw new PaymentRequiredError(payment.failureReason || 'Payment was declined', 'PAYMENT_DECLINED', {
+        paymentId: payment.id,
+      });
+    }
+
+    // Reload: a payment that completes the balance confirms the booking
+    const updated = await this.bookingRepository.findById(booking.id);
+    if (!updated) {
+      throw new NotFoundError('Booking', booking.id);
+    }
+
+    return { payment, booking: updated };
+  }
+}
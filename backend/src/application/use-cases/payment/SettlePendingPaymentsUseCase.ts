@@ -0,0 +1,43 @@
+import { IPaymentRepository } from '../../../domain/repositories/index.js';
+import { PaymentGateway } from '../../../infrastructure/payments/index.js';
+import { PaymentService } from '../../services/PaymentService.js';
+
+/**
+ * Asks the gateway about charges and refunds it answered PENDING and records
+ * the ones that have since settled.
+ */
+export class SettlePendingPaymentsUseCase {
+  constructor(
+    private paymentRepository: IPaymentRepository,
+    private paymentService: PaymentService,
+    private gateway: PaymentGateway
+  ) {}
+
+  // Returns how many payments and refunds were settled
+  async execute(): Promise<number> {
+    let settled = 0;
+
+    for (const payment of await this.paymentRepository.findPending()) {
+      // Taken by another gateway, or the charge request never got an answer
+      if (payment.gateway !== this.gateway.name || !payment.gatewayReference) continue;
+
+      const result = await this.gateway.retrieve(payment.gatewayReference);
+      if (result.status === 'PENDING') continue;
+
+      await this.paymentService.applyPaymentResult(payment, result);
+      settled++;
+    }
+
+    for (const refund of await this.paymentRepository.findPendingRefunds()) {
+      if (refund.gateway !== this.gateway.name || !refund.gatewayReference) continue;
+
+      const result = await this.gateway.retrieve(refund.gatewayReference);
+      if (result.status === 'PENDING') continue;
+
+      await this.paymentService.applyRefundResult(refund, result);
+      settled++;
+    }
+
+    return settled;
+  }
+}
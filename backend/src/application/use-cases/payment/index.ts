@@ -0,0 +1,3 @@
+export { CreatePaymentUseCase } from './CreatePaymentUseCase.js';
+export type { CreatePaymentInput, CreatePaymentOutput } from './CreatePaymentUseCase.js';
+export { SettlePendingPaymentsUseCase } from './SettlePendingPaymentsUseCase.js';
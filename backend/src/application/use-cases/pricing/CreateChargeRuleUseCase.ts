@@ -0,0 +1,62 @@
+import { ChargeCalculation, ChargeRule } from '../../../domain/entities/index.js';
+import { NotFoundError, ValidationError, ValidationFieldError } from '../../../domain/errors/index.js';
+import {
+  ChargeRuleData,
+  IAddonRepository,
+  IChargeRuleRepository,
+  ILocationRepository,
+} from '../../../domain/repositories/index.js';
+
+export type CreateChargeRuleInput = ChargeRuleData;
+
+export function assertValidChargeRule(rule: ChargeRuleData): void {
+  const fields: ValidationFieldError[] = [];
+
+  if (rule.locationId && rule.addonId) {
+    fields.push({ field: 'addonId', message: 'A rule is scoped to either a location or an add-on, not both' });
+  }
+
+  if (rule.calculation === ChargeCalculation.PERCENTAGE && rule.rate > 100) {
+    fields.push({ field: 'rate', message: 'Percentage cannot exceed 100' });
+  }
+
+  if (fields.length > 0) {
+    throw new ValidationError('Invalid charge rule', fields);
+  }
+}
+
+// Shared with UpdateChargeRuleUseCase: the scope a rule points at must exist
+export async function assertChargeRuleScopeExists(
+  rule: Pick<ChargeRuleData, 'locationId' | 'addonId'>,
+  locationRepository: ILocationRepository,
+  addonRepository: IAddonRepository
+): Promise<void> {
+  if (rule.locationId) {
+    const location = await locationRepository.findById(rule.locationId);
+    if (!location) {
+      throw new NotFoundError('Location', rule.locationId);
+    }
+  }
+
+  if (rule.addonId) {
+    const addon = await addonRepository.findById(rule.addonId);
+    if (!addon) {
+      throw new NotFoundError('Add-on', rule.addonId);
+    }
+  }
+}
+
+export class CreateChargeRuleUseCase {
+  constructor(
+    private chargeRuleRepository: IChargeRuleRepository,
+    private locationRepository: ILocationRepository,
+    private addonRepository: IAddonRepository
+  ) {}
+
+  async execute(input: CreateChargeRuleInput): Promise<ChargeRule> {
+    assertValidChargeRule(input);
+    await assertChargeRuleScopeExists(input, this.locationRepository, this.addonRepository);
+
+    return this.chargeRuleRepository.create(input);
+  }
+}
@@ -0,0 +1,47 @@
+import { LocationFee } from '../../../domain/entities/index.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../domain/errors/index.js';
+import {
+  ILocationFeeRepository,
+  ILocationRepository,
+  LocationFeeData,
+} from '../../../domain/repositories/index.js';
+
+export type CreateLocationFeeInput = LocationFeeData;
+
+export class CreateLocationFeeUseCase {
+  constructor(
+    private locationFeeRepository: ILocationFeeRepository,
+    private locationRepository: ILocationRepository
+  ) {}
+
+  async execute(input: CreateLocationFeeInput): Promise<LocationFee> {
+    // Round trips never pay a drop fee
+    if (input.pickupLocationId === input.dropoffLocationId) {
+      throw new ValidationError('Drop fees apply between two different locations', [
+        { field: 'dropoffLocationId', message: 'Dropoff location must differ from pickup location' },
+      ]);
+    }
+
+    const [pickupLocation, dropoffLocation] = await Promise.all([
+      this.locationRepository.findById(input.pickupLocationId),
+      this.locationRepository.findById(input.dropoffLocationId),
+    ]);
+    if (!pickupLocation) {
+      throw new NotFoundError('Pickup location', input.pickupLocationId);
+    }
+    if (!dropoffLocation) {
+      throw new NotFoundError('Dropoff location', input.dropoffLocationId);
+    }
+
+    const existingFee = await this.locationFeeRepository.findByPair(input.pickupLocationId, input.dropoffLocationId);
+    if (existingFee) {
+      throw new ConflictError(
+        'A drop fee already exists for this location pair',
+        'LOCATION_FEE_EXISTS',
+        { locationFeeId: existingFee.id }
+      );
+    }
+
+    return this.locationFeeRepository.create(input);
+  }
+}
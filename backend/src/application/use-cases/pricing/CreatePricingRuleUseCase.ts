@@ -0,0 +1,49 @@
+import { PricingRule, PricingRuleType } from '../../../domain/entities/index.js';
+import { NotFoundError, ValidationError, ValidationFieldError } from '../../../domain/errors/index.js';
+import { ICarRepository, IPricingRuleRepository, PricingRuleData } from '../../../domain/repositories/index.js';
+
+export type CreatePricingRuleInput = PricingRuleData;
+
+export function assertValidPricingRule(rule: PricingRuleData): void {
+  const fields: ValidationFieldError[] = [];
+
+  if (rule.carId && rule.carType) {
+    fields.push({ field: 'carType', message: 'A rule is scoped to either a car or a car type, not both' });
+  }
+
+  if (rule.type === PricingRuleType.DAY_OF_WEEK && (!rule.daysOfWeek || rule.daysOfWeek.length === 0)) {
+    fields.push({ field: 'daysOfWeek', message: 'Day-of-week rules need at least one day' });
+  }
+
+  if (rule.type === PricingRuleType.DATE_RANGE) {
+    if (!rule.startDate || !rule.endDate) {
+      fields.push({ field: 'startDate', message: 'Date range rules need a start and end date' });
+    } else if (rule.endDate < rule.startDate) {
+      fields.push({ field: 'endDate', message: 'End date must be on or after start date' });
+    }
+  }
+
+  if (fields.length > 0) {
+    throw new ValidationError('Invalid pricing rule', fields);
+  }
+}
+
+export class CreatePricingRuleUseCase {
+  constructor(
+    private pricingRuleRepository: IPricingRuleRepository,
+    private carRepository: ICarRepository
+  ) {}
+
+  async execute(input: CreatePricingRuleInput): Promise<PricingRule> {
+    assertValidPricingRule(input);
+
+    if (input.carId) {
+      const car = await this.carRepository.findById(input.carId);
+      if (!car) {
+        throw new NotFoundError('Car', input.carId);
+      }
+    }
+
+    return this.pricingRuleRepository.create(input);
+  }
+}
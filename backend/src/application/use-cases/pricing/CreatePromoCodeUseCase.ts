@@ -0,0 +1,60 @@
+import { DiscountType, PromoCode } from '../../../domain/entities/index.js';
+import { ConflictError, NotFoundError, ValidationError, ValidationFieldError } from '../../../domain/errors/index.js';
+import { ICarRepository, IPromoCodeRepository, PromoCodeData } from '../../../domain/repositories/index.js';
+import { normalizePromoCode } from '../../services/PromoCodeRules.js';
+
+export type CreatePromoCodeInput = PromoCodeData;
+
+export function assertValidPromoCode(promoCode: PromoCodeData): void {
+  const fields: ValidationFieldError[] = [];
+
+  if (promoCode.discountType === DiscountType.PERCENTAGE && promoCode.discountValue > 100) {
+    fields.push({ field: 'discountValue', message: 'Percentage cannot exceed 100' });
+  }
+
+  if (promoCode.validFrom && promoCode.validUntil && promoCode.validUntil <= promoCode.validFrom) {
+    fields.push({ field: 'validUntil', message: 'End of validity must be after its start' });
+  }
+
+  if (
+    promoCode.maxRedemptions != null &&
+    promoCode.maxRedemptionsPerUser != null &&
+    promoCode.maxRedemptionsPerUser > promoCode.maxRedemptions
+  ) {
+    fields.push({ field: 'maxRedemptionsPerUser', message: 'Per-customer limit cannot exceed the total limit' });
+  }
+
+  if (fields.length > 0) {
+    throw new ValidationError('Invalid promo code', fields);
+  }
+}
+
+// Shared with UpdatePromoCodeUseCase: restricted cars must exist
+export async function assertPromoCodeCarsExist(carIds: string[] | undefined, carRepository: ICarRepository): Promise<void> {
+  for (const carId of carIds ?? []) {
+    const car = await carRepository.findById(carId);
+    if (!car) {
+      throw new NotFoundError('Car', carId);
+    }
+  }
+}
+
+export class CreatePromoCodeUseCase {
+  constructor(
+    private promoCodeRepository: IPromoCodeRepository,
+    private carRepository: ICarRepository
+  ) {}
+
+  async execute(input: CreatePromoCodeInput): Promise<PromoCode> {
+    const code = normalizePromoCode(input.code);
+    assertValidPromoCode(input);
+    await assertPromoCodeCarsExist(input.carIds, this.carRepository);
+
+    const existing = await this.promoCodeRepository.findByCode(code);
+    if (existing) {
+      throw new ConflictError('A promo code with this code already exists', 'PROMO_CODE_EXISTS');
+    }
+
+    return this.promoCodeRepository.create({ ...input, code });
+  }
+}
@@ -0,0 +1,15 @@
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { IChargeRuleRepository } from '../../../domain/repositories/index.js';
+
+export class DeleteChargeRuleUseCase {
+  constructor(private chargeRuleRepository: IChargeRuleRepository) {}
+
+  async execute(ruleId: string): Promise<void> {
+    const existingRule = await this.chargeRuleRepository.findById(ruleId);
+    if (!existingRule) {
+      throw new NotFoundError('Charge rule', ruleId);
+    }
+
+    await this.chargeRuleRepository.delete(ruleId);
+  }
+}
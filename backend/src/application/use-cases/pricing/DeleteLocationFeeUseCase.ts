@@ -0,0 +1,15 @@
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { ILocationFeeRepository } from '../../../domain/repositories/index.js';
+
+export class DeleteLocationFeeUseCase {
+  constructor(private locationFeeRepository: ILocationFeeRepository) {}
+
+  async execute(feeId: string): Promise<void> {
+    const existingFee = await this.locationFeeRepository.findById(feeId);
+    if (!existingFee) {
+      throw new NotFoundError('Location fee', feeId);
+    }
+
+    await this.locationFeeRepository.delete(feeId);
+  }
+}
@@ -0,0 +1,15 @@
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { IPricingRuleRepository } from '../../../domain/repositories/index.js';
+
+export class DeletePricingRuleUseCase {
+  constructor(private pricingRuleRepository: IPricingRuleRepository) {}
+
+  async execute(ruleId: string): Promise<void> {
+    const existingRule = await this.pricingRuleRepository.findById(ruleId);
+    if (!existingRule) {
+      throw new NotFoundError('Pricing rule', ruleId);
+    }
+
+    await this.pricingRuleRepository.delete(ruleId);
+  }
+}
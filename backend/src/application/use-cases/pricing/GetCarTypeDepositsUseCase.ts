@@ -0,0 +1,22 @@
+import { CarType } from '../../../domain/entities/index.js';
+import { IDepositRepository } from '../../../domain/repositories/index.js';
+
+export interface CarTypeDepositAmount {
+  carType: CarType;
+  amount: number;
+}
+
+export class GetCarTypeDepositsUseCase {
+  constructor(private depositRepository: IDepositRepository) {}
+
+  // Lists every car type; one without a configured deposit takes none
+  async execute(): Promise<CarTypeDepositAmount[]> {
+    const configured = await this.depositRepository.findAllCarTypeDeposits();
+    const amounts = new Map(configured.map((deposit) => [deposit.carType, Number(deposit.amount)]));
+
+    return Object.values(CarType).map((carType) => ({
+      carType,
+      amount: amounts.get(carType) ?? 0,
+    }));
+  }
+}
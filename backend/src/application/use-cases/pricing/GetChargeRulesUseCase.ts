@@ -0,0 +1,10 @@
+import { ChargeRule } from '../../../domain/entities/index.js';
+import { ChargeRuleFilters, IChargeRuleRepository } from '../../../domain/repositories/index.js';
+
+export class GetChargeRulesUseCase {
+  constructor(private chargeRuleRepository: IChargeRuleRepository) {}
+
+  async execute(filters: ChargeRuleFilters): Promise<ChargeRule[]> {
+    return this.chargeRuleRepository.findAll(filters);
+  }
+}
@@ -0,0 +1,10 @@
+import { LocationFee } from '../../../domain/entities/index.js';
+import { ILocationFeeRepository, LocationFeeFilters } from '../../../domain/repositories/index.js';
+
+export class GetLocationFeesUseCase {
+  constructor(private locationFeeRepository: ILocationFeeRepository) {}
+
+  async execute(filters: LocationFeeFilters): Promise<LocationFee[]> {
+    return this.locationFeeRepository.findAll(filters);
+  }
+}
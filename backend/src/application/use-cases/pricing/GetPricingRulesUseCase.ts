@@ -0,0 +1,10 @@
+import { PricingRule } from '../../../domain/entities/index.js';
+import { IPricingRuleRepository, PricingRuleFilters } from '../../../domain/repositories/index.js';
+
+export class GetPricingRulesUseCase {
+  constructor(private pricingRuleRepository: IPricingRuleRepository) {}
+
+  async execute(filters: PricingRuleFilters): Promise<PricingRule[]> {
+    return this.pricingRuleRepository.findAll(filters);
+  }
+}
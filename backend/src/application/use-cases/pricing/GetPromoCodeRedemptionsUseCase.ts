@@ -0,0 +1,26 @@
+import { ValidationError } from '../../../domain/errors/index.js';
+import { IPromoCodeRepository, PromoCodeRedemptionSummary } from '../../../domain/repositories/index.js';
+
+export interface GetPromoCodeRedemptionsInput {
+  from?: Date;
+  to?: Date;
+}
+
+export class GetPromoCodeRedemptionsUseCase {
+  constructor(private promoCodeRepository: IPromoCodeRepository) {}
+
+  async execute(input: GetPromoCodeRedemptionsInput): Promise<PromoCodeRedemptionSummary[]> {
+    for (const field of ['from', 'to'] as const) {
+      if (input[field] && Number.isNaN(input[field]!.getTime())) {
+        throw new ValidationError('Invalid report period', [{ field, message: 'Invalid date' }]);
+      }
+    }
+    if (input.from && input.to && input.to < input.from) {
+      throw new ValidationError('Invalid report period', [
+        { field: 'to', message: 'End of the period must be after its start' },
+      ]);
+    }
+
+    return this.promoCodeRepository.getRedemptionReport(input.from, input.to);
+  }
+}
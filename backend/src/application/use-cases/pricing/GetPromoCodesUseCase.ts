@@ -0,0 +1,10 @@
+import { PromoCode } from '../../../domain/entities/index.js';
+import { IPromoCodeRepository, PromoCodeFilters } from '../../../domain/repositories/index.js';
+
+export class GetPromoCodesUseCase {
+  constructor(private promoCodeRepository: IPromoCodeRepository) {}
+
+  async execute(filters: PromoCodeFilters): Promise<PromoCode[]> {
+    return this.promoCodeRepository.findAll(filters);
+  }
+}
@@ -0,0 +1,15 @@
+import { CarType, CarTypeDeposit } from '../../../domain/entities/index.js';
+import { IDepositRepository } from '../../../domain/repositories/index.js';
+
+export interface SetCarTypeDepositInput {
+  amount: number;
+}
+
+export class SetCarTypeDepositUseCase {
+  constructor(private depositRepository: IDepositRepository) {}
+
+  // Applies to pickups from now on; deposits already held keep their amount
+  async execute(carType: CarType, input: SetCarTypeDepositInput): Promise<CarTypeDeposit> {
+    return this.depositRepository.upsertCarTypeDeposit(carType, input.amount);
+  }
+}
@@ -0,0 +1,40 @@
+import { ChargeRule } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import {
+  ChargeRuleData,
+  IAddonRepository,
+  IChargeRuleRepository,
+  ILocationRepository,
+} from '../../../domain/repositories/index.js';
+import { assertChargeRuleScopeExists, assertValidChargeRule } from './CreateChargeRuleUseCase.js';
+
+export type UpdateChargeRuleInput = Partial<ChargeRuleData>;
+
+// Bookings keep the charges they were made with; changes only affect new quotes
+export class UpdateChargeRuleUseCase {
+  constructor(
+    private chargeRuleRepository: IChargeRuleRepository,
+    private locationRepository: ILocationRepository,
+    private addonRepository: IAddonRepository
+  ) {}
+
+  async execute(ruleId: string, input: UpdateChargeRuleInput): Promise<ChargeRule> {
+    const existingRule = await this.chargeRuleRepository.findById(ruleId);
+    if (!existingRule) {
+      throw new NotFoundError('Charge rule', ruleId);
+    }
+
+    // Validate the rule as it will look after the update
+    assertValidChargeRule({
+      name: input.name ?? existingRule.name,
+      kind: input.kind ?? existingRule.kind,
+      calculation: input.calculation ?? existingRule.calculation,
+      rate: input.rate ?? Number(existingRule.rate),
+      locationId: input.locationId !== undefined ? input.locationId : existingRule.locationId,
+      addonId: input.addonId !== undefined ? input.addonId : existingRule.addonId,
+    });
+    await assertChargeRuleScopeExists(input, this.locationRepository, this.addonRepository);
+
+    return this.chargeRuleRepository.update(ruleId, input);
+  }
+}
@@ -0,0 +1,20 @@
+import { LocationFee } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { ILocationFeeRepository } from '../../../domain/repositories/index.js';
+
+export interface UpdateLocationFeeInput {
+  fee: number;
+}
+
+export class UpdateLocationFeeUseCase {
+  constructor(private locationFeeRepository: ILocationFeeRepository) {}
+
+  async execute(feeId: string, input: UpdateLocationFeeInput): Promise<LocationFee> {
+    const existingFee = await this.locationFeeRepository.findById(feeId);
+    if (!existingFee) {
+      throw new NotFoundError('Location fee', feeId);
+    }
+
+    return this.locationFeeRepository.update(feeId, input.fee);
+  }
+}
@@ -0,0 +1,41 @@
+import { PricingRule } from '../../../domain/entities/index.js';
+import { NotFoundError } from '../../../domain/errors/index.js';
+import { ICarRepository, IPricingRuleRepository, PricingRuleData } from '../../../domain/repositories/index.js';
+import { assertValidPricingRule } from './CreatePricingRuleUseCase.js';
+
+export type UpdatePricingRuleInput = Partial<PricingRuleData>;
+
+export class UpdatePricingRuleUseCase {
+  constructor(
+    private pricingRuleRepository: IPricingRuleRepository,
+    private carRepository: ICarRepository
+  ) {}
+
+  async execute(ruleId: string, input: UpdatePricingRuleInput): Promise<PricingRule> {
+    const existingRule = await this.pricingRuleRepository.findById(ruleId);
+    if (!existingRule) {
+      throw new NotFoundError('Pricing rule', ruleId);
+    }
+
+    // Validate the rule as it will look after the update
+    assertValidPricingRule({
+      name: input.name ?? existingRule.name,
+      type: input.type ?? existingRule.type,
+      multiplier: input.multiplier ?? Number(existingRule.multiplier),
+      carId: input.carId !== undefined ? input.carId : existingRule.carId,
+      carType: input.carType !== undefined ? input.carType : existingRule.carType,
+      daysOfWeek: input.daysOfWeek ?? existingRule.daysOfWeek,
+      startDate: input.startDate !== undefined ? input.startDate : existingRule.startDate,
+      endDate: input.endDate !== undefined ? input.endDate : existingRule.endDate,
+    });
+
+    if (input.carId) {
+      const car = await this.carRepository.findById(input.carId);
+      if (!car) {
+        throw new NotFoundError('Car', input.carId);
+      }
+    }
+
+    return this.pricingRuleRepository.update(ruleId, input);
+  }
+}
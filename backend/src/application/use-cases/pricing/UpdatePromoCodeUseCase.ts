@@ -0,0 +1,45 @@
+import { PromoCode } from '../../../domain/entities/index.js';
+import { ConflictError, NotFoundError } from '../../../domain/errors/index.js';
+import { ICarRepository, IPromoCodeRepository, PromoCodeData } from '../../../domain/repositories/index.js';
+import { normalizePromoCode } from '../../services/PromoCodeRules.js';
+import { assertPromoCodeCarsExist, assertValidPromoCode } from './CreatePromoCodeUseCase.js';
+
+export type UpdatePromoCodeInput = Partial<PromoCodeData>;
+
+// Bookings keep the discount they were made with; changes only affect new bookings
+export class UpdatePromoCodeUseCase {
+  constructor(
+    private promoCodeRepository: IPromoCodeRepository,
+    private carRepository: ICarRepository
+  ) {}
+
+  async execute(promoCodeId: string, input: UpdatePromoCodeInput): Promise<PromoCode> {
+    const existingPromoCode = await this.promoCodeRepository.findById(promoCodeId);
+    if (!existingPromoCode) {
+      throw new NotFoundError('Promo code', promoCodeId);
+    }
+
+    // Validate the promo code as it will look after the update
+    assertValidPromoCode({
+      code: input.code ?? existingPromoCode.code,
+      discountType: input.discountType ?? existingPromoCode.discountType,
+      discountValue: input.discountValue ?? Number(existingPromoCode.discountValue),
+      validFrom: input.validFrom !== undefined ? input.validFrom : existingPromoCode.validFrom,
+      validUntil: input.validUntil !== undefined ? input.validUntil : existingPromoCode.validUntil,
+      maxRedemptions: input.maxRedemptions !== undefined ? input.maxRedemptions : existingPromoCode.maxRedemptions,
+      maxRedemptionsPerUser:
+        input.maxRedemptionsPerUser !== undefined ? input.maxRedemptionsPerUser : existingPromoCode.maxRedemptionsPerUser,
+    });
+    await assertPromoCodeCarsExist(input.carIds, this.carRepository);
+
+    const code = input.code !== undefined ? normalizePromoCode(input.code) : undefined;
+    if (code && code !== existingPromoCode.code) {
+      const duplicate = await this.promoCodeRepository.findByCode(code);
+      if (duplicate) {
+        throw new ConflictError('A promo code with this code already exists', 'PROMO_CODE_EXISTS');
+      }
+    }
+
+    return this.promoCodeRepository.update(promoCodeId, { ...input, ...(code && { code }) });
+  }
+}
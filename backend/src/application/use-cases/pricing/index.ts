@@ -0,0 +1,29 @@
+export { GetPricingRulesUseCase } from './GetPricingRulesUseCase.js';
+export { CreatePricingRuleUseCase } from './CreatePricingRuleUseCase.js';
+export type { CreatePricingRuleInput } from './CreatePricingRuleUseCase.js';
+export { UpdatePricingRuleUseCase } from './UpdatePricingRuleUseCase.js';
+export type { UpdatePricingRuleInput } from './UpdatePricingRuleUseCase.js';
+export { DeletePricingRuleUseCase } from './DeletePricingRuleUseCase.js';
+export { GetLocationFeesUseCase } from './GetLocationFeesUseCase.js';
+export { CreateLocationFeeUseCase } from './CreateLocationFeeUseCase.js';
+export type { CreateLocationFeeInput } from './CreateLocationFeeUseCase.js';
+export { UpdateLocationFeeUseCase } from './UpdateLocationFeeUseCase.js';
+export type { UpdateLocationFeeInput } from './UpdateLocationFeeUseCase.js';
+export { DeleteLocationFeeUseCase } from './DeleteLocationFeeUseCase.js';
+export { GetCarTypeDepositsUseCase } from './GetCarTypeDepositsUseCase.js';
+export type { CarTypeDepositAmount } from './GetCarTypeDepositsUseCase.js';
+export { SetCarTypeDepositUseCase } from './SetCarTypeDepositUseCase.js';
+export type { SetCarTypeDepositInput } from './SetCarTypeDepositUseCase.js';
+export { GetChargeRulesUseCase } from './GetChargeRulesUseCase.js';
+export { CreateChargeRuleUseCase } from './CreateChargeRuleUseCase.js';
+export type { CreateChargeRuleInput } from './CreateChargeRuleUseCase.js';
+export { UpdateChargeRuleUseCase } from './UpdateChargeRuleUseCase.js';
+export type { UpdateChargeRuleInput } from './UpdateChargeRuleUseCase.js';
+export { DeleteChargeRuleUseCase } from './DeleteChargeRuleUseCase.js';
+export { GetPromoCodesUseCase } from './GetPromoCodesUseCase.js';
+export { CreatePromoCodeUseCase } from './CreatePromoCodeUseCase.js';
+export type { CreatePromoCodeInput } from './CreatePromoCodeUseCase.js';
+export { UpdatePromoCodeUseCase } from './UpdatePromoCodeUseCase.js';
+export type { UpdatePromoCodeInput } from './UpdatePromoCodeUseCase.js';
+export { GetPromoCodeRedemptionsUseCase } from './GetPromoCodeRedemptionsUseCase.js';
+export type { GetPromoCodeRedemptionsInput } from './GetPromoCodeRedemptionsUseCase.js';
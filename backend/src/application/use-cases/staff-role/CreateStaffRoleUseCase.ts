@@ -0,0 +1,18 @@
+import { StaffRole } from '../../../domain/entities/index.js';
+import { ConflictError } from '../../../domain/errors/index.js';
+import { IStaffRoleRepository, StaffRoleData } from '../../../domain/repositories/index.js';
+
+export type CreateStaffRoleInput = StaffRoleData;
+
+export class CreateStaffRoleUseCase {
+  constructor(private staffRoleRepository: IStaffRoleRepository) {}
+
+  async execute(input: CreateStaffRoleInput): Promise<StaffRole> {
+    const existingRole = await this.staffRoleRepository.findByName(input.name);
+    if (existingRole) {
+      throw new ConflictError('A staff role with this name already exists', 'STAFF_ROLE_NAME_EXISTS');
+    }
+
+    return this.staffRoleRepository.create(input);
+  }
+}
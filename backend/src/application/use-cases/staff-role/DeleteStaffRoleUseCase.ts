@@ -0,0 +1,25 @@
+import { ConflictError, NotFoundError } from '../../../domain/errors/index.js';
+import { IStaffRoleRepository } from '../../../domain/repositories/index.js';
+
+export class DeleteStaffRoleUseCase {
+  constructor(private staffRoleRepository: IStaffRoleRepository) {}
+
+  async execute(roleId: string): Promise<void> {
+    const existingRole = await this.staffRoleRepository.findById(roleId);
+    if (!existingRole) {
+      throw new NotFoundError('Staff role', roleId);
+    }
+
+    if (existingRole.isBuiltIn) {
+      throw new ConflictError('Built-in staff roles cannot be deleted', 'STAFF_ROLE_BUILT_IN');
+    }
+
+    // Deleting would silently strip staff of their access, so they must be reassigned first
+    const userCount = await this.staffRoleRepository.countUsers(roleId);
+    if (userCount > 0) {
+      throw new ConflictError('Staff role is still assigned to users', 'STAFF_ROLE_IN_USE', { userCount });
+    }
+
+    await this.staffRoleRepository.delete(roleId);
+  }
+}
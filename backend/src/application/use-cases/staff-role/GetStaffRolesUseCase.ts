@@ -0,0 +1,9 @@
+import { IStaffRoleRepository, StaffRoleWithUserCount } from '../../../domain/repositories/index.js';
+
+export class GetStaffRolesUseCase {
+  constructor(private staffRoleRepository: IStaffRoleRepository) {}
+
+  async execute(): Promise<StaffRoleWithUserCount[]> {
+    return this.staffRoleRepository.findAll();
+  }
+}
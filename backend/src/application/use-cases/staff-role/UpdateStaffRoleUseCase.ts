@@ -0,0 +1,30 @@
+import { StaffRole } from '../../../domain/entities/index.js';
+import { ConflictError, NotFoundError } from '../../../domain/errors/index.js';
+import { IStaffRoleRepository, StaffRoleData } from '../../../domain/repositories/index.js';
+
+export type UpdateStaffRoleInput = Partial<StaffRoleData>;
+
+export class UpdateStaffRoleUseCase {
+  constructor(private staffRoleRepository: IStaffRoleRepository) {}
+
+  async execute(roleId: string, input: UpdateStaffRoleInput): Promise<StaffRole> {
+    const existingRole = await this.staffRoleRepository.findById(roleId);
+    if (!existingRole) {
+      throw new NotFoundError('Staff role', roleId);
+    }
+
+    // Built-in roles are shipped with the app and kept as defined there
+    if (existingRole.isBuiltIn) {
+      throw new ConflictError('Built-in staff roles cannot be changed', 'STAFF_ROLE_BUILT_IN');
+    }
+
+    if (input.name && input.name !== existingRole.name) {
+      const sameName = await this.staffRoleRepository.findByName(input.name);
+      if (sameName) {
+        throw new ConflictError('A staff role with this name already exists', 'STAFF_ROLE_NAME_EXISTS');
+      }
+    }
+
+    return this.staffRoleRepository.update(roleId, input);
+  }
+}
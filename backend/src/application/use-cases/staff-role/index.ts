@@ -0,0 +1,6 @@
+export { GetStaffRolesUseCase } from './GetStaffRolesUseCase.js';
+export { CreateStaffRoleUseCase } from './CreateStaffRoleUseCase.js';
+export type { CreateStaffRoleInput } from './CreateStaffRoleUseCase.js';
+export { UpdateStaffRoleUseCase } from './UpdateStaffRoleUseCase.js';
+export type { UpdateStaffRoleInput } from './UpdateStaffRoleUseCase.js';
+export { DeleteStaffRoleUseCase } from './DeleteStaffRoleUseCase.js';
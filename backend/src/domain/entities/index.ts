@@ -6,16 +6,45 @@ import {
   Booking as PrismaBooking,
   BookingAddon as PrismaBookingAddon,
   AuditLog as PrismaAuditLog,
+  PricingRule as PrismaPricingRule,
+  IdempotencyKey as PrismaIdempotencyKey,
+  CarBlackout as PrismaCarBlackout,
+  LocationFee as PrismaLocationFee,
+  LocationOpeningHours as PrismaLocationOpeningHours,
+  LocationClosure as PrismaLocationClosure,
+  AddonStock as PrismaAddonStock,
+  RefreshToken as PrismaRefreshToken,
+  UserToken as PrismaUserToken,
+  RecoveryCode as PrismaRecoveryCode,
+  StaffRole as PrismaStaffRole,
+  StaffLocation as PrismaStaffLocation,
+  Payment as PrismaPayment,
+  Refund as PrismaRefund,
+  CarTypeDeposit as PrismaCarTypeDeposit,
+  Deposit as PrismaDeposit,
+  Invoice as PrismaInvoice,
+  ChargeRule as PrismaChargeRule,
+  BookingCharge as PrismaBookingCharge,
+  PromoCode as PrismaPromoCode,
   UserRole,
   CarType,
   Transmission,
   FuelType,
   CarStatus,
   BookingStatus,
+  PricingRuleType,
+  AddonPricingMode,
+  UserTokenType,
+  DriverVerificationStatus,
+  PaymentStatus,
+  DepositStatus,
+  ChargeKind,
+  ChargeCalculation,
+  DiscountType,
 } from '@prisma/client';
 
 // Re-export enums
-export { UserRole, CarType, Transmission, FuelType, CarStatus, BookingStatus };
+export { UserRole, CarType, Transmission, FuelType, CarStatus, BookingStatus, PricingRuleType, AddonPricingMode, UserTokenType, DriverVerificationStatus, PaymentStatus, DepositStatus, ChargeKind, ChargeCalculation, DiscountType };
 
 // Entity types
 export type User = PrismaUser;
@@ -25,14 +54,92 @@ export type Addon = PrismaAddon;
 export type Booking = PrismaBooking;
 export type BookingAddon = PrismaBookingAddon;
 export type AuditLog = PrismaAuditLog;
+export type PricingRule = PrismaPricingRule;
+export type IdempotencyKey = PrismaIdempotencyKey;
+export type CarBlackout = PrismaCarBlackout;
+export type LocationFee = PrismaLocationFee;
+export type LocationOpeningHours = PrismaLocationOpeningHours;
+export type LocationClosure = PrismaLocationClosure;
+export type AddonStock = PrismaAddonStock;
+export type RefreshToken = PrismaRefreshToken;
+export type UserToken = PrismaUserToken;
+export type RecoveryCode = PrismaRecoveryCode;
+export type StaffRole = PrismaStaffRole;
+export type StaffLocation = PrismaStaffLocation;
+export type Payment = PrismaPayment;
+export type Refund = PrismaRefund;
+export type CarTypeDeposit = PrismaCarTypeDeposit;
+export type Deposit = PrismaDeposit;
+export type Invoice = PrismaInvoice;
+export type ChargeRule = PrismaChargeRule;
+export type BookingCharge = PrismaBookingCharge;
+export type PromoCode = PrismaPromoCode;
+
+// The booking's customer as shown on bookings; credentials and driver details stay out of responses
+export type BookingUser = Pick<User, 'id' | 'name' | 'email' | 'phone'>;
 
 // Booking with relations
 export interface BookingWithRelations extends Booking {
-  user?: User;
+  user?: BookingUser;
   car?: Car;
   pickupLocation?: Location;
   dropoffLocation?: Location;
   bookingAddons?: (BookingAddon & { addon?: Addon })[];
+  charges?: BookingCharge[];
+  promoCode?: PromoCode | null;
+  payments?: Payment[];
+  refunds?: Refund[];
+  deposit?: Deposit | null;
+}
+
+// What an invoice shows, frozen when it is issued. Amounts are in IDR
+export interface InvoiceContents {
+  number: string;
+  issuedAt: string;
+  company: {
+    name: string;
+    address: string;
+    taxId: string;
+    email: string;
+    phone: string;
+  };
+  billTo: {
+    name: string;
+    email: string;
+  };
+  rental: {
+    bookingId: string;
+    car: string;
+    pickupLocation: string;
+    dropoffLocation: string;
+    startDate: string;
+    endDate: string;
+    days: number;
+  };
+  lines: { description: string; amount: number }[];
+  // Sum of the lines, before tax. Absent on invoices issued before taxes were itemized,
+  // whose taxLines were already included in the total.
+  subtotal?: number;
+  // ratePercent is null for fixed-amount taxes
+  taxLines: { name: string; ratePercent: number | null; amount: number }[];
+  total: number;
+}
+
+// Location with its weekly hours and closure dates
+export interface LocationWithSchedule extends Location {
+  openingHours?: LocationOpeningHours[];
+  closures?: LocationClosure[];
+}
+
+// Addon with the units kept at each location
+export interface AddonWithStock extends Addon {
+  stock?: AddonStock[];
+}
+
+// User with the staff role that grants their permissions and the branches they work at
+export interface UserWithStaffAccess extends User {
+  staffRole?: StaffRole | null;
+  staffLocations?: StaffLocation[];
 }
 
 // Car with availability flag
@@ -40,5 +147,5 @@ export interface CarWithAvailability extends Car {
   isAvailable?: boolean;
 }
 
-// User without password
-export type UserWithoutPassword = Omit<User, 'passwordHash'>;
+// User without password or TOTP secret, safe to return from the API
+export type UserWithoutPassword = Omit<User, 'passwordHash' | 'totpSecret'>;
@@ -0,0 +1,8 @@
+import { AppError } from './AppError.js';
+
+export class PaymentRequiredError extends AppError {
+  constructor(message: string, code: string = 'PAYMENT_REQUIRED', details?: Record<string, unknown>) {
+    super(message, 402, code, true, details);
+    Object.setPrototypeOf(this, PaymentRequiredError.prototype);
+  }
+}
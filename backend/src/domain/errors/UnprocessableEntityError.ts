@@ -0,0 +1,8 @@
+import { AppError } from './AppError.js';
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string, code: string = 'UNPROCESSABLE_ENTITY', details?: Record<string, unknown>) {
+    super(message, 422, code, true, details);
+    Object.setPrototypeOf(this, UnprocessableEntityError.prototype);
+  }
+}
@@ -5,3 +5,5 @@ export type { ValidationFieldError } from './ValidationError.js';
 export { UnauthorizedError } from './UnauthorizedError.js';
 export { ForbiddenError } from './ForbiddenError.js';
 export { ConflictError } from './ConflictError.js';
+export { UnprocessableEntityError } from './UnprocessableEntityError.js';
+export { PaymentRequiredError } from './PaymentRequiredError.js';
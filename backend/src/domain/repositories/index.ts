@@ -3,12 +3,41 @@ import {
   Car,
   Location,
   Addon,
+  AddonWithStock,
   Booking,
   BookingWithRelations,
+  AuditLog,
   CarWithAvailability,
+  PricingRule,
+  IdempotencyKey,
+  RefreshToken,
+  UserToken,
+  CarBlackout,
+  LocationFee,
+  LocationWithSchedule,
+  StaffRole,
+  UserWithStaffAccess,
   UserRole,
+  CarType,
   CarStatus,
   BookingStatus,
+  PricingRuleType,
+  AddonPricingMode,
+  UserTokenType,
+  DriverVerificationStatus,
+  Payment,
+  Refund,
+  PaymentStatus,
+  CarTypeDeposit,
+  Deposit,
+  DepositStatus,
+  Invoice,
+  InvoiceContents,
+  ChargeRule,
+  ChargeKind,
+  ChargeCalculation,
+  PromoCode,
+  DiscountType,
 } from '../entities/index.js';
 
 // Pagination Types
@@ -32,6 +61,7 @@ export interface PaginatedResult<T> {
 // User Repository
 export interface IUserRepository {
   findById(id: string): Promise<User | null>;
+  findByIdWithStaffAccess(id: string): Promise<UserWithStaffAccess | null>;
   findByEmail(email: string): Promise<User | null>;
   create(data: {
     email: string;
@@ -40,6 +70,16 @@ export interface IUserRepository {
     role?: UserRole;
   }): Promise<User>;
   update(id: string, data: Partial<User>): Promise<User>;
+  // Atomically counts a failed login and returns the new number of consecutive failures
+  recordFailedLogin(id: string): Promise<number>;
+  // Records the time step of an accepted TOTP code; returns false if that step or a later one was already used
+  claimTotpStep(id: string, step: number): Promise<boolean>;
+  // Overwrites personal data and removes credentials, sessions and branch assignments in one transaction
+  anonymize(id: string, data: Partial<User>): Promise<User>;
+  // Replaces the branches a staff member is assigned to
+  setStaffLocations(id: string, locationIds: string[]): Promise<void>;
+  // Active accounts in a driver verification state, oldest license submission first
+  findByDriverVerificationStatus(status: DriverVerificationStatus): Promise<User[]>;
 }
 
 // Car Repository
@@ -53,6 +93,8 @@ export interface CarFilters {
   status?: CarStatus;
   startDate?: Date;
   endDate?: Date;
+  // Only cars that will be parked at this location when the rental starts
+  pickupLocationId?: string;
 }
 
 export interface CarSortOptions {
@@ -72,21 +114,262 @@ export interface ICarRepository {
   updateStatus(id: string, status: CarStatus): Promise<Car>;
   checkAvailability(carId: string, startDate: Date, endDate: Date, excludeBookingId?: string): Promise<boolean>;
   hasActiveBookings(carId: string): Promise<boolean>;
+  findLocationAt(carId: string, at: Date, excludeBookingId?: string): Promise<string | null>;
+  findNextPickupLocation(carId: string, after: Date, excludeBookingId?: string): Promise<string | null>;
+}
+
+// Car Blackout Repository
+export interface CarBlackoutData {
+  carId: string;
+  reason: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface ICarBlackoutRepository {
+  findByCarId(carId: string): Promise<CarBlackout[]>;
+  findById(id: string): Promise<CarBlackout | null>;
+  findOverlapping(carId: string, startDate: Date, endDate: Date): Promise<CarBlackout[]>;
+  create(data: CarBlackoutData): Promise<CarBlackout>;
+  delete(id: string): Promise<void>;
 }
 
 // Location Repository
+export interface OpeningHoursData {
+  dayOfWeek: number;
+  opensAt: string;
+  closesAt: string;
+}
+
+export interface LocationClosureData {
+  date: Date;
+  reason?: string | null;
+}
+
+export interface LocationData {
+  name: string;
+  address?: string | null;
+  // Replace the location's weekly hours / closure dates when given
+  openingHours?: OpeningHoursData[];
+  closures?: LocationClosureData[];
+}
+
 export interface ILocationRepository {
-  findAll(activeOnly?: boolean): Promise<Location[]>;
-  findById(id: string): Promise<Location | null>;
-  create(data: { name: string; address?: string }): Promise<Location>;
+  findAll(activeOnly?: boolean): Promise<LocationWithSchedule[]>;
+  findById(id: string): Promise<LocationWithSchedule | null>;
+  findByName(name: string): Promise<Location | null>;
+  create(data: LocationData): Promise<LocationWithSchedule>;
+  update(id: string, data: Partial<LocationData> & { isActive?: boolean }): Promise<LocationWithSchedule>;
+}
+
+// Refresh Token Repository
+export interface IRefreshTokenRepository {
+  create(data: { userId: string; familyId: string; tokenHash: string; expiresAt: Date }): Promise<RefreshToken>;
+  findByHash(tokenHash: string): Promise<RefreshToken | null>;
+  // Revokes the token only if it is still active; returns false if it was already used or revoked
+  revoke(id: string): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<void>;
+  // Signs the user out everywhere, e.g. after a password reset
+  revokeAllForUser(userId: string): Promise<void>;
+}
+
+// User Token Repository
+export interface IUserTokenRepository {
+  create(data: { userId: string; type: UserTokenType; tokenHash: string; expiresAt: Date }): Promise<UserToken>;
+  // Marks an unused, unexpired token of the given type as used; returns null if there is none
+  consume(tokenHash: string, type: UserTokenType): Promise<UserToken | null>;
+  // Invalidates the user's outstanding tokens of a type, so only the latest email works
+  invalidateAll(userId: string, type: UserTokenType): Promise<void>;
+}
+
+// Recovery Code Repository
+export interface IRecoveryCodeRepository {
+  // Replaces all of the user's recovery codes, so earlier ones stop working
+  replaceAll(userId: string, codeHashes: string[]): Promise<void>;
+  // Marks an unused code as used; returns false if there is none
+  consume(userId: string, codeHash: string): Promise<boolean>;
+}
+
+// Staff Role Repository
+export interface StaffRoleData {
+  name: string;
+  description?: string | null;
+  permissions: string[];
+}
+
+export interface StaffRoleWithUserCount extends StaffRole {
+  userCount: number;
+}
+
+export interface IStaffRoleRepository {
+  findAll(): Promise<StaffRoleWithUserCount[]>;
+  findById(id: string): Promise<StaffRole | null>;
+  findByName(name: string): Promise<StaffRole | null>;
+  create(data: StaffRoleData): Promise<StaffRole>;
+  update(id: string, data: Partial<StaffRoleData>): Promise<StaffRole>;
+  delete(id: string): Promise<void>;
+  countUsers(id: string): Promise<number>;
 }
 
 // Addon Repository
+export interface AddonStockData {
+  locationId: string;
+  quantity: number;
+}
+
+export interface AddonData {
+  name: string;
+  description?: string | null;
+  price: number;
+  pricingMode?: AddonPricingMode;
+  // Replaces the addon's per-location stock when given
+  stock?: AddonStockData[];
+}
+
 export interface IAddonRepository {
-  findAll(activeOnly?: boolean): Promise<Addon[]>;
-  findById(id: string): Promise<Addon | null>;
+  findAll(activeOnly?: boolean): Promise<AddonWithStock[]>;
+  findById(id: string): Promise<AddonWithStock | null>;
+  findByName(name: string): Promise<Addon | null>;
   findByIds(ids: string[]): Promise<Addon[]>;
-  create(data: { name: string; description?: string; pricePerBooking: number }): Promise<Addon>;
+  create(data: AddonData): Promise<AddonWithStock>;
+  update(id: string, data: Partial<AddonData> & { isActive?: boolean }): Promise<AddonWithStock>;
+  // Addons with every unit stocked at the location already booked for an overlapping period
+  findOutOfStock(
+    addonIds: string[],
+    locationId: string,
+    startDate: Date,
+    endDate: Date,
+    excludeBookingId?: string
+  ): Promise<Addon[]>;
+}
+
+// Pricing Rule Repository
+export interface PricingRuleData {
+  name: string;
+  type: PricingRuleType;
+  multiplier: number;
+  carId?: string | null;
+  carType?: CarType | null;
+  daysOfWeek?: number[];
+  startDate?: Date | null;
+  endDate?: Date | null;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export interface PricingRuleFilters {
+  carId?: string;
+  carType?: CarType;
+  type?: PricingRuleType;
+  isActive?: boolean;
+}
+
+export interface IPricingRuleRepository {
+  findAll(filters: PricingRuleFilters): Promise<PricingRule[]>;
+  findById(id: string): Promise<PricingRule | null>;
+  findApplicable(carId: string, carType: CarType, startDate: Date, endDate: Date): Promise<PricingRule[]>;
+  create(data: PricingRuleData): Promise<PricingRule>;
+  update(id: string, data: Partial<PricingRuleData>): Promise<PricingRule>;
+  delete(id: string): Promise<void>;
+}
+
+// Location Fee Repository
+export interface LocationFeeData {
+  pickupLocationId: string;
+  dropoffLocationId: string;
+  fee: number;
+}
+
+export interface LocationFeeFilters {
+  pickupLocationId?: string;
+  dropoffLocationId?: string;
+}
+
+export interface ILocationFeeRepository {
+  findAll(filters: LocationFeeFilters): Promise<LocationFee[]>;
+  findById(id: string): Promise<LocationFee | null>;
+  findByPair(pickupLocationId: string, dropoffLocationId: string): Promise<LocationFee | null>;
+  create(data: LocationFeeData): Promise<LocationFee>;
+  update(id: string, fee: number): Promise<LocationFee>;
+  delete(id: string): Promise<void>;
+}
+
+// Charge Rule Repository
+export interface ChargeRuleData {
+  name: string;
+  kind: ChargeKind;
+  calculation: ChargeCalculation;
+  rate: number;
+  locationId?: string | null;
+  addonId?: string | null;
+  isActive?: boolean;
+}
+
+export interface ChargeRuleFilters {
+  kind?: ChargeKind;
+  locationId?: string;
+  addonId?: string;
+  isActive?: boolean;
+}
+
+export interface IChargeRuleRepository {
+  findAll(filters: ChargeRuleFilters): Promise<ChargeRule[]>;
+  findById(id: string): Promise<ChargeRule | null>;
+  // Active rules that are fleet-wide, for the pickup location or for one of the add-ons
+  findApplicable(pickupLocationId: string, addonIds: string[]): Promise<ChargeRule[]>;
+  create(data: ChargeRuleData): Promise<ChargeRule>;
+  update(id: string, data: Partial<ChargeRuleData>): Promise<ChargeRule>;
+  delete(id: string): Promise<void>;
+}
+
+// Promo Code Repository
+export interface PromoCodeData {
+  code: string;
+  description?: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerUser?: number | null;
+  minDays?: number | null;
+  carTypes?: CarType[];
+  carIds?: string[];
+  isActive?: boolean;
+}
+
+export interface PromoCodeFilters {
+  isActive?: boolean;
+}
+
+// Redemptions are bookings made with the code that were not cancelled
+export interface PromoRedemptionCount {
+  userId?: string;
+  excludeBookingId?: string;
+}
+
+export interface PromoCodeRedemptionSummary {
+  promoCodeId: string;
+  code: string;
+  discountType: DiscountType;
+  discountValue: number;
+  isActive: boolean;
+  maxRedemptions: number | null;
+  redemptions: number;
+  customers: number;
+  discountTotal: number;
+  revenue: number;
+}
+
+export interface IPromoCodeRepository {
+  findAll(filters: PromoCodeFilters): Promise<PromoCode[]>;
+  findById(id: string): Promise<PromoCode | null>;
+  findByCode(code: string): Promise<PromoCode | null>;
+  create(data: PromoCodeData): Promise<PromoCode>;
+  update(id: string, data: Partial<PromoCodeData>): Promise<PromoCode>;
+  countRedemptions(promoCodeId: string, options?: PromoRedemptionCount): Promise<number>;
+  // One row per code, including codes never redeemed; from/to bound when the bookings were made
+  getRedemptionReport(from?: Date, to?: Date): Promise<PromoCodeRedemptionSummary[]>;
 }
 
 // Booking Repository
@@ -96,6 +379,8 @@ export interface BookingFilters {
   status?: BookingStatus;
   startDateFrom?: Date;
   startDateTo?: Date;
+  // Branch scope: only bookings picked up or dropped off at one of these locations
+  locationIds?: string[] | null;
 }
 
 export interface BookingSortOptions {
@@ -113,11 +398,36 @@ export interface CreateBookingData {
   days: number;
   basePrice: number;
   addonPrice: number;
+  dropFee: number;
+  discountAmount: number;
+  feeAmount: number;
+  taxAmount: number;
   totalPrice: number;
+  // Redemption limits are rechecked while the booking is written
+  promoCodeId: string | null;
   addonIds: string[];
   addonPrices: Map<string, number>;
+  charges: BookingChargeData[];
+  holdExpiresAt: Date;
+}
+
+// Tax or fee line as it is snapshotted onto the booking
+export interface BookingChargeData {
+  ruleId: string;
+  kind: ChargeKind;
+  name: string;
+  ratePercent: number | null;
+  amount: number;
+}
+
+export interface CancelBookingData {
+  cancelReason: string;
+  cancellationFee: number;
+  refundAmount: number;
 }
 
+export type UpdateBookingData = Omit<CreateBookingData, 'userId' | 'holdExpiresAt'>;
+
 export interface IBookingRepository {
   findById(id: string, includeRelations?: boolean): Promise<BookingWithRelations | null>;
   findByUserId(
@@ -131,9 +441,20 @@ export interface IBookingRepository {
     pagination: PaginationParams,
     sort?: BookingSortOptions
   ): Promise<PaginatedResult<BookingWithRelations>>;
+  // Every booking of the user with car, locations and add-ons, oldest first, e.g. for a data export
+  findAllByUserId(userId: string): Promise<BookingWithRelations[]>;
   create(data: CreateBookingData): Promise<BookingWithRelations>;
+  // Throws a ConflictError if the booking has been invoiced in the meantime
+  update(id: string, data: UpdateBookingData): Promise<BookingWithRelations>;
   updateStatus(id: string, status: BookingStatus, cancelReason?: string): Promise<Booking>;
+  cancel(id: string, data: CancelBookingData): Promise<Booking>;
   checkOverlap(carId: string, startDate: Date, endDate: Date, excludeBookingId?: string): Promise<boolean>;
+  findConflicting(carId: string, startDate: Date, endDate: Date, excludeBookingId?: string): Promise<Booking[]>;
+  findExpiredHolds(now: Date): Promise<Booking[]>;
+  // Cancels the booking only if it is still PENDING; returns false if it moved on meanwhile
+  expireHold(id: string, reason: string): Promise<boolean>;
+  // Confirms the booking only if it is still PENDING; returns false if it moved on meanwhile
+  confirmPending(id: string): Promise<boolean>;
 }
 
 // Audit Log Repository
@@ -146,4 +467,95 @@ export interface IAuditLogRepository {
     beforeJson?: object;
     afterJson?: object;
   }): Promise<void>;
+  // Entries the user made, about their account, or about any of the given bookings
+  findForUser(userId: string, bookingIds: string[]): Promise<AuditLog[]>;
+}
+
+// Idempotency Key Repository
+export interface CreateIdempotencyKeyData {
+  key: string;
+  userId: string;
+  requestHash: string;
+  expiresAt: Date;
+}
+
+export interface IIdempotencyKeyRepository {
+  findByKey(userId: string, key: string): Promise<IdempotencyKey | null>;
+  // Returns null when another request already claimed the key
+  create(data: CreateIdempotencyKeyData): Promise<IdempotencyKey | null>;
+  saveResponse(id: string, statusCode: number, responseBody: unknown): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Returns the number of keys removed
+  deleteExpired(now: Date): Promise<number>;
+}
+
+// Payment Repository
+export interface CreatePaymentData {
+  bookingId: string;
+  amount: number;
+  gateway: string;
+}
+
+export interface CreateRefundData {
+  bookingId: string;
+  paymentId: string;
+  amount: number;
+  gateway: string;
+  reason: string;
+}
+
+// What the gateway answered for a charge or refund
+export interface GatewayOutcome {
+  status: PaymentStatus;
+  gatewayReference: string;
+  failureReason?: string;
+  settledAt?: Date;
+}
+
+export interface IPaymentRepository {
+  /**
+   * Records a PENDING payment. Locks the booking and throws a ConflictError if the
+   * payment would take more than the booking's outstanding balance.
+   */
+  create(data: CreatePaymentData): Promise<Payment>;
+  findByBookingId(bookingId: string): Promise<Payment[]>;
+  // Payments the gateway answered PENDING, oldest first
+  findPending(): Promise<Payment[]>;
+  // Only changes a payment that is still PENDING; returns null if it was settled meanwhile
+  recordOutcome(id: string, outcome: GatewayOutcome): Promise<Payment | null>;
+  createRefund(data: CreateRefundData): Promise<Refund>;
+  findRefundsByBookingId(bookingId: string): Promise<Refund[]>;
+  findPendingRefunds(): Promise<Refund[]>;
+  recordRefundOutcome(id: string, outcome: GatewayOutcome): Promise<Refund | null>;
+}
+
+// Deposit Repository
+export interface DepositOutcome {
+  status: DepositStatus;
+  gatewayReference?: string;
+  failureReason?: string | null;
+  capturedAmount?: number;
+  captureReason?: string;
+  heldAt?: Date;
+  settledAt?: Date;
+}
+
+export interface IDepositRepository {
+  findAllCarTypeDeposits(): Promise<CarTypeDeposit[]>;
+  findCarTypeDeposit(carType: CarType): Promise<CarTypeDeposit | null>;
+  upsertCarTypeDeposit(carType: CarType, amount: number): Promise<CarTypeDeposit>;
+  findByBookingId(bookingId: string): Promise<Deposit | null>;
+  // Starts a PENDING hold for the booking, replacing an earlier attempt that failed
+  start(bookingId: string, amount: number, gateway: string): Promise<Deposit>;
+  recordOutcome(id: string, outcome: DepositOutcome): Promise<Deposit>;
+}
+
+// Invoice Repository
+export interface IInvoiceRepository {
+  findByBookingId(bookingId: string): Promise<Invoice | null>;
+  /**
+   * Returns the booking's invoice, issuing it first if there is none. The next
+   * number is taken in the same transaction, so a failed issue leaves no gap.
+   */
+  issue(bookingId: string, issuedAt: Date, build: (number: number) => InvoiceContents): Promise<Invoice>;
 }
@@ -1,3 +1,13 @@
 export { generateToken, verifyToken, decodeToken } from './jwt.js';
 export type { JwtPayload, TokenPair } from './jwt.js';
 export { hashPassword, comparePassword } from './password.js';
+export { signQuoteToken, verifyQuoteToken } from './quoteToken.js';
+export type { SignedQuote } from './quoteToken.js';
+export { generateRefreshToken, hashRefreshToken } from './refreshToken.js';
+export type { GeneratedRefreshToken } from './refreshToken.js';
+export { generateOpaqueToken, hashOpaqueToken } from './opaqueToken.js';
+export type { GeneratedToken } from './opaqueToken.js';
+export { generateTotpSecret, buildOtpauthUri, verifyTotpCode, generateTotpCode, timeStepAt } from './totp.js';
+export { generateRecoveryCodes, hashRecoveryCode } from './recoveryCode.js';
+export { signTwoFactorChallenge, verifyTwoFactorChallenge } from './twoFactorChallenge.js';
+export type { TwoFactorChallenge, TwoFactorChallengeType } from './twoFactorChallenge.js';
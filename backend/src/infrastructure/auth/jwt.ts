@@ -17,7 +17,8 @@ const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 
 export function generateToken(payload: JwtPayload): TokenPair {
   const accessToken = jwt.sign(payload, JWT_SECRET, {
-    expiresIn: JWT_EXPIRES_IN,
+    // Durations like '15m' are validated by jsonwebtoken at runtime
+    expiresIn: JWT_EXPIRES_IN as jwt.SignOptions['expiresIn'],
   });
 
   return {
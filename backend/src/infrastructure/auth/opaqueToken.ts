@@ -0,0 +1,23 @@
+import { createHash, randomBytes } from 'crypto';
+
+export interface GeneratedToken {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+// Only the hash is stored, so a database leak does not expose usable tokens
+export function hashOpaqueToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Opaque random strings rather than JWTs: they are only ever checked against the database
+export function generateOpaqueToken(ttlMs: number): GeneratedToken {
+  const token = randomBytes(48).toString('base64url');
+
+  return {
+    token,
+    tokenHash: hashOpaqueToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  };
+}
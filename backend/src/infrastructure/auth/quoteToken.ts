@@ -0,0 +1,26 @@
+import jwt from 'jsonwebtoken';
+
+export interface SignedQuote {
+  quoteToken: string;
+  expiresAt: Date;
+}
+
+// Quote tokens use their own secret so they can never pass as access tokens
+const QUOTE_TOKEN_SECRET =
+  process.env.QUOTE_TOKEN_SECRET || `${process.env.JWT_SECRET || 'dev-secret-key-change-in-production'}:quote`;
+const QUOTE_TOKEN_TTL_SECONDS = parseInt(process.env.QUOTE_TOKEN_TTL_SECONDS || '900', 10);
+
+export function signQuoteToken(payload: object): SignedQuote {
+  const quoteToken = jwt.sign(payload, QUOTE_TOKEN_SECRET, {
+    expiresIn: QUOTE_TOKEN_TTL_SECONDS,
+  });
+
+  return {
+    quoteToken,
+    expiresAt: new Date(Date.now() + QUOTE_TOKEN_TTL_SECONDS * 1000),
+  };
+}
+
+export function verifyQuoteToken<T extends object>(quoteToken: string): T {
+  return jwt.verify(quoteToken, QUOTE_TOKEN_SECRET) as T;
+}
@@ -0,0 +1,17 @@
+import { randomBytes } from 'crypto';
+import { hashOpaqueToken } from './opaqueToken.js';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Codes are shown once as "xxxxx-xxxxx"; only their hashes are stored
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// Ignores case, spaces and dashes so codes typed by hand still match
+export function hashRecoveryCode(code: string): string {
+  return hashOpaqueToken(code.toLowerCase().replace(/[\s-]/g, ''));
+}
@@ -0,0 +1,19 @@
+import { generateOpaqueToken, hashOpaqueToken } from './opaqueToken.js';
+
+export interface GeneratedRefreshToken {
+  refreshToken: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '7', 10);
+
+export function hashRefreshToken(refreshToken: string): string {
+  return hashOpaqueToken(refreshToken);
+}
+
+export function generateRefreshToken(): GeneratedRefreshToken {
+  const { token, tokenHash, expiresAt } = generateOpaqueToken(REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  return { refreshToken: token, tokenHash, expiresAt };
+}
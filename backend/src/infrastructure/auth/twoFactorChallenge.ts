@@ -0,0 +1,42 @@
+import jwt from 'jsonwebtoken';
+
+// VERIFY asks for a code from an enrolled authenticator; ENROLL requires setting one up first
+export type TwoFactorChallengeType = 'VERIFY' | 'ENROLL';
+
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  type: TwoFactorChallengeType;
+  expiresAt: Date;
+}
+
+interface ChallengePayload {
+  sub: string;
+  type: TwoFactorChallengeType;
+}
+
+// Challenge tokens use their own secret so they can never pass as access tokens
+const CHALLENGE_TOKEN_SECRET =
+  process.env.TWO_FACTOR_CHALLENGE_SECRET || `${process.env.JWT_SECRET || 'dev-secret-key-change-in-production'}:2fa`;
+const CHALLENGE_TOKEN_TTL_SECONDS = parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS || '300', 10);
+
+export function signTwoFactorChallenge(userId: string, type: TwoFactorChallengeType): TwoFactorChallenge {
+  const challengeToken = jwt.sign({ type }, CHALLENGE_TOKEN_SECRET, {
+    subject: userId,
+    expiresIn: CHALLENGE_TOKEN_TTL_SECONDS,
+  });
+
+  return {
+    challengeToken,
+    type,
+    expiresAt: new Date(Date.now() + CHALLENGE_TOKEN_TTL_SECONDS * 1000),
+  };
+}
+
+// Returns the user the challenge was issued to; throws if it is invalid, expired or of another type
+export function verifyTwoFactorChallenge(challengeToken: string, type: TwoFactorChallengeType): string {
+  const payload = jwt.verify(challengeToken, CHALLENGE_TOKEN_SECRET) as ChallengePayload;
+  if (payload.type !== type) {
+    throw new Error('Unexpected challenge type');
+  }
+  return payload.sub;
+}
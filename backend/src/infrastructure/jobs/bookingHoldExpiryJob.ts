@@ -0,0 +1,29 @@
+import { ExpirePendingBookingsUseCase } from '../../application/use-cases/booking/index.js';
+import { BookingRepository } from '../repositories/BookingRepository.js';
+import { AuditLogRepository } from '../repositories/AuditLogRepository.js';
+import { PaymentRepository } from '../repositories/PaymentRepository.js';
+import { PaymentService } from '../../application/services/PaymentService.js';
+import { getPaymentGateway } from '../payments/index.js';
+import { startIntervalJob } from './intervalJob.js';
+import logger from '../logger/index.js';
+
+const BOOKING_HOLD_SWEEP_INTERVAL_SECONDS = parseInt(process.env.BOOKING_HOLD_SWEEP_INTERVAL_SECONDS || '60', 10);
+
+const bookingRepository = new BookingRepository();
+const auditLogRepository = new AuditLogRepository();
+const expirePendingBookingsUseCase = new ExpirePendingBookingsUseCase(
+  bookingRepository,
+  auditLogRepository,
+  new PaymentService(new PaymentRepository(), bookingRepository, auditLogRepository, getPaymentGateway())
+);
+
+async function sweep(): Promise<void> {
+  const cancelled = await expirePendingBookingsUseCase.execute();
+  if (cancelled > 0) {
+    logger.info('Cancelled expired pending bookings', { count: cancelled });
+  }
+}
+
+export function startBookingHoldExpiryJob(): () => void {
+  return startIntervalJob('Booking hold expiry', BOOKING_HOLD_SWEEP_INTERVAL_SECONDS, sweep);
+}
@@ -0,0 +1,18 @@
+import { IdempotencyKeyRepository } from '../repositories/IdempotencyKeyRepository.js';
+import { startIntervalJob } from './intervalJob.js';
+import logger from '../logger/index.js';
+
+const IDEMPOTENCY_KEY_SWEEP_INTERVAL_SECONDS = parseInt(process.env.IDEMPOTENCY_KEY_SWEEP_INTERVAL_SECONDS || '3600', 10);
+
+const idempotencyKeyRepository = new IdempotencyKeyRepository();
+
+async function sweep(): Promise<void> {
+  const deleted = await idempotencyKeyRepository.deleteExpired(new Date());
+  if (deleted > 0) {
+    logger.info('Deleted expired idempotency keys', { count: deleted });
+  }
+}
+
+export function startIdempotencyKeyCleanupJob(): () => void {
+  return startIntervalJob('Idempotency key cleanup', IDEMPOTENCY_KEY_SWEEP_INTERVAL_SECONDS, sweep);
+}
@@ -0,0 +1,3 @@
+export { startBookingHoldExpiryJob } from './bookingHoldExpiryJob.js';
+export { startPaymentSettlementJob } from './paymentSettlementJob.js';
+export { startIdempotencyKeyCleanupJob } from './idempotencyKeyCleanupJob.js';
@@ -0,0 +1,31 @@
+import logger from '../logger/index.js';
+
+/**
+ * Runs sweep now and then every intervalSeconds, skipping a tick while the
+ * previous run is still going. Failures are logged and retried on the next tick.
+ * Returns a function that stops the job.
+ */
+export function startIntervalJob(name: string, intervalSeconds: number, sweep: () => Promise<void>): () => void {
+  let running = false;
+
+  const tick = async (): Promise<void> => {
+    if (running) return;
+    running = true;
+
+    try {
+      await sweep();
+    } catch (error) {
+      logger.error(`${name} sweep failed`, { error: (error as Error).message });
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalSeconds * 1000);
+  timer.unref();
+  void tick();
+
+  logger.info(`${name} job started`, { intervalSeconds });
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,29 @@
+import { SettlePendingPaymentsUseCase } from '../../application/use-cases/payment/index.js';
+import { PaymentService } from '../../application/services/PaymentService.js';
+import { BookingRepository } from '../repositories/BookingRepository.js';
+import { AuditLogRepository } from '../repositories/AuditLogRepository.js';
+import { PaymentRepository } from '../repositories/PaymentRepository.js';
+import { getPaymentGateway } from '../payments/index.js';
+import { startIntervalJob } from './intervalJob.js';
+import logger from '../logger/index.js';
+
+const PAYMENT_SETTLEMENT_INTERVAL_SECONDS = parseInt(process.env.PAYMENT_SETTLEMENT_INTERVAL_SECONDS || '15', 10);
+
+const paymentRepository = new PaymentRepository();
+const gateway = getPaymentGateway();
+const settlePendingPaymentsUseCase = new SettlePendingPaymentsUseCase(
+  paymentRepository,
+  new PaymentService(paymentRepository, new BookingRepository(), new AuditLogRepository(), gateway),
+  gateway
+);
+
+async function sweep(): Promise<void> {
+  const settled = await settlePendingPaymentsUseCase.execute();
+  if (settled > 0) {
+    logger.info('Settled pending payments and refunds', { count: settled });
+  }
+}
+
+export function startPaymentSettlementJob(): () => void {
+  return startIntervalJob('Payment settlement', PAYMENT_SETTLEMENT_INTERVAL_SECONDS, sweep);
+}
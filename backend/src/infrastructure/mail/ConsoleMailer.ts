@@ -0,0 +1,11 @@
+import { Mailer, MailMessage } from './Mailer.js';
+import logger from '../logger/index.js';
+
+// Development mailer: prints each email to the application log
+export class ConsoleMailer implements Mailer {
+  constructor(private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject}\n${message.text}`, { from: this.from });
+  }
+}
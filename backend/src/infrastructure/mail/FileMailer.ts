@@ -0,0 +1,28 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { Mailer, MailMessage } from './Mailer.js';
+
+// Development mailer: appends each email to a local file so links can be copied out of it
+export class FileMailer implements Mailer {
+  constructor(
+    private from: string,
+    private filePath: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const entry = [
+      `Date: ${new Date().toISOString()}`,
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+      '',
+      '---',
+      '',
+    ].join('\n');
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, entry, 'utf8');
+  }
+}
@@ -0,0 +1,10 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Delivery backend for outgoing email; swap implementations through MAIL_DRIVER
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
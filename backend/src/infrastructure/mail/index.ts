@@ -0,0 +1,22 @@
+import { Mailer } from './Mailer.js';
+import { ConsoleMailer } from './ConsoleMailer.js';
+import { FileMailer } from './FileMailer.js';
+
+export type { Mailer, MailMessage } from './Mailer.js';
+export { ConsoleMailer } from './ConsoleMailer.js';
+export { FileMailer } from './FileMailer.js';
+
+const MAIL_DRIVER = process.env.MAIL_DRIVER || 'console';
+const MAIL_FROM = process.env.MAIL_FROM || 'Car Rental <no-reply@carrental.local>';
+const MAIL_FILE_PATH = process.env.MAIL_FILE_PATH || 'logs/mail.log';
+
+export function createMailer(): Mailer {
+  switch (MAIL_DRIVER) {
+    case 'file':
+      return new FileMailer(MAIL_FROM, MAIL_FILE_PATH);
+    case 'console':
+      return new ConsoleMailer(MAIL_FROM);
+    default:
+      throw new Error(`Unknown MAIL_DRIVER "${MAIL_DRIVER}", expected "console" or "file"`);
+  }
+}
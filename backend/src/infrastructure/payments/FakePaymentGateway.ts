@@ -0,0 +1,143 @@
+import { randomBytes } from 'crypto';
+import {
+  CaptureRequest,
+  ChargeRequest,
+  GatewayResult,
+  HoldRequest,
+  PaymentGateway,
+  RefundRequest,
+} from './PaymentGateway.js';
+
+// Payment methods that steer the outcome; any other value is charged successfully
+export const FAKE_PAYMENT_METHODS = {
+  SUCCESS: 'fake_success',
+  // Also declines holds
+  DECLINE: 'fake_decline',
+  // Answered PENDING, then succeed or fail once the settle delay has passed
+  ASYNC: 'fake_async',
+  ASYNC_DECLINE: 'fake_async_decline',
+} as const;
+
+interface FakeTransaction {
+  outcome: 'SUCCEEDED' | 'FAILED';
+  failureReason?: string;
+  settlesAt: number;
+  // Refunds of an asynchronous charge settle asynchronously too
+  async: boolean;
+}
+
+interface FakeHold {
+  amount: number;
+  open: boolean;
+}
+
+/**
+ * In-process gateway for development and tests. Transactions live in memory,
+ * so anything still pending when the process restarts is reported as failed.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  private transactions = new Map<string, FakeTransaction>();
+  private holds = new Map<string, FakeHold>();
+
+  constructor(
+    private settleDelayMs: number = 10_000,
+    private now: () => number = Date.now
+  ) {}
+
+  async charge(request: ChargeRequest): Promise<GatewayResult> {
+    const async =
+      request.paymentMethod === FAKE_PAYMENT_METHODS.ASYNC ||
+      request.paymentMethod === FAKE_PAYMENT_METHODS.ASYNC_DECLINE;
+    const declined =
+      request.paymentMethod === FAKE_PAYMENT_METHODS.DECLINE ||
+      request.paymentMethod === FAKE_PAYMENT_METHODS.ASYNC_DECLINE;
+
+    return this.record('fake_ch', {
+      outcome: declined ? 'FAILED' : 'SUCCEEDED',
+      failureReason: declined ? 'Card declined' : undefined,
+      settlesAt: this.now() + (async ? this.settleDelayMs : 0),
+      async,
+    });
+  }
+
+  async refund(request: RefundRequest): Promise<GatewayResult> {
+    // Charges from before a restart are unknown and treated as settled
+    const charge = this.transactions.get(request.paymentReference);
+    if (charge && this.statusOf(charge) !== 'SUCCEEDED') {
+      return this.record('fake_re', {
+        outcome: 'FAILED',
+        failureReason: 'Charge has not succeeded',
+        settlesAt: this.now(),
+        async: false,
+      });
+    }
+
+    const async = charge?.async ?? false;
+    return this.record('fake_re', {
+      outcome: 'SUCCEEDED',
+      settlesAt: this.now() + (async ? this.settleDelayMs : 0),
+      async,
+    });
+  }
+
+  async retrieve(reference: string): Promise<GatewayResult> {
+    const transaction = this.transactions.get(reference);
+    if (!transaction) {
+      return { status: 'FAILED', reference, failureReason: 'Unknown transaction' };
+    }
+    return this.resultOf(reference, transaction);
+  }
+
+  async hold(request: HoldRequest): Promise<GatewayResult> {
+    const reference = `fake_hd_${randomBytes(12).toString('hex')}`;
+    if (
+      request.paymentMethod === FAKE_PAYMENT_METHODS.DECLINE ||
+      request.paymentMethod === FAKE_PAYMENT_METHODS.ASYNC_DECLINE
+    ) {
+      return { status: 'FAILED', reference, failureReason: 'Card declined' };
+    }
+
+    this.holds.set(reference, { amount: request.amount, open: true });
+    return { status: 'SUCCEEDED', reference };
+  }
+
+  async capture(request: CaptureRequest): Promise<GatewayResult> {
+    const hold = this.holds.get(request.holdReference);
+    if (hold && request.amount > hold.amount) {
+      return { status: 'FAILED', reference: request.holdReference, failureReason: 'Amount exceeds the hold' };
+    }
+    return this.close(request.holdReference);
+  }
+
+  async release(holdReference: string): Promise<GatewayResult> {
+    return this.close(holdReference);
+  }
+
+  // Holds from before a restart are unknown and treated as still open
+  private close(reference: string): GatewayResult {
+    const hold = this.holds.get(reference);
+    if (hold && !hold.open) {
+      return { status: 'FAILED', reference, failureReason: 'Hold already settled' };
+    }
+    if (hold) hold.open = false;
+    return { status: 'SUCCEEDED', reference };
+  }
+
+  private record(prefix: string, transaction: FakeTransaction): GatewayResult {
+    const reference = `${prefix}_${randomBytes(12).toString('hex')}`;
+    this.transactions.set(reference, transaction);
+    return this.resultOf(reference, transaction);
+  }
+
+  private statusOf(transaction: FakeTransaction): GatewayResult['status'] {
+    return this.now() < transaction.settlesAt ? 'PENDING' : transaction.outcome;
+  }
+
+  private resultOf(reference: string, transaction: FakeTransaction): GatewayResult {
+    const status = this.statusOf(transaction);
+    return status === 'FAILED'
+      ? { status, reference, failureReason: transaction.failureReason }
+      : { status, reference };
+  }
+}
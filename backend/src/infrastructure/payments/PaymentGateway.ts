@@ -0,0 +1,56 @@
+export type GatewayStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface GatewayResult {
+  status: GatewayStatus;
+  // The gateway's id for the charge or refund
+  reference: string;
+  failureReason?: string;
+}
+
+export interface ChargeRequest {
+  // Our payment id, so the gateway can drop a duplicate submission
+  paymentId: string;
+  amount: number;
+  // Card token or other payment method handle collected by the client
+  paymentMethod: string;
+  description: string;
+}
+
+export interface RefundRequest {
+  refundId: string;
+  // Gateway reference of the charge being refunded
+  paymentReference: string;
+  amount: number;
+}
+
+export interface HoldRequest {
+  depositId: string;
+  amount: number;
+  // A payment method presented for the hold, or the charge whose card is held again
+  paymentMethod?: string;
+  paymentReference?: string;
+}
+
+export interface CaptureRequest {
+  // Gateway reference of the hold
+  holdReference: string;
+  // Taken from the hold; whatever is left is released
+  amount: number;
+}
+
+/**
+ * A payment provider. Charges and refunds either settle at once or are answered
+ * PENDING; holds, captures and releases are always answered at once.
+ */
+export interface PaymentGateway {
+  // Stored on each payment so later lookups go to the gateway that took it
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<GatewayResult>;
+  refund(request: RefundRequest): Promise<GatewayResult>;
+  // Current state of a charge or refund that was answered PENDING
+  retrieve(reference: string): Promise<GatewayResult>;
+  // Reserves money on the card without taking it
+  hold(request: HoldRequest): Promise<GatewayResult>;
+  capture(request: CaptureRequest): Promise<GatewayResult>;
+  release(holdReference: string): Promise<GatewayResult>;
+}
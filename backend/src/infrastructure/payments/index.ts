@@ -0,0 +1,33 @@
+import { PaymentGateway } from './PaymentGateway.js';
+import { FakePaymentGateway } from './FakePaymentGateway.js';
+
+export type {
+  PaymentGateway,
+  GatewayStatus,
+  GatewayResult,
+  ChargeRequest,
+  RefundRequest,
+  HoldRequest,
+  CaptureRequest,
+} from './PaymentGateway.js';
+export { FakePaymentGateway, FAKE_PAYMENT_METHODS } from './FakePaymentGateway.js';
+
+const PAYMENT_GATEWAY = process.env.PAYMENT_GATEWAY || 'fake';
+const FAKE_PAYMENT_SETTLE_SECONDS = parseInt(process.env.FAKE_PAYMENT_SETTLE_SECONDS || '10', 10);
+
+export function createPaymentGateway(): PaymentGateway {
+  switch (PAYMENT_GATEWAY) {
+    case 'fake':
+      return new FakePaymentGateway(FAKE_PAYMENT_SETTLE_SECONDS * 1000);
+    default:
+      throw new Error(`Unknown PAYMENT_GATEWAY "${PAYMENT_GATEWAY}", expected "fake"`);
+  }
+}
+
+let sharedGateway: PaymentGateway | null = null;
+
+// One instance per process: the API and the settlement job must see the same fake transactions
+export function getPaymentGateway(): PaymentGateway {
+  sharedGateway ??= createPaymentGateway();
+  return sharedGateway;
+}
@@ -0,0 +1,121 @@
+// A4 in PDF points (1/72 inch)
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  // Right-aligned text ends at x
+  align?: 'left' | 'right';
+}
+
+// Glyph widths of the standard Helvetica fonts for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// Used for the Latin-1 letters outside the table
+const DEFAULT_WIDTH = 556;
+
+// Standard fonts use WinAnsiEncoding, which matches Latin-1 for printable characters
+function toLatin1(value: string): string {
+  return value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escape(value: string): string {
+  return value.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Minimal PDF writer for text documents using the built-in Helvetica fonts.
+ * Nothing time- or environment-dependent is written, so the same calls always
+ * produce the same bytes.
+ */
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  static textWidth(value: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let units = 0;
+    for (const char of toLatin1(value)) {
+      const code = char.charCodeAt(0);
+      units += code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+    }
+    return (units * size) / 1000;
+  }
+
+  // y is measured from the bottom of the page, as in PDF
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const left = options.align === 'right' ? x - PdfDocument.textWidth(value, size, bold) : x;
+
+    this.current().push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(y)} Td (${escape(toLatin1(value))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.current().push(
+      `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    // Objects 1-4 are fixed; each page then takes a page object and its content stream
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'));
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
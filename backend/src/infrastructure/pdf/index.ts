@@ -0,0 +1,3 @@
+export { PdfDocument, PAGE_WIDTH, PAGE_HEIGHT } from './PdfDocument.js';
+export type { TextOptions } from './PdfDocument.js';
+export { renderInvoicePdf, formatRupiah } from './invoicePdf.js';
@@ -0,0 +1,104 @@
+import { InvoiceContents } from '../../domain/entities/index.js';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument } from './PdfDocument.js';
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const LINE_HEIGHT = 16;
+
+// Written out rather than through Intl so the output does not depend on the ICU build
+export function formatRupiah(amount: number): string {
+  const [whole, fraction] = Math.abs(amount).toFixed(2).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+  return `${amount < 0 ? '-' : ''}Rp ${grouped}${fraction === '00' ? '' : `,${fraction}`}`;
+}
+
+export function renderInvoicePdf(invoice: InvoiceContents): Buffer {
+  const pdf = new PdfDocument();
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const nextLine = (height = LINE_HEIGHT) => {
+    y -= height;
+    if (y < MARGIN) {
+      pdf.addPage();
+      y = PAGE_HEIGHT - MARGIN - height;
+    }
+  };
+
+  // Seller
+  pdf.text(MARGIN, y - 8, invoice.company.name, { size: 16, bold: true });
+  pdf.text(RIGHT, y - 8, 'INVOICE', { size: 16, bold: true, align: 'right' });
+  nextLine(28);
+  const companyLines = [
+    invoice.company.address,
+    invoice.company.taxId && `Tax ID: ${invoice.company.taxId}`,
+    [invoice.company.email, invoice.company.phone].filter(Boolean).join(' | '),
+  ].filter(Boolean);
+  const invoiceLines = [`Number: ${invoice.number}`, `Date: ${invoice.issuedAt.slice(0, 10)}`];
+  for (let i = 0; i < Math.max(companyLines.length, invoiceLines.length); i++) {
+    if (companyLines[i]) pdf.text(MARGIN, y, companyLines[i] as string, { size: 9 });
+    if (invoiceLines[i]) pdf.text(RIGHT, y, invoiceLines[i], { size: 9, align: 'right' });
+    nextLine(13);
+  }
+
+  // Customer and rental
+  nextLine();
+  pdf.text(MARGIN, y, 'Bill to', { bold: true });
+  pdf.text(PAGE_WIDTH / 2, y, 'Rental', { bold: true });
+  nextLine();
+  const billTo = [invoice.billTo.name, invoice.billTo.email];
+  const rental = [
+    invoice.rental.car,
+    `${invoice.rental.startDate} to ${invoice.rental.endDate} (${invoice.rental.days} days)`,
+    `Pickup: ${invoice.rental.pickupLocation}`,
+    `Return: ${invoice.rental.dropoffLocation}`,
+    `Booking ${invoice.rental.bookingId}`,
+  ];
+  for (let i = 0; i < rental.length; i++) {
+    if (billTo[i]) pdf.text(MARGIN, y, billTo[i], { size: 9 });
+    pdf.text(PAGE_WIDTH / 2, y, rental[i], { size: 9 });
+    nextLine(13);
+  }
+
+  // Lines
+  nextLine();
+  pdf.text(MARGIN, y, 'Description', { bold: true });
+  pdf.text(RIGHT, y, 'Amount', { bold: true, align: 'right' });
+  pdf.line(MARGIN, y - 5, RIGHT, y - 5);
+  nextLine(20);
+  for (const line of invoice.lines) {
+    pdf.text(MARGIN, y, line.description);
+    pdf.text(RIGHT, y, formatRupiah(line.amount), { align: 'right' });
+    nextLine();
+  }
+
+  pdf.line(MARGIN, y + 10, RIGHT, y + 10);
+  nextLine(4);
+  const taxLabel = (tax: InvoiceContents['taxLines'][number]) =>
+    tax.ratePercent === null ? tax.name : `${tax.name} ${tax.ratePercent}%`;
+
+  if (invoice.subtotal === undefined) {
+    // Issued before taxes were itemized: the tax was included in the total
+    pdf.text(RIGHT - 120, y, 'Total', { bold: true, align: 'right' });
+    pdf.text(RIGHT, y, formatRupiah(invoice.total), { bold: true, align: 'right' });
+    nextLine();
+    for (const tax of invoice.taxLines) {
+      pdf.text(RIGHT - 120, y, `Includes ${taxLabel(tax)}`, { size: 9, align: 'right' });
+      pdf.text(RIGHT, y, formatRupiah(tax.amount), { size: 9, align: 'right' });
+      nextLine();
+    }
+  } else {
+    pdf.text(RIGHT - 120, y, 'Subtotal', { align: 'right' });
+    pdf.text(RIGHT, y, formatRupiah(invoice.subtotal), { align: 'right' });
+    nextLine();
+    for (const tax of invoice.taxLines) {
+      pdf.text(RIGHT - 120, y, taxLabel(tax), { align: 'right' });
+      pdf.text(RIGHT, y, formatRupiah(tax.amount), { align: 'right' });
+      nextLine();
+    }
+    pdf.text(RIGHT - 120, y, 'Total', { bold: true, align: 'right' });
+    pdf.text(RIGHT, y, formatRupiah(invoice.total), { bold: true, align: 'right' });
+    nextLine();
+  }
+
+  return pdf.toBuffer();
+}
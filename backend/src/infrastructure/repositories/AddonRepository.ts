@@ -1,7 +1,54 @@
-import { PrismaClient, Addon } from '@prisma/client';
-import { IAddonRepository } from '../../domain/repositories/index.js';
+import { PrismaClient, Addon, Prisma } from '@prisma/client';
+import { IAddonRepository, AddonData } from '../../domain/repositories/index.js';
+import { AddonWithStock } from '../../domain/entities/index.js';
 import { prisma } from '../database/prisma.js';
 
+const stockInclude = {
+  stock: { orderBy: { locationId: 'asc' as const } },
+};
+
+/**
+ * Compares each addon's stock at the location with the units held by active
+ * bookings picked up there during an overlapping period. Addons without a
+ * stock row for the location are never out of stock.
+ */
+export async function findOutOfStockAddons(
+  db: PrismaClient | Prisma.TransactionClient,
+  addonIds: string[],
+  locationId: string,
+  startDate: Date,
+  endDate: Date,
+  excludeBookingId?: string
+): Promise<Addon[]> {
+  if (addonIds.length === 0) return [];
+
+  const stock = await db.addonStock.findMany({
+    where: { locationId, addonId: { in: addonIds } },
+    include: { addon: true },
+  });
+
+  const outOfStock: Addon[] = [];
+  for (const entry of stock) {
+    const booked = await db.bookingAddon.count({
+      where: {
+        addonId: entry.addonId,
+        booking: {
+          ...(excludeBookingId && { id: { not: excludeBookingId } }),
+          pickupLocationId: locationId,
+          status: { in: ['PENDING', 'CONFIRMED', 'PICKED_UP'] },
+          startDate: { lte: endDate },
+          endDate: { gte: startDate },
+        },
+      },
+    });
+    if (booked >= entry.quantity) {
+      outOfStock.push(entry.addon);
+    }
+  }
+
+  return outOfStock;
+}
+
 export class AddonRepository implements IAddonRepository {
   private db: PrismaClient;
 
@@ -9,16 +56,24 @@ export class AddonRepository implements IAddonRepository {
     this.db = db;
   }
 
-  async findAll(activeOnly: boolean = true): Promise<Addon[]> {
+  async findAll(activeOnly: boolean = true): Promise<AddonWithStock[]> {
     return this.db.addon.findMany({
       where: activeOnly ? { isActive: true } : undefined,
+      include: stockInclude,
       orderBy: { name: 'asc' },
     });
   }
 
-  async findById(id: string): Promise<Addon | null> {
+  async findById(id: string): Promise<AddonWithStock | null> {
     return this.db.addon.findUnique({
       where: { id },
+      include: stockInclude,
+    });
+  }
+
+  async findByName(name: string): Promise<Addon | null> {
+    return this.db.addon.findUnique({
+      where: { name },
     });
   }
 
@@ -31,18 +86,44 @@ export class AddonRepository implements IAddonRepository {
     });
   }
 
-  async create(data: {
-    name: string;
-    description?: string;
-    pricePerBooking: number;
-  }): Promise<Addon> {
+  async create(data: AddonData): Promise<AddonWithStock> {
     return this.db.addon.create({
       data: {
         name: data.name,
         description: data.description,
-        pricePerBooking: data.pricePerBooking,
+        price: data.price,
+        pricingMode: data.pricingMode,
         isActive: true,
+        stock: { create: data.stock || [] },
       },
+      include: stockInclude,
     });
   }
+
+  async update(id: string, data: Partial<AddonData> & { isActive?: boolean }): Promise<AddonWithStock> {
+    return this.db.addon.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.price !== undefined && { price: data.price }),
+        ...(data.pricingMode !== undefined && { pricingMode: data.pricingMode }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+        ...(data.stock && {
+          stock: { deleteMany: {}, create: data.stock },
+        }),
+      },
+      include: stockInclude,
+    });
+  }
+
+  async findOutOfStock(
+    addonIds: string[],
+    locationId: string,
+    startDate: Date,
+    endDate: Date,
+    excludeBookingId?: string
+  ): Promise<Addon[]> {
+    return findOutOfStockAddons(this.db, addonIds, locationId, startDate, endDate, excludeBookingId);
+  }
 }
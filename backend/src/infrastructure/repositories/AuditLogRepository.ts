@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { AuditLog, PrismaClient } from '@prisma/client';
 import { IAuditLogRepository } from '../../domain/repositories/index.js';
 import { prisma } from '../database/prisma.js';
 
@@ -28,4 +28,17 @@ export class AuditLogRepository implements IAuditLogRepository {
       },
     });
   }
+
+  async findForUser(userId: string, bookingIds: string[]): Promise<AuditLog[]> {
+    return this.db.auditLog.findMany({
+      where: {
+        OR: [
+          { actorId: userId },
+          { entityType: 'User', entityId: userId },
+          ...(bookingIds.length > 0 ? [{ entityType: 'Booking', entityId: { in: bookingIds } }] : []),
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
 }
@@ -6,11 +6,180 @@ import {
   PaginationParams,
   PaginatedResult,
   CreateBookingData,
+  UpdateBookingData,
+  CancelBookingData,
 } from '../../domain/repositories/index.js';
 import { BookingWithRelations } from '../../domain/entities/index.js';
+import { ConflictError } from '../../domain/errors/index.js';
 import { prisma } from '../database/prisma.js';
+import { findOutOfStockAddons } from './AddonRepository.js';
+import { countPromoRedemptions } from './PromoCodeRepository.js';
 import { buildPaginationMeta } from '../../shared/utils/pagination.js';
 
+// Active bookings of a car that overlap the given period
+function overlapWhere(
+  carId: string,
+  startDate: Date,
+  endDate: Date,
+  excludeBookingId?: string
+): Prisma.BookingWhereInput {
+  return {
+    carId,
+    ...(excludeBookingId && { id: { not: excludeBookingId } }),
+    status: {
+      in: ['PENDING', 'CONFIRMED', 'PICKED_UP'],
+    },
+    OR: [
+      // New booking starts during existing booking
+      {
+        AND: [
+          { startDate: { lte: startDate } },
+          { endDate: { gte: startDate } },
+        ],
+      },
+      // New booking ends during existing booking
+      {
+        AND: [
+          { startDate: { lte: endDate } },
+          { endDate: { gte: endDate } },
+        ],
+      },
+      // New booking completely contains existing booking
+      {
+        AND: [
+          { startDate: { gte: startDate } },
+          { endDate: { lte: endDate } },
+        ],
+      },
+    ],
+  };
+}
+
+const bookingInclude = {
+  user: { select: { id: true, name: true, email: true, phone: true } },
+  car: true,
+  pickupLocation: true,
+  dropoffLocation: true,
+  bookingAddons: {
+    include: {
+      addon: true,
+    },
+  },
+  charges: { orderBy: [{ kind: 'asc' }, { name: 'asc' }] },
+  promoCode: true,
+  payments: { orderBy: { createdAt: 'asc' } },
+  refunds: { orderBy: { createdAt: 'asc' } },
+  deposit: true,
+} satisfies Prisma.BookingInclude;
+
+/**
+ * Locks the car row and rechecks bookings and blackouts inside the caller's transaction.
+ * Concurrent bookings for the same car queue up on the lock.
+ */
+async function lockCarForPeriod(
+  tx: Prisma.TransactionClient,
+  carId: string,
+  startDate: Date,
+  endDate: Date,
+  excludeBookingId?: string
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM cars WHERE id = ${carId} FOR UPDATE`;
+
+  const overlapping = await tx.booking.count({
+    where: overlapWhere(carId, startDate, endDate, excludeBookingId),
+  });
+  const blackouts = await tx.carBlackout.count({
+    where: {
+      carId,
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    },
+  });
+  if (overlapping > 0 || blackouts > 0) {
+    throw new ConflictError('Car is not available for the selected dates', 'CAR_NOT_AVAILABLE');
+  }
+}
+
+// Out-of-stock addons fail the booking like an unavailable car
+function outOfStockError(addons: { id: string; name: string }[]): ConflictError {
+  return new ConflictError(
+    `Add-ons out of stock for the selected dates: ${addons.map((addon) => addon.name).join(', ')}`,
+    'ADDON_OUT_OF_STOCK',
+    { addonIds: addons.map((addon) => addon.id) }
+  );
+}
+
+/**
+ * Locks the addons' stock rows at the pickup location and rechecks the units
+ * still free, so concurrent bookings cannot take the last unit twice.
+ */
+async function lockAddonStock(
+  tx: Prisma.TransactionClient,
+  addonIds: string[],
+  locationId: string,
+  startDate: Date,
+  endDate: Date,
+  excludeBookingId?: string
+): Promise<void> {
+  if (addonIds.length === 0) return;
+
+  await tx.$queryRaw`
+    SELECT id FROM addon_stock
+    WHERE location_id = ${locationId} AND addon_id IN (${Prisma.join(addonIds)})
+    FOR UPDATE
+  `;
+
+  const outOfStock = await findOutOfStockAddons(tx, addonIds, locationId, startDate, endDate, excludeBookingId);
+  if (outOfStock.length > 0) {
+    throw outOfStockError(outOfStock);
+  }
+}
+
+/**
+ * Locks the promo code row and rechecks it is still redeemable, so concurrent
+ * bookings cannot redeem a code past its limits. Modified bookings keep the code
+ * they were made with and skip this.
+ */
+async function lockPromoCode(tx: Prisma.TransactionClient, promoCodeId: string, userId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM promo_codes WHERE id = ${promoCodeId} FOR UPDATE`;
+
+  const promoCode = await tx.promoCode.findUnique({ where: { id: promoCodeId } });
+  if (!promoCode || !promoCode.isActive || (promoCode.validUntil && promoCode.validUntil < new Date())) {
+    throw new ConflictError('Promo code is no longer available', 'PROMO_CODE_UNAVAILABLE');
+  }
+  if (promoCode.maxRedemptions !== null) {
+    const redemptions = await countPromoRedemptions(tx, promoCodeId);
+    if (redemptions >= promoCode.maxRedemptions) {
+      throw new ConflictError('Promo code has been fully redeemed', 'PROMO_CODE_EXHAUSTED');
+    }
+  }
+  if (promoCode.maxRedemptionsPerUser !== null) {
+    const redemptions = await countPromoRedemptions(tx, promoCodeId, { userId });
+    if (redemptions >= promoCode.maxRedemptionsPerUser) {
+      throw new ConflictError('You have already used this promo code', 'PROMO_CODE_ALREADY_USED');
+    }
+  }
+}
+
+// Serialization failure: another transaction booked the car first
+/**
+ * Rechecks the booking has no invoice. Issuing an invoice writes the booking row,
+ * so one issued after this read makes the serializable update fail instead.
+ */
+async function assertNotInvoiced(tx: Prisma.TransactionClient, id: string): Promise<void> {
+  const invoice = await tx.invoice.findUnique({ where: { bookingId: id } });
+  if (invoice) {
+    throw new ConflictError('Cannot modify a booking that has already been invoiced', 'BOOKING_INVOICED');
+  }
+}
+
+function toAvailabilityConflict(error: unknown): unknown {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+    return new ConflictError('Car is not available for the selected dates', 'CAR_NOT_AVAILABLE');
+  }
+  return error;
+}
+
 export class BookingRepository implements IBookingRepository {
   private db: PrismaClient;
 
@@ -21,19 +190,7 @@ export class BookingRepository implements IBookingRepository {
   async findById(id: string, includeRelations: boolean = true): Promise<BookingWithRelations | null> {
     return this.db.booking.findUnique({
       where: { id },
-      include: includeRelations
-        ? {
-            user: true,
-            car: true,
-            pickupLocation: true,
-            dropoffLocation: true,
-            bookingAddons: {
-              include: {
-                addon: true,
-              },
-            },
-          }
-        : undefined,
+      include: includeRelations ? bookingInclude : undefined,
     });
   }
 
@@ -46,6 +203,24 @@ export class BookingRepository implements IBookingRepository {
     return this.findAll({ ...filters, userId }, pagination, sort);
   }
 
+  async findAllByUserId(userId: string): Promise<BookingWithRelations[]> {
+    return this.db.booking.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        car: true,
+        pickupLocation: true,
+        dropoffLocation: true,
+        bookingAddons: { include: { addon: true } },
+        charges: { orderBy: [{ kind: 'asc' }, { name: 'asc' }] },
+        promoCode: true,
+        payments: { orderBy: { createdAt: 'asc' } },
+        refunds: { orderBy: { createdAt: 'asc' } },
+        deposit: true,
+      },
+    });
+  }
+
   async findAll(
     filters: BookingFilters,
     pagination: PaginationParams,
@@ -62,6 +237,12 @@ export class BookingRepository implements IBookingRepository {
           lte: filters.startDateTo,
         },
       }),
+      ...(filters.locationIds && {
+        OR: [
+          { pickupLocationId: { in: filters.locationIds } },
+          { dropoffLocationId: { in: filters.locationIds } },
+        ],
+      }),
     };
 
     const orderBy: Prisma.BookingOrderByWithRelationInput = sort
@@ -74,17 +255,7 @@ export class BookingRepository implements IBookingRepository {
         skip: pagination.skip,
         take: pagination.limit,
         orderBy,
-        include: {
-          user: true,
-          car: true,
-          pickupLocation: true,
-          dropoffLocation: true,
-          bookingAddons: {
-            include: {
-              addon: true,
-            },
-          },
-        },
+        include: bookingInclude,
       }),
       this.db.booking.count({ where }),
     ]);
@@ -97,39 +268,107 @@ export class BookingRepository implements IBookingRepository {
     };
   }
 
+  /**
+   * Creates the booking in a serializable transaction that locks the car row and
+   * rechecks availability, so concurrent requests cannot double-book a car or
+   * overbook an addon.
+   */
   async create(data: CreateBookingData): Promise<BookingWithRelations> {
-    return this.db.booking.create({
-      data: {
-        userId: data.userId,
-        carId: data.carId,
-        pickupLocationId: data.pickupLocationId,
-        dropoffLocationId: data.dropoffLocationId,
-        startDate: data.startDate,
-        endDate: data.endDate,
-        days: data.days,
-        basePrice: data.basePrice,
-        addonPrice: data.addonPrice,
-        totalPrice: data.totalPrice,
-        status: 'PENDING',
-        bookingAddons: {
-          create: data.addonIds.map((addonId) => ({
-            addonId,
-            price: data.addonPrices.get(addonId) || 0,
-          })),
+    try {
+      return await this.db.$transaction(
+        async (tx) => {
+          await lockCarForPeriod(tx, data.carId, data.startDate, data.endDate);
+          await lockAddonStock(tx, data.addonIds, data.pickupLocationId, data.startDate, data.endDate);
+          if (data.promoCodeId) {
+            await lockPromoCode(tx, data.promoCodeId, data.userId);
+          }
+
+          return tx.booking.create({
+            data: {
+              userId: data.userId,
+              carId: data.carId,
+              pickupLocationId: data.pickupLocationId,
+              dropoffLocationId: data.dropoffLocationId,
+              startDate: data.startDate,
+              endDate: data.endDate,
+              days: data.days,
+              basePrice: data.basePrice,
+              addonPrice: data.addonPrice,
+              dropFee: data.dropFee,
+              discountAmount: data.discountAmount,
+              feeAmount: data.feeAmount,
+              taxAmount: data.taxAmount,
+              totalPrice: data.totalPrice,
+              promoCodeId: data.promoCodeId,
+              status: 'PENDING',
+              holdExpiresAt: data.holdExpiresAt,
+              bookingAddons: {
+                create: data.addonIds.map((addonId) => ({
+                  addonId,
+                  price: data.addonPrices.get(addonId) || 0,
+                })),
+              },
+              charges: {
+                create: data.charges,
+              },
+            },
+            include: bookingInclude,
+          });
         },
-      },
-      include: {
-        user: true,
-        car: true,
-        pickupLocation: true,
-        dropoffLocation: true,
-        bookingAddons: {
-          include: {
-            addon: true,
-          },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+    } catch (error) {
+      throw toAvailabilityConflict(error);
+    }
+  }
+
+  // Same locking strategy as create, excluding the booking itself from the recheck; refuses invoiced bookings
+  async update(id: string, data: UpdateBookingData): Promise<BookingWithRelations> {
+    try {
+      return await this.db.$transaction(
+        async (tx) => {
+          await assertNotInvoiced(tx, id);
+          await lockCarForPeriod(tx, data.carId, data.startDate, data.endDate, id);
+          await lockAddonStock(tx, data.addonIds, data.pickupLocationId, data.startDate, data.endDate, id);
+
+          await tx.bookingAddon.deleteMany({ where: { bookingId: id } });
+          await tx.bookingCharge.deleteMany({ where: { bookingId: id } });
+
+          return tx.booking.update({
+            where: { id },
+            data: {
+              carId: data.carId,
+              pickupLocationId: data.pickupLocationId,
+              dropoffLocationId: data.dropoffLocationId,
+              startDate: data.startDate,
+              endDate: data.endDate,
+              days: data.days,
+              basePrice: data.basePrice,
+              addonPrice: data.addonPrice,
+              dropFee: data.dropFee,
+              discountAmount: data.discountAmount,
+              feeAmount: data.feeAmount,
+              taxAmount: data.taxAmount,
+              totalPrice: data.totalPrice,
+              promoCodeId: data.promoCodeId,
+              bookingAddons: {
+                create: data.addonIds.map((addonId) => ({
+                  addonId,
+                  price: data.addonPrices.get(addonId) || 0,
+                })),
+              },
+              charges: {
+                create: data.charges,
+              },
+            },
+            include: bookingInclude,
+          });
         },
-      },
-    });
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+    } catch (error) {
+      throw toAvailabilityConflict(error);
+    }
   }
 
   async updateStatus(id: string, status: BookingStatus, cancelReason?: string): Promise<Booking> {
@@ -142,6 +381,47 @@ export class BookingRepository implements IBookingRepository {
     });
   }
 
+  async cancel(id: string, data: CancelBookingData): Promise<Booking> {
+    return this.db.booking.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        cancelReason: data.cancelReason,
+        cancellationFee: data.cancellationFee,
+        refundAmount: data.refundAmount,
+      },
+    });
+  }
+
+  async findExpiredHolds(now: Date): Promise<Booking[]> {
+    return this.db.booking.findMany({
+      where: {
+        status: 'PENDING',
+        holdExpiresAt: { lt: now },
+      },
+      orderBy: { holdExpiresAt: 'asc' },
+    });
+  }
+
+  async expireHold(id: string, reason: string): Promise<boolean> {
+    const result = await this.db.booking.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        status: 'CANCELLED',
+        cancelReason: reason,
+      },
+    });
+    return result.count > 0;
+  }
+
+  async confirmPending(id: string): Promise<boolean> {
+    const result = await this.db.booking.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'CONFIRMED' },
+    });
+    return result.count > 0;
+  }
+
   async checkOverlap(
     carId: string,
     startDate: Date,
@@ -149,36 +429,7 @@ export class BookingRepository implements IBookingRepository {
     excludeBookingId?: string
   ): Promise<boolean> {
     const overlappingBookings = await this.db.booking.count({
-      where: {
-        carId,
-        ...(excludeBookingId && { id: { not: excludeBookingId } }),
-        status: {
-          in: ['PENDING', 'CONFIRMED', 'PICKED_UP'],
-        },
-        OR: [
-          // New booking starts during existing booking
-          {
-            AND: [
-              { startDate: { lte: startDate } },
-              { endDate: { gte: startDate } },
-            ],
-          },
-          // New booking ends during existing booking
-          {
-            AND: [
-              { startDate: { lte: endDate } },
-              { endDate: { gte: endDate } },
-            ],
-          },
-          // New booking completely contains existing booking
-          {
-            AND: [
-              { startDate: { gte: startDate } },
-              { endDate: { lte: endDate } },
-            ],
-          },
-        ],
-      },
+      where: overlapWhere(carId, startDate, endDate, excludeBookingId),
     });
 
     return overlappingBookings > 0;
@@ -191,36 +442,7 @@ export class BookingRepository implements IBookingRepository {
     excludeBookingId?: string
   ): Promise<Booking[]> {
     return this.db.booking.findMany({
-      where: {
-        carId,
-        ...(excludeBookingId && { id: { not: excludeBookingId } }),
-        status: {
-          in: ['PENDING', 'CONFIRMED', 'PICKED_UP'],
-        },
-        OR: [
-          // New booking starts during existing booking
-          {
-            AND: [
-              { startDate: { lte: startDate } },
-              { endDate: { gte: startDate } },
-            ],
-          },
-          // New booking ends during existing booking
-          {
-            AND: [
-              { startDate: { lte: endDate } },
-              { endDate: { gte: endDate } },
-            ],
-          },
-          // New booking completely contains existing booking
-          {
-            AND: [
-              { startDate: { gte: startDate } },
-              { endDate: { lte: endDate } },
-            ],
-          },
-        ],
-      },
+      where: overlapWhere(carId, startDate, endDate, excludeBookingId),
       orderBy: { startDate: 'asc' },
     });
   }
@@ -0,0 +1,48 @@
+import { PrismaClient, CarBlackout } from '@prisma/client';
+import { ICarBlackoutRepository, CarBlackoutData } from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class CarBlackoutRepository implements ICarBlackoutRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findByCarId(carId: string): Promise<CarBlackout[]> {
+    return this.db.carBlackout.findMany({
+      where: { carId },
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  async findById(id: string): Promise<CarBlackout | null> {
+    return this.db.carBlackout.findUnique({
+      where: { id },
+    });
+  }
+
+  async findOverlapping(carId: string, startDate: Date, endDate: Date): Promise<CarBlackout[]> {
+    return this.db.carBlackout.findMany({
+      where: {
+        carId,
+        // Inclusive ranges overlap when each starts before the other ends
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  async create(data: CarBlackoutData): Promise<CarBlackout> {
+    return this.db.carBlackout.create({
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.carBlackout.delete({
+      where: { id },
+    });
+  }
+}
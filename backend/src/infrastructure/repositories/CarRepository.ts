@@ -37,6 +37,12 @@ export class CarRepository implements ICarRepository {
       }),
     };
 
+    if (filters.pickupLocationId) {
+      where.id = {
+        in: await this.findIdsAtLocation(filters.pickupLocationId, filters.startDate ?? new Date()),
+      };
+    }
+
     const orderBy: Prisma.CarOrderByWithRelationInput = sort
       ? { [sort.field]: sort.order }
       : { createdAt: 'desc' };
@@ -135,7 +141,18 @@ export class CarRepository implements ICarRepository {
       },
     });
 
-    return overlappingBookings === 0;
+    if (overlappingBookings > 0) return false;
+
+    // Maintenance blackouts block the car just like bookings
+    const overlappingBlackouts = await this.db.carBlackout.count({
+      where: {
+        carId,
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+    });
+
+    return overlappingBlackouts === 0;
   }
 
   async hasActiveBookings(carId: string): Promise<boolean> {
@@ -150,4 +167,70 @@ export class CarRepository implements ICarRepository {
 
     return activeBookings > 0;
   }
+
+  /**
+   * Where a car will be parked at the given time: the dropoff location of its
+   * last active booking ending by then, or its current location if there is
+   * none. Null when the car has never been assigned a location.
+   */
+  async findLocationAt(carId: string, at: Date, excludeBookingId?: string): Promise<string | null> {
+    const previousBooking = await this.db.booking.findFirst({
+      where: {
+        carId,
+        ...(excludeBookingId && { id: { not: excludeBookingId } }),
+        status: {
+          in: ['PENDING', 'CONFIRMED', 'PICKED_UP'],
+        },
+        endDate: { lte: at },
+      },
+      orderBy: { endDate: 'desc' },
+      select: { dropoffLocationId: true },
+    });
+    if (previousBooking) return previousBooking.dropoffLocationId;
+
+    const car = await this.db.car.findUnique({
+      where: { id: carId },
+      select: { currentLocationId: true },
+    });
+    return car?.currentLocationId ?? null;
+  }
+
+  /**
+   * Where the car has to be for its next active booking starting at or after
+   * the given time, or null when nothing is booked after it.
+   */
+  async findNextPickupLocation(carId: string, after: Date, excludeBookingId?: string): Promise<string | null> {
+    const nextBooking = await this.db.booking.findFirst({
+      where: {
+        carId,
+        ...(excludeBookingId && { id: { not: excludeBookingId } }),
+        status: {
+          in: ['PENDING', 'CONFIRMED', 'PICKED_UP'],
+        },
+        startDate: { gte: after },
+      },
+      orderBy: { startDate: 'asc' },
+      select: { pickupLocationId: true },
+    });
+    return nextBooking?.pickupLocationId ?? null;
+  }
+
+  // Same rule as findLocationAt, applied to the whole fleet in one query
+  private async findIdsAtLocation(locationId: string, at: Date): Promise<string[]> {
+    const rows = await this.db.$queryRaw<{ id: string }[]>`
+      SELECT c.id
+      FROM cars c
+      LEFT JOIN LATERAL (
+        SELECT b.dropoff_location_id
+        FROM bookings b
+        WHERE b.car_id = c.id
+          AND b.status IN ('PENDING', 'CONFIRMED', 'PICKED_UP')
+          AND b.end_date <= ${at}
+        ORDER BY b.end_date DESC
+        LIMIT 1
+      ) previous_booking ON true
+      WHERE COALESCE(previous_booking.dropoff_location_id, c.current_location_id) = ${locationId}
+    `;
+    return rows.map((row) => row.id);
+  }
 }
@@ -0,0 +1,73 @@
+import { PrismaClient, ChargeRule, Prisma } from '@prisma/client';
+import { ChargeRuleData, ChargeRuleFilters, IChargeRuleRepository } from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class ChargeRuleRepository implements IChargeRuleRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findAll(filters: ChargeRuleFilters): Promise<ChargeRule[]> {
+    const where: Prisma.ChargeRuleWhereInput = {
+      ...(filters.kind && { kind: filters.kind }),
+      ...(filters.locationId && { locationId: filters.locationId }),
+      ...(filters.addonId && { addonId: filters.addonId }),
+      ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+    };
+
+    return this.db.chargeRule.findMany({
+      where,
+      orderBy: [{ kind: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findById(id: string): Promise<ChargeRule | null> {
+    return this.db.chargeRule.findUnique({
+      where: { id },
+    });
+  }
+
+  async findApplicable(pickupLocationId: string, addonIds: string[]): Promise<ChargeRule[]> {
+    return this.db.chargeRule.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { locationId: null, addonId: null },
+          { locationId: pickupLocationId },
+          ...(addonIds.length > 0 ? [{ addonId: { in: addonIds } }] : []),
+        ],
+      },
+      // Fees before taxes, then in the order they were set up, so lines come out the same every time
+      orderBy: [{ kind: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async create(data: ChargeRuleData): Promise<ChargeRule> {
+    return this.db.chargeRule.create({
+      data: {
+        name: data.name,
+        kind: data.kind,
+        calculation: data.calculation,
+        rate: data.rate,
+        locationId: data.locationId ?? null,
+        addonId: data.addonId ?? null,
+        isActive: data.isActive ?? true,
+      },
+    });
+  }
+
+  async update(id: string, data: Partial<ChargeRuleData>): Promise<ChargeRule> {
+    return this.db.chargeRule.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.chargeRule.delete({
+      where: { id },
+    });
+  }
+}
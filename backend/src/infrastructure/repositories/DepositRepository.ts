@@ -0,0 +1,64 @@
+import { CarType, CarTypeDeposit, Deposit, PrismaClient } from '@prisma/client';
+import { DepositOutcome, IDepositRepository } from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class DepositRepository implements IDepositRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findAllCarTypeDeposits(): Promise<CarTypeDeposit[]> {
+    return this.db.carTypeDeposit.findMany({
+      orderBy: { carType: 'asc' },
+    });
+  }
+
+  async findCarTypeDeposit(carType: CarType): Promise<CarTypeDeposit | null> {
+    return this.db.carTypeDeposit.findUnique({
+      where: { carType },
+    });
+  }
+
+  async upsertCarTypeDeposit(carType: CarType, amount: number): Promise<CarTypeDeposit> {
+    return this.db.carTypeDeposit.upsert({
+      where: { carType },
+      create: { carType, amount },
+      update: { amount },
+    });
+  }
+
+  async findByBookingId(bookingId: string): Promise<Deposit | null> {
+    return this.db.deposit.findUnique({
+      where: { bookingId },
+    });
+  }
+
+  async start(bookingId: string, amount: number, gateway: string): Promise<Deposit> {
+    const reset = {
+      amount,
+      gateway,
+      status: 'PENDING' as const,
+      gatewayReference: null,
+      failureReason: null,
+      capturedAmount: null,
+      captureReason: null,
+      heldAt: null,
+      settledAt: null,
+    };
+
+    return this.db.deposit.upsert({
+      where: { bookingId },
+      create: { bookingId, amount, gateway },
+      update: reset,
+    });
+  }
+
+  async recordOutcome(id: string, outcome: DepositOutcome): Promise<Deposit> {
+    return this.db.deposit.update({
+      where: { id },
+      data: outcome,
+    });
+  }
+}
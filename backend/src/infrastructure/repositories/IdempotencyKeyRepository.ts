@@ -0,0 +1,55 @@
+import { PrismaClient, IdempotencyKey, Prisma } from '@prisma/client';
+import {
+  IIdempotencyKeyRepository,
+  CreateIdempotencyKeyData,
+} from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class IdempotencyKeyRepository implements IIdempotencyKeyRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findByKey(userId: string, key: string): Promise<IdempotencyKey | null> {
+    return this.db.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+  }
+
+  async create(data: CreateIdempotencyKeyData): Promise<IdempotencyKey | null> {
+    try {
+      return await this.db.idempotencyKey.create({ data });
+    } catch (error) {
+      // Unique violation: a concurrent request claimed the same key first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async saveResponse(id: string, statusCode: number, responseBody: unknown): Promise<void> {
+    await this.db.idempotencyKey.update({
+      where: { id },
+      data: {
+        statusCode,
+        responseBody: (responseBody ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.idempotencyKey.deleteMany({
+      where: { id },
+    });
+  }
+
+  async deleteExpired(now: Date): Promise<number> {
+    const result = await this.db.idempotencyKey.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,53 @@
+import { Invoice, Prisma, PrismaClient } from '@prisma/client';
+import { InvoiceContents } from '../../domain/entities/index.js';
+import { IInvoiceRepository } from '../../domain/repositories/index.js';
+import { NotFoundError } from '../../domain/errors/index.js';
+import { prisma } from '../database/prisma.js';
+
+const INVOICE_COUNTER_ID = 'invoice';
+
+export class InvoiceRepository implements IInvoiceRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findByBookingId(bookingId: string): Promise<Invoice | null> {
+    return this.db.invoice.findUnique({
+      where: { bookingId },
+    });
+  }
+
+  // Concurrent requests for the same booking queue up on the booking row lock, and
+  // every issue queues on the counter row until the invoice is committed. Touching
+  // the booking row makes a modification running at the same time fail to commit.
+  async issue(bookingId: string, issuedAt: Date, build: (number: number) => InvoiceContents): Promise<Invoice> {
+    return this.db.$transaction(async (tx) => {
+      const [booking] = await tx.$queryRaw<{ id: string }[]>`
+        UPDATE bookings SET updated_at = NOW() WHERE id = ${bookingId} RETURNING id
+      `;
+      if (!booking) {
+        throw new NotFoundError('Booking', bookingId);
+      }
+
+      const existing = await tx.invoice.findUnique({ where: { bookingId } });
+      if (existing) return existing;
+
+      const [counter] = await tx.$queryRaw<{ last_number: number }[]>`
+        UPDATE invoice_counters SET last_number = last_number + 1
+        WHERE id = ${INVOICE_COUNTER_ID}
+        RETURNING last_number
+      `;
+
+      return tx.invoice.create({
+        data: {
+          bookingId,
+          number: counter.last_number,
+          issuedAt,
+          contents: build(counter.last_number) as unknown as Prisma.InputJsonValue,
+        },
+      });
+    });
+  }
+}
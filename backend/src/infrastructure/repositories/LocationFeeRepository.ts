@@ -0,0 +1,60 @@
+import { PrismaClient, LocationFee, Prisma } from '@prisma/client';
+import {
+  ILocationFeeRepository,
+  LocationFeeData,
+  LocationFeeFilters,
+} from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class LocationFeeRepository implements ILocationFeeRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findAll(filters: LocationFeeFilters): Promise<LocationFee[]> {
+    const where: Prisma.LocationFeeWhereInput = {
+      ...(filters.pickupLocationId && { pickupLocationId: filters.pickupLocationId }),
+      ...(filters.dropoffLocationId && { dropoffLocationId: filters.dropoffLocationId }),
+    };
+
+    return this.db.locationFee.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findById(id: string): Promise<LocationFee | null> {
+    return this.db.locationFee.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByPair(pickupLocationId: string, dropoffLocationId: string): Promise<LocationFee | null> {
+    return this.db.locationFee.findUnique({
+      where: {
+        pickupLocationId_dropoffLocationId: { pickupLocationId, dropoffLocationId },
+      },
+    });
+  }
+
+  async create(data: LocationFeeData): Promise<LocationFee> {
+    return this.db.locationFee.create({
+      data,
+    });
+  }
+
+  async update(id: string, fee: number): Promise<LocationFee> {
+    return this.db.locationFee.update({
+      where: { id },
+      data: { fee },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.locationFee.delete({
+      where: { id },
+    });
+  }
+}
@@ -1,7 +1,13 @@
 import { PrismaClient, Location } from '@prisma/client';
-import { ILocationRepository } from '../../domain/repositories/index.js';
+import { ILocationRepository, LocationData } from '../../domain/repositories/index.js';
+import { LocationWithSchedule } from '../../domain/entities/index.js';
 import { prisma } from '../database/prisma.js';
 
+const scheduleInclude = {
+  openingHours: { orderBy: { dayOfWeek: 'asc' as const } },
+  closures: { orderBy: { date: 'asc' as const } },
+};
+
 export class LocationRepository implements ILocationRepository {
   private db: PrismaClient;
 
@@ -9,26 +15,58 @@ export class LocationRepository implements ILocationRepository {
     this.db = db;
   }
 
-  async findAll(activeOnly: boolean = true): Promise<Location[]> {
+  async findAll(activeOnly: boolean = true): Promise<LocationWithSchedule[]> {
     return this.db.location.findMany({
       where: activeOnly ? { isActive: true } : undefined,
+      include: scheduleInclude,
       orderBy: { name: 'asc' },
     });
   }
 
-  async findById(id: string): Promise<Location | null> {
+  async findById(id: string): Promise<LocationWithSchedule | null> {
     return this.db.location.findUnique({
       where: { id },
+      include: scheduleInclude,
+    });
+  }
+
+  async findByName(name: string): Promise<Location | null> {
+    return this.db.location.findUnique({
+      where: { name },
     });
   }
 
-  async create(data: { name: string; address?: string }): Promise<Location> {
+  async create(data: LocationData): Promise<LocationWithSchedule> {
     return this.db.location.create({
       data: {
         name: data.name,
         address: data.address,
         isActive: true,
+        openingHours: { create: data.openingHours || [] },
+        closures: { create: data.closures || [] },
+      },
+      include: scheduleInclude,
+    });
+  }
+
+  async update(
+    id: string,
+    data: Partial<LocationData> & { isActive?: boolean }
+  ): Promise<LocationWithSchedule> {
+    return this.db.location.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.address !== undefined && { address: data.address }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+        ...(data.openingHours && {
+          openingHours: { deleteMany: {}, create: data.openingHours },
+        }),
+        ...(data.closures && {
+          closures: { deleteMany: {}, create: data.closures },
+        }),
       },
+      include: scheduleInclude,
     });
   }
 }
@@ -0,0 +1,108 @@
+import { Payment, PrismaClient, Refund } from '@prisma/client';
+import {
+  IPaymentRepository,
+  CreatePaymentData,
+  CreateRefundData,
+  GatewayOutcome,
+} from '../../domain/repositories/index.js';
+import { ConflictError, NotFoundError } from '../../domain/errors/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class PaymentRepository implements IPaymentRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  // Concurrent payments for the same booking queue up on the booking row lock
+  async create(data: CreatePaymentData): Promise<Payment> {
+    return this.db.$transaction(async (tx) => {
+      const [booking] = await tx.$queryRaw<{ total_price: string }[]>`
+        SELECT total_price FROM bookings WHERE id = ${data.bookingId} FOR UPDATE
+      `;
+      if (!booking) {
+        throw new NotFoundError('Booking', data.bookingId);
+      }
+
+      const taken = await tx.payment.aggregate({
+        where: { bookingId: data.bookingId, status: { in: ['PENDING', 'SUCCEEDED'] } },
+        _sum: { amount: true },
+      });
+      const outstanding = Number(booking.total_price) - Number(taken._sum.amount ?? 0);
+      if (data.amount > outstanding) {
+        throw new ConflictError('Payment exceeds the outstanding balance', 'PAYMENT_EXCEEDS_BALANCE', {
+          outstanding: Math.max(outstanding, 0),
+        });
+      }
+
+      return tx.payment.create({
+        data: {
+          bookingId: data.bookingId,
+          amount: data.amount,
+          gateway: data.gateway,
+        },
+      });
+    });
+  }
+
+  async findByBookingId(bookingId: string): Promise<Payment[]> {
+    return this.db.payment.findMany({
+      where: { bookingId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findPending(): Promise<Payment[]> {
+    return this.db.payment.findMany({
+      where: { status: 'PENDING', gatewayReference: { not: null } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async recordOutcome(id: string, outcome: GatewayOutcome): Promise<Payment | null> {
+    const result = await this.db.payment.updateMany({
+      where: { id, status: 'PENDING' },
+      data: outcome,
+    });
+    if (result.count === 0) return null;
+
+    return this.db.payment.findUnique({ where: { id } });
+  }
+
+  async createRefund(data: CreateRefundData): Promise<Refund> {
+    return this.db.refund.create({
+      data: {
+        bookingId: data.bookingId,
+        paymentId: data.paymentId,
+        amount: data.amount,
+        gateway: data.gateway,
+        reason: data.reason,
+      },
+    });
+  }
+
+  async findRefundsByBookingId(bookingId: string): Promise<Refund[]> {
+    return this.db.refund.findMany({
+      where: { bookingId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findPendingRefunds(): Promise<Refund[]> {
+    return this.db.refund.findMany({
+      where: { status: 'PENDING', gatewayReference: { not: null } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async recordRefundOutcome(id: string, outcome: GatewayOutcome): Promise<Refund | null> {
+    const result = await this.db.refund.updateMany({
+      where: { id, status: 'PENDING' },
+      data: outcome,
+    });
+    if (result.count === 0) return null;
+
+    return this.db.refund.findUnique({ where: { id } });
+  }
+}
@@ -0,0 +1,97 @@
+import { PrismaClient, PricingRule, CarType, Prisma } from '@prisma/client';
+import {
+  IPricingRuleRepository,
+  PricingRuleData,
+  PricingRuleFilters,
+} from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class PricingRuleRepository implements IPricingRuleRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findAll(filters: PricingRuleFilters): Promise<PricingRule[]> {
+    const where: Prisma.PricingRuleWhereInput = {
+      ...(filters.carId && { carId: filters.carId }),
+      ...(filters.carType && { carType: filters.carType }),
+      ...(filters.type && { type: filters.type }),
+      ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+    };
+
+    return this.db.pricingRule.findMany({
+      where,
+      orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  async findById(id: string): Promise<PricingRule | null> {
+    return this.db.pricingRule.findUnique({
+      where: { id },
+    });
+  }
+
+  async findApplicable(
+    carId: string,
+    carType: CarType,
+    startDate: Date,
+    endDate: Date
+  ): Promise<PricingRule[]> {
+    return this.db.pricingRule.findMany({
+      where: {
+        isActive: true,
+        // Rules scoped to this car, its type, or the whole fleet
+        OR: [
+          { carId },
+          { carId: null, carType },
+          { carId: null, carType: null },
+        ],
+        AND: [
+          {
+            OR: [
+              { type: 'DAY_OF_WEEK' },
+              // Date range overlaps the requested period
+              {
+                type: 'DATE_RANGE',
+                startDate: { lte: endDate },
+                endDate: { gte: startDate },
+              },
+            ],
+          },
+        ],
+      },
+    });
+  }
+
+  async create(data: PricingRuleData): Promise<PricingRule> {
+    return this.db.pricingRule.create({
+      data: {
+        name: data.name,
+        type: data.type,
+        multiplier: data.multiplier,
+        carId: data.carId ?? null,
+        carType: data.carType ?? null,
+        daysOfWeek: data.daysOfWeek || [],
+        startDate: data.startDate ?? null,
+        endDate: data.endDate ?? null,
+        priority: data.priority ?? 0,
+        isActive: data.isActive ?? true,
+      },
+    });
+  }
+
+  async update(id: string, data: Partial<PricingRuleData>): Promise<PricingRule> {
+    return this.db.pricingRule.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.pricingRule.delete({
+      where: { id },
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { PrismaClient, PromoCode, Prisma, BookingStatus } from '@prisma/client';
+import {
+  IPromoCodeRepository,
+  PromoCodeData,
+  PromoCodeFilters,
+  PromoCodeRedemptionSummary,
+  PromoRedemptionCount,
+} from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+function redemptionWhere(promoCodeId: string, options: PromoRedemptionCount = {}): Prisma.BookingWhereInput {
+  return {
+    promoCodeId,
+    status: { not: BookingStatus.CANCELLED },
+    ...(options.userId && { userId: options.userId }),
+    ...(options.excludeBookingId && { id: { not: options.excludeBookingId } }),
+  };
+}
+
+// Shared with BookingRepository, which recounts inside the booking transaction
+export async function countPromoRedemptions(
+  db: Prisma.TransactionClient,
+  promoCodeId: string,
+  options: PromoRedemptionCount = {}
+): Promise<number> {
+  return db.booking.count({ where: redemptionWhere(promoCodeId, options) });
+}
+
+export class PromoCodeRepository implements IPromoCodeRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findAll(filters: PromoCodeFilters): Promise<PromoCode[]> {
+    return this.db.promoCode.findMany({
+      where: {
+        ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findById(id: string): Promise<PromoCode | null> {
+    return this.db.promoCode.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByCode(code: string): Promise<PromoCode | null> {
+    return this.db.promoCode.findUnique({
+      where: { code },
+    });
+  }
+
+  async create(data: PromoCodeData): Promise<PromoCode> {
+    return this.db.promoCode.create({
+      data,
+    });
+  }
+
+  async update(id: string, data: Partial<PromoCodeData>): Promise<PromoCode> {
+    return this.db.promoCode.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async countRedemptions(promoCodeId: string, options?: PromoRedemptionCount): Promise<number> {
+    return countPromoRedemptions(this.db, promoCodeId, options);
+  }
+
+  async getRedemptionReport(from?: Date, to?: Date): Promise<PromoCodeRedemptionSummary[]> {
+    const where: Prisma.BookingWhereInput = {
+      promoCodeId: { not: null },
+      status: { not: BookingStatus.CANCELLED },
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: from }),
+          ...(to && { lte: to }),
+        },
+      }),
+    };
+
+    const [promoCodes, totals, customers] = await Promise.all([
+      this.db.promoCode.findMany({ orderBy: { code: 'asc' } }),
+      this.db.booking.groupBy({
+        by: ['promoCodeId'],
+        where,
+        _count: { id: true },
+        _sum: { discountAmount: true, totalPrice: true },
+      }),
+      this.db.booking.groupBy({
+        by: ['promoCodeId', 'userId'],
+        where,
+      }),
+    ]);
+
+    const totalsByCode = new Map(totals.map((t) => [t.promoCodeId, t]));
+    const customersByCode = new Map<string, number>();
+    for (const row of customers) {
+      if (row.promoCodeId) {
+        customersByCode.set(row.promoCodeId, (customersByCode.get(row.promoCodeId) || 0) + 1);
+      }
+    }
+
+    return promoCodes.map((promoCode) => {
+      const total = totalsByCode.get(promoCode.id);
+      return {
+        promoCodeId: promoCode.id,
+        code: promoCode.code,
+        discountType: promoCode.discountType,
+        discountValue: Number(promoCode.discountValue),
+        isActive: promoCode.isActive,
+        maxRedemptions: promoCode.maxRedemptions,
+        redemptions: total?._count.id || 0,
+        customers: customersByCode.get(promoCode.id) || 0,
+        discountTotal: Number(total?._sum.discountAmount || 0),
+        revenue: Number(total?._sum.totalPrice || 0),
+      };
+    });
+  }
+}
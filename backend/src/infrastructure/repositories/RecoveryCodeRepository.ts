@@ -0,0 +1,28 @@
+import { PrismaClient } from '@prisma/client';
+import { IRecoveryCodeRepository } from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class RecoveryCodeRepository implements IRecoveryCodeRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async replaceAll(userId: string, codeHashes: string[]): Promise<void> {
+    await this.db.$transaction([
+      this.db.recoveryCode.deleteMany({ where: { userId } }),
+      this.db.recoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db.recoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+}
@@ -0,0 +1,44 @@
+import { PrismaClient, RefreshToken } from '@prisma/client';
+import { IRefreshTokenRepository } from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class RefreshTokenRepository implements IRefreshTokenRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async create(data: { userId: string; familyId: string; tokenHash: string; expiresAt: Date }): Promise<RefreshToken> {
+    return this.db.refreshToken.create({ data });
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    return this.db.refreshToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    // Conditional update so two concurrent refreshes cannot both rotate the same token
+    const result = await this.db.refreshToken.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.db.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.db.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+}
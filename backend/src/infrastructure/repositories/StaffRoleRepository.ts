@@ -0,0 +1,60 @@
+import { PrismaClient, StaffRole } from '@prisma/client';
+import { IStaffRoleRepository, StaffRoleData, StaffRoleWithUserCount } from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class StaffRoleRepository implements IStaffRoleRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async findAll(): Promise<StaffRoleWithUserCount[]> {
+    const roles = await this.db.staffRole.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: [{ isBuiltIn: 'desc' }, { name: 'asc' }],
+    });
+    return roles.map(({ _count, ...role }) => ({ ...role, userCount: _count.users }));
+  }
+
+  async findById(id: string): Promise<StaffRole | null> {
+    return this.db.staffRole.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByName(name: string): Promise<StaffRole | null> {
+    return this.db.staffRole.findUnique({
+      where: { name },
+    });
+  }
+
+  async create(data: StaffRoleData): Promise<StaffRole> {
+    return this.db.staffRole.create({
+      data: {
+        name: data.name,
+        description: data.description ?? null,
+        permissions: data.permissions,
+      },
+    });
+  }
+
+  async update(id: string, data: Partial<StaffRoleData>): Promise<StaffRole> {
+    return this.db.staffRole.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.staffRole.delete({
+      where: { id },
+    });
+  }
+
+  async countUsers(id: string): Promise<number> {
+    return this.db.user.count({
+      where: { staffRoleId: id },
+    });
+  }
+}
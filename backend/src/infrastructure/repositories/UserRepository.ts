@@ -1,5 +1,6 @@
-import { PrismaClient, User, UserRole } from '@prisma/client';
+import { DriverVerificationStatus, PrismaClient, User, UserRole } from '@prisma/client';
 import { IUserRepository } from '../../domain/repositories/index.js';
+import { UserWithStaffAccess } from '../../domain/entities/index.js';
 import { prisma } from '../database/prisma.js';
 
 export class UserRepository implements IUserRepository {
@@ -15,6 +16,13 @@ export class UserRepository implements IUserRepository {
     });
   }
 
+  async findByIdWithStaffAccess(id: string): Promise<UserWithStaffAccess | null> {
+    return this.db.user.findUnique({
+      where: { id },
+      include: { staffRole: true, staffLocations: true },
+    });
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     return this.db.user.findUnique({
       where: { email: email.toLowerCase() },
@@ -43,4 +51,54 @@ export class UserRepository implements IUserRepository {
       data,
     });
   }
+
+  async recordFailedLogin(id: string): Promise<number> {
+    const user = await this.db.user.update({
+      where: { id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+    return user.failedLoginAttempts;
+  }
+
+  async claimTotpStep(id: string, step: number): Promise<boolean> {
+    // Conditional update so concurrent requests cannot both accept the same code
+    const result = await this.db.user.updateMany({
+      where: {
+        id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+    return result.count > 0;
+  }
+
+  async setStaffLocations(id: string, locationIds: string[]): Promise<void> {
+    await this.db.$transaction([
+      this.db.staffLocation.deleteMany({ where: { userId: id } }),
+      this.db.staffLocation.createMany({
+        data: locationIds.map((locationId) => ({ userId: id, locationId })),
+      }),
+    ]);
+  }
+
+  async findByDriverVerificationStatus(status: DriverVerificationStatus): Promise<User[]> {
+    return this.db.user.findMany({
+      where: { driverVerificationStatus: status, deletedAt: null },
+      orderBy: [{ driverLicenseSubmittedAt: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async anonymize(id: string, data: Partial<User>): Promise<User> {
+    const [, , , , , user] = await this.db.$transaction([
+      this.db.refreshToken.deleteMany({ where: { userId: id } }),
+      this.db.userToken.deleteMany({ where: { userId: id } }),
+      this.db.recoveryCode.deleteMany({ where: { userId: id } }),
+      this.db.staffLocation.deleteMany({ where: { userId: id } }),
+      // Stored responses can repeat personal data back
+      this.db.idempotencyKey.deleteMany({ where: { userId: id } }),
+      this.db.user.update({ where: { id }, data }),
+    ]);
+    return user;
+  }
 }
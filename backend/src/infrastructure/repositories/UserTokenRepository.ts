@@ -0,0 +1,37 @@
+import { PrismaClient, UserToken, UserTokenType } from '@prisma/client';
+import { IUserTokenRepository } from '../../domain/repositories/index.js';
+import { prisma } from '../database/prisma.js';
+
+export class UserTokenRepository implements IUserTokenRepository {
+  private db: PrismaClient;
+
+  constructor(db: PrismaClient = prisma) {
+    this.db = db;
+  }
+
+  async create(data: { userId: string; type: UserTokenType; tokenHash: string; expiresAt: Date }): Promise<UserToken> {
+    return this.db.userToken.create({ data });
+  }
+
+  async consume(tokenHash: string, type: UserTokenType): Promise<UserToken | null> {
+    const now = new Date();
+
+    // Conditional update so a token can only be used once, even by concurrent requests
+    const result = await this.db.userToken.updateMany({
+      where: { tokenHash, type, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (result.count === 0) return null;
+
+    return this.db.userToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async invalidateAll(userId: string, type: UserTokenType): Promise<void> {
+    await this.db.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  }
+}
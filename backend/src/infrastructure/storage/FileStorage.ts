@@ -0,0 +1,7 @@
+// Where uploaded files are kept; keys are relative paths such as "driver-licenses/<file>"
+export interface FileStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  // Does nothing when the file is already gone
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,35 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { FileStorage } from './FileStorage.js';
+
+// Keeps files on the local disk under a root directory
+export class LocalFileStorage implements FileStorage {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return readFile(this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  // Keys come from the database, but never let one point outside the root
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Storage key "${key}" is outside the storage root`);
+    }
+    return path;
+  }
+}
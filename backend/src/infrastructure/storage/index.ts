@@ -0,0 +1,11 @@
+import { FileStorage } from './FileStorage.js';
+import { LocalFileStorage } from './LocalFileStorage.js';
+
+export type { FileStorage } from './FileStorage.js';
+export { LocalFileStorage } from './LocalFileStorage.js';
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || 'uploads';
+
+export function createFileStorage(): FileStorage {
+  return new LocalFileStorage(UPLOAD_DIR);
+}
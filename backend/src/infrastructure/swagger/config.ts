@@ -47,7 +47,16 @@ const options: swaggerJsdoc.Options = {
             id: { type: 'string', format: 'uuid' },
             email: { type: 'string', format: 'email' },
             name: { type: 'string' },
-            role: { type: 'string', enum: ['CUSTOMER', 'ADMIN'] },
+            role: { type: 'string', enum: ['CUSTOMER', 'STAFF', 'ADMIN'] },
+            phone: { type: 'string', nullable: true },
+            dateOfBirth: { type: 'string', format: 'date', nullable: true },
+            driverLicenseNumber: { type: 'string', nullable: true },
+            driverLicenseCountry: { type: 'string', nullable: true },
+            driverLicenseExpiresAt: { type: 'string', format: 'date', nullable: true },
+            driverVerificationStatus: { type: 'string', enum: ['UNVERIFIED', 'PENDING', 'VERIFIED', 'REJECTED'] },
+            driverLicenseSubmittedAt: { type: 'string', format: 'date-time', nullable: true },
+            driverVerifiedAt: { type: 'string', format: 'date-time', nullable: true },
+            driverVerificationNote: { type: 'string', nullable: true },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
@@ -66,6 +75,7 @@ const options: swaggerJsdoc.Options = {
             dailyPrice: { type: 'number' },
             status: { type: 'string', enum: ['ACTIVE', 'INACTIVE', 'MAINTENANCE'] },
             images: { type: 'array', items: { type: 'string' } },
+            currentLocationId: { type: 'string', format: 'uuid', nullable: true },
           },
         },
         Booking: {
@@ -79,8 +89,70 @@ const options: swaggerJsdoc.Options = {
             days: { type: 'integer' },
             basePrice: { type: 'number' },
             addonPrice: { type: 'number' },
+            dropFee: { type: 'number', description: 'One-way fee when dropoff differs from pickup' },
+            discountAmount: { type: 'number', description: 'Taken off the rental price by the promo code' },
+            feeAmount: { type: 'number', description: 'Sum of the FEE charges' },
+            taxAmount: { type: 'number', description: 'Sum of the TAX charges' },
             totalPrice: { type: 'number' },
+            charges: { type: 'array', items: { $ref: '#/components/schemas/BookingCharge' } },
+            promoCodeId: { type: 'string', format: 'uuid', nullable: true },
             status: { type: 'string', enum: ['PENDING', 'CONFIRMED', 'PICKED_UP', 'RETURNED', 'CANCELLED'] },
+            payments: { type: 'array', items: { $ref: '#/components/schemas/Payment' } },
+            refunds: { type: 'array', items: { $ref: '#/components/schemas/Refund' } },
+            deposit: { allOf: [{ $ref: '#/components/schemas/Deposit' }], nullable: true },
+          },
+        },
+        BookingCharge: {
+          type: 'object',
+          description: 'Tax or fee line as charged when the booking was made; later rule changes do not alter it',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            ruleId: { type: 'string', format: 'uuid', nullable: true },
+            kind: { type: 'string', enum: ['FEE', 'TAX'] },
+            name: { type: 'string', example: 'PPN' },
+            ratePercent: { type: 'number', nullable: true, description: 'Null for fixed amounts' },
+            amount: { type: 'number' },
+          },
+        },
+        Payment: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            bookingId: { type: 'string', format: 'uuid' },
+            amount: { type: 'number' },
+            status: { type: 'string', enum: ['PENDING', 'SUCCEEDED', 'FAILED'] },
+            gateway: { type: 'string', example: 'fake' },
+            gatewayReference: { type: 'string', nullable: true },
+            failureReason: { type: 'string', nullable: true },
+            settledAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+        Refund: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            bookingId: { type: 'string', format: 'uuid' },
+            paymentId: { type: 'string', format: 'uuid' },
+            amount: { type: 'number' },
+            status: { type: 'string', enum: ['PENDING', 'SUCCEEDED', 'FAILED'] },
+            reason: { type: 'string', nullable: true },
+            failureReason: { type: 'string', nullable: true },
+            settledAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+        Deposit: {
+          type: 'object',
+          description: 'Security deposit held on the card at pickup and released or partly captured on return',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            bookingId: { type: 'string', format: 'uuid' },
+            amount: { type: 'number' },
+            status: { type: 'string', enum: ['PENDING', 'HELD', 'RELEASED', 'CAPTURED', 'FAILED'] },
+            capturedAmount: { type: 'number', nullable: true },
+            captureReason: { type: 'string', nullable: true },
+            failureReason: { type: 'string', nullable: true },
+            heldAt: { type: 'string', format: 'date-time', nullable: true },
+            settledAt: { type: 'string', format: 'date-time', nullable: true },
           },
         },
         Location: {
@@ -90,6 +162,28 @@ const options: swaggerJsdoc.Options = {
             name: { type: 'string' },
             address: { type: 'string' },
             isActive: { type: 'boolean' },
+            openingHours: {
+              type: 'array',
+              description: 'Open days; empty means open every day',
+              items: {
+                type: 'object',
+                properties: {
+                  dayOfWeek: { type: 'integer', minimum: 0, maximum: 6 },
+                  opensAt: { type: 'string', example: '08:00' },
+                  closesAt: { type: 'string', example: '20:00' },
+                },
+              },
+            },
+            closures: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  date: { type: 'string', format: 'date' },
+                  reason: { type: 'string' },
+                },
+              },
+            },
           },
         },
         Addon: {
@@ -98,8 +192,20 @@ const options: swaggerJsdoc.Options = {
             id: { type: 'string', format: 'uuid' },
             name: { type: 'string' },
             description: { type: 'string' },
-            pricePerBooking: { type: 'number' },
+            price: { type: 'number' },
+            pricingMode: { type: 'string', enum: ['PER_BOOKING', 'PER_DAY'] },
             isActive: { type: 'boolean' },
+            stock: {
+              type: 'array',
+              description: 'Units kept per location; locations without an entry have unlimited supply',
+              items: {
+                type: 'object',
+                properties: {
+                  locationId: { type: 'string', format: 'uuid' },
+                  quantity: { type: 'integer' },
+                },
+              },
+            },
           },
         },
         PaginationMeta: {
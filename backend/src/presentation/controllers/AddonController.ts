@@ -1,11 +1,21 @@
 import { Request, Response } from 'express';
-import { GetAddonsUseCase } from '../../application/use-cases/addon/GetAddonsUseCase.js';
+import {
+  GetAddonsUseCase,
+  CreateAddonUseCase,
+  UpdateAddonUseCase,
+  DeactivateAddonUseCase,
+} from '../../application/use-cases/addon/index.js';
 import { AddonRepository } from '../../infrastructure/repositories/AddonRepository.js';
-import { sendSuccess } from '../../shared/utils/response.js';
+import { LocationRepository } from '../../infrastructure/repositories/LocationRepository.js';
+import { sendSuccess, sendCreated } from '../../shared/utils/response.js';
 
-// Initialize repository and use case
+// Initialize repositories and use cases
 const addonRepository = new AddonRepository();
+const locationRepository = new LocationRepository();
 const getAddonsUseCase = new GetAddonsUseCase(addonRepository);
+const createAddonUseCase = new CreateAddonUseCase(addonRepository, locationRepository);
+const updateAddonUseCase = new UpdateAddonUseCase(addonRepository, locationRepository);
+const deactivateAddonUseCase = new DeactivateAddonUseCase(addonRepository);
 
 export class AddonController {
   static async getAddons(req: Request, res: Response): Promise<Response> {
@@ -13,4 +23,33 @@ export class AddonController {
 
     return sendSuccess(res, addons);
   }
+
+  // Admin: includes deactivated add-ons
+  static async getAllAddons(req: Request, res: Response): Promise<Response> {
+    const addons = await getAddonsUseCase.execute(false);
+
+    return sendSuccess(res, addons);
+  }
+
+  static async createAddon(req: Request, res: Response): Promise<Response> {
+    const addon = await createAddonUseCase.execute(req.body);
+
+    return sendCreated(res, addon);
+  }
+
+  static async updateAddon(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const addon = await updateAddonUseCase.execute(id, req.body);
+
+    return sendSuccess(res, addon);
+  }
+
+  static async deactivateAddon(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const addon = await deactivateAddonUseCase.execute(id);
+
+    return sendSuccess(res, addon);
+  }
 }
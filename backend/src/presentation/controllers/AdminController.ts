@@ -3,25 +3,67 @@ import {
   GetAllBookingsUseCase,
   UpdateBookingStatusUseCase,
   GetDashboardStatsUseCase,
+  UnlockUserUseCase,
+  AssignUserRoleUseCase,
+  AssignStaffLocationsUseCase,
+  GetDriverVerificationsUseCase,
+  ReviewDriverVerificationUseCase,
+  GetDriverLicenseImageUseCase,
 } from '../../application/use-cases/admin/index.js';
 import { BookingRepository } from '../../infrastructure/repositories/BookingRepository.js';
+import { CarRepository } from '../../infrastructure/repositories/CarRepository.js';
 import { AuditLogRepository } from '../../infrastructure/repositories/AuditLogRepository.js';
 import { AnalyticsRepository } from '../../infrastructure/repositories/AnalyticsRepository.js';
+import { UserRepository } from '../../infrastructure/repositories/UserRepository.js';
+import { StaffRoleRepository } from '../../infrastructure/repositories/StaffRoleRepository.js';
+import { LocationRepository } from '../../infrastructure/repositories/LocationRepository.js';
+import { DepositRepository } from '../../infrastructure/repositories/DepositRepository.js';
+import { PaymentRepository } from '../../infrastructure/repositories/PaymentRepository.js';
+import { createFileStorage } from '../../infrastructure/storage/index.js';
+import { getPaymentGateway } from '../../infrastructure/payments/index.js';
+import { DepositService } from '../../application/services/DepositService.js';
+import { CancellationPolicy } from '../../application/services/CancellationPolicy.js';
+import { PaymentService } from '../../application/services/PaymentService.js';
 import { sendSuccess } from '../../shared/utils/response.js';
 import { parsePagination } from '../../shared/utils/pagination.js';
 import { AuthenticatedRequest } from '../../shared/types/index.js';
 import { BookingFilters, BookingSortOptions } from '../../domain/repositories/index.js';
+import { DriverVerificationStatus } from '../../domain/entities/index.js';
+import { ValidationError } from '../../domain/errors/index.js';
 
 const bookingRepository = new BookingRepository();
+const carRepository = new CarRepository();
 const auditLogRepository = new AuditLogRepository();
 const analyticsRepository = new AnalyticsRepository();
+const userRepository = new UserRepository();
+const staffRoleRepository = new StaffRoleRepository();
+const locationRepository = new LocationRepository();
+const fileStorage = createFileStorage();
+const paymentRepository = new PaymentRepository();
+const depositService = new DepositService(new DepositRepository(), paymentRepository, getPaymentGateway());
+const paymentService = new PaymentService(paymentRepository, bookingRepository, auditLogRepository, getPaymentGateway());
 
 const getAllBookingsUseCase = new GetAllBookingsUseCase(bookingRepository);
-const updateBookingStatusUseCase = new UpdateBookingStatusUseCase(bookingRepository, auditLogRepository);
+const updateBookingStatusUseCase = new UpdateBookingStatusUseCase(
+  bookingRepository,
+  carRepository,
+  userRepository,
+  auditLogRepository,
+  depositService,
+  new CancellationPolicy(),
+  paymentService
+);
 const getDashboardStatsUseCase = new GetDashboardStatsUseCase(analyticsRepository);
+const unlockUserUseCase = new UnlockUserUseCase(userRepository, auditLogRepository);
+const assignUserRoleUseCase = new AssignUserRoleUseCase(userRepository, staffRoleRepository, auditLogRepository);
+const assignStaffLocationsUseCase = new AssignStaffLocationsUseCase(userRepository, locationRepository, auditLogRepository);
+const getDriverVerificationsUseCase = new GetDriverVerificationsUseCase(userRepository);
+const reviewDriverVerificationUseCase = new ReviewDriverVerificationUseCase(userRepository, auditLogRepository);
+const getDriverLicenseImageUseCase = new GetDriverLicenseImageUseCase(userRepository, fileStorage);
 
 export class AdminController {
   static async getAllBookings(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
     const query = req.query;
 
     // Parse pagination
@@ -52,6 +94,7 @@ export class AdminController {
       filters,
       pagination,
       sort,
+      locationIds: authenticatedReq.user.locationIds,
     });
 
     return sendSuccess(res, result.data, 200, result.meta);
@@ -61,13 +104,17 @@ export class AdminController {
     const authenticatedReq = req as AuthenticatedRequest;
     const { user } = authenticatedReq;
     const { id } = req.params;
-    const { status, reason } = req.body;
+    const { status, reason, depositPaymentMethod, depositCapture } = req.body;
 
     const booking = await updateBookingStatusUseCase.execute({
       bookingId: id,
       status,
       adminId: user.id,
+      permissions: user.permissions,
+      locationIds: user.locationIds,
       reason,
+      depositPaymentMethod,
+      depositCapture,
     });
 
     return sendSuccess(res, booking);
@@ -78,4 +125,83 @@ export class AdminController {
 
     return sendSuccess(res, stats);
   }
+
+  static async unlockUser(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { id } = req.params as { id: string };
+
+    const user = await unlockUserUseCase.execute({
+      userId: id,
+      adminId: authenticatedReq.user.id,
+    });
+
+    return sendSuccess(res, user);
+  }
+
+  static async assignUserRole(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { id } = req.params as { id: string };
+    const { role, staffRoleId } = req.body;
+
+    const user = await assignUserRoleUseCase.execute({
+      userId: id,
+      role,
+      staffRoleId,
+      adminId: authenticatedReq.user.id,
+    });
+
+    return sendSuccess(res, user);
+  }
+
+  static async assignStaffLocations(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { id } = req.params as { id: string };
+
+    const result = await assignStaffLocationsUseCase.execute({
+      userId: id,
+      locationIds: req.body.locationIds,
+      adminId: authenticatedReq.user.id,
+    });
+
+    return sendSuccess(res, result);
+  }
+
+  static async getDriverVerifications(req: Request, res: Response): Promise<Response> {
+    const status = req.query.status as string | undefined;
+    if (status !== undefined && !Object.values(DriverVerificationStatus).includes(status as DriverVerificationStatus)) {
+      throw new ValidationError('Invalid driver verification status', [
+        { field: 'status', message: `Allowed values: ${Object.values(DriverVerificationStatus).join(', ')}` },
+      ]);
+    }
+
+    const users = await getDriverVerificationsUseCase.execute(status as DriverVerificationStatus | undefined);
+
+    return sendSuccess(res, users);
+  }
+
+  static async reviewDriverVerification(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { id } = req.params as { id: string };
+    const { status, note } = req.body;
+
+    const user = await reviewDriverVerificationUseCase.execute({
+      userId: id,
+      status,
+      note,
+      adminId: authenticatedReq.user.id,
+    });
+
+    return sendSuccess(res, user);
+  }
+
+  // Streams the photo itself; license images are never served as static files
+  static async getDriverLicenseImage(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const image = await getDriverLicenseImageUseCase.execute(id);
+
+    res.setHeader('Content-Type', image.contentType);
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).send(image.data);
+  }
 }
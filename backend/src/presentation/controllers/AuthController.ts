@@ -1,14 +1,95 @@
 import { Request, Response } from 'express';
-import { RegisterUseCase, LoginUseCase, GetProfileUseCase } from '../../application/use-cases/auth/index.js';
+import {
+  RegisterUseCase,
+  LoginUseCase,
+  GetProfileUseCase,
+  RefreshTokenUseCase,
+  LogoutUseCase,
+  VerifyEmailUseCase,
+  ResendVerificationEmailUseCase,
+  ForgotPasswordUseCase,
+  ResetPasswordUseCase,
+  VerifyTwoFactorUseCase,
+  StartTotpEnrollmentUseCase,
+  ConfirmTotpEnrollmentUseCase,
+  RegenerateRecoveryCodesUseCase,
+  DisableTwoFactorUseCase,
+  UpdateProfileUseCase,
+  ChangePasswordUseCase,
+  ExportAccountDataUseCase,
+  DeleteAccountUseCase,
+  SubmitDriverLicenseUseCase,
+} from '../../application/use-cases/auth/index.js';
+import { AuthTokenService } from '../../application/services/AuthTokenService.js';
+import { AccountEmailService } from '../../application/services/AccountEmailService.js';
+import { AccountLockoutService } from '../../application/services/AccountLockoutService.js';
+import { TwoFactorService } from '../../application/services/TwoFactorService.js';
 import { UserRepository } from '../../infrastructure/repositories/UserRepository.js';
-import { sendSuccess, sendCreated } from '../../shared/utils/response.js';
+import { RefreshTokenRepository } from '../../infrastructure/repositories/RefreshTokenRepository.js';
+import { UserTokenRepository } from '../../infrastructure/repositories/UserTokenRepository.js';
+import { AuditLogRepository } from '../../infrastructure/repositories/AuditLogRepository.js';
+import { RecoveryCodeRepository } from '../../infrastructure/repositories/RecoveryCodeRepository.js';
+import { BookingRepository } from '../../infrastructure/repositories/BookingRepository.js';
+import { createMailer } from '../../infrastructure/mail/index.js';
+import { createFileStorage } from '../../infrastructure/storage/index.js';
+import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.js';
 import { AuthenticatedRequest } from '../../shared/types/index.js';
 
-// Initialize repository and use cases
+// Initialize repositories and use cases
 const userRepository = new UserRepository();
-const registerUseCase = new RegisterUseCase(userRepository);
-const loginUseCase = new LoginUseCase(userRepository);
+const refreshTokenRepository = new RefreshTokenRepository();
+const userTokenRepository = new UserTokenRepository();
+const bookingRepository = new BookingRepository();
+const auditLogRepository = new AuditLogRepository();
+const recoveryCodeRepository = new RecoveryCodeRepository();
+const fileStorage = createFileStorage();
+const authTokenService = new AuthTokenService(refreshTokenRepository);
+const accountEmailService = new AccountEmailService(userTokenRepository, createMailer());
+const accountLockoutService = new AccountLockoutService(userRepository, auditLogRepository);
+const twoFactorService = new TwoFactorService(userRepository, recoveryCodeRepository);
+const registerUseCase = new RegisterUseCase(userRepository, authTokenService, accountEmailService);
+const loginUseCase = new LoginUseCase(userRepository, authTokenService, accountLockoutService, twoFactorService);
 const getProfileUseCase = new GetProfileUseCase(userRepository);
+const refreshTokenUseCase = new RefreshTokenUseCase(userRepository, authTokenService);
+const logoutUseCase = new LogoutUseCase(authTokenService);
+const verifyEmailUseCase = new VerifyEmailUseCase(userRepository, userTokenRepository);
+const resendVerificationEmailUseCase = new ResendVerificationEmailUseCase(userRepository, accountEmailService);
+const forgotPasswordUseCase = new ForgotPasswordUseCase(userRepository, accountEmailService);
+const resetPasswordUseCase = new ResetPasswordUseCase(
+  userRepository,
+  userTokenRepository,
+  refreshTokenRepository,
+  accountLockoutService
+);
+const verifyTwoFactorUseCase = new VerifyTwoFactorUseCase(
+  userRepository,
+  authTokenService,
+  accountLockoutService,
+  twoFactorService
+);
+const startTotpEnrollmentUseCase = new StartTotpEnrollmentUseCase(userRepository, twoFactorService);
+const confirmTotpEnrollmentUseCase = new ConfirmTotpEnrollmentUseCase(
+  userRepository,
+  authTokenService,
+  accountLockoutService,
+  twoFactorService
+);
+const regenerateRecoveryCodesUseCase = new RegenerateRecoveryCodesUseCase(
+  userRepository,
+  accountLockoutService,
+  twoFactorService
+);
+const disableTwoFactorUseCase = new DisableTwoFactorUseCase(
+  userRepository,
+  recoveryCodeRepository,
+  accountLockoutService,
+  twoFactorService
+);
+const updateProfileUseCase = new UpdateProfileUseCase(userRepository);
+const changePasswordUseCase = new ChangePasswordUseCase(userRepository, refreshTokenRepository, authTokenService);
+const exportAccountDataUseCase = new ExportAccountDataUseCase(userRepository, bookingRepository, auditLogRepository);
+const deleteAccountUseCase = new DeleteAccountUseCase(userRepository, bookingRepository, auditLogRepository, fileStorage);
+const submitDriverLicenseUseCase = new SubmitDriverLicenseUseCase(userRepository, fileStorage);
 
 export class AuthController {
   static async register(req: Request, res: Response): Promise<Response> {
@@ -27,6 +108,102 @@ export class AuthController {
     return sendSuccess(res, result);
   }
 
+  static async verifyTwoFactor(req: Request, res: Response): Promise<Response> {
+    const { challengeToken, code } = req.body;
+
+    const result = await verifyTwoFactorUseCase.execute({ challengeToken, code });
+
+    return sendSuccess(res, result);
+  }
+
+  // Enrolling during login sends the challenge token; otherwise the route has authenticated the user
+  static async startTotpEnrollment(req: Request, res: Response): Promise<Response> {
+    const { challengeToken } = req.body;
+
+    const result = await startTotpEnrollmentUseCase.execute(
+      challengeToken ? { challengeToken } : { userId: (req as AuthenticatedRequest).user.id }
+    );
+
+    return sendSuccess(res, result);
+  }
+
+  static async confirmTotpEnrollment(req: Request, res: Response): Promise<Response> {
+    const { challengeToken, code } = req.body;
+
+    const result = await confirmTotpEnrollmentUseCase.execute(
+      challengeToken ? { challengeToken, code } : { userId: (req as AuthenticatedRequest).user.id, code }
+    );
+
+    return sendSuccess(res, result);
+  }
+
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    const result = await regenerateRecoveryCodesUseCase.execute({
+      userId: authenticatedReq.user.id,
+      code: req.body.code,
+    });
+
+    return sendSuccess(res, result);
+  }
+
+  static async disableTwoFactor(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    await disableTwoFactorUseCase.execute({ userId: authenticatedReq.user.id, code: req.body.code });
+
+    return sendNoContent(res);
+  }
+
+  static async refresh(req: Request, res: Response): Promise<Response> {
+    const { refreshToken } = req.body;
+
+    const result = await refreshTokenUseCase.execute({ refreshToken });
+
+    return sendSuccess(res, result);
+  }
+
+  static async logout(req: Request, res: Response): Promise<Response> {
+    const { refreshToken } = req.body;
+
+    await logoutUseCase.execute({ refreshToken });
+
+    return sendNoContent(res);
+  }
+
+  static async verifyEmail(req: Request, res: Response): Promise<Response> {
+    const { token } = req.body;
+
+    await verifyEmailUseCase.execute({ token });
+
+    return sendNoContent(res);
+  }
+
+  static async resendVerificationEmail(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    await resendVerificationEmailUseCase.execute(authenticatedReq.user.id);
+
+    return sendNoContent(res);
+  }
+
+  static async forgotPassword(req: Request, res: Response): Promise<Response> {
+    const { email } = req.body;
+
+    await forgotPasswordUseCase.execute({ email });
+
+    return sendNoContent(res);
+  }
+
+  static async resetPassword(req: Request, res: Response): Promise<Response> {
+    const { token, password } = req.body;
+
+    await resetPasswordUseCase.execute({ token, password });
+
+    return sendNoContent(res);
+  }
+
   static async getProfile(req: Request, res: Response): Promise<Response> {
     const authenticatedReq = req as AuthenticatedRequest;
     const userId = authenticatedReq.user.id;
@@ -35,4 +212,54 @@ export class AuthController {
 
     return sendSuccess(res, user);
   }
+
+  static async updateProfile(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    const user = await updateProfileUseCase.execute({ ...req.body, userId: authenticatedReq.user.id });
+
+    return sendSuccess(res, user);
+  }
+
+  static async submitDriverLicense(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    const user = await submitDriverLicenseUseCase.execute({ ...req.body, userId: authenticatedReq.user.id });
+
+    return sendSuccess(res, user);
+  }
+
+  static async changePassword(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { currentPassword, newPassword } = req.body;
+
+    const result = await changePasswordUseCase.execute({
+      userId: authenticatedReq.user.id,
+      currentPassword,
+      newPassword,
+    });
+
+    return sendSuccess(res, result);
+  }
+
+  // Sent as a downloadable JSON file rather than the usual response envelope
+  static async exportAccountData(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    const archive = await exportAccountDataUseCase.execute(authenticatedReq.user.id);
+
+    res.setHeader('Content-Disposition', 'attachment; filename="account-export.json"');
+    return res.status(200).json(archive);
+  }
+
+  static async deleteAccount(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    await deleteAccountUseCase.execute({
+      userId: authenticatedReq.user.id,
+      password: req.body.password,
+    });
+
+    return sendNoContent(res);
+  }
 }
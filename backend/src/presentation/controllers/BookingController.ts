@@ -1,14 +1,33 @@
 import { Request, Response } from 'express';
 import {
   CreateBookingUseCase,
+  QuoteBookingUseCase,
+  ModifyBookingUseCase,
   GetBookingsUseCase,
   GetBookingByIdUseCase,
   CancelBookingUseCase,
+  GetCancellationPreviewUseCase,
+  GetBookingInvoiceUseCase,
 } from '../../application/use-cases/booking/index.js';
+import { CreatePaymentUseCase } from '../../application/use-cases/payment/index.js';
 import { BookingRepository } from '../../infrastructure/repositories/BookingRepository.js';
 import { CarRepository } from '../../infrastructure/repositories/CarRepository.js';
 import { LocationRepository } from '../../infrastructure/repositories/LocationRepository.js';
 import { AddonRepository } from '../../infrastructure/repositories/AddonRepository.js';
+import { AuditLogRepository } from '../../infrastructure/repositories/AuditLogRepository.js';
+import { LocationFeeRepository } from '../../infrastructure/repositories/LocationFeeRepository.js';
+import { PricingRuleRepository } from '../../infrastructure/repositories/PricingRuleRepository.js';
+import { ChargeRuleRepository } from '../../infrastructure/repositories/ChargeRuleRepository.js';
+import { PromoCodeRepository } from '../../infrastructure/repositories/PromoCodeRepository.js';
+import { UserRepository } from '../../infrastructure/repositories/UserRepository.js';
+import { PaymentRepository } from '../../infrastructure/repositories/PaymentRepository.js';
+import { InvoiceRepository } from '../../infrastructure/repositories/InvoiceRepository.js';
+import { getPaymentGateway } from '../../infrastructure/payments/index.js';
+import { PricingService } from '../../application/services/PricingService.js';
+import { BookingQuoteService } from '../../application/services/BookingQuoteService.js';
+import { CancellationPolicy } from '../../application/services/CancellationPolicy.js';
+import { PaymentService } from '../../application/services/PaymentService.js';
+import { InvoiceService } from '../../application/services/InvoiceService.js';
 import { sendSuccess, sendCreated } from '../../shared/utils/response.js';
 import { parsePagination } from '../../shared/utils/pagination.js';
 import { AuthenticatedRequest } from '../../shared/types/index.js';
@@ -19,17 +38,54 @@ const bookingRepository = new BookingRepository();
 const carRepository = new CarRepository();
 const locationRepository = new LocationRepository();
 const addonRepository = new AddonRepository();
+const auditLogRepository = new AuditLogRepository();
+const userRepository = new UserRepository();
+const paymentRepository = new PaymentRepository();
+const invoiceRepository = new InvoiceRepository();
+const pricingService = new PricingService(new PricingRuleRepository());
+const bookingQuoteService = new BookingQuoteService(
+  carRepository,
+  locationRepository,
+  addonRepository,
+  new LocationFeeRepository(),
+  new ChargeRuleRepository(),
+  new PromoCodeRepository(),
+  pricingService
+);
+const paymentService = new PaymentService(
+  paymentRepository,
+  bookingRepository,
+  auditLogRepository,
+  getPaymentGateway()
+);
 
 // Initialize use cases
 const createBookingUseCase = new CreateBookingUseCase(
   bookingRepository,
   carRepository,
-  locationRepository,
-  addonRepository
+  addonRepository,
+  bookingQuoteService,
+  userRepository
+);
+const quoteBookingUseCase = new QuoteBookingUseCase(bookingQuoteService);
+const modifyBookingUseCase = new ModifyBookingUseCase(
+  bookingRepository,
+  carRepository,
+  addonRepository,
+  auditLogRepository,
+  bookingQuoteService,
+  invoiceRepository
 );
 const getBookingsUseCase = new GetBookingsUseCase(bookingRepository);
 const getBookingByIdUseCase = new GetBookingByIdUseCase(bookingRepository);
-const cancelBookingUseCase = new CancelBookingUseCase(bookingRepository);
+const cancellationPolicy = new CancellationPolicy();
+const cancelBookingUseCase = new CancelBookingUseCase(bookingRepository, cancellationPolicy, paymentService);
+const getCancellationPreviewUseCase = new GetCancellationPreviewUseCase(bookingRepository, cancellationPolicy);
+const createPaymentUseCase = new CreatePaymentUseCase(bookingRepository, paymentRepository, paymentService);
+const getBookingInvoiceUseCase = new GetBookingInvoiceUseCase(
+  bookingRepository,
+  new InvoiceService(invoiceRepository)
+);
 
 export class BookingController {
   static async createBooking(req: Request, res: Response): Promise<Response> {
@@ -45,6 +101,12 @@ export class BookingController {
     return sendCreated(res, booking);
   }
 
+  static async quoteBooking(req: Request, res: Response): Promise<Response> {
+    const quote = await quoteBookingUseCase.execute(req.body);
+
+    return sendSuccess(res, quote);
+  }
+
   static async getBookings(req: Request, res: Response): Promise<Response> {
     const authenticatedReq = req as AuthenticatedRequest;
     const userId = authenticatedReq.user.id;
@@ -88,6 +150,45 @@ export class BookingController {
     return sendSuccess(res, booking);
   }
 
+  static async modifyBooking(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const userId = authenticatedReq.user.id;
+    const { id } = req.params as { id: string };
+
+    const result = await modifyBookingUseCase.execute({
+      bookingId: id,
+      userId,
+      ...req.body,
+    });
+
+    return sendSuccess(res, result);
+  }
+
+  static async getCancellationPreview(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const userId = authenticatedReq.user.id;
+    const userRole = authenticatedReq.user.role;
+    const { id } = req.params as { id: string };
+
+    const preview = await getCancellationPreviewUseCase.execute(id, userId, userRole);
+
+    return sendSuccess(res, preview);
+  }
+
+  static async getInvoicePdf(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const userId = authenticatedReq.user.id;
+    const userRole = authenticatedReq.user.role;
+    const { id } = req.params as { id: string };
+
+    const invoice = await getBookingInvoiceUseCase.execute(id, userId, userRole);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${invoice.filename}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).send(invoice.data);
+  }
+
   static async cancelBooking(req: Request, res: Response): Promise<Response> {
     const authenticatedReq = req as AuthenticatedRequest;
     const userId = authenticatedReq.user.id;
@@ -104,4 +205,20 @@ export class BookingController {
 
     return sendSuccess(res, booking);
   }
+
+  static async createPayment(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const userId = authenticatedReq.user.id;
+    const userRole = authenticatedReq.user.role;
+    const { id } = req.params as { id: string };
+
+    const result = await createPaymentUseCase.execute({
+      bookingId: id,
+      userId,
+      userRole,
+      ...req.body,
+    });
+
+    return sendCreated(res, result);
+  }
 }
@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import {
+  GetCarBlackoutsUseCase,
+  CreateCarBlackoutUseCase,
+  DeleteCarBlackoutUseCase,
+} from '../../application/use-cases/car/index.js';
+import { CarRepository } from '../../infrastructure/repositories/CarRepository.js';
+import { BookingRepository } from '../../infrastructure/repositories/BookingRepository.js';
+import { CarBlackoutRepository } from '../../infrastructure/repositories/CarBlackoutRepository.js';
+import { AuditLogRepository } from '../../infrastructure/repositories/AuditLogRepository.js';
+import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.js';
+import { AuthenticatedRequest } from '../../shared/types/index.js';
+
+const carRepository = new CarRepository();
+const bookingRepository = new BookingRepository();
+const carBlackoutRepository = new CarBlackoutRepository();
+const auditLogRepository = new AuditLogRepository();
+
+const getCarBlackoutsUseCase = new GetCarBlackoutsUseCase(carRepository, carBlackoutRepository);
+const createCarBlackoutUseCase = new CreateCarBlackoutUseCase(
+  carRepository,
+  bookingRepository,
+  carBlackoutRepository,
+  auditLogRepository
+);
+const deleteCarBlackoutUseCase = new DeleteCarBlackoutUseCase(carBlackoutRepository, auditLogRepository);
+
+export class CarBlackoutController {
+  static async getBlackouts(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const blackouts = await getCarBlackoutsUseCase.execute(id);
+
+    return sendSuccess(res, blackouts);
+  }
+
+  static async createBlackout(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { id } = req.params as { id: string };
+
+    const result = await createCarBlackoutUseCase.execute({
+      carId: id,
+      adminId: authenticatedReq.user.id,
+      ...req.body,
+    });
+
+    return sendCreated(res, result);
+  }
+
+  static async deleteBlackout(req: Request, res: Response): Promise<Response> {
+    const authenticatedReq = req as AuthenticatedRequest;
+    const { id, blackoutId } = req.params as { id: string; blackoutId: string };
+
+    await deleteCarBlackoutUseCase.execute(id, blackoutId, authenticatedReq.user.id);
+
+    return sendNoContent(res);
+  }
+}
@@ -4,10 +4,16 @@ import {
   GetCarByIdUseCase,
   CreateCarUseCase,
   UpdateCarUseCase,
+  GetCarPriceUseCase,
 } from '../../application/use-cases/car/index.js';
 import { CheckAvailabilityUseCase } from '../../application/use-cases/car/CheckAvailabilityUseCase.js';
 import { CarRepository } from '../../infrastructure/repositories/CarRepository.js';
 import { BookingRepository } from '../../infrastructure/repositories/BookingRepository.js';
+import { CarBlackoutRepository } from '../../infrastructure/repositories/CarBlackoutRepository.js';
+import { LocationRepository } from '../../infrastructure/repositories/LocationRepository.js';
+import { PricingRuleRepository } from '../../infrastructure/repositories/PricingRuleRepository.js';
+import { PricingService } from '../../application/services/PricingService.js';
+import { ValidationError } from '../../domain/errors/index.js';
 import { sendSuccess, sendCreated } from '../../shared/utils/response.js';
 import { parsePagination } from '../../shared/utils/pagination.js';
 import { CarFilters, CarSortOptions } from '../../domain/repositories/index.js';
@@ -15,11 +21,18 @@ import { CarFilters, CarSortOptions } from '../../domain/repositories/index.js';
 // Initialize repository and use cases
 const carRepository = new CarRepository();
 const bookingRepository = new BookingRepository();
+const locationRepository = new LocationRepository();
+const pricingService = new PricingService(new PricingRuleRepository());
 const getCarsUseCase = new GetCarsUseCase(carRepository);
 const getCarByIdUseCase = new GetCarByIdUseCase(carRepository);
-const createCarUseCase = new CreateCarUseCase(carRepository);
-const updateCarUseCase = new UpdateCarUseCase(carRepository);
-const checkAvailabilityUseCase = new CheckAvailabilityUseCase(carRepository, bookingRepository);
+const createCarUseCase = new CreateCarUseCase(carRepository, locationRepository);
+const updateCarUseCase = new UpdateCarUseCase(carRepository, locationRepository);
+const checkAvailabilityUseCase = new CheckAvailabilityUseCase(
+  carRepository,
+  bookingRepository,
+  new CarBlackoutRepository()
+);
+const getCarPriceUseCase = new GetCarPriceUseCase(carRepository, pricingService);
 
 export class CarController {
   static async getCars(req: Request, res: Response): Promise<Response> {
@@ -41,6 +54,7 @@ export class CarController {
       priceMax: query.priceMax ? Number(query.priceMax) : undefined,
       startDate: query.startDate ? new Date(query.startDate as string) : undefined,
       endDate: query.endDate ? new Date(query.endDate as string) : undefined,
+      pickupLocationId: query.pickupLocationId as string | undefined,
       status: 'ACTIVE', // Only show active cars
     };
 
@@ -119,4 +133,27 @@ export class CarController {
 
     return sendSuccess(res, result);
   }
+
+  static async getCarPrice(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+    const query = req.query;
+
+    const startDate = query.startDate ? new Date(query.startDate as string) : null;
+    const endDate = query.endDate ? new Date(query.endDate as string) : null;
+
+    if (!startDate || !endDate || isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new ValidationError('Both startDate and endDate are required', [
+        { field: 'startDate', message: 'A valid startDate is required' },
+        { field: 'endDate', message: 'A valid endDate is required' },
+      ]);
+    }
+
+    const result = await getCarPriceUseCase.execute({
+      carId: id,
+      startDate,
+      endDate,
+    });
+
+    return sendSuccess(res, result);
+  }
 }
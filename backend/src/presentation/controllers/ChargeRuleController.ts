@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import {
+  GetChargeRulesUseCase,
+  CreateChargeRuleUseCase,
+  UpdateChargeRuleUseCase,
+  DeleteChargeRuleUseCase,
+} from '../../application/use-cases/pricing/index.js';
+import { ChargeRuleRepository } from '../../infrastructure/repositories/ChargeRuleRepository.js';
+import { LocationRepository } from '../../infrastructure/repositories/LocationRepository.js';
+import { AddonRepository } from '../../infrastructure/repositories/AddonRepository.js';
+import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.js';
+import { ChargeRuleFilters } from '../../domain/repositories/index.js';
+
+const chargeRuleRepository = new ChargeRuleRepository();
+const locationRepository = new LocationRepository();
+const addonRepository = new AddonRepository();
+
+const getChargeRulesUseCase = new GetChargeRulesUseCase(chargeRuleRepository);
+const createChargeRuleUseCase = new CreateChargeRuleUseCase(chargeRuleRepository, locationRepository, addonRepository);
+const updateChargeRuleUseCase = new UpdateChargeRuleUseCase(chargeRuleRepository, locationRepository, addonRepository);
+const deleteChargeRuleUseCase = new DeleteChargeRuleUseCase(chargeRuleRepository);
+
+export class ChargeRuleController {
+  static async getChargeRules(req: Request, res: Response): Promise<Response> {
+    // Parsed by chargeRuleQuerySchema
+    const filters = req.query as ChargeRuleFilters;
+
+    const rules = await getChargeRulesUseCase.execute(filters);
+
+    return sendSuccess(res, rules);
+  }
+
+  static async createChargeRule(req: Request, res: Response): Promise<Response> {
+    const rule = await createChargeRuleUseCase.execute(req.body);
+
+    return sendCreated(res, rule);
+  }
+
+  static async updateChargeRule(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const rule = await updateChargeRuleUseCase.execute(id, req.body);
+
+    return sendSuccess(res, rule);
+  }
+
+  static async deleteChargeRule(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    await deleteChargeRuleUseCase.execute(id);
+
+    return sendNoContent(res);
+  }
+}
@@ -0,0 +1,26 @@
+import { Request, Response } from 'express';
+import { CarType } from '@prisma/client';
+import { GetCarTypeDepositsUseCase, SetCarTypeDepositUseCase } from '../../application/use-cases/pricing/index.js';
+import { DepositRepository } from '../../infrastructure/repositories/DepositRepository.js';
+import { sendSuccess } from '../../shared/utils/response.js';
+
+const depositRepository = new DepositRepository();
+
+const getCarTypeDepositsUseCase = new GetCarTypeDepositsUseCase(depositRepository);
+const setCarTypeDepositUseCase = new SetCarTypeDepositUseCase(depositRepository);
+
+export class DepositController {
+  static async getCarTypeDeposits(_req: Request, res: Response): Promise<Response> {
+    const deposits = await getCarTypeDepositsUseCase.execute();
+
+    return sendSuccess(res, deposits);
+  }
+
+  static async setCarTypeDeposit(req: Request, res: Response): Promise<Response> {
+    const { carType } = req.params as { carType: CarType };
+
+    const deposit = await setCarTypeDepositUseCase.execute(carType, req.body);
+
+    return sendSuccess(res, deposit);
+  }
+}
@@ -1,11 +1,19 @@
 import { Request, Response } from 'express';
-import { GetLocationsUseCase } from '../../application/use-cases/location/GetLocationsUseCase.js';
+import {
+  GetLocationsUseCase,
+  CreateLocationUseCase,
+  UpdateLocationUseCase,
+  DeactivateLocationUseCase,
+} from '../../application/use-cases/location/index.js';
 import { LocationRepository } from '../../infrastructure/repositories/LocationRepository.js';
-import { sendSuccess } from '../../shared/utils/response.js';
+import { sendSuccess, sendCreated } from '../../shared/utils/response.js';
 
-// Initialize repository and use case
+// Initialize repository and use cases
 const locationRepository = new LocationRepository();
 const getLocationsUseCase = new GetLocationsUseCase(locationRepository);
+const createLocationUseCase = new CreateLocationUseCase(locationRepository);
+const updateLocationUseCase = new UpdateLocationUseCase(locationRepository);
+const deactivateLocationUseCase = new DeactivateLocationUseCase(locationRepository);
 
 export class LocationController {
   static async getLocations(req: Request, res: Response): Promise<Response> {
@@ -13,4 +21,33 @@ export class LocationController {
 
     return sendSuccess(res, locations);
   }
+
+  // Admin: includes deactivated locations
+  static async getAllLocations(req: Request, res: Response): Promise<Response> {
+    const locations = await getLocationsUseCase.execute(false);
+
+    return sendSuccess(res, locations);
+  }
+
+  static async createLocation(req: Request, res: Response): Promise<Response> {
+    const location = await createLocationUseCase.execute(req.body);
+
+    return sendCreated(res, location);
+  }
+
+  static async updateLocation(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const location = await updateLocationUseCase.execute(id, req.body);
+
+    return sendSuccess(res, location);
+  }
+
+  static async deactivateLocation(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const location = await deactivateLocationUseCase.execute(id);
+
+    return sendSuccess(res, location);
+  }
 }
@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import {
+  GetLocationFeesUseCase,
+  CreateLocationFeeUseCase,
+  UpdateLocationFeeUseCase,
+  DeleteLocationFeeUseCase,
+} from '../../application/use-cases/pricing/index.js';
+import { LocationFeeRepository } from '../../infrastructure/repositories/LocationFeeRepository.js';
+import { LocationRepository } from '../../infrastructure/repositories/LocationRepository.js';
+import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.js';
+import { LocationFeeFilters } from '../../domain/repositories/index.js';
+
+const locationFeeRepository = new LocationFeeRepository();
+const locationRepository = new LocationRepository();
+
+const getLocationFeesUseCase = new GetLocationFeesUseCase(locationFeeRepository);
+const createLocationFeeUseCase = new CreateLocationFeeUseCase(locationFeeRepository, locationRepository);
+const updateLocationFeeUseCase = new UpdateLocationFeeUseCase(locationFeeRepository);
+const deleteLocationFeeUseCase = new DeleteLocationFeeUseCase(locationFeeRepository);
+
+export class LocationFeeController {
+  static async getLocationFees(req: Request, res: Response): Promise<Response> {
+    const query = req.query;
+
+    const filters: LocationFeeFilters = {
+      pickupLocationId: query.pickupLocationId as string | undefined,
+      dropoffLocationId: query.dropoffLocationId as string | undefined,
+    };
+
+    const fees = await getLocationFeesUseCase.execute(filters);
+
+    return sendSuccess(res, fees);
+  }
+
+  static async createLocationFee(req: Request, res: Response): Promise<Response> {
+    const fee = await createLocationFeeUseCase.execute(req.body);
+
+    return sendCreated(res, fee);
+  }
+
+  static async updateLocationFee(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const fee = await updateLocationFeeUseCase.execute(id, req.body);
+
+    return sendSuccess(res, fee);
+  }
+
+  static async deleteLocationFee(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    await deleteLocationFeeUseCase.execute(id);
+
+    return sendNoContent(res);
+  }
+}
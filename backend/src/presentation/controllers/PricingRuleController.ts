@@ -0,0 +1,52 @@
+import { Request, Response } from 'express';
+import {
+  GetPricingRulesUseCase,
+  CreatePricingRuleUseCase,
+  UpdatePricingRuleUseCase,
+  DeletePricingRuleUseCase,
+} from '../../application/use-cases/pricing/index.js';
+import { PricingRuleRepository } from '../../infrastructure/repositories/PricingRuleRepository.js';
+import { CarRepository } from '../../infrastructure/repositories/CarRepository.js';
+import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.js';
+import { PricingRuleFilters } from '../../domain/repositories/index.js';
+
+const pricingRuleRepository = new PricingRuleRepository();
+const carRepository = new CarRepository();
+
+const getPricingRulesUseCase = new GetPricingRulesUseCase(pricingRuleRepository);
+const createPricingRuleUseCase = new CreatePricingRuleUseCase(pricingRuleRepository, carRepository);
+const updatePricingRuleUseCase = new UpdatePricingRuleUseCase(pricingRuleRepository, carRepository);
+const deletePricingRuleUseCase = new DeletePricingRuleUseCase(pricingRuleRepository);
+
+export class PricingRuleController {
+  static async getPricingRules(req: Request, res: Response): Promise<Response> {
+    // Parsed by pricingRuleQuerySchema
+    const filters = req.query as PricingRuleFilters;
+
+    const rules = await getPricingRulesUseCase.execute(filters);
+
+    return sendSuccess(res, rules);
+  }
+
+  static async createPricingRule(req: Request, res: Response): Promise<Response> {
+    const rule = await createPricingRuleUseCase.execute(req.body);
+
+    return sendCreated(res, rule);
+  }
+
+  static async updatePricingRule(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const rule = await updatePricingRuleUseCase.execute(id, req.body);
+
+    return sendSuccess(res, rule);
+  }
+
+  static async deletePricingRule(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    await deletePricingRuleUseCase.execute(id);
+
+    return sendNoContent(res);
+  }
+}
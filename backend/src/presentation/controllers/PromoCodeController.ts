@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import {
+  GetPromoCodesUseCase,
+  CreatePromoCodeUseCase,
+  UpdatePromoCodeUseCase,
+  GetPromoCodeRedemptionsUseCase,
+} from '../../application/use-cases/pricing/index.js';
+import { PromoCodeRepository } from '../../infrastructure/repositories/PromoCodeRepository.js';
+import { CarRepository } from '../../infrastructure/repositories/CarRepository.js';
+import { sendSuccess, sendCreated } from '../../shared/utils/response.js';
+import { PromoCodeFilters } from '../../domain/repositories/index.js';
+
+const promoCodeRepository = new PromoCodeRepository();
+const carRepository = new CarRepository();
+
+const getPromoCodesUseCase = new GetPromoCodesUseCase(promoCodeRepository);
+const createPromoCodeUseCase = new CreatePromoCodeUseCase(promoCodeRepository, carRepository);
+const updatePromoCodeUseCase = new UpdatePromoCodeUseCase(promoCodeRepository, carRepository);
+const getPromoCodeRedemptionsUseCase = new GetPromoCodeRedemptionsUseCase(promoCodeRepository);
+
+export class PromoCodeController {
+  static async getPromoCodes(req: Request, res: Response): Promise<Response> {
+    const query = req.query;
+
+    const filters: PromoCodeFilters = {
+      isActive: query.isActive !== undefined ? query.isActive === 'true' : undefined,
+    };
+
+    const promoCodes = await getPromoCodesUseCase.execute(filters);
+
+    return sendSuccess(res, promoCodes);
+  }
+
+  static async createPromoCode(req: Request, res: Response): Promise<Response> {
+    const promoCode = await createPromoCodeUseCase.execute(req.body);
+
+    return sendCreated(res, promoCode);
+  }
+
+  static async updatePromoCode(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const promoCode = await updatePromoCodeUseCase.execute(id, req.body);
+
+    return sendSuccess(res, promoCode);
+  }
+
+  static async getRedemptionReport(req: Request, res: Response): Promise<Response> {
+    const query = req.query;
+
+    const report = await getPromoCodeRedemptionsUseCase.execute({
+      from: query.from ? new Date(query.from as string) : undefined,
+      to: query.to ? new Date(query.to as string) : undefined,
+    });
+
+    return sendSuccess(res, report);
+  }
+}
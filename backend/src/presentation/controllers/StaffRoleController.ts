@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import {
+  GetStaffRolesUseCase,
+  CreateStaffRoleUseCase,
+  UpdateStaffRoleUseCase,
+  DeleteStaffRoleUseCase,
+} from '../../application/use-cases/staff-role/index.js';
+import { StaffRoleRepository } from '../../infrastructure/repositories/StaffRoleRepository.js';
+import { sendSuccess, sendCreated, sendNoContent } from '../../shared/utils/response.js';
+import { PERMISSIONS } from '../../shared/constants/index.js';
+
+const staffRoleRepository = new StaffRoleRepository();
+
+const getStaffRolesUseCase = new GetStaffRolesUseCase(staffRoleRepository);
+const createStaffRoleUseCase = new CreateStaffRoleUseCase(staffRoleRepository);
+const updateStaffRoleUseCase = new UpdateStaffRoleUseCase(staffRoleRepository);
+const deleteStaffRoleUseCase = new DeleteStaffRoleUseCase(staffRoleRepository);
+
+export class StaffRoleController {
+  static async getPermissions(req: Request, res: Response): Promise<Response> {
+    return sendSuccess(res, PERMISSIONS);
+  }
+
+  static async getStaffRoles(req: Request, res: Response): Promise<Response> {
+    const roles = await getStaffRolesUseCase.execute();
+
+    return sendSuccess(res, roles);
+  }
+
+  static async createStaffRole(req: Request, res: Response): Promise<Response> {
+    const role = await createStaffRoleUseCase.execute(req.body);
+
+    return sendCreated(res, role);
+  }
+
+  static async updateStaffRole(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    const role = await updateStaffRoleUseCase.execute(id, req.body);
+
+    return sendSuccess(res, role);
+  }
+
+  static async deleteStaffRole(req: Request, res: Response): Promise<Response> {
+    const { id } = req.params as { id: string };
+
+    await deleteStaffRoleUseCase.execute(id);
+
+    return sendNoContent(res);
+  }
+}
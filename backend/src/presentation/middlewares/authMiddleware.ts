@@ -4,6 +4,7 @@ import { UnauthorizedError, ForbiddenError } from '../../domain/errors/index.js'
 import { AuthenticatedRequest } from '../../shared/types/index.js';
 import { UserRole } from '../../domain/entities/index.js';
 import { UserRepository } from '../../infrastructure/repositories/UserRepository.js';
+import { Permission, resolvePermissions, resolveBranchScope } from '../../shared/constants/index.js';
 
 const userRepository = new UserRepository();
 
@@ -25,16 +26,19 @@ export async function authenticate(
     const payload = verifyToken(token);
 
     // Verify user still exists
-    const user = await userRepository.findById(payload.userId);
-    if (!user) {
+    const user = await userRepository.findByIdWithStaffAccess(payload.userId);
+    if (!user || user.deletedAt) {
       throw new UnauthorizedError('User not found', 'UNAUTHORIZED');
     }
 
-    // Attach user to request
+    // Attach user to request. Role and permissions come from the database so that
+    // changes to a user's role apply without waiting for their token to expire
     (req as AuthenticatedRequest).user = {
       id: payload.userId,
       email: payload.email,
-      role: payload.role,
+      role: user.role,
+      permissions: resolvePermissions(user.role, user.staffRole?.permissions),
+      locationIds: resolveBranchScope(user.role, user.staffLocations?.map((staffLocation) => staffLocation.locationId)),
     };
 
     next();
@@ -43,6 +47,18 @@ export async function authenticate(
   }
 }
 
+// For routes used both to finish a login, with a two-factor challenge token, and by signed-in users
+export async function authenticateUnlessChallenge(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (req.body?.challengeToken) {
+    return next();
+  }
+  return authenticate(req, res, next);
+}
+
 export function requireRole(...roles: UserRole[]) {
   return (req: Request, res: Response, next: NextFunction): void => {
     const authenticatedReq = req as AuthenticatedRequest;
@@ -62,3 +78,20 @@ export function requireRole(...roles: UserRole[]) {
 export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
   return requireRole(UserRole.ADMIN)(req, res, next);
 }
+
+// Allows the request if the user holds any of the given permissions
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const authenticatedReq = req as AuthenticatedRequest;
+
+    if (!authenticatedReq.user) {
+      return next(new UnauthorizedError('Authentication required', 'UNAUTHORIZED'));
+    }
+
+    if (!permissions.some((permission) => authenticatedReq.user.permissions.includes(permission))) {
+      return next(new ForbiddenError('Insufficient permissions', { required: permissions }));
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { IdempotencyKey } from '../../domain/entities/index.js';
+import { ConflictError, UnprocessableEntityError, ValidationError } from '../../domain/errors/index.js';
+import { AuthenticatedRequest } from '../../shared/types/index.js';
+import { IdempotencyKeyRepository } from '../../infrastructure/repositories/IdempotencyKeyRepository.js';
+import logger from '../../infrastructure/logger/index.js';
+
+const idempotencyKeyRepository = new IdempotencyKeyRepository();
+
+const IDEMPOTENCY_KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10);
+const IDEMPOTENCY_LOCK_TIMEOUT_SECONDS = parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS || '60', 10);
+const MAX_KEY_LENGTH = 255;
+
+// Fingerprint of the request a key was first used with
+function hashRequest(req: Request): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ method: req.method, path: req.baseUrl + req.path, body: req.body ?? null }))
+    .digest('hex');
+}
+
+// Expired keys, and keys whose request never stored a response (crashed or
+// aborted server side), can be claimed again
+function isStale(record: IdempotencyKey, now: Date): boolean {
+  if (record.expiresAt <= now) return true;
+  return (
+    record.statusCode === null &&
+    record.createdAt.getTime() <= now.getTime() - IDEMPOTENCY_LOCK_TIMEOUT_SECONDS * 1000
+  );
+}
+
+function replay(record: IdempotencyKey, requestHash: string, res: Response): void {
+  if (record.requestHash !== requestHash) {
+    throw new UnprocessableEntityError(
+      'Idempotency-Key has already been used with a different request',
+      'IDEMPOTENCY_KEY_REUSED'
+    );
+  }
+
+  if (record.statusCode === null) {
+    throw new ConflictError(
+      'A request with this Idempotency-Key is still being processed',
+      'IDEMPOTENCY_KEY_IN_USE'
+    );
+  }
+
+  res.set('Idempotent-Replayed', 'true');
+  if (record.responseBody === null) {
+    res.status(record.statusCode).send();
+    return;
+  }
+  res.status(record.statusCode).json(record.responseBody);
+}
+
+/**
+ * Makes a route safe to retry when the client sends an Idempotency-Key header.
+ * The first response for a key is stored per user and replayed for retries with
+ * the same body; reusing the key with a different body is rejected with 422.
+ * A key that never got a response within the lock timeout is released.
+ * Must run after authenticate.
+ */
+export async function idempotency(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const key = req.get('Idempotency-Key');
+  if (!key) {
+    return next();
+  }
+
+  try {
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new ValidationError('Invalid Idempotency-Key header', [
+        { field: 'Idempotency-Key', message: `Must be at most ${MAX_KEY_LENGTH} characters` },
+      ]);
+    }
+
+    const userId = (req as AuthenticatedRequest).user.id;
+    const requestHash = hashRequest(req);
+
+    let existing = await idempotencyKeyRepository.findByKey(userId, key);
+    if (existing && isStale(existing, new Date())) {
+      await idempotencyKeyRepository.delete(existing.id);
+      existing = null;
+    }
+    if (existing) {
+      return replay(existing, requestHash, res);
+    }
+
+    const record = await idempotencyKeyRepository.create({
+      key,
+      userId,
+      requestHash,
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+    });
+    if (!record) {
+      // Lost the race to a concurrent request with the same key
+      const winner = await idempotencyKeyRepository.findByKey(userId, key);
+      if (!winner) {
+        throw new ConflictError('A request with this Idempotency-Key is still being processed', 'IDEMPOTENCY_KEY_IN_USE');
+      }
+      return replay(winner, requestHash, res);
+    }
+
+    // Capture the response so retries get exactly the same answer
+    let responseBody: unknown = null;
+    let stored = false;
+    const store = () => {
+      // Nothing to store until the route has answered
+      if (stored || !res.headersSent) return;
+      stored = true;
+
+      // Server errors are not stored so the client can retry them
+      const persist =
+        res.statusCode >= 500
+          ? idempotencyKeyRepository.delete(record.id)
+          : idempotencyKeyRepository.saveResponse(record.id, res.statusCode, responseBody);
+
+      persist.catch((error: Error) => {
+        logger.error('Failed to store idempotent response', { error: error.message, key });
+      });
+    };
+
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      const result = json(body);
+      // 'finish' never fires if the client disconnected before the route answered
+      if (res.destroyed) store();
+      return result;
+    };
+
+    res.on('finish', store);
+    res.on('close', store);
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,5 +1,6 @@
 export { errorHandler } from './errorHandler.js';
 export { asyncHandler } from './asyncHandler.js';
 export { validateRequest, validateBody, validateQuery, validateParams } from './validateRequest.js';
-export { authenticate, requireRole, requireAdmin } from './authMiddleware.js';
+export { authenticate, authenticateUnlessChallenge, requireRole, requireAdmin, requirePermission } from './authMiddleware.js';
 export { apiLimiter, authLimiter, bookingLimiter } from './rateLimiter.js';
+export { idempotency } from './idempotency.js';
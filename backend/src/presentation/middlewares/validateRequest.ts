@@ -14,7 +14,8 @@ export function validateRequest(schema: ValidationSchema) {
       if (schema.body) req.body = await schema.body.parseAsync(req.body);
       if (schema.query) {
         const validatedQuery = await schema.query.parseAsync(req.query);
-        (req as any).query = validatedQuery;
+        // Express 5 only defines a getter for req.query, so it cannot be assigned
+        Object.defineProperty(req, 'query', { value: validatedQuery, writable: true, configurable: true, enumerable: true });
       }
       if (schema.params) req.params = await schema.params.parseAsync(req.params);
       next();
@@ -1,14 +1,51 @@
 import { Router } from 'express';
 import { AdminController } from '../controllers/AdminController.js';
-import { asyncHandler, validateParams, validateBody, authenticate, requireAdmin } from '../middlewares/index.js';
-import { updateBookingStatusSchema } from '../validators/adminValidators.js';
+import { PricingRuleController } from '../controllers/PricingRuleController.js';
+import { CarBlackoutController } from '../controllers/CarBlackoutController.js';
+import { LocationFeeController } from '../controllers/LocationFeeController.js';
+import { DepositController } from '../controllers/DepositController.js';
+import { ChargeRuleController } from '../controllers/ChargeRuleController.js';
+import { PromoCodeController } from '../controllers/PromoCodeController.js';
+import { LocationController } from '../controllers/LocationController.js';
+import { AddonController } from '../controllers/AddonController.js';
+import { StaffRoleController } from '../controllers/StaffRoleController.js';
+import { asyncHandler, validateParams, validateBody, validateQuery, authenticate, requireAdmin, requirePermission, idempotency } from '../middlewares/index.js';
+import {
+  updateBookingStatusSchema,
+  userIdSchema,
+  assignUserRoleSchema,
+  assignStaffLocationsSchema,
+  reviewDriverVerificationSchema,
+} from '../validators/adminValidators.js';
 import { bookingIdSchema } from '../validators/bookingValidators.js';
+import {
+  createPricingRuleSchema,
+  updatePricingRuleSchema,
+  pricingRuleIdSchema,
+  pricingRuleQuerySchema,
+  createLocationFeeSchema,
+  updateLocationFeeSchema,
+  locationFeeIdSchema,
+  setCarTypeDepositSchema,
+  carTypeParamSchema,
+  createChargeRuleSchema,
+  updateChargeRuleSchema,
+  chargeRuleIdSchema,
+  chargeRuleQuerySchema,
+  createPromoCodeSchema,
+  updatePromoCodeSchema,
+  promoCodeIdSchema,
+} from '../validators/pricingValidators.js';
+import { carIdSchema, createCarBlackoutSchema, carBlackoutIdSchema } from '../validators/carValidators.js';
+import { createLocationSchema, updateLocationSchema, locationIdSchema } from '../validators/locationValidators.js';
+import { createAddonSchema, updateAddonSchema, addonIdSchema } from '../validators/addonValidators.js';
+import { createStaffRoleSchema, updateStaffRoleSchema, staffRoleIdSchema } from '../validators/staffRoleValidators.js';
 
 const router = Router();
 
-// All admin routes require authentication and admin role
+// All admin routes require authentication; each route then checks its own permission,
+// so staff roles can be given parts of the back office
 router.use(authenticate);
-router.use(requireAdmin);
 
 /**
  * @swagger
@@ -25,10 +62,11 @@ router.use(requireAdmin);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Admin access required
+ *         description: Forbidden - Missing permission
  */
 router.get(
   '/dashboard',
+  requirePermission('analytics:read'),
   asyncHandler(AdminController.getDashboardStats)
 );
 
@@ -38,7 +76,7 @@ router.get(
  *   get:
  *     tags: [Admin]
  *     summary: Get all bookings with filters
- *     description: Retrieve all bookings in the system with filtering and pagination
+ *     description: Retrieve all bookings in the system with filtering and pagination. Staff assigned to branches only see bookings picked up or dropped off there.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -91,10 +129,11 @@ router.get(
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Admin access required
+ *         description: Forbidden - Missing permission
  */
 router.get(
   '/bookings',
+  requirePermission('booking:read'),
   asyncHandler(AdminController.getAllBookings)
 );
 
@@ -108,6 +147,13 @@ router.get(
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Retries with the same key and body replay the original response
  *       - in: path
  *         name: id
  *         required: true
@@ -128,23 +174,1586 @@ router.get(
  *               reason:
  *                 type: string
  *                 description: Optional reason for status change
+ *               depositPaymentMethod:
+ *                 type: string
+ *                 description: PICKED_UP only. Card to hold the deposit on; defaults to the card the booking was paid with
+ *                 example: fake_success
+ *               depositCapture:
+ *                 type: object
+ *                 description: RETURNED only. Part of the deposit kept for damages or fees; the rest is released
+ *                 required: [amount, reason]
+ *                 properties:
+ *                   amount:
+ *                     type: number
+ *                     example: 250000
+ *                   reason:
+ *                     type: string
+ *                     example: Scratched rear bumper
  *     responses:
  *       200:
  *         description: Booking status updated successfully
  *       400:
- *         description: Validation error
+ *         description: Validation error (e.g. no card to hold the deposit on, capture above the deposit)
  *       401:
  *         description: Unauthorized
+ *       402:
+ *         description: Deposit hold declined
  *       403:
- *         description: Forbidden - Admin access required
+ *         description: Forbidden - Missing permission or booking outside the user's branches
  *       404:
  *         description: Booking not found
+ *       409:
+ *         description: Pickup refused - driver not verified, license expires before return or driver under the car type's minimum age; or capture requested with no deposit held
+ *       422:
+ *         description: Idempotency-Key reused with a different request body
  */
 router.patch(
   '/bookings/:id/status',
+  requirePermission('booking:status:confirm', 'booking:status:pickup', 'booking:status:return', 'booking:status:cancel'),
   validateParams(bookingIdSchema),
   validateBody(updateBookingStatusSchema),
+  idempotency,
   asyncHandler(AdminController.updateBookingStatus)
 );
 
+/**
+ * @swagger
+ * /api/admin/users/{id}/unlock:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Unlock a user account
+ *     description: Clears a lockout caused by repeated failed logins and resets the failure count
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User unlocked
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  '/users/:id/unlock',
+  requirePermission('user:unlock'),
+  validateParams(userIdSchema),
+  asyncHandler(AdminController.unlockUser)
+);
+
+/**
+ * @swagger
+ * /api/admin/driver-verifications:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List driver license verifications
+ *     description: Customers whose driver license is in the given state, oldest submission first. Defaults to the review queue (PENDING).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [UNVERIFIED, PENDING, VERIFIED, REJECTED]
+ *           default: PENDING
+ *     responses:
+ *       200:
+ *         description: Users with their driver details
+ *       400:
+ *         description: Invalid status
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/driver-verifications',
+  requirePermission('driver:verify'),
+  asyncHandler(AdminController.getDriverVerifications)
+);
+
+/**
+ * @swagger
+ * /api/admin/driver-verifications/{id}/license-image:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Get a user's driver license photo
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ID
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The image file
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User has no license photo
+ */
+router.get(
+  '/driver-verifications/:id/license-image',
+  requirePermission('driver:verify'),
+  validateParams(userIdSchema),
+  asyncHandler(AdminController.getDriverLicenseImage)
+);
+
+/**
+ * @swagger
+ * /api/admin/driver-verifications/{id}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Approve or reject a driver license
+ *     description: Decides on a license awaiting review. Rejections need a note telling the customer what to fix.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ID
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [VERIFIED, REJECTED]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: License is not awaiting review
+ */
+router.patch(
+  '/driver-verifications/:id',
+  requirePermission('driver:verify'),
+  validateParams(userIdSchema),
+  validateBody(reviewDriverVerificationSchema),
+  asyncHandler(AdminController.reviewDriverVerification)
+);
+
+/**
+ * @swagger
+ * /api/admin/pricing-rules:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List pricing rules
+ *     description: Day-of-week multipliers and date-range overrides, scoped per car, per car type or fleet-wide
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: carId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: carType
+ *         schema:
+ *           type: string
+ *           enum: [SUV, SEDAN, HATCHBACK, MPV, VAN]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [DAY_OF_WEEK, DATE_RANGE]
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of pricing rules
+ *       400:
+ *         description: Validation error (unknown car type or rule type)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/pricing-rules',
+  requirePermission('pricing:write'),
+  validateQuery(pricingRuleQuerySchema),
+  asyncHandler(PricingRuleController.getPricingRules)
+);
+
+/**
+ * @swagger
+ * /api/admin/pricing-rules:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create a pricing rule
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, type, multiplier]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Weekend
+ *               type:
+ *                 type: string
+ *                 enum: [DAY_OF_WEEK, DATE_RANGE]
+ *               multiplier:
+ *                 type: number
+ *                 example: 1.2
+ *               carId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Scope the rule to one car
+ *               carType:
+ *                 type: string
+ *                 enum: [SUV, SEDAN, HATCHBACK, MPV, VAN]
+ *                 description: Scope the rule to a car type (omit both for fleet-wide)
+ *               daysOfWeek:
+ *                 type: array
+ *                 description: Required for DAY_OF_WEEK rules (0 = Sunday ... 6 = Saturday)
+ *                 items:
+ *                   type: integer
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Required for DATE_RANGE rules
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Required for DATE_RANGE rules (inclusive)
+ *               priority:
+ *                 type: integer
+ *                 description: Breaks ties between rules of the same type and scope
+ *     responses:
+ *       201:
+ *         description: Pricing rule created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Car not found
+ */
+router.post(
+  '/pricing-rules',
+  requirePermission('pricing:write'),
+  validateBody(createPricingRuleSchema),
+  asyncHandler(PricingRuleController.createPricingRule)
+);
+
+/**
+ * @swagger
+ * /api/admin/pricing-rules/{id}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Update a pricing rule
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Pricing rule updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Pricing rule not found
+ */
+router.patch(
+  '/pricing-rules/:id',
+  requirePermission('pricing:write'),
+  validateParams(pricingRuleIdSchema),
+  validateBody(updatePricingRuleSchema),
+  asyncHandler(PricingRuleController.updatePricingRule)
+);
+
+/**
+ * @swagger
+ * /api/admin/pricing-rules/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Delete a pricing rule
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Pricing rule deleted
+ *       404:
+ *         description: Pricing rule not found
+ */
+router.delete(
+  '/pricing-rules/:id',
+  requirePermission('pricing:write'),
+  validateParams(pricingRuleIdSchema),
+  asyncHandler(PricingRuleController.deletePricingRule)
+);
+
+/**
+ * @swagger
+ * /api/admin/locations:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List all locations, including deactivated ones
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Locations with opening hours and closure dates
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/locations',
+  requirePermission('location:write'),
+  asyncHandler(LocationController.getAllLocations)
+);
+
+/**
+ * @swagger
+ * /api/admin/locations:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create a location
+ *     description: >
+ *       Locations without opening hours are open every day. Bookings cannot be picked up
+ *       or dropped off on days a location is closed.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Bali Canggu
+ *               address:
+ *                 type: string
+ *               openingHours:
+ *                 type: array
+ *                 description: One entry per open day (0 = Sunday ... 6 = Saturday)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     dayOfWeek:
+ *                       type: integer
+ *                     opensAt:
+ *                       type: string
+ *                       example: "08:00"
+ *                     closesAt:
+ *                       type: string
+ *                       example: "20:00"
+ *               closures:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     date:
+ *                       type: string
+ *                       format: date-time
+ *                     reason:
+ *                       type: string
+ *                       example: Nyepi
+ *     responses:
+ *       201:
+ *         description: Location created
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: Location name already exists
+ */
+router.post(
+  '/locations',
+  requirePermission('location:write'),
+  validateBody(createLocationSchema),
+  asyncHandler(LocationController.createLocation)
+);
+
+/**
+ * @swagger
+ * /api/admin/locations/{id}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Update a location
+ *     description: openingHours and closures, when given, replace the existing lists
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Location updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Location not found
+ *       409:
+ *         description: Location name already exists
+ */
+router.patch(
+  '/locations/:id',
+  requirePermission('location:write'),
+  validateParams(locationIdSchema),
+  validateBody(updateLocationSchema),
+  asyncHandler(LocationController.updateLocation)
+);
+
+/**
+ * @swagger
+ * /api/admin/locations/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Deactivate a location
+ *     description: The location is hidden from customers and no longer accepts bookings; existing bookings keep it
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Location deactivated
+ *       404:
+ *         description: Location not found
+ */
+router.delete(
+  '/locations/:id',
+  requirePermission('location:write'),
+  validateParams(locationIdSchema),
+  asyncHandler(LocationController.deactivateLocation)
+);
+
+/**
+ * @swagger
+ * /api/admin/location-fees:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List one-way drop fees
+ *     description: Fee matrix charged when a car is returned at a different location than it was picked up
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: pickupLocationId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: dropoffLocationId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: List of location fees
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/location-fees',
+  requirePermission('pricing:write'),
+  asyncHandler(LocationFeeController.getLocationFees)
+);
+
+/**
+ * @swagger
+ * /api/admin/location-fees:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Set the drop fee for a pickup/dropoff location pair
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [pickupLocationId, dropoffLocationId, fee]
+ *             properties:
+ *               pickupLocationId:
+ *                 type: string
+ *                 format: uuid
+ *               dropoffLocationId:
+ *                 type: string
+ *                 format: uuid
+ *               fee:
+ *                 type: number
+ *                 example: 250000
+ *     responses:
+ *       201:
+ *         description: Location fee created
+ *       400:
+ *         description: Validation error (e.g. same pickup and dropoff location)
+ *       404:
+ *         description: Location not found
+ *       409:
+ *         description: A fee already exists for this location pair
+ */
+router.post(
+  '/location-fees',
+  requirePermission('pricing:write'),
+  validateBody(createLocationFeeSchema),
+  asyncHandler(LocationFeeController.createLocationFee)
+);
+
+/**
+ * @swagger
+ * /api/admin/location-fees/{id}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Change a drop fee
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [fee]
+ *             properties:
+ *               fee:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Location fee updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Location fee not found
+ */
+router.patch(
+  '/location-fees/:id',
+  requirePermission('pricing:write'),
+  validateParams(locationFeeIdSchema),
+  validateBody(updateLocationFeeSchema),
+  asyncHandler(LocationFeeController.updateLocationFee)
+);
+
+/**
+ * @swagger
+ * /api/admin/location-fees/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Delete a drop fee
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Location fee deleted
+ *       404:
+ *         description: Location fee not found
+ */
+router.delete(
+  '/location-fees/:id',
+  requirePermission('pricing:write'),
+  validateParams(locationFeeIdSchema),
+  asyncHandler(LocationFeeController.deleteLocationFee)
+);
+
+/**
+ * @swagger
+ * /api/admin/deposits:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List security deposit amounts per car type
+ *     description: Amount held on the customer's card at pickup; 0 means the car type takes no deposit
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Deposit amount of every car type
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/deposits',
+  requirePermission('pricing:write'),
+  asyncHandler(DepositController.getCarTypeDeposits)
+);
+
+/**
+ * @swagger
+ * /api/admin/deposits/{carType}:
+ *   put:
+ *     tags: [Admin]
+ *     summary: Set the security deposit of a car type
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: carType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [SEDAN, SUV, MPV, HATCHBACK, VAN]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 example: 1000000
+ *     responses:
+ *       200:
+ *         description: Deposit amount saved
+ *       400:
+ *         description: Validation error
+ */
+router.put(
+  '/deposits/:carType',
+  requirePermission('pricing:write'),
+  validateParams(carTypeParamSchema),
+  validateBody(setCarTypeDepositSchema),
+  asyncHandler(DepositController.setCarTypeDeposit)
+);
+
+/**
+ * @swagger
+ * /api/admin/charge-rules:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List tax and fee rules
+ *     description: Percentage or fixed charges added to bookings, scoped fleet-wide, per pickup location or per add-on
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [FEE, TAX]
+ *       - in: query
+ *         name: locationId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: addonId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of charge rules
+ *       400:
+ *         description: Validation error (unknown kind)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/charge-rules',
+  requirePermission('pricing:write'),
+  validateQuery(chargeRuleQuerySchema),
+  asyncHandler(ChargeRuleController.getChargeRules)
+);
+
+/**
+ * @swagger
+ * /api/admin/charge-rules:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create a tax or fee rule
+ *     description: Fees are charged on the booking subtotal, taxes on the subtotal plus fees. Add-on rules are charged on that add-on's price only.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, kind, calculation, rate]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: PPN
+ *               kind:
+ *                 type: string
+ *                 enum: [FEE, TAX]
+ *               calculation:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED]
+ *               rate:
+ *                 type: number
+ *                 example: 11
+ *                 description: Percent for PERCENTAGE rules, IDR per booking for FIXED rules
+ *               locationId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Charge only bookings picked up at this location
+ *               addonId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Charge only bookings with this add-on (omit both for fleet-wide)
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Charge rule created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Location or add-on not found
+ */
+router.post(
+  '/charge-rules',
+  requirePermission('pricing:write'),
+  validateBody(createChargeRuleSchema),
+  asyncHandler(ChargeRuleController.createChargeRule)
+);
+
+/**
+ * @swagger
+ * /api/admin/charge-rules/{id}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Update a tax or fee rule
+ *     description: Existing bookings keep the charges they were made with
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Charge rule updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Charge rule not found
+ */
+router.patch(
+  '/charge-rules/:id',
+  requirePermission('pricing:write'),
+  validateParams(chargeRuleIdSchema),
+  validateBody(updateChargeRuleSchema),
+  asyncHandler(ChargeRuleController.updateChargeRule)
+);
+
+/**
+ * @swagger
+ * /api/admin/charge-rules/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Delete a tax or fee rule
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Charge rule deleted
+ *       404:
+ *         description: Charge rule not found
+ */
+router.delete(
+  '/charge-rules/:id',
+  requirePermission('pricing:write'),
+  validateParams(chargeRuleIdSchema),
+  asyncHandler(ChargeRuleController.deleteChargeRule)
+);
+
+/**
+ * @swagger
+ * /api/admin/promo-codes:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List promo codes
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of promo codes, newest first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/promo-codes',
+  requirePermission('pricing:write'),
+  asyncHandler(PromoCodeController.getPromoCodes)
+);
+
+/**
+ * @swagger
+ * /api/admin/promo-codes:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create a promo code
+ *     description: The discount is taken off the rental price, before fees and taxes
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, discountType, discountValue]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: SUVMARCH
+ *                 description: Stored upper-case; letters, digits, dashes and underscores
+ *               description:
+ *                 type: string
+ *               discountType:
+ *                 type: string
+ *                 enum: [PERCENTAGE, FIXED]
+ *               discountValue:
+ *                 type: number
+ *                 example: 10
+ *                 description: Percent for PERCENTAGE codes, IDR off for FIXED codes
+ *               validFrom:
+ *                 type: string
+ *                 format: date-time
+ *               validUntil:
+ *                 type: string
+ *                 format: date-time
+ *               maxRedemptions:
+ *                 type: integer
+ *                 description: Total bookings that may use the code; omit for unlimited
+ *               maxRedemptionsPerUser:
+ *                 type: integer
+ *                 example: 1
+ *               minDays:
+ *                 type: integer
+ *                 description: Minimum rental days
+ *               carTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [SUV, SEDAN, HATCHBACK, MPV, VAN]
+ *               carIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Promo code created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Car not found
+ *       409:
+ *         description: Code already exists
+ */
+router.post(
+  '/promo-codes',
+  requirePermission('pricing:write'),
+  validateBody(createPromoCodeSchema),
+  asyncHandler(PromoCodeController.createPromoCode)
+);
+
+/**
+ * @swagger
+ * /api/admin/promo-codes/redemptions:
+ *   get:
+ *     tags: [Admin]
+ *     summary: Redemptions per promo code
+ *     description: >
+ *       Bookings made with each code that were not cancelled, the customers who made
+ *       them, the total discount given and the revenue of those bookings. Every code
+ *       is listed, including codes never redeemed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only count bookings made from this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only count bookings made until this time
+ *     responses:
+ *       200:
+ *         description: One row per promo code
+ *       400:
+ *         description: Invalid period
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/promo-codes/redemptions',
+  requirePermission('analytics:read'),
+  asyncHandler(PromoCodeController.getRedemptionReport)
+);
+
+/**
+ * @swagger
+ * /api/admin/promo-codes/{id}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Update or deactivate a promo code
+ *     description: Bookings already made keep their discount
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Promo code updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Promo code not found
+ *       409:
+ *         description: Code already exists
+ */
+router.patch(
+  '/promo-codes/:id',
+  requirePermission('pricing:write'),
+  validateParams(promoCodeIdSchema),
+  validateBody(updatePromoCodeSchema),
+  asyncHandler(PromoCodeController.updatePromoCode)
+);
+
+/**
+ * @swagger
+ * /api/admin/cars/{id}/blackouts:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List maintenance/blackout periods of a car
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Blackouts ordered by start date
+ *       404:
+ *         description: Car not found
+ */
+router.get(
+  '/cars/:id/blackouts',
+  requirePermission('car:write'),
+  validateParams(carIdSchema),
+  asyncHandler(CarBlackoutController.getBlackouts)
+);
+
+/**
+ * @swagger
+ * /api/admin/cars/{id}/blackouts:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Take a car out of service for a period
+ *     description: >
+ *       Blackouts block availability like bookings. A blackout overlapping active bookings
+ *       is rejected unless force is true; forced blackouts report the affected bookings.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason, startDate, endDate]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Scheduled service
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               force:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Blackout created, with affectedBookings
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Car not found
+ *       409:
+ *         description: Blackout overlaps existing bookings (not forced)
+ */
+router.post(
+  '/cars/:id/blackouts',
+  requirePermission('car:write'),
+  validateParams(carIdSchema),
+  validateBody(createCarBlackoutSchema),
+  asyncHandler(CarBlackoutController.createBlackout)
+);
+
+/**
+ * @swagger
+ * /api/admin/cars/{id}/blackouts/{blackoutId}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Remove a blackout period
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: blackoutId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Blackout deleted
+ *       404:
+ *         description: Blackout not found
+ */
+router.delete(
+  '/cars/:id/blackouts/:blackoutId',
+  requirePermission('car:write'),
+  validateParams(carBlackoutIdSchema),
+  asyncHandler(CarBlackoutController.deleteBlackout)
+);
+
+/**
+ * @swagger
+ * /api/admin/addons:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List all add-ons, including deactivated ones
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Add-ons with their stock per location
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Missing permission
+ */
+router.get(
+  '/addons',
+  requirePermission('addon:write'),
+  asyncHandler(AddonController.getAllAddons)
+);
+
+/**
+ * @swagger
+ * /api/admin/addons:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create an add-on
+ *     description: >
+ *       PER_DAY add-ons are charged for every rental day, PER_BOOKING add-ons once.
+ *       Stock is counted at the pickup location; locations without a stock entry have unlimited supply.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, price]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Child Safety Seat
+ *               description:
+ *                 type: string
+ *               price:
+ *                 type: number
+ *                 example: 75000
+ *               pricingMode:
+ *                 type: string
+ *                 enum: [PER_BOOKING, PER_DAY]
+ *                 default: PER_BOOKING
+ *               stock:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     locationId:
+ *                       type: string
+ *                       format: uuid
+ *                     quantity:
+ *                       type: integer
+ *                       example: 4
+ *     responses:
+ *       201:
+ *         description: Add-on created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Stock location not found
+ *       409:
+ *         description: Add-on name already exists
+ */
+router.post(
+  '/addons',
+  requirePermission('addon:write'),
+  validateBody(createAddonSchema),
+  asyncHandler(AddonController.createAddon)
+);
+
+/**
+ * @swagger
+ * /api/admin/addons/{id}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Update an add-on
+ *     description: stock, when given, replaces the existing stock entries
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Add-on updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Add-on or stock location not found
+ *       409:
+ *         description: Add-on name already exists
+ */
+router.patch(
+  '/addons/:id',
+  requirePermission('addon:write'),
+  validateParams(addonIdSchema),
+  validateBody(updateAddonSchema),
+  asyncHandler(AddonController.updateAddon)
+);
+
+/**
+ * @swagger
+ * /api/admin/addons/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Deactivate an add-on
+ *     description: The add-on can no longer be booked; existing bookings keep it
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Add-on deactivated
+ *       404:
+ *         description: Add-on not found
+ */
+router.delete(
+  '/addons/:id',
+  requirePermission('addon:write'),
+  validateParams(addonIdSchema),
+  asyncHandler(AddonController.deactivateAddon)
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/role:
+ *   put:
+ *     tags: [Admin]
+ *     summary: Change a user's role
+ *     description: Makes a user a customer, an admin or a staff member with the given staff role. Admins cannot change their own role.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [CUSTOMER, STAFF, ADMIN]
+ *               staffRoleId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Required when role is STAFF
+ *     responses:
+ *       200:
+ *         description: Role changed
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: User or staff role not found
+ */
+router.put(
+  '/users/:id/role',
+  requireAdmin,
+  validateParams(userIdSchema),
+  validateBody(assignUserRoleSchema),
+  asyncHandler(AdminController.assignUserRole)
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/locations:
+ *   put:
+ *     tags: [Admin]
+ *     summary: Assign a staff member to branches
+ *     description: Limits the staff member to bookings picked up or dropped off at these locations. An empty list removes the limit.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [locationIds]
+ *             properties:
+ *               locationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Branches assigned
+ *       400:
+ *         description: Validation error or user is not staff
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: User or location not found
+ */
+router.put(
+  '/users/:id/locations',
+  requireAdmin,
+  validateParams(userIdSchema),
+  validateBody(assignStaffLocationsSchema),
+  asyncHandler(AdminController.assignStaffLocations)
+);
+
+/**
+ * @swagger
+ * /api/admin/permissions:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List permissions
+ *     description: Every permission a staff role can grant
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of permission names
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get(
+  '/permissions',
+  requireAdmin,
+  asyncHandler(StaffRoleController.getPermissions)
+);
+
+/**
+ * @swagger
+ * /api/admin/staff-roles:
+ *   get:
+ *     tags: [Admin]
+ *     summary: List staff roles
+ *     description: Built-in and custom staff roles with the number of users holding each
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of staff roles
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get(
+  '/staff-roles',
+  requireAdmin,
+  asyncHandler(StaffRoleController.getStaffRoles)
+);
+
+/**
+ * @swagger
+ * /api/admin/staff-roles:
+ *   post:
+ *     tags: [Admin]
+ *     summary: Create a custom staff role
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, permissions]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   example: booking:status:pickup
+ *     responses:
+ *       201:
+ *         description: Staff role created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       409:
+ *         description: A staff role with this name already exists
+ */
+router.post(
+  '/staff-roles',
+  requireAdmin,
+  validateBody(createStaffRoleSchema),
+  asyncHandler(StaffRoleController.createStaffRole)
+);
+
+/**
+ * @swagger
+ * /api/admin/staff-roles/{id}:
+ *   patch:
+ *     tags: [Admin]
+ *     summary: Update a custom staff role
+ *     description: Built-in roles cannot be changed. New permissions apply to the role's users on their next request.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Staff role updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Staff role not found
+ *       409:
+ *         description: Built-in role or duplicate name
+ */
+router.patch(
+  '/staff-roles/:id',
+  requireAdmin,
+  validateParams(staffRoleIdSchema),
+  validateBody(updateStaffRoleSchema),
+  asyncHandler(StaffRoleController.updateStaffRole)
+);
+
+/**
+ * @swagger
+ * /api/admin/staff-roles/{id}:
+ *   delete:
+ *     tags: [Admin]
+ *     summary: Delete a custom staff role
+ *     description: Built-in roles and roles still assigned to users cannot be deleted
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Staff role deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Staff role not found
+ *       409:
+ *         description: Built-in role or role still in use
+ */
+router.delete(
+  '/staff-roles/:id',
+  requireAdmin,
+  validateParams(staffRoleIdSchema),
+  asyncHandler(StaffRoleController.deleteStaffRole)
+);
+
 export default router;
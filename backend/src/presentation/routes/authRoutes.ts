@@ -1,7 +1,28 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/AuthController.js';
-import { asyncHandler, authenticate, validateBody, authLimiter } from '../middlewares/index.js';
-import { registerSchema, loginSchema } from '../validators/authValidators.js';
+import {
+  asyncHandler,
+  authenticate,
+  authenticateUnlessChallenge,
+  validateBody,
+  authLimiter,
+} from '../middlewares/index.js';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  twoFactorEnrollmentSchema,
+  twoFactorEnrollmentConfirmSchema,
+  twoFactorCodeSchema,
+  twoFactorConfirmationSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  deleteAccountSchema,
+  submitDriverLicenseSchema,
+} from '../validators/authValidators.js';
 
 const router = Router();
 
@@ -57,7 +78,10 @@ router.post(
  *               password: { type: string }
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: >
+ *           Login successful. Returns an access token and a refresh token, or a `challenge`
+ *           when a second factor is needed: type VERIFY asks for a code at /api/auth/2fa/verify,
+ *           type ENROLL requires setting up an authenticator at /api/auth/2fa/enroll first.
  *       401:
  *         description: Invalid credentials
  */
@@ -67,6 +91,336 @@ router.post(
   asyncHandler(AuthController.login)
 );
 
+/**
+ * @swagger
+ * /api/auth/2fa/verify:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Complete a login with a TOTP code or a recovery code
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken, code]
+ *             properties:
+ *               challengeToken: { type: string }
+ *               code: { type: string, example: '123456' }
+ *     responses:
+ *       200:
+ *         description: Login successful, returns an access token and a refresh token
+ *       401:
+ *         description: Challenge invalid or expired, or wrong code
+ */
+router.post(
+  '/2fa/verify',
+  validateBody(twoFactorCodeSchema),
+  asyncHandler(AuthController.verifyTwoFactor)
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enroll:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Start TOTP enrollment
+ *     description: >
+ *       Returns a new secret and the otpauth URI to add to an authenticator app.
+ *       Send the ENROLL challenge token while logging in, or the bearer token of a signed-in user.
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               challengeToken: { type: string }
+ *     responses:
+ *       200:
+ *         description: TOTP secret and otpauth URI
+ *       401:
+ *         description: Challenge invalid or expired, or not signed in
+ *       409:
+ *         description: Two-factor authentication already enabled
+ */
+router.post(
+  '/2fa/enroll',
+  authenticateUnlessChallenge,
+  validateBody(twoFactorEnrollmentSchema),
+  asyncHandler(AuthController.startTotpEnrollment)
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enroll/confirm:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Confirm TOTP enrollment with a first code
+ *     description: >
+ *       Returns one-time recovery codes, which are shown only this once. With a challenge token
+ *       the login is completed and tokens are returned too; a signed-in user keeps their session.
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               challengeToken: { type: string }
+ *               code: { type: string, example: '123456' }
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled, returns recovery codes and, when logging in, tokens
+ *       401:
+ *         description: Challenge invalid or expired, not signed in, or wrong code
+ *       409:
+ *         description: Enrollment not started or already completed
+ */
+router.post(
+  '/2fa/enroll/confirm',
+  authenticateUnlessChallenge,
+  validateBody(twoFactorEnrollmentConfirmSchema),
+  asyncHandler(AuthController.confirmTotpEnrollment)
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Replace the recovery codes
+ *     description: The earlier codes stop working; the new ones are shown only this once
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code: { type: string, description: A TOTP code or a recovery code }
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Wrong code
+ *       401:
+ *         description: Not signed in
+ *       409:
+ *         description: Two-factor authentication is not enabled
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  validateBody(twoFactorConfirmationSchema),
+  asyncHandler(AuthController.regenerateRecoveryCodes)
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Turn off two-factor authentication
+ *     description: Removes the authenticator and the recovery codes. Not allowed for admins while REQUIRE_ADMIN_TWO_FACTOR is on.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code: { type: string, description: A TOTP code or a recovery code }
+ *     responses:
+ *       204:
+ *         description: Two-factor authentication turned off
+ *       400:
+ *         description: Wrong code
+ *       401:
+ *         description: Not signed in
+ *       403:
+ *         description: Two-factor authentication is mandatory for admins
+ *       409:
+ *         description: Two-factor authentication is not enabled
+ */
+router.delete(
+  '/2fa',
+  authenticate,
+  validateBody(twoFactorConfirmationSchema),
+  asyncHandler(AuthController.disableTwoFactor)
+);
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Exchange a refresh token for a new token pair
+ *     description: >
+ *       Refresh tokens rotate: the presented token is revoked and a new one is returned.
+ *       Presenting a token that was already used revokes every token of that session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken: { type: string }
+ *     responses:
+ *       200:
+ *         description: New access token and refresh token
+ *       401:
+ *         description: Refresh token invalid, expired or already used
+ */
+router.post(
+  '/refresh',
+  validateBody(refreshTokenSchema),
+  asyncHandler(AuthController.refresh)
+);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Log out
+ *     description: Revokes the refresh token and every other token issued in the same session
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken: { type: string }
+ *     responses:
+ *       204:
+ *         description: Logged out
+ */
+router.post(
+  '/logout',
+  validateBody(refreshTokenSchema),
+  asyncHandler(AuthController.logout)
+);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Confirm an email address with the token from the verification email
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token: { type: string }
+ *     responses:
+ *       204:
+ *         description: Email verified
+ *       400:
+ *         description: Token invalid, expired or already used
+ */
+router.post(
+  '/verify-email',
+  validateBody(verifyEmailSchema),
+  asyncHandler(AuthController.verifyEmail)
+);
+
+/**
+ * @swagger
+ * /api/auth/verify-email/resend:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Send a new verification email to the current user
+ *     description: Earlier verification links stop working. Does nothing if the email is already verified.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Verification email sent
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  '/verify-email/resend',
+  authenticate,
+  asyncHandler(AuthController.resendVerificationEmail)
+);
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Request a password reset email
+ *     description: Always succeeds, whether or not an account uses the email address
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email: { type: string, format: email }
+ *     responses:
+ *       204:
+ *         description: Reset email sent if the account exists
+ */
+router.post(
+  '/forgot-password',
+  validateBody(forgotPasswordSchema),
+  asyncHandler(AuthController.forgotPassword)
+);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Set a new password with the token from the reset email
+ *     description: Signs out every existing session of the account
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, password]
+ *             properties:
+ *               token: { type: string }
+ *               password: { type: string, minLength: 8 }
+ *     responses:
+ *       204:
+ *         description: Password changed
+ *       400:
+ *         description: Validation error, or token invalid, expired or already used
+ */
+router.post(
+  '/reset-password',
+  validateBody(resetPasswordSchema),
+  asyncHandler(AuthController.resetPassword)
+);
+
 /**
  * @swagger
  * /api/auth/profile:
@@ -87,4 +441,172 @@ router.get(
   asyncHandler(AuthController.getProfile)
 );
 
+/**
+ * @swagger
+ * /api/auth/profile:
+ *   patch:
+ *     tags: [Auth]
+ *     summary: Update current user profile
+ *     description: Name, phone and driver details. Send null to clear an optional field.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name: { type: string }
+ *               phone: { type: string, nullable: true, example: '+62 812 3456 7890' }
+ *               dateOfBirth: { type: string, format: date, nullable: true }
+ *               driverLicenseNumber: { type: string, nullable: true }
+ *               driverLicenseCountry: { type: string, nullable: true, example: ID, description: ISO 3166-1 alpha-2 }
+ *               driverLicenseExpiresAt: { type: string, format: date, nullable: true }
+ *     responses:
+ *       200:
+ *         description: Updated profile
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.patch(
+  '/profile',
+  authenticate,
+  validateBody(updateProfileSchema),
+  asyncHandler(AuthController.updateProfile)
+);
+
+/**
+ * @swagger
+ * /api/auth/profile:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Delete current user account
+ *     description: Anonymizes personal data and signs out every session. Bookings are kept for financial reporting.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password]
+ *             properties:
+ *               password: { type: string }
+ *     responses:
+ *       204:
+ *         description: Account deleted
+ *       400:
+ *         description: Validation error or wrong password
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin accounts cannot be deleted this way
+ *       409:
+ *         description: The user still has pending, confirmed or ongoing bookings
+ */
+router.delete(
+  '/profile',
+  authenticate,
+  validateBody(deleteAccountSchema),
+  asyncHandler(AuthController.deleteAccount)
+);
+
+/**
+ * @swagger
+ * /api/auth/profile/export:
+ *   get:
+ *     tags: [Auth]
+ *     summary: Export account data
+ *     description: Downloads everything held on the user as a JSON file - profile, bookings and audit entries
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: JSON archive
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/profile/export',
+  authenticate,
+  asyncHandler(AuthController.exportAccountData)
+);
+
+/**
+ * @swagger
+ * /api/auth/profile/driver-license:
+ *   put:
+ *     tags: [Auth]
+ *     summary: Submit driver license for verification
+ *     description: Saves the license details and photo and puts them in the staff review queue. A verified license is required before a car can be picked up.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [dateOfBirth, driverLicenseNumber, driverLicenseCountry, driverLicenseExpiresAt]
+ *             properties:
+ *               dateOfBirth: { type: string, format: date }
+ *               driverLicenseNumber: { type: string }
+ *               driverLicenseCountry: { type: string, example: ID }
+ *               driverLicenseExpiresAt: { type: string, format: date }
+ *               image:
+ *                 type: string
+ *                 description: JPEG, PNG or WebP photo as a base64 data URL; optional when resubmitting with the same photo
+ *     responses:
+ *       200:
+ *         description: License submitted for review
+ *       400:
+ *         description: Validation error, expired license or missing photo
+ *       401:
+ *         description: Unauthorized
+ */
+router.put(
+  '/profile/driver-license',
+  authenticate,
+  validateBody(submitDriverLicenseSchema),
+  asyncHandler(AuthController.submitDriverLicense)
+);
+
+/**
+ * @swagger
+ * /api/auth/change-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Change password
+ *     description: Requires the current password. Signs out all other sessions and returns a new token pair for this one.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currentPassword, newPassword]
+ *             properties:
+ *               currentPassword: { type: string }
+ *               newPassword: { type: string, minLength: 8 }
+ *     responses:
+ *       200:
+ *         description: Password changed; new tokens
+ *       400:
+ *         description: Validation error or wrong current password
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  '/change-password',
+  authenticate,
+  validateBody(changePasswordSchema),
+  asyncHandler(AuthController.changePassword)
+);
+
 export default router;
@@ -1,11 +1,67 @@
 import { Router } from 'express';
 import { BookingController } from '../controllers/BookingController.js';
-import { asyncHandler, authenticate, validateBody, validateParams, bookingLimiter } from '../middlewares/index.js';
-import { createBookingSchema, cancelBookingSchema, bookingIdSchema } from '../validators/bookingValidators.js';
+import { asyncHandler, authenticate, validateBody, validateParams, bookingLimiter, idempotency } from '../middlewares/index.js';
+import { createBookingSchema, quoteBookingSchema, modifyBookingSchema, cancelBookingSchema, bookingIdSchema, createPaymentSchema } from '../validators/bookingValidators.js';
 
 const router = Router();
 
-// All booking routes require authentication
+/**
+ * @swagger
+ * /api/bookings/quote:
+ *   post:
+ *     tags: [Bookings]
+ *     summary: Get an itemized price quote for a booking without creating it
+ *     description: >
+ *       Returns per-day base lines, add-on lines, discounts, taxes and the total,
+ *       plus a signed quote token. Passing the token to POST /api/bookings before it
+ *       expires guarantees the quoted price.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [carId, startDate, endDate, pickupLocationId, dropoffLocationId]
+ *             properties:
+ *               carId:
+ *                 type: string
+ *                 format: uuid
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               pickupLocationId:
+ *                 type: string
+ *                 format: uuid
+ *               dropoffLocationId:
+ *                 type: string
+ *                 format: uuid
+ *               addonIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               promoCode:
+ *                 type: string
+ *                 example: SUVMARCH
+ *                 description: Taken off the rental price as a DISCOUNT line; per-customer limits are checked when booking
+ *     responses:
+ *       200:
+ *         description: Itemized quote with a signed quote token
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Car or location not found
+ */
+router.post(
+  '/quote',
+  validateBody(quoteBookingSchema),
+  asyncHandler(BookingController.quoteBooking)
+);
+
+// All other booking routes require authentication
 router.use(authenticate);
 
 /**
@@ -16,6 +72,14 @@ router.use(authenticate);
  *     summary: Create a new booking
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Retries with the same key and body replay the original response
  *     requestBody:
  *       required: true
  *       content:
@@ -44,18 +108,31 @@ router.use(authenticate);
  *                 items:
  *                   type: string
  *                   format: uuid
+ *               promoCode:
+ *                 type: string
+ *                 description: >
+ *                   Promo code, in any case. Its validity window, redemption limits and
+ *                   rental restrictions are checked again while the booking is written.
+ *               quoteToken:
+ *                 type: string
+ *                 description: Token from POST /api/bookings/quote; locks in the quoted price
  *     responses:
  *       201:
  *         description: Booking created successfully
  *       400:
- *         description: Validation error
+ *         description: Validation error, or a promo code that does not exist or does not apply
  *       401:
  *         description: Unauthorized
+ *       409:
+ *         description: Car or add-on not available, quote expired, or promo code fully redeemed
+ *       422:
+ *         description: Idempotency-Key reused with a different request body
  */
 router.post(
   '/',
   bookingLimiter,
   validateBody(createBookingSchema),
+  idempotency,
   asyncHandler(BookingController.createBooking)
 );
 
@@ -120,6 +197,148 @@ router.get(
   asyncHandler(BookingController.getBookingById)
 );
 
+/**
+ * @swagger
+ * /api/bookings/{id}:
+ *   patch:
+ *     tags: [Bookings]
+ *     summary: Modify a pending or confirmed booking
+ *     description: >
+ *       Changes the dates, car, locations or add-ons of the caller's booking. Availability
+ *       is rechecked (ignoring the booking itself) and the booking is repriced. A booking
+ *       cannot be modified once its invoice has been issued.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               carId:
+ *                 type: string
+ *                 format: uuid
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               pickupLocationId:
+ *                 type: string
+ *                 format: uuid
+ *               dropoffLocationId:
+ *                 type: string
+ *                 format: uuid
+ *               addonIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Updated booking with previous total, new total and price difference
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Booking belongs to another user
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: Booking cannot be modified (status or already invoiced), or car or add-on not available
+ */
+router.patch(
+  '/:id',
+  validateParams(bookingIdSchema),
+  validateBody(modifyBookingSchema),
+  asyncHandler(BookingController.modifyBooking)
+);
+
+/**
+ * @swagger
+ * /api/bookings/{id}/cancellation-preview:
+ *   get:
+ *     tags: [Bookings]
+ *     summary: Preview the fee and refund for cancelling a booking
+ *     description: >
+ *       Applies the cancellation policy as of now: free cancellation until the cutoff,
+ *       then a percentage fee, and no cancellation by customers once the start date is reached.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Whether cancelling is allowed, the fee and the refund amount
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Booking belongs to another user
+ *       404:
+ *         description: Booking not found
+ */
+router.get(
+  '/:id/cancellation-preview',
+  validateParams(bookingIdSchema),
+  asyncHandler(BookingController.getCancellationPreview)
+);
+
+/**
+ * @swagger
+ * /api/bookings/{id}/invoice.pdf:
+ *   get:
+ *     tags: [Bookings]
+ *     summary: Download the booking's invoice
+ *     description: >
+ *       Issued on first request with the next gapless invoice number. The contents are
+ *       frozen at issue, so later downloads return the same document.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invoice PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Booking belongs to another user
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: Booking is not confirmed and has no invoice yet
+ */
+router.get(
+  '/:id/invoice.pdf',
+  validateParams(bookingIdSchema),
+  asyncHandler(BookingController.getInvoicePdf)
+);
+
 /**
  * @swagger
  * /api/bookings/{id}/cancel:
@@ -129,6 +348,13 @@ router.get(
  *     security:
  *       - bearerAuth: []
  *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Retries with the same key and body replay the original response
  *       - in: path
  *         name: id
  *         required: true
@@ -147,17 +373,87 @@ router.get(
  *                 description: Reason for cancellation
  *     responses:
  *       200:
- *         description: Booking cancelled successfully
+ *         description: Booking cancelled; includes the cancellationFee and refundAmount charged
  *       401:
  *         description: Unauthorized
  *       404:
  *         description: Booking not found
+ *       409:
+ *         description: Booking cannot be cancelled (status or start date already reached)
+ *       422:
+ *         description: Idempotency-Key reused with a different request body
  */
 router.post(
   '/:id/cancel',
   validateParams(bookingIdSchema),
   validateBody(cancelBookingSchema),
+  idempotency,
   asyncHandler(BookingController.cancelBooking)
 );
 
+/**
+ * @swagger
+ * /api/bookings/{id}/payments:
+ *   post:
+ *     tags: [Bookings]
+ *     summary: Pay for a booking
+ *     description: >
+ *       Charges the payment method through the configured gateway and records the
+ *       payment. A PENDING booking is confirmed once it is fully paid. Some payments
+ *       settle asynchronously; they are returned as PENDING and confirm the booking
+ *       when they succeed. With the fake gateway, paymentMethod "fake_decline" is
+ *       declined, "fake_async" settles after a delay and "fake_async_decline" fails
+ *       after a delay; any other value succeeds.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Retries with the same key and body replay the original response
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [paymentMethod]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Defaults to the outstanding balance
+ *               paymentMethod:
+ *                 type: string
+ *                 description: Payment method token from the gateway
+ *     responses:
+ *       201:
+ *         description: Payment recorded; returns the payment and the updated booking
+ *       400:
+ *         description: Validation error, or the amount exceeds the outstanding balance
+ *       402:
+ *         description: Payment declined (PAYMENT_DECLINED); the failed attempt is kept on record
+ *       403:
+ *         description: Booking belongs to another user
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: Booking cannot be paid for, is already paid, or a concurrent payment took the balance
+ */
+router.post(
+  '/:id/payments',
+  validateParams(bookingIdSchema),
+  validateBody(createPaymentSchema),
+  idempotency,
+  asyncHandler(BookingController.createPayment)
+);
+
 export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { CarController } from '../controllers/CarController.js';
-import { asyncHandler, authenticate, requireAdmin, validateBody, validateParams } from '../middlewares/index.js';
+import { asyncHandler, authenticate, requirePermission, validateBody, validateParams } from '../middlewares/index.js';
 import { createCarSchema, updateCarSchema, carIdSchema } from '../validators/carValidators.js';
 
 const router = Router();
@@ -24,6 +24,16 @@ const router = Router();
  *       - in: query
  *         name: seats
  *         schema: { type: integer }
+ *       - in: query
+ *         name: startDate
+ *         schema: { type: string, format: date-time }
+ *       - in: query
+ *         name: endDate
+ *         schema: { type: string, format: date-time }
+ *       - in: query
+ *         name: pickupLocationId
+ *         schema: { type: string, format: uuid }
+ *         description: Only cars that will be at this location on startDate (now if omitted)
  *     responses:
  *       200:
  *         description: List of cars with pagination
@@ -102,6 +112,22 @@ router.get('/', asyncHandler(CarController.getCars));
  *                             format: date-time
  *                           status:
  *                             type: string
+ *                     conflictingBlackouts:
+ *                       type: array
+ *                       description: Maintenance/blackout periods that overlap the requested dates
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           reason:
+ *                             type: string
+ *                           startDate:
+ *                             type: string
+ *                             format: date
+ *                           endDate:
+ *                             type: string
+ *                             format: date
  *       400:
  *         description: Validation error (invalid dates)
  *       404:
@@ -113,6 +139,46 @@ router.get(
   asyncHandler(CarController.checkAvailability)
 );
 
+/**
+ * @swagger
+ * /api/cars/{id}/price:
+ *   get:
+ *     tags: [Cars]
+ *     summary: Price a rental for specific dates
+ *     description: Prices each rental day separately, applying weekend multipliers and seasonal rates
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Per-day rates and the total base price
+ *       400:
+ *         description: Validation error (start date in the past, end date not after start, or longer than MAX_RENTAL_DAYS)
+ *       404:
+ *         description: Car not found
+ */
+router.get(
+  '/:id/price',
+  validateParams(carIdSchema),
+  asyncHandler(CarController.getCarPrice)
+);
+
 /**
  * @swagger
  * /api/cars/{id}:
@@ -161,7 +227,7 @@ router.get(
 router.post(
   '/',
   authenticate,
-  requireAdmin,
+  requirePermission('car:write'),
   validateBody(createCarSchema),
   asyncHandler(CarController.createCar)
 );
@@ -194,7 +260,7 @@ router.post(
 router.patch(
   '/:id',
   authenticate,
-  requireAdmin,
+  requirePermission('car:write'),
   validateParams(carIdSchema),
   validateBody(updateCarSchema),
   asyncHandler(CarController.updateCar)
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { AddonPricingMode } from '@prisma/client';
+
+const stockSchema = z.object({
+  locationId: z.string().uuid('Invalid location ID'),
+  quantity: z.number().int('Quantity must be a whole number').min(0, 'Quantity cannot be negative').max(10000, 'Quantity too high'),
+});
+
+const stockListSchema = z.array(stockSchema).max(500)
+  .refine((stock) => new Set(stock.map((s) => s.locationId)).size === stock.length, {
+    message: 'Each location can only appear once',
+  });
+
+export const createAddonSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name too long').trim(),
+  description: z.string().max(1000, 'Description too long').trim().nullable().optional(),
+  price: z.number().min(0, 'Price cannot be negative').max(100000000, 'Price too high'),
+  pricingMode: z.nativeEnum(AddonPricingMode).optional(),
+  stock: stockListSchema.optional(),
+});
+
+export const updateAddonSchema = createAddonSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const addonIdSchema = z.object({
+  id: z.string().uuid('Invalid add-on ID format'),
+});
+
+export type CreateAddonDto = z.infer<typeof createAddonSchema>;
+export type UpdateAddonDto = z.infer<typeof updateAddonSchema>;
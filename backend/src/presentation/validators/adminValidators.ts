@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { BookingStatus } from '@prisma/client';
+import { BookingStatus, UserRole } from '@prisma/client';
 
 export const adminBookingFiltersSchema = z.object({
   userId: z.string().uuid().optional(),
@@ -13,10 +13,51 @@ export const adminBookingFiltersSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
 });
 
-export const updateBookingStatusSchema = z.object({
-  status: z.nativeEnum(BookingStatus),
-  reason: z.string().max(500).optional(),
+export const updateBookingStatusSchema = z
+  .object({
+    status: z.nativeEnum(BookingStatus),
+    reason: z.string().max(500).optional(),
+    depositPaymentMethod: z.string().min(1).max(255).optional(),
+    depositCapture: z
+      .object({
+        amount: z.number().positive('Amount must be positive').multipleOf(0.01, 'At most two decimals'),
+        reason: z.string().min(1, 'Say what the deposit is kept for').max(500),
+      })
+      .optional(),
+  })
+  .refine((data) => !data.depositPaymentMethod || data.status === BookingStatus.PICKED_UP, {
+    message: 'depositPaymentMethod is only used at pickup',
+    path: ['depositPaymentMethod'],
+  })
+  .refine((data) => !data.depositCapture || data.status === BookingStatus.RETURNED, {
+    message: 'depositCapture is only used on return',
+    path: ['depositCapture'],
+  });
+
+export const userIdSchema = z.object({
+  id: z.string().uuid('Invalid user ID format'),
+});
+
+export const assignUserRoleSchema = z.object({
+  role: z.nativeEnum(UserRole),
+  staffRoleId: z.string().uuid('Invalid staff role ID').nullable().optional(),
+});
+
+export const assignStaffLocationsSchema = z.object({
+  locationIds: z.array(z.string().uuid('Invalid location ID')).max(100)
+    .refine((ids) => new Set(ids).size === ids.length, { message: 'Each location can only appear once' }),
+});
+
+export const reviewDriverVerificationSchema = z.object({
+  status: z.enum(['VERIFIED', 'REJECTED']),
+  note: z.string().trim().max(500).optional(),
+}).refine((data) => data.status !== 'REJECTED' || !!data.note, {
+  message: 'A note is required when rejecting a license',
+  path: ['note'],
 });
 
 export type AdminBookingFiltersDto = z.infer<typeof adminBookingFiltersSchema>;
 export type UpdateBookingStatusDto = z.infer<typeof updateBookingStatusSchema>;
+export type AssignUserRoleDto = z.infer<typeof assignUserRoleSchema>;
+export type AssignStaffLocationsDto = z.infer<typeof assignStaffLocationsSchema>;
+export type ReviewDriverVerificationDto = z.infer<typeof reviewDriverVerificationSchema>;
@@ -1,34 +1,155 @@
 import { z } from 'zod';
 
+const emailField = z
+  .string()
+  .min(1, 'Email is required')
+  .email('Invalid email format')
+  .toLowerCase()
+  .trim();
+
+const newPasswordField = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(100, 'Password must not exceed 100 characters')
+  .regex(
+    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+    'Password must contain at least one uppercase letter, one lowercase letter, and one number'
+  );
+
+const emailTokenField = z
+  .string()
+  .min(1, 'Token is required')
+  .max(200, 'Invalid token');
+
+const nameField = z
+  .string()
+  .min(2, 'Name must be at least 2 characters')
+  .max(100, 'Name must not exceed 100 characters')
+  .trim();
+
+// Calendar date such as a birthday, sent as YYYY-MM-DD
+const calendarDateField = (message: string) => z
+  .string()
+  .date(message)
+  .transform((val) => new Date(val));
+
 export const registerSchema = z.object({
-  email: z
+  email: emailField,
+  name: nameField,
+  password: newPasswordField,
+});
+
+export const loginSchema = z.object({
+  email: emailField,
+  password: z
     .string()
-    .min(1, 'Email is required')
-    .email('Invalid email format')
-    .toLowerCase()
-    .trim(),
-  name: z
+    .min(1, 'Password is required'),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z
     .string()
-    .min(2, 'Name must be at least 2 characters')
-    .max(100, 'Name must not exceed 100 characters')
-    .trim(),
-  password: z
+    .min(1, 'Refresh token is required')
+    .max(200, 'Invalid refresh token'),
+});
+
+export const verifyEmailSchema = z.object({
+  token: emailTokenField,
+});
+
+export const forgotPasswordSchema = z.object({
+  email: emailField,
+});
+
+export const resetPasswordSchema = z.object({
+  token: emailTokenField,
+  password: newPasswordField,
+});
+
+const challengeTokenField = z
+  .string()
+  .min(1, 'Challenge token is required')
+  .max(1000, 'Invalid challenge token');
+
+// A 6-digit TOTP code or a recovery code such as "a1b2c-3d4e5"
+const twoFactorCodeField = z
+  .string()
+  .trim()
+  .min(6, 'Code is required')
+  .max(20, 'Invalid code');
+
+// Signed-in users enroll without a challenge token
+export const twoFactorEnrollmentSchema = z.object({
+  challengeToken: challengeTokenField.optional(),
+});
+
+export const twoFactorEnrollmentConfirmSchema = z.object({
+  challengeToken: challengeTokenField.optional(),
+  code: twoFactorCodeField,
+});
+
+export const twoFactorCodeSchema = z.object({
+  challengeToken: challengeTokenField,
+  code: twoFactorCodeField,
+});
+
+// Proves the signed-in user still holds the second factor before changing it
+export const twoFactorConfirmationSchema = z.object({
+  code: twoFactorCodeField,
+});
+
+const dateOfBirthField = calendarDateField('Invalid date of birth')
+  .refine((date) => date < new Date(), 'Date of birth must be in the past');
+
+const driverLicenseNumberField = z
+  .string()
+  .trim()
+  .min(1, 'License number is required')
+  .max(50, 'License number too long');
+
+const driverLicenseCountryField = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{2}$/, 'Use a two-letter country code');
+
+const driverLicenseExpiresAtField = calendarDateField('Invalid license expiry date');
+
+export const updateProfileSchema = z.object({
+  name: nameField.optional(),
+  phone: z
     .string()
-    .min(8, 'Password must be at least 8 characters')
-    .max(100, 'Password must not exceed 100 characters')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
-      'Password must contain at least one uppercase letter, one lowercase letter, and one number'
-    ),
+    .trim()
+    .regex(/^\+?[0-9 ()-]{6,30}$/, 'Invalid phone number')
+    .nullable()
+    .optional(),
+  dateOfBirth: dateOfBirthField.nullable().optional(),
+  driverLicenseNumber: driverLicenseNumberField.nullable().optional(),
+  driverLicenseCountry: driverLicenseCountryField.nullable().optional(),
+  driverLicenseExpiresAt: driverLicenseExpiresAtField.nullable().optional(),
 });
 
-export const loginSchema = z.object({
-  email: z
+// Type and size of the decoded image are checked when it is stored
+export const submitDriverLicenseSchema = z.object({
+  dateOfBirth: dateOfBirthField,
+  driverLicenseNumber: driverLicenseNumberField,
+  driverLicenseCountry: driverLicenseCountryField,
+  driverLicenseExpiresAt: driverLicenseExpiresAtField,
+  image: z
     .string()
-    .min(1, 'Email is required')
-    .email('Invalid email format')
-    .toLowerCase()
-    .trim(),
+    .startsWith('data:image/', 'Image must be a data URL')
+    .max(8 * 1024 * 1024, 'Image is too large')
+    .optional(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z
+    .string()
+    .min(1, 'Current password is required'),
+  newPassword: newPasswordField,
+});
+
+export const deleteAccountSchema = z.object({
   password: z
     .string()
     .min(1, 'Password is required'),
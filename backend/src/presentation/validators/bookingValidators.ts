@@ -8,12 +8,34 @@ export const createBookingSchema = z.object({
   startDate: z.string().datetime('Invalid start date format').transform((val) => new Date(val)),
   endDate: z.string().datetime('Invalid end date format').transform((val) => new Date(val)),
   addonIds: z.array(z.string().uuid()).optional(),
+  promoCode: z.string().trim().min(1, 'Promo code cannot be empty').max(50, 'Promo code too long').optional(),
+  quoteToken: z.string().min(1).optional(),
 });
 
+export const quoteBookingSchema = createBookingSchema.omit({ quoteToken: true });
+
+export const modifyBookingSchema = z
+  .object({
+    carId: z.string().uuid('Invalid car ID').optional(),
+    pickupLocationId: z.string().uuid('Invalid pickup location ID').optional(),
+    dropoffLocationId: z.string().uuid('Invalid dropoff location ID').optional(),
+    startDate: z.string().datetime('Invalid start date format').transform((val) => new Date(val)).optional(),
+    endDate: z.string().datetime('Invalid end date format').transform((val) => new Date(val)).optional(),
+    addonIds: z.array(z.string().uuid()).optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be changed',
+  });
+
 export const cancelBookingSchema = z.object({
   reason: z.string().min(1, 'Cancel reason is required').max(500, 'Reason too long'),
 });
 
+export const createPaymentSchema = z.object({
+  amount: z.number().positive('Amount must be positive').multipleOf(0.01, 'At most two decimals').optional(),
+  paymentMethod: z.string().min(1, 'Payment method is required').max(255),
+});
+
 export const getBookingsQuerySchema = z.object({
   page: z.string().optional(),
   limit: z.string().optional(),
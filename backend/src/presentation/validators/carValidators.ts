@@ -11,6 +11,7 @@ export const createCarSchema = z.object({
   fuel: z.nativeEnum(FuelType, { errorMap: () => ({ message: 'Invalid fuel type' }) }),
   dailyPrice: z.number().positive('Daily price must be positive').max(100000000, 'Price too high'),
   images: z.array(z.string().url('Invalid image URL')).optional(),
+  currentLocationId: z.string().uuid('Invalid location ID').optional(),
 });
 
 export const updateCarSchema = z.object({
@@ -24,6 +25,7 @@ export const updateCarSchema = z.object({
   dailyPrice: z.number().positive().max(100000000).optional(),
   images: z.array(z.string().url()).optional(),
   status: z.nativeEnum(CarStatus).optional(),
+  currentLocationId: z.string().uuid('Invalid location ID').optional(),
 });
 
 export const getCarQuerySchema = z.object({
@@ -37,6 +39,7 @@ export const getCarQuerySchema = z.object({
   priceMax: z.string().transform((val) => parseInt(val, 10)).pipe(z.number().positive()).optional(),
   startDate: z.string().datetime().transform((val) => new Date(val)).optional(),
   endDate: z.string().datetime().transform((val) => new Date(val)).optional(),
+  pickupLocationId: z.string().uuid().optional(),
   sortBy: z.enum(['dailyPrice', 'createdAt', 'seats', 'year']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
 });
@@ -52,3 +55,15 @@ export const checkAvailabilityQuerySchema = z.object({
   message: 'End date must be after start date',
   path: ['endDate'],
 });
+
+export const createCarBlackoutSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(255, 'Reason too long').trim(),
+  startDate: z.string().datetime('Invalid start date format').transform((val) => new Date(val)),
+  endDate: z.string().datetime('Invalid end date format').transform((val) => new Date(val)),
+  force: z.boolean().optional(),
+});
+
+export const carBlackoutIdSchema = z.object({
+  id: z.string().uuid('Invalid car ID format'),
+  blackoutId: z.string().uuid('Invalid blackout ID format'),
+});
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+const openingHoursSchema = z.object({
+  dayOfWeek: z.number().int().min(0, 'Day must be 0 (Sunday) to 6 (Saturday)').max(6, 'Day must be 0 (Sunday) to 6 (Saturday)'),
+  opensAt: timeSchema,
+  closesAt: timeSchema,
+}).refine((data) => data.opensAt < data.closesAt, {
+  message: 'Closing time must be after opening time',
+  path: ['closesAt'],
+});
+
+const closureSchema = z.object({
+  date: z.string().datetime('Invalid closure date format').transform((val) => new Date(val)),
+  reason: z.string().max(255, 'Reason too long').trim().nullable().optional(),
+});
+
+const openingHoursListSchema = z.array(openingHoursSchema).max(7)
+  .refine((hours) => new Set(hours.map((h) => h.dayOfWeek)).size === hours.length, {
+    message: 'Each day can only appear once',
+  });
+
+const closureListSchema = z.array(closureSchema).max(366)
+  .refine((closures) => new Set(closures.map((c) => c.date.toISOString().split('T')[0])).size === closures.length, {
+    message: 'Each closure date can only appear once',
+  });
+
+export const createLocationSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name too long').trim(),
+  address: z.string().max(1000, 'Address too long').trim().nullable().optional(),
+  openingHours: openingHoursListSchema.optional(),
+  closures: closureListSchema.optional(),
+});
+
+export const updateLocationSchema = createLocationSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const locationIdSchema = z.object({
+  id: z.string().uuid('Invalid location ID format'),
+});
+
+export type CreateLocationDto = z.infer<typeof createLocationSchema>;
+export type UpdateLocationDto = z.infer<typeof updateLocationSchema>;
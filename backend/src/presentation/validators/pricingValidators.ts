@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { CarType, ChargeCalculation, ChargeKind, DiscountType, PricingRuleType } from '@prisma/client';
+
+const dayOfWeekSchema = z.number().int().min(0, 'Day must be 0 (Sunday) to 6 (Saturday)').max(6, 'Day must be 0 (Sunday) to 6 (Saturday)');
+
+export const createPricingRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name too long').trim(),
+  type: z.nativeEnum(PricingRuleType),
+  multiplier: z.number().positive('Multiplier must be positive').max(10, 'Multiplier too high'),
+  carId: z.string().uuid('Invalid car ID').nullable().optional(),
+  carType: z.nativeEnum(CarType).nullable().optional(),
+  daysOfWeek: z.array(dayOfWeekSchema).max(7).optional(),
+  startDate: z.string().datetime('Invalid start date format').transform((val) => new Date(val)).nullable().optional(),
+  endDate: z.string().datetime('Invalid end date format').transform((val) => new Date(val)).nullable().optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updatePricingRuleSchema = createPricingRuleSchema.partial();
+
+export const pricingRuleQuerySchema = z.object({
+  carId: z.string().uuid('Invalid car ID').optional(),
+  carType: z.nativeEnum(CarType).optional(),
+  type: z.nativeEnum(PricingRuleType).optional(),
+  isActive: z.enum(['true', 'false']).transform((val) => val === 'true').optional(),
+});
+
+export const pricingRuleIdSchema = z.object({
+  id: z.string().uuid('Invalid pricing rule ID format'),
+});
+
+const dropFeeSchema = z.number().min(0, 'Fee cannot be negative').max(100000000, 'Fee too high');
+
+export const createLocationFeeSchema = z.object({
+  pickupLocationId: z.string().uuid('Invalid pickup location ID'),
+  dropoffLocationId: z.string().uuid('Invalid dropoff location ID'),
+  fee: dropFeeSchema,
+});
+
+export const updateLocationFeeSchema = z.object({
+  fee: dropFeeSchema,
+});
+
+export const locationFeeIdSchema = z.object({
+  id: z.string().uuid('Invalid location fee ID format'),
+});
+
+export const setCarTypeDepositSchema = z.object({
+  amount: z.number().min(0, 'Deposit cannot be negative').max(100000000, 'Deposit too high').multipleOf(0.01, 'At most two decimals'),
+});
+
+export const carTypeParamSchema = z.object({
+  carType: z.nativeEnum(CarType),
+});
+
+export const createChargeRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name too long').trim(),
+  kind: z.nativeEnum(ChargeKind),
+  calculation: z.nativeEnum(ChargeCalculation),
+  // Percent for PERCENTAGE rules, IDR per booking for FIXED rules
+  rate: z.number().positive('Rate must be positive').max(100000000, 'Rate too high').multipleOf(0.01, 'At most two decimals'),
+  locationId: z.string().uuid('Invalid location ID').nullable().optional(),
+  addonId: z.string().uuid('Invalid add-on ID').nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateChargeRuleSchema = createChargeRuleSchema.partial();
+
+export const chargeRuleQuerySchema = z.object({
+  kind: z.nativeEnum(ChargeKind).optional(),
+  locationId: z.string().uuid('Invalid location ID').optional(),
+  addonId: z.string().uuid('Invalid add-on ID').optional(),
+  isActive: z.enum(['true', 'false']).transform((val) => val === 'true').optional(),
+});
+
+export const chargeRuleIdSchema = z.object({
+  id: z.string().uuid('Invalid charge rule ID format'),
+});
+
+const redemptionLimitSchema = z.number().int().positive('Limit must be at least 1').nullable().optional();
+
+export const createPromoCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3, 'Code must be at least 3 characters')
+    .max(50, 'Code too long')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, digits, dashes and underscores'),
+  description: z.string().max(500, 'Description too long').nullable().optional(),
+  discountType: z.nativeEnum(DiscountType),
+  // Percent of the rental price for PERCENTAGE codes, IDR off for FIXED codes
+  discountValue: z.number().positive('Discount must be positive').max(100000000, 'Discount too high').multipleOf(0.01, 'At most two decimals'),
+  validFrom: z.string().datetime('Invalid date format').transform((val) => new Date(val)).nullable().optional(),
+  validUntil: z.string().datetime('Invalid date format').transform((val) => new Date(val)).nullable().optional(),
+  maxRedemptions: redemptionLimitSchema,
+  maxRedemptionsPerUser: redemptionLimitSchema,
+  minDays: z.number().int().min(1, 'Minimum days must be at least 1').max(365).nullable().optional(),
+  carTypes: z.array(z.nativeEnum(CarType)).optional(),
+  carIds: z.array(z.string().uuid('Invalid car ID')).max(100).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updatePromoCodeSchema = createPromoCodeSchema.partial();
+
+export const promoCodeIdSchema = z.object({
+  id: z.string().uuid('Invalid promo code ID format'),
+});
+
+export type CreatePricingRuleDto = z.infer<typeof createPricingRuleSchema>;
+export type UpdatePricingRuleDto = z.infer<typeof updatePricingRuleSchema>;
+export type CreateLocationFeeDto = z.infer<typeof createLocationFeeSchema>;
+export type UpdateLocationFeeDto = z.infer<typeof updateLocationFeeSchema>;
+export type SetCarTypeDepositDto = z.infer<typeof setCarTypeDepositSchema>;
+export type CreateChargeRuleDto = z.infer<typeof createChargeRuleSchema>;
+export type UpdateChargeRuleDto = z.infer<typeof updateChargeRuleSchema>;
+export type CreatePromoCodeDto = z.infer<typeof createPromoCodeSchema>;
+export type UpdatePromoCodeDto = z.infer<typeof updatePromoCodeSchema>;
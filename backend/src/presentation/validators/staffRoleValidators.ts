@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { PERMISSIONS } from '../../shared/constants/index.js';
+
+const permissionListSchema = z.array(z.enum(PERMISSIONS)).max(PERMISSIONS.length)
+  .refine((permissions) => new Set(permissions).size === permissions.length, {
+    message: 'Each permission can only appear once',
+  });
+
+export const createStaffRoleSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long').trim(),
+  description: z.string().max(500, 'Description too long').trim().nullable().optional(),
+  permissions: permissionListSchema,
+});
+
+export const updateStaffRoleSchema = createStaffRoleSchema.partial();
+
+export const staffRoleIdSchema = z.object({
+  id: z.string().uuid('Invalid staff role ID format'),
+});
+
+export type CreateStaffRoleDto = z.infer<typeof createStaffRoleSchema>;
+export type UpdateStaffRoleDto = z.infer<typeof updateStaffRoleSchema>;
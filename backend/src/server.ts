@@ -1,4 +1,10 @@
+import 'dotenv/config';
 import app from './app.js';
+import {
+  startBookingHoldExpiryJob,
+  startPaymentSettlementJob,
+  startIdempotencyKeyCleanupJob,
+} from './infrastructure/jobs/index.js';
 
 const PORT = process.env.PORT || 3000;
 
@@ -8,9 +14,17 @@ const server = app.listen(PORT, () => {
   console.log(`🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
+// Background jobs
+const stopBookingHoldExpiryJob = startBookingHoldExpiryJob();
+const stopPaymentSettlementJob = startPaymentSettlementJob();
+const stopIdempotencyKeyCleanupJob = startIdempotencyKeyCleanupJob();
+
 // Graceful shutdown
 const gracefulShutdown = (signal: string) => {
   console.log(`\n${signal} received. Shutting down gracefully...`);
+  stopBookingHoldExpiryJob();
+  stopPaymentSettlementJob();
+  stopIdempotencyKeyCleanupJob();
   server.close(() => {
     console.log('HTTP server closed.');
     process.exit(0);
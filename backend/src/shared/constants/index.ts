@@ -12,9 +12,69 @@ export const BOOKING_STATUS_TRANSITIONS: Record<string, string[]> = {
   CANCELLED: [],
 };
 
+// Longest rental that can be priced or booked; each day is priced separately
+export const MAX_RENTAL_DAYS = parseInt(process.env.MAX_RENTAL_DAYS || '90', 10);
+
+// How long a PENDING booking holds the car before it is cancelled automatically
+export const BOOKING_HOLD_MINUTES = parseInt(process.env.BOOKING_HOLD_MINUTES || '1440', 10);
+
+// Cancellation policy: free until FREE_HOURS before the start date, then a percentage fee;
+// once the rental period has started there is no refund
+export const CANCELLATION_POLICY = {
+  FREE_HOURS: parseInt(process.env.CANCELLATION_FREE_HOURS || '48', 10),
+  LATE_FEE_PERCENT: parseFloat(process.env.CANCELLATION_LATE_FEE_PERCENT || '50'),
+} as const;
+
+// Customers must confirm their email address before they can book
+export const REQUIRE_VERIFIED_EMAIL_FOR_BOOKING = process.env.REQUIRE_VERIFIED_EMAIL_FOR_BOOKING === 'true';
+
+// Lifetime of the single-use links sent by email
+export const ACCOUNT_EMAIL_TOKENS = {
+  VERIFICATION_TTL_HOURS: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+  PASSWORD_RESET_TTL_MINUTES: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+} as const;
+
+// Accounts lock after MAX_FAILED_ATTEMPTS consecutive failed logins. Each further failure
+// doubles the lock, starting at BASE_MINUTES and capped at MAX_MINUTES
+export const LOGIN_LOCKOUT = {
+  MAX_FAILED_ATTEMPTS: parseInt(process.env.LOGIN_LOCKOUT_MAX_ATTEMPTS || '5', 10),
+  BASE_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES || '1', 10),
+  MAX_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '60', 10),
+} as const;
+
+// Admins must sign in with a TOTP code and enroll an authenticator on their next login
+export const REQUIRE_ADMIN_TWO_FACTOR = process.env.REQUIRE_ADMIN_TWO_FACTOR === 'true';
+
+// Base URL of the web app, used to build links in emails
+export const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Youngest a driver may be on the rental's start date, per car type
+export const DRIVER_MIN_AGE: Record<string, number> = {
+  HATCHBACK: parseInt(process.env.DRIVER_MIN_AGE_HATCHBACK || '18', 10),
+  SEDAN: parseInt(process.env.DRIVER_MIN_AGE_SEDAN || '21', 10),
+  MPV: parseInt(process.env.DRIVER_MIN_AGE_MPV || '21', 10),
+  SUV: parseInt(process.env.DRIVER_MIN_AGE_SUV || '23', 10),
+  VAN: parseInt(process.env.DRIVER_MIN_AGE_VAN || '25', 10),
+};
+
+export const DRIVER_LICENSE_IMAGE = {
+  MAX_BYTES: parseInt(process.env.DRIVER_LICENSE_IMAGE_MAX_BYTES || String(5 * 1024 * 1024), 10),
+  CONTENT_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
+} as const;
+
+// Seller details printed on invoices
+export const INVOICE = {
+  NUMBER_PREFIX: process.env.INVOICE_NUMBER_PREFIX || 'INV-',
+  COMPANY_NAME: process.env.COMPANY_NAME || 'Car Rental',
+  COMPANY_ADDRESS: process.env.COMPANY_ADDRESS || '',
+  COMPANY_TAX_ID: process.env.COMPANY_TAX_ID || '',
+  COMPANY_EMAIL: process.env.COMPANY_EMAIL || '',
+  COMPANY_PHONE: process.env.COMPANY_PHONE || '',
+} as const;
+
 export const ACTIVE_BOOKING_STATUSES = ['PENDING', 'CONFIRMED', 'PICKED_UP'] as const;
 
-export const USER_ROLES = { ADMIN: 'ADMIN', CUSTOMER: 'CUSTOMER' } as const;
+export const USER_ROLES = { ADMIN: 'ADMIN', STAFF: 'STAFF', CUSTOMER: 'CUSTOMER' } as const;
 
 export const ERROR_CODES = {
   UNAUTHORIZED: 'UNAUTHORIZED',
@@ -26,3 +86,6 @@ export const ERROR_CODES = {
   INVALID_STATUS_TRANSITION: 'INVALID_STATUS_TRANSITION',
   CANCELLATION_NOT_ALLOWED: 'CANCELLATION_NOT_ALLOWED',
 } as const;
+
+export { PERMISSIONS, BOOKING_STATUS_PERMISSIONS, isPermission, resolvePermissions, resolveBranchScope } from './permissions.js';
+export type { Permission } from './permissions.js';
@@ -0,0 +1,47 @@
+// Everything a staff role can grant. ADMIN users implicitly hold all of them
+export const PERMISSIONS = [
+  'booking:read',
+  'booking:status:confirm',
+  'booking:status:pickup',
+  'booking:status:return',
+  'booking:status:cancel',
+  'car:write',
+  'pricing:write',
+  'location:write',
+  'addon:write',
+  'analytics:read',
+  'user:unlock',
+  'driver:verify',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Permission needed to move a booking into each status
+export const BOOKING_STATUS_PERMISSIONS: Record<string, Permission> = {
+  CONFIRMED: 'booking:status:confirm',
+  PICKED_UP: 'booking:status:pickup',
+  RETURNED: 'booking:status:return',
+  CANCELLED: 'booking:status:cancel',
+};
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+// Admins hold every permission, staff hold what their role grants and customers hold none.
+// Grants no longer in the catalog are dropped rather than trusted
+export function resolvePermissions(role: string, staffRolePermissions: string[] = []): Permission[] {
+  if (role === 'ADMIN') {
+    return [...PERMISSIONS];
+  }
+  if (role === 'STAFF') {
+    return staffRolePermissions.filter(isPermission);
+  }
+  return [];
+}
+
+// Staff assigned to branches only work with bookings picked up or dropped off there.
+// Returns null when the user is not limited to any branch
+export function resolveBranchScope(role: string, locationIds: string[] = []): string[] | null {
+  return role === 'STAFF' && locationIds.length > 0 ? locationIds : null;
+}
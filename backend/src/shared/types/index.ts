@@ -1,10 +1,14 @@
 import { Request } from 'express';
 import { UserRole } from '../../domain/entities/index.js';
+import { Permission } from '../constants/permissions.js';
 
 export interface AuthUser {
   id: string;
   email: string;
   role: UserRole;
+  permissions: Permission[];
+  // Branches the user is limited to; null means every branch
+  locationIds: string[] | null;
 }
 
 export interface AuthenticatedRequest extends Request {
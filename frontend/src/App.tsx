@@ -4,16 +4,22 @@ import { MainLayout } from '@/components/layout/MainLayout';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { LoginPage } from '@/pages/public/LoginPage';
 import { RegisterPage } from '@/pages/public/RegisterPage';
+import { VerifyEmailPage } from '@/pages/public/VerifyEmailPage';
+import { ForgotPasswordPage } from '@/pages/public/ForgotPasswordPage';
+import { ResetPasswordPage } from '@/pages/public/ResetPasswordPage';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { HomePage } from '@/pages/public/HomePage';
 import { CarListingPage } from '@/pages/public/CarListingPage';
 import { CarDetailPage } from '@/pages/public/CarDetailPage';
 import { MyBookingsPage } from '@/pages/customer/MyBookingsPage';
+import { ProfilePage } from '@/pages/customer/ProfilePage';
 import { AdminLayout } from '@/components/layout/AdminLayout';
 import { AdminDashboardPage } from '@/pages/admin/AdminDashboardPage';
 import { AdminCarListPage } from '@/pages/admin/AdminCarListPage';
 import { AdminCarFormPage } from '@/pages/admin/AdminCarFormPage';
 import { AdminBookingsPage } from '@/pages/admin/AdminBookingsPage';
+import { AdminSettingsPage } from '@/pages/admin/AdminSettingsPage';
+import { AdminDriverVerificationsPage } from '@/pages/admin/AdminDriverVerificationsPage';
 import { ToastProvider } from '@/contexts/ToastContext';
 import '@/assets/styles/main.css';
 import '@/assets/styles/utils.css';
@@ -34,14 +40,18 @@ function App() {
                 
                 <Route path="/login" element={<LoginPage />} />
                 <Route path="/register" element={<RegisterPage />} />
+                <Route path="/verify-email" element={<VerifyEmailPage />} />
+                <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                <Route path="/reset-password" element={<ResetPasswordPage />} />
 
                 {/* Protected Customer Routes - accessible by any auth user really */}
                 <Route element={<ProtectedRoute />}>
                   <Route path="/my/bookings" element={<MyBookingsPage />} />
+                  <Route path="/my/profile" element={<ProfilePage />} />
                 </Route>
 
                 {/* Protected Admin Routes */}
-                <Route element={<ProtectedRoute requiredRole="ADMIN" />}>
+                <Route element={<ProtectedRoute requiredRole={['ADMIN', 'STAFF']} />}>
                    <Route element={<AdminLayout />}>
                       <Route path="/admin" element={<AdminDashboardPage />} />
                       
@@ -51,6 +61,8 @@ function App() {
                       <Route path="/admin/cars/:id/edit" element={<AdminCarFormPage />} />
                       
                       <Route path="/admin/bookings" element={<AdminBookingsPage />} />
+                      <Route path="/admin/drivers" element={<AdminDriverVerificationsPage />} />
+                      <Route path="/admin/settings" element={<AdminSettingsPage />} />
                    </Route>
                 </Route>
               </Route>
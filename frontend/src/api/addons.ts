@@ -0,0 +1,9 @@
+import { client } from './client';
+import type { Addon } from '@/types/addon';
+
+export const addonsApi = {
+  getAll: async (): Promise<{ success: boolean; data: Addon[] }> => {
+    const response = await client.get<{ success: boolean; data: Addon[] }>('/addons');
+    return response.data;
+  },
+};
@@ -1,9 +1,34 @@
 import { client } from './client';
 import type { DashboardStats } from '../types/analytics';
+import type { DriverVerificationStatus, User } from '../types/auth';
+
+export interface ReviewDriverVerificationInput {
+  status: 'VERIFIED' | 'REJECTED';
+  // Required when rejecting
+  note?: string;
+}
 
 export const adminApi = {
   getDashboardStats: async () => {
     const response = await client.get<{ success: boolean; data: DashboardStats }>('/admin/dashboard');
     return response.data;
   },
+
+  // Defaults to licenses awaiting review, oldest first
+  getDriverVerifications: async (status: DriverVerificationStatus = 'PENDING') => {
+    const response = await client.get<{ success: boolean; data: User[] }>('/admin/driver-verifications', {
+      params: { status },
+    });
+    return response.data;
+  },
+
+  getDriverLicenseImage: async (userId: string): Promise<Blob> => {
+    const response = await client.get(`/admin/driver-verifications/${userId}/license-image`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  reviewDriverVerification: async (userId: string, data: ReviewDriverVerificationInput) => {
+    const response = await client.patch<{ success: boolean; data: User }>(`/admin/driver-verifications/${userId}`, data);
+    return response.data;
+  },
 };
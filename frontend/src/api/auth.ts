@@ -1,5 +1,12 @@
 import { client } from './client';
-import type { AuthResponse } from '@/types/auth';
+import type {
+  AuthResponse,
+  AuthTokens,
+  LoginResponse,
+  TotpEnrollment,
+  TotpEnrollmentResult,
+  User,
+} from '@/types/auth';
 // Imports cleaned
 
 // Define form types locally for now if types/forms.ts doesn't exist or just use inline
@@ -15,9 +22,57 @@ export interface RegisterInput {
   name: string;
 }
 
+export interface ResetPasswordInput {
+  token: string;
+  password: string;
+}
+
+// Omitted fields are left unchanged; null clears a field
+export interface UpdateProfileInput {
+  name?: string;
+  phone?: string | null;
+  dateOfBirth?: string | null;
+  driverLicenseNumber?: string | null;
+  driverLicenseCountry?: string | null;
+  driverLicenseExpiresAt?: string | null;
+}
+
+export interface SubmitDriverLicenseInput {
+  dateOfBirth: string;
+  driverLicenseNumber: string;
+  driverLicenseCountry: string;
+  driverLicenseExpiresAt: string;
+  // Base64 data URL; leave out to keep the photo already on file
+  image?: string;
+}
+
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
 export const authApi = {
-  login: async (data: LoginInput): Promise<AuthResponse> => {
-    const response = await client.post<AuthResponse>('/auth/login', data);
+  // Returns either a session or a two-factor challenge to complete
+  login: async (data: LoginInput): Promise<LoginResponse> => {
+    const response = await client.post<LoginResponse>('/auth/login', data);
+    return response.data;
+  },
+
+  verifyTwoFactor: async (challengeToken: string, code: string): Promise<AuthResponse> => {
+    const response = await client.post<AuthResponse>('/auth/2fa/verify', { challengeToken, code });
+    return response.data;
+  },
+
+  startTotpEnrollment: async (challengeToken: string): Promise<{ success: boolean; data: TotpEnrollment }> => {
+    const response = await client.post('/auth/2fa/enroll', { challengeToken });
+    return response.data;
+  },
+
+  confirmTotpEnrollment: async (
+    challengeToken: string,
+    code: string
+  ): Promise<{ success: boolean; data: TotpEnrollmentResult }> => {
+    const response = await client.post('/auth/2fa/enroll/confirm', { challengeToken, code });
     return response.data;
   },
 
@@ -31,7 +86,51 @@ export const authApi = {
     return response.data;
   },
   
-  logout: async (): Promise<void> => {
-    await client.post('/auth/logout');
+  // Revokes the refresh token's whole session on the server
+  logout: async (refreshToken: string): Promise<void> => {
+    await client.post('/auth/logout', { refreshToken });
+  },
+
+  verifyEmail: async (token: string): Promise<void> => {
+    await client.post('/auth/verify-email', { token });
+  },
+
+  resendVerification: async (): Promise<void> => {
+    await client.post('/auth/verify-email/resend');
+  },
+
+  // Succeeds whether or not the email belongs to an account
+  forgotPassword: async (email: string): Promise<void> => {
+    await client.post('/auth/forgot-password', { email });
+  },
+
+  resetPassword: async (data: ResetPasswordInput): Promise<void> => {
+    await client.post('/auth/reset-password', data);
+  },
+
+  updateProfile: async (data: UpdateProfileInput): Promise<{ success: boolean; data: User }> => {
+    const response = await client.patch('/auth/profile', data);
+    return response.data;
+  },
+
+  // Queues the license for staff review
+  submitDriverLicense: async (data: SubmitDriverLicenseInput): Promise<{ success: boolean; data: User }> => {
+    const response = await client.put('/auth/profile/driver-license', data);
+    return response.data;
+  },
+
+  // Every other session is signed out; the returned tokens start a fresh one
+  changePassword: async (data: ChangePasswordInput): Promise<{ success: boolean; data: { token: AuthTokens } }> => {
+    const response = await client.post('/auth/change-password', data);
+    return response.data;
+  },
+
+  exportAccountData: async (): Promise<Blob> => {
+    const response = await client.get('/auth/profile/export', { responseType: 'blob' });
+    return response.data;
+  },
+
+  deleteAccount: async (password: string): Promise<void> => {
+    await client.delete('/auth/profile', { data: { password } });
   }
 };
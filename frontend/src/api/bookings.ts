@@ -1,5 +1,5 @@
 import { client } from './client';
-import type { Booking, CreateBookingInput, BookingFilterParams } from '@/types/booking';
+import type { Booking, BookingQuote, CancellationPreview, BookingQuoteInput, CreateBookingInput, ModifyBookingInput, ModifyBookingResult, BookingFilterParams, CreatePaymentInput, CreatePaymentResult } from '@/types/booking';
 import type { PaginatedResponse } from '@/types/car';
 
 export const bookingsApi = {
@@ -8,6 +8,11 @@ export const bookingsApi = {
     return response.data;
   },
 
+  quote: async (data: BookingQuoteInput): Promise<{ success: boolean; data: BookingQuote }> => {
+    const response = await client.post<{ success: boolean; data: BookingQuote }>('/bookings/quote', data);
+    return response.data;
+  },
+
   getMyBookings: async (params?: BookingFilterParams): Promise<PaginatedResponse<Booking>> => {
     const response = await client.get<PaginatedResponse<Booking>>('/bookings', { params });
     return response.data;
@@ -18,8 +23,29 @@ export const bookingsApi = {
     return response.data;
   },
 
-  cancel: async (id: string): Promise<{ success: boolean; data: Booking }> => {
-    const response = await client.post<{ success: boolean; data: Booking }>(`/bookings/${id}/cancel`);
+  modify: async (id: string, data: ModifyBookingInput): Promise<{ success: boolean; data: ModifyBookingResult }> => {
+    const response = await client.patch<{ success: boolean; data: ModifyBookingResult }>(`/bookings/${id}`, data);
+    return response.data;
+  },
+
+  getCancellationPreview: async (id: string): Promise<{ success: boolean; data: CancellationPreview }> => {
+    const response = await client.get<{ success: boolean; data: CancellationPreview }>(`/bookings/${id}/cancellation-preview`);
+    return response.data;
+  },
+
+  cancel: async (id: string, reason: string): Promise<{ success: boolean; data: Booking }> => {
+    const response = await client.post<{ success: boolean; data: Booking }>(`/bookings/${id}/cancel`, { reason });
+    return response.data;
+  },
+
+  pay: async (id: string, data: CreatePaymentInput): Promise<{ success: boolean; data: CreatePaymentResult }> => {
+    const response = await client.post<{ success: boolean; data: CreatePaymentResult }>(`/bookings/${id}/payments`, data);
+    return response.data;
+  },
+
+  // Issued on first download; later downloads return the same document
+  getInvoicePdf: async (id: string): Promise<Blob> => {
+    const response = await client.get(`/bookings/${id}/invoice.pdf`, { responseType: 'blob' });
     return response.data;
   },
 
@@ -1,4 +1,5 @@
-import axios from 'axios';
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import type { AuthTokens } from '@/types/auth';
 
 const baseURL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
@@ -9,6 +10,16 @@ export const client = axios.create({
   },
 });
 
+export const storeTokens = (token: AuthTokens) => {
+  localStorage.setItem('token', token.accessToken);
+  localStorage.setItem('refreshToken', token.refreshToken);
+};
+
+export const clearTokens = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+};
+
 // Request interceptor to add token
 client.interceptors.request.use(
   (config) => {
@@ -23,14 +34,60 @@ client.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle errors (e.g., 401)
+// Requests that failed while a refresh was in flight all wait for the same one,
+// since the server only accepts each refresh token once
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refreshToken');
+    refreshPromise = (refreshToken
+      ? axios.post<{ data: { token: AuthTokens } }>(`${baseURL}/auth/refresh`, { refreshToken })
+          .then((response) => {
+            storeTokens(response.data.data.token);
+            return response.data.data.token.accessToken;
+          })
+      : Promise.reject(new Error('No refresh token'))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+type RetriableRequest = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// A 401 from these means bad credentials, not an expired session
+const CREDENTIAL_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/logout',
+  '/auth/2fa/verify',
+  '/auth/2fa/enroll',
+  '/auth/2fa/enroll/confirm',
+];
+
+// Response interceptor: on 401, refresh the access token and retry the request once
 client.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Clear token and redirect to login if needed
+  async (error: AxiosError) => {
+    const request = error.config as RetriableRequest | undefined;
+    const isCredentialRequest = CREDENTIAL_ENDPOINTS.includes(request?.url || '');
+
+    if (error.response?.status === 401 && request && !isCredentialRequest) {
+      if (!request._retry) {
+        request._retry = true;
+        try {
+          const accessToken = await refreshAccessToken();
+          request.headers.Authorization = `Bearer ${accessToken}`;
+          return client(request);
+        } catch {
+          // Refresh token missing, expired or revoked: fall through to the login redirect
+        }
+      }
+
+      clearTokens();
       window.location.href = '/login'; // Force redirect to login on 401
-      localStorage.removeItem('token');
     }
     return Promise.reject(error);
   }
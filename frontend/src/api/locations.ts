@@ -1,9 +1,30 @@
 import { client } from './client';
-import type { Location } from '@/types/location';
+import type { Location, LocationInput } from '@/types/location';
 
 export const locationsApi = {
   getAll: async (): Promise<{ success: boolean; data: Location[] }> => {
     const response = await client.get<{ success: boolean; data: Location[] }>('/locations');
     return response.data;
   },
+
+  // Admin methods
+  getAllAdmin: async (): Promise<{ success: boolean; data: Location[] }> => {
+    const response = await client.get<{ success: boolean; data: Location[] }>('/admin/locations');
+    return response.data;
+  },
+
+  create: async (data: LocationInput): Promise<{ success: boolean; data: Location }> => {
+    const response = await client.post<{ success: boolean; data: Location }>('/admin/locations', data);
+    return response.data;
+  },
+
+  update: async (id: string, data: Partial<LocationInput> & { isActive?: boolean }): Promise<{ success: boolean; data: Location }> => {
+    const response = await client.patch<{ success: boolean; data: Location }>(`/admin/locations/${id}`, data);
+    return response.data;
+  },
+
+  deactivate: async (id: string): Promise<{ success: boolean; data: Location }> => {
+    const response = await client.delete<{ success: boolean; data: Location }>(`/admin/locations/${id}`);
+    return response.data;
+  },
 };
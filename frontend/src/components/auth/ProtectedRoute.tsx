@@ -1,9 +1,11 @@
 import React from 'react';
 import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import type { User } from '@/types/auth';
 
 interface ProtectedRouteProps {
-  requiredRole?: 'CUSTOMER' | 'ADMIN';
+  // One role or any of several
+  requiredRole?: User['role'] | User['role'][];
 }
 
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ requiredRole }) => {
@@ -19,7 +21,8 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ requiredRole })
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  if (requiredRole && user?.role !== requiredRole) {
+  const allowedRoles = typeof requiredRole === 'string' ? [requiredRole] : requiredRole;
+  if (allowedRoles && (!user || !allowedRoles.includes(user.role))) {
     // Redirect to home if role doesn't match
     return <Navigate to="/" replace />;
   }
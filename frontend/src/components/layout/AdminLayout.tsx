@@ -1,11 +1,22 @@
 import React from 'react';
-import { Link, Outlet, useLocation } from 'react-router-dom';
-import { LayoutDashboard, Car, Calendar, LogOut } from 'lucide-react';
+import { Link, Navigate, Outlet, useLocation } from 'react-router-dom';
+import { LayoutDashboard, Car, Calendar, IdCard, Settings, LogOut } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import type { Permission } from '@/types/auth';
+
+// Each section is shown only to users holding the permission it needs
+const ADMIN_LINKS: { to: string; label: string; icon: typeof Car; permission: Permission }[] = [
+  { to: '/admin', label: 'Dashboard', icon: LayoutDashboard, permission: 'analytics:read' },
+  { to: '/admin/cars', label: 'Fleet', icon: Car, permission: 'car:write' },
+  { to: '/admin/bookings', label: 'Bookings', icon: Calendar, permission: 'booking:read' },
+  { to: '/admin/drivers', label: 'Drivers', icon: IdCard, permission: 'driver:verify' },
+  { to: '/admin/settings', label: 'Settings', icon: Settings, permission: 'location:write' },
+];
 
 export const AdminLayout: React.FC = () => {
-  const { logout } = useAuth();
+  const { logout, hasPermission } = useAuth();
   const location = useLocation();
+  const links = ADMIN_LINKS.filter((link) => hasPermission(link.permission));
 
   const isActive = (path: string) => {
     if (path === '/admin' && location.pathname === '/admin') return true;
@@ -13,6 +24,12 @@ export const AdminLayout: React.FC = () => {
     return false;
   };
 
+  // Staff landing on a section they cannot use go to the first one they can
+  const current = ADMIN_LINKS.find((link) => isActive(link.to));
+  if (current && !hasPermission(current.permission)) {
+    return links.length > 0 ? <Navigate to={links[0].to} replace /> : <Navigate to="/" replace />;
+  }
+
   return (
     <div className="flex min-h-screen bg-gray-100">
       {/* Sidebar */}
@@ -25,27 +42,16 @@ export const AdminLayout: React.FC = () => {
         </div>
 
         <nav className="flex-1 p-4 flex flex-col gap-2">
-          <Link 
-            to="/admin" 
-            className={`flex items-center gap-3 px-4 py-2 rounded-lg transition-colors ${isActive('/admin') ? 'bg-blue-700 text-white shadow-md' : 'text-gray-700 hover:bg-gray-100'}`}
-          >
-            <LayoutDashboard size={20} />
-            Dashboard
-          </Link>
-          <Link 
-            to="/admin/cars" 
-            className={`flex items-center gap-3 px-4 py-2 rounded-lg transition-colors ${isActive('/admin/cars') ? 'bg-blue-700 text-white shadow-md' : 'text-gray-700 hover:bg-gray-100'}`}
-          >
-            <Car size={20} />
-            Fleet
-          </Link>
-          <Link 
-            to="/admin/bookings" 
-            className={`flex items-center gap-3 px-4 py-2 rounded-lg transition-colors ${isActive('/admin/bookings') ? 'bg-blue-700 text-white shadow-md' : 'text-gray-700 hover:bg-gray-100'}`}
-          >
-            <Calendar size={20} />
-            Bookings
-          </Link>
+          {links.map(({ to, label, icon: Icon }) => (
+            <Link
+              key={to}
+              to={to}
+              className={`flex items-center gap-3 px-4 py-2 rounded-lg transition-colors ${isActive(to) ? 'bg-blue-700 text-white shadow-md' : 'text-gray-700 hover:bg-gray-100'}`}
+            >
+              <Icon size={20} />
+              {label}
+            </Link>
+          ))}
         </nav>
 
         <div className="p-4 border-t">
@@ -23,7 +23,8 @@ export const Navbar: React.FC = () => {
           {isAuthenticated ? (
             <div className="flex items-center gap-4">
               <Link to="/my/bookings" className="text-sm font-medium hover:text-primary transition-colors">My Bookings</Link>
-              {user?.role === 'ADMIN' && (
+              <Link to="/my/profile" className="text-sm font-medium hover:text-primary transition-colors">Profile</Link>
+              {(user?.role === 'ADMIN' || user?.role === 'STAFF') && (
                 <Link to="/admin" className="text-sm font-medium hover:text-primary transition-colors">Admin</Link>
               )}
               <div className="flex items-center gap-2 border-l pl-4 ml-2">
@@ -49,7 +50,8 @@ export const Navbar: React.FC = () => {
           {isAuthenticated ? (
             <>
               <Link to="/my/bookings" className="text-sm font-medium hover:text-primary transition-colors" onClick={() => setIsMobileMenuOpen(false)}>My Bookings</Link>
-              {user?.role === 'ADMIN' && (
+              <Link to="/my/profile" className="text-sm font-medium hover:text-primary transition-colors" onClick={() => setIsMobileMenuOpen(false)}>Profile</Link>
+              {(user?.role === 'ADMIN' || user?.role === 'STAFF') && (
                 <Link to="/admin" className="text-sm font-medium hover:text-primary transition-colors" onClick={() => setIsMobileMenuOpen(false)}>Admin</Link>
               )}
               <div className="border-t pt-4 mt-2">
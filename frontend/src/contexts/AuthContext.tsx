@@ -1,17 +1,35 @@
 import React, { createContext, useState, useEffect, type ReactNode } from 'react';
-import type { User } from '@/types/auth';
+import type { AuthSession, Permission, TwoFactorChallenge, User } from '@/types/auth';
 import { authApi } from '@/api/auth';
-import type { LoginInput, RegisterInput } from '@/api/auth';
+import { storeTokens, clearTokens } from '@/api/client';
+import type {
+  ChangePasswordInput,
+  LoginInput,
+  RegisterInput,
+  SubmitDriverLicenseInput,
+  UpdateProfileInput,
+} from '@/api/auth';
 
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (data: LoginInput) => Promise<void>;
+  // Resolves with a challenge when the account needs a second factor, otherwise signs in
+  login: (data: LoginInput) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  // Returns the one-time recovery codes to show the user
+  confirmTotpEnrollment: (challengeToken: string, code: string) => Promise<string[]>;
   register: (data: RegisterInput) => Promise<void>;
   logout: () => Promise<void>;
+  updateProfile: (data: UpdateProfileInput) => Promise<void>;
+  submitDriverLicense: (data: SubmitDriverLicenseInput) => Promise<void>;
+  changePassword: (data: ChangePasswordInput) => Promise<void>;
+  // Signs out locally once the server has anonymized the account
+  deleteAccount: (password: string) => Promise<void>;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  // Admins and staff can open the back office, limited to what their permissions allow
+  hasPermission: (permission: Permission) => boolean;
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -32,7 +50,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           setUser(data);
         } catch (error) {
           console.error("Auth initialization failed", error);
-          localStorage.removeItem('token');
+          clearTokens();
         }
       }
       setIsLoading(false);
@@ -41,44 +59,107 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     initAuth();
   }, []);
 
-  const login = async (data: LoginInput) => {
-    const response = await authApi.login(data);
-    const { user, token } = response.data;
-    
-    localStorage.setItem('token', token.accessToken);
+  const startSession = async ({ user, token }: AuthSession) => {
+    storeTokens(token);
     // Client interceptor picks this up automatically for subsequent requests
+    if (user.role === 'STAFF') {
+      // Staff permissions come from their role and are only part of the profile
+      const { data } = await authApi.me();
+      setUser(data);
+      return;
+    }
     setUser(user);
+  };
+
+  const login = async (data: LoginInput) => {
+    const response = await authApi.login(data);
+    if ('challenge' in response.data) {
+      return response.data.challenge;
+    }
+
+    await startSession(response.data);
     // Optional: reload or navigate handled by component
+    return null;
+  };
+
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    const response = await authApi.verifyTwoFactor(challengeToken, code);
+    await startSession(response.data);
+  };
+
+  const confirmTotpEnrollment = async (challengeToken: string, code: string) => {
+    const response = await authApi.confirmTotpEnrollment(challengeToken, code);
+    await startSession(response.data);
+    return response.data.recoveryCodes;
   };
 
   const register = async (data: RegisterInput) => {
     const response = await authApi.register(data);
     const { user, token } = response.data;
     
-    localStorage.setItem('token', token.accessToken);
+    storeTokens(token);
     setUser(user);
   };
 
   const logout = async () => {
     try {
-      await authApi.logout();
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (refreshToken) {
+        await authApi.logout(refreshToken);
+      }
     } catch (e) {
       // Ignore logout errors
     } finally {
-      localStorage.removeItem('token');
+      clearTokens();
       setUser(null);
     }
   };
 
+  // Profile responses have no permissions or branches, so keep the ones from /me
+  const mergeUser = (updated: User) => {
+    setUser((current) => current ? { ...current, ...updated } : updated);
+  };
+
+  const updateProfile = async (data: UpdateProfileInput) => {
+    const response = await authApi.updateProfile(data);
+    mergeUser(response.data);
+  };
+
+  const submitDriverLicense = async (data: SubmitDriverLicenseInput) => {
+    const response = await authApi.submitDriverLicense(data);
+    mergeUser(response.data);
+  };
+
+  const changePassword = async (data: ChangePasswordInput) => {
+    const response = await authApi.changePassword(data);
+    storeTokens(response.data.token);
+  };
+
+  const deleteAccount = async (password: string) => {
+    await authApi.deleteAccount(password);
+    clearTokens();
+    setUser(null);
+  };
+
+  const hasPermission = (permission: Permission) =>
+    user?.role === 'ADMIN' || (user?.role === 'STAFF' && !!user.permissions?.includes(permission));
+
   return (
     <AuthContext.Provider value={{
       user,
       isLoading,
       login,
+      verifyTwoFactor,
+      confirmTotpEnrollment,
       register,
       logout,
+      updateProfile,
+      submitDriverLicense,
+      changePassword,
+      deleteAccount,
       isAuthenticated: !!user,
-      isAdmin: user?.role === 'ADMIN'
+      isAdmin: user?.role === 'ADMIN',
+      hasPermission
     }}>
       {children}
     </AuthContext.Provider>
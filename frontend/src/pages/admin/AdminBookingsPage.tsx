@@ -6,6 +6,8 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { dateUtils } from '@/utils/dateUtils';
 
+const formatIDR = (amount: number) => new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(amount);
+
 export const AdminBookingsPage: React.FC = () => {
   const queryClient = useQueryClient();
   const { data, isLoading, isError } = useQuery({
@@ -18,7 +20,7 @@ export const AdminBookingsPage: React.FC = () => {
   // We'll stick to 'cancel' for now as per available API methods, or add a generic update.
   
   const cancelMutation = useMutation({
-    mutationFn: bookingsApi.cancel,
+    mutationFn: (id: string) => bookingsApi.cancel(id, 'Cancelled by admin'),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin-bookings'] });
     },
@@ -44,6 +46,7 @@ export const AdminBookingsPage: React.FC = () => {
               <th className="p-4 font-semibold">Dates</th>
               <th className="p-4 font-semibold">Total</th>
               <th className="p-4 font-semibold">Status</th>
+              <th className="p-4 font-semibold">Deposit</th>
               <th className="p-4 font-semibold text-right">Actions</th>
             </tr>
           </thead>
@@ -63,7 +66,7 @@ export const AdminBookingsPage: React.FC = () => {
                   <span className="text-muted text-xs">to</span> {dateUtils.formatDate(booking.endDate)}
                 </td>
                 <td className="p-4 text-sm font-medium">
-                    {new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(booking.totalPrice)}
+                    {formatIDR(booking.totalPrice)}
                 </td>
                 <td className="p-4">
                   <span className={`px-2 py-1 rounded text-xs font-semibold 
@@ -72,6 +75,23 @@ export const AdminBookingsPage: React.FC = () => {
                     {booking.status}
                   </span>
                 </td>
+                <td className="p-4 text-sm">
+                  {booking.deposit ? (
+                    <>
+                      <div className="font-medium">{booking.deposit.status}</div>
+                      <div className="text-xs text-muted">
+                        {booking.deposit.capturedAmount != null
+                          ? `${formatIDR(Number(booking.deposit.capturedAmount))} of ${formatIDR(Number(booking.deposit.amount))} kept`
+                          : formatIDR(Number(booking.deposit.amount))}
+                      </div>
+                      {booking.deposit.failureReason && (
+                        <div className="text-xs text-red-600">{booking.deposit.failureReason}</div>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-muted">—</span>
+                  )}
+                </td>
                 <td className="p-4 text-right">
                    {booking.status !== 'CANCELLED' && booking.status !== 'RETURNED' && (
                      <Button 
@@ -90,7 +110,7 @@ export const AdminBookingsPage: React.FC = () => {
             ))}
              {bookings.length === 0 && (
                 <tr>
-                    <td colSpan={7} className="p-8 text-center text-muted">No bookings found.</td>
+                    <td colSpan={8} className="p-8 text-center text-muted">No bookings found.</td>
                 </tr>
             )}
           </tbody>
@@ -3,6 +3,7 @@ import { useForm } from 'react-hook-form';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { carsApi } from '@/api/cars';
+import { locationsApi } from '@/api/locations';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card } from '@/components/ui/Card';
@@ -19,6 +20,7 @@ interface CarFormData {
   dailyPrice: number;
   isAvailable: boolean;
   images: string;
+  currentLocationId: string;
 }
 
 export const AdminCarFormPage: React.FC = () => {
@@ -36,6 +38,12 @@ export const AdminCarFormPage: React.FC = () => {
     enabled: isEditMode,
   });
 
+  const { data: locationsData } = useQuery({
+    queryKey: ['locations'],
+    queryFn: locationsApi.getAll,
+  });
+  const locations = locationsData?.data || [];
+
   useEffect(() => {
     if (carData?.data) {
       const car = carData.data;
@@ -50,6 +58,7 @@ export const AdminCarFormPage: React.FC = () => {
         dailyPrice: car.dailyPrice,
         isAvailable: car.isAvailable,
         images: car.images.join(','),
+        currentLocationId: car.currentLocationId ?? '',
       });
     }
   }, [carData, reset]);
@@ -59,7 +68,8 @@ export const AdminCarFormPage: React.FC = () => {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const payload: any = {
             ...data,
-            images: data.images.split(',').map(url => url.trim()).filter(Boolean)
+            images: data.images.split(',').map(url => url.trim()).filter(Boolean),
+            currentLocationId: data.currentLocationId || undefined,
         };
         
         if (isEditMode && id) {
@@ -165,6 +175,20 @@ export const AdminCarFormPage: React.FC = () => {
             </div>
           </div>
 
+          <div className="flex flex-col gap-1">
+              <label htmlFor="currentLocationId" className="text-sm font-medium">Current Location</label>
+              <select
+                  id="currentLocationId"
+                  {...register('currentLocationId')}
+                  className="p-2 border rounded focus:ring-2 focus:ring-primary focus:outline-none"
+              >
+                  <option value="">Not assigned</option>
+                  {locations.map(loc => (
+                      <option key={loc.id} value={loc.id}>{loc.name}</option>
+                  ))}
+              </select>
+          </div>
+
           <div>
              <label className="block text-sm font-medium mb-1">Image URLs (comma separated)</label>
              <textarea
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { adminApi } from '@/api/admin';
+import type { ReviewDriverVerificationInput } from '@/api/admin';
+import type { User } from '@/types/auth';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { dateUtils } from '@/utils/dateUtils';
+import { AxiosError } from 'axios';
+
+const errorMessageOf = (err: unknown, fallback: string) => {
+  const error = err as AxiosError<{ message?: string; error?: { message?: string } }>;
+  return error.response?.data?.error?.message || error.response?.data?.message || fallback;
+};
+
+// License photos need the auth header, so they are fetched and shown from an object URL
+const LicenseImage: React.FC<{ userId: string }> = ({ userId }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    adminApi.getDriverLicenseImage(userId)
+      .then((blob) => {
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => setFailed(true));
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [userId]);
+
+  if (failed) return <p className="text-sm text-red-500">Could not load the license photo.</p>;
+  if (!url) return <p className="text-sm text-muted">Loading photo...</p>;
+  return <img src={url} alt="Driver license" className="rounded-lg border max-h-64" />;
+};
+
+const VerificationRow: React.FC<{
+  user: User;
+  onReview: (input: ReviewDriverVerificationInput) => void;
+  isReviewing: boolean;
+}> = ({ user, onReview, isReviewing }) => {
+  const [showImage, setShowImage] = useState(false);
+  const [note, setNote] = useState('');
+
+  return (
+    <Card className="mb-4">
+      <div className="flex justify-between gap-4">
+        <div className="text-sm">
+          <div className="font-medium text-base">{user.name}</div>
+          <div className="text-muted mb-2">{user.email}</div>
+          <div>Date of birth: {user.dateOfBirth ? dateUtils.formatDate(user.dateOfBirth) : '-'}</div>
+          <div>License: {user.driverLicenseNumber} ({user.driverLicenseCountry})</div>
+          <div>Expires: {user.driverLicenseExpiresAt ? dateUtils.formatDate(user.driverLicenseExpiresAt) : '-'}</div>
+          {user.driverLicenseSubmittedAt && (
+            <div className="text-xs text-muted mt-2">Submitted {dateUtils.formatDate(user.driverLicenseSubmittedAt)}</div>
+          )}
+        </div>
+        <div className="flex flex-col gap-2 items-end">
+          <Button variant="outline" size="sm" onClick={() => setShowImage((shown) => !shown)}>
+            {showImage ? 'Hide Photo' : 'View Photo'}
+          </Button>
+          <Button size="sm" onClick={() => onReview({ status: 'VERIFIED' })} isLoading={isReviewing}>
+            Approve
+          </Button>
+        </div>
+      </div>
+
+      {showImage && (
+        <div className="mt-4">
+          <LicenseImage userId={user.id} />
+        </div>
+      )}
+
+      <div className="flex items-end gap-2 mt-4">
+        <div className="flex-1">
+          <Input
+            label="Rejection Note"
+            name={`note-${user.id}`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Photo is blurry, please upload a clearer one"
+          />
+        </div>
+        <Button
+          variant="danger"
+          size="sm"
+          disabled={!note.trim()}
+          onClick={() => onReview({ status: 'REJECTED', note: note.trim() })}
+          isLoading={isReviewing}
+        >
+          Reject
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export const AdminDriverVerificationsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['admin-driver-verifications'],
+    queryFn: () => adminApi.getDriverVerifications(),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ userId, input }: { userId: string; input: ReviewDriverVerificationInput }) =>
+      adminApi.reviewDriverVerification(userId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-driver-verifications'] });
+    },
+    onError: (err) => alert(errorMessageOf(err, 'Failed to save the decision'))
+  });
+
+  if (isLoading) return <div className="p-8 text-center">Loading verifications...</div>;
+  if (isError) return <div className="p-8 text-center text-red-500">Error loading verifications.</div>;
+
+  const users = data?.data || [];
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold mb-6">Driver Verification</h1>
+
+      {users.length === 0 ? (
+        <Card className="text-center py-12">
+          <p className="text-muted">No licenses are waiting for review.</p>
+        </Card>
+      ) : (
+        users.map((user) => (
+          <VerificationRow
+            key={user.id}
+            user={user}
+            onReview={(input) => reviewMutation.mutate({ userId: user.id, input })}
+            isReviewing={reviewMutation.isPending && reviewMutation.variables?.userId === user.id}
+          />
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import { locationsApi } from '@/api/locations';
+import type { Location, LocationClosure, LocationInput, LocationOpeningHours } from '@/types/location';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface LocationForm {
+  name: string;
+  address: string;
+  // One entry per weekday; null means closed that day
+  hours: (Omit<LocationOpeningHours, 'dayOfWeek'> | null)[];
+  closures: { date: string; reason: string }[]; // date as YYYY-MM-DD
+}
+
+const emptyForm = (): LocationForm => ({
+  name: '',
+  address: '',
+  hours: DAYS.map(() => null),
+  closures: [],
+});
+
+const toForm = (location: Location): LocationForm => ({
+  name: location.name,
+  address: location.address || '',
+  hours: DAYS.map((_, dayOfWeek) => {
+    const hours = location.openingHours?.find(h => h.dayOfWeek === dayOfWeek);
+    return hours ? { opensAt: hours.opensAt, closesAt: hours.closesAt } : null;
+  }),
+  closures: (location.closures || []).map(c => ({ date: c.date.split('T')[0], reason: c.reason || '' })),
+});
+
+const toInput = (form: LocationForm): LocationInput => ({
+  name: form.name,
+  address: form.address || null,
+  openingHours: form.hours.flatMap((hours, dayOfWeek) => (hours ? [{ dayOfWeek, ...hours }] : [])),
+  closures: form.closures
+    .filter(c => c.date)
+    .map((c): LocationClosure => ({ date: new Date(c.date).toISOString(), reason: c.reason || null })),
+});
+
+const summarizeHours = (location: Location) => {
+  const hours = location.openingHours || [];
+  if (hours.length === 0) return 'Open every day';
+  return hours.map(h => `${DAYS[h.dayOfWeek].slice(0, 3)} ${h.opensAt}-${h.closesAt}`).join(', ');
+};
+
+export const AdminSettingsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  // null: no form open; 'new': creating; otherwise the ID of the location being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<LocationForm>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['admin-locations'],
+    queryFn: locationsApi.getAllAdmin,
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-locations'] });
+    queryClient.invalidateQueries({ queryKey: ['locations'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: LocationInput) =>
+      editing && editing !== 'new' ? locationsApi.update(editing, input) : locationsApi.create(input),
+    onSuccess: () => {
+      onSaved();
+      setEditing(null);
+    },
+    onError: (err: AxiosError<{ error?: { message: string } }>) => {
+      setFormError(err.response?.data?.error?.message || 'Failed to save location');
+    },
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: (location: Location) =>
+      location.isActive ? locationsApi.deactivate(location.id) : locationsApi.update(location.id, { isActive: true }),
+    onSuccess: onSaved,
+    onError: () => alert('Failed to update location'),
+  });
+
+  const openForm = (location?: Location) => {
+    setEditing(location ? location.id : 'new');
+    setForm(location ? toForm(location) : emptyForm());
+    setFormError(null);
+  };
+
+  const setDayHours = (dayOfWeek: number, hours: LocationForm['hours'][number]) => {
+    setForm(prev => ({ ...prev, hours: prev.hours.map((h, i) => (i === dayOfWeek ? hours : h)) }));
+  };
+
+  const setClosure = (index: number, changes: Partial<LocationForm['closures'][number]>) => {
+    setForm(prev => ({
+      ...prev,
+      closures: prev.closures.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    saveMutation.mutate(toInput(form));
+  };
+
+  if (isLoading) return <div className="p-8 text-center">Loading locations...</div>;
+  if (isError) return <div className="p-8 text-center text-red-500">Error loading locations.</div>;
+
+  const locations = data?.data || [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <Button onClick={() => openForm()}>Add Location</Button>
+      </div>
+
+      {editing && (
+        <Card className="p-6 mb-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h2 className="text-lg font-semibold">{editing === 'new' ? 'New Location' : 'Edit Location'}</h2>
+
+            {formError && (
+              <div className="p-3 bg-red-100 text-red-700 text-sm rounded">{formError}</div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                id="locationName"
+                label="Name"
+                value={form.name}
+                required
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+              <Input
+                id="locationAddress"
+                label="Address"
+                value={form.address}
+                onChange={(e) => setForm(prev => ({ ...prev, address: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium mb-2">Opening Hours</h3>
+              <p className="text-xs text-muted mb-2">Leave every day unchecked to keep the location open every day.</p>
+              {DAYS.map((day, dayOfWeek) => {
+                const hours = form.hours[dayOfWeek];
+                return (
+                  <div key={day} className="flex items-center gap-3 mb-2 text-sm">
+                    <label className="flex items-center gap-2 w-32">
+                      <input
+                        type="checkbox"
+                        checked={!!hours}
+                        onChange={(e) => setDayHours(dayOfWeek, e.target.checked ? { opensAt: '08:00', closesAt: '18:00' } : null)}
+                      />
+                      {day}
+                    </label>
+                    {hours && (
+                      <>
+                        <input
+                          type="time"
+                          aria-label={`${day} opens at`}
+                          className="p-1 border rounded"
+                          value={hours.opensAt}
+                          onChange={(e) => setDayHours(dayOfWeek, { ...hours, opensAt: e.target.value })}
+                        />
+                        <span>-</span>
+                        <input
+                          type="time"
+                          aria-label={`${day} closes at`}
+                          className="p-1 border rounded"
+                          value={hours.closesAt}
+                          onChange={(e) => setDayHours(dayOfWeek, { ...hours, closesAt: e.target.value })}
+                        />
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium mb-2">Closure Dates</h3>
+              {form.closures.map((closure, index) => (
+                <div key={index} className="flex items-center gap-3 mb-2 text-sm">
+                  <input
+                    type="date"
+                    aria-label="Closure date"
+                    className="p-1 border rounded"
+                    value={closure.date}
+                    onChange={(e) => setClosure(index, { date: e.target.value })}
+                  />
+                  <input
+                    type="text"
+                    aria-label="Closure reason"
+                    placeholder="Reason (e.g. public holiday)"
+                    className="p-1 border rounded flex-1"
+                    value={closure.reason}
+                    onChange={(e) => setClosure(index, { reason: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setForm(prev => ({ ...prev, closures: prev.closures.filter((_, i) => i !== index) }))}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, closures: [...prev.closures, { date: '', reason: '' }] }))}
+              >
+                Add Closure Date
+              </Button>
+            </div>
+
+            <div className="pt-4 flex justify-end gap-3">
+              <Button type="button" variant="ghost" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" isLoading={saveMutation.isPending}>
+                Save Location
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      <Card className="overflow-hidden">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-gray-50 border-b">
+              <th className="p-4 font-semibold">Location</th>
+              <th className="p-4 font-semibold">Opening Hours</th>
+              <th className="p-4 font-semibold">Closures</th>
+              <th className="p-4 font-semibold">Status</th>
+              <th className="p-4 font-semibold text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {locations.map((location) => (
+              <tr key={location.id} className="border-b last:border-0 hover:bg-gray-50">
+                <td className="p-4 text-sm">
+                  <div className="font-medium">{location.name}</div>
+                  <div className="text-xs text-muted">{location.address}</div>
+                </td>
+                <td className="p-4 text-xs">{summarizeHours(location)}</td>
+                <td className="p-4 text-xs">{location.closures?.length || 0}</td>
+                <td className="p-4">
+                  <span className={`px-2 py-1 rounded text-xs font-semibold ${location.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                    {location.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="p-4 text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openForm(location)}>
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className={location.isActive ? 'text-red-600 hover:bg-red-50' : ''}
+                      onClick={() => activeMutation.mutate(location)}
+                    >
+                      {location.isActive ? 'Deactivate' : 'Reactivate'}
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+    </div>
+  );
+};
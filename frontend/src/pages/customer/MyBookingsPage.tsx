@@ -1,11 +1,37 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { bookingsApi } from '@/api/bookings';
-import type { Booking, BookingStatus } from '@/types/booking';
+import { authApi } from '@/api/auth';
+import { useAuth } from '@/hooks/useAuth';
+import type { Booking, BookingStatus, PaymentStatus } from '@/types/booking';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { dateUtils } from '@/utils/dateUtils';
 import { Link } from 'react-router-dom';
+import { AxiosError } from 'axios';
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0
+  }).format(value);
+};
+
+const errorMessageOf = (err: unknown, fallback: string) => {
+  const error = err as AxiosError<{ message?: string; error?: { message?: string } }>;
+  return error.response?.data?.error?.message || error.response?.data?.message || fallback;
+};
+
+// Payment methods understood by the development gateway
+const PAYMENT_METHODS = [
+  { value: 'fake_success', label: 'Test card (approved)' },
+  { value: 'fake_async', label: 'Test bank transfer (settles later)' },
+  { value: 'fake_decline', label: 'Test card (declined)' },
+];
+
+const sumByStatus = (items: { amount: number; status: PaymentStatus }[] | undefined, status: PaymentStatus) =>
+  (items || []).filter((item) => item.status === status).reduce((sum, item) => sum + Number(item.amount), 0);
 
 export const MyBookingsPage: React.FC = () => {
   const { data, isLoading, isError, refetch } = useQuery({
@@ -19,16 +45,55 @@ export const MyBookingsPage: React.FC = () => {
   const bookings = data?.data || [];
 
   const handleCancel = async (id: string) => {
-    if (confirm('Are you sure you want to cancel this booking?')) {
-      await bookingsApi.cancel(id);
+    // Show the fee and refund from the cancellation policy before confirming
+    const { data: preview } = await bookingsApi.getCancellationPreview(id);
+    if (!preview.allowed) {
+      alert(preview.reason || 'This booking can no longer be cancelled.');
+      return;
+    }
+
+    const message = preview.cancellationFee > 0
+      ? `Cancelling now costs ${formatCurrency(preview.cancellationFee)} (${preview.feePercent}% fee). You will get back ${formatCurrency(preview.refundAmount)}. Continue?`
+      : 'Cancellation is free. Are you sure you want to cancel this booking?';
+
+    if (confirm(message)) {
+      await bookingsApi.cancel(id, 'Cancelled by customer');
       refetch();
     }
   };
 
+  const handlePay = async (id: string, paymentMethod: string) => {
+    try {
+      const { data: result } = await bookingsApi.pay(id, { paymentMethod });
+      if (result.payment.status === 'PENDING') {
+        alert('Your payment is being processed. The booking is confirmed once it goes through.');
+      }
+    } catch (err) {
+      alert(errorMessageOf(err, 'Payment failed. Please try again.'));
+    }
+    refetch();
+  };
+
+  const handleDownloadInvoice = async (id: string) => {
+    try {
+      const blob = await bookingsApi.getInvoicePdf(id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `invoice-${id.slice(0, 8)}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      alert('Could not download the invoice. Please try again.');
+    }
+  };
+
   return (
     <div className="container py-8">
       <h1 className="text-2xl font-bold mb-6">My Bookings</h1>
 
+      <EmailVerificationBanner />
+
       {bookings.length === 0 ? (
         <Card className="text-center py-12">
           <p className="text-muted mb-4">You haven't made any bookings yet.</p>
@@ -39,7 +104,14 @@ export const MyBookingsPage: React.FC = () => {
       ) : (
         <div className="flex flex-col gap-4">
           {bookings.map((booking) => (
-            <BookingItem key={booking.id} booking={booking} onCancel={handleCancel} />
+            <BookingItem
+              key={booking.id}
+              booking={booking}
+              onCancel={handleCancel}
+              onPay={handlePay}
+              onDownloadInvoice={handleDownloadInvoice}
+              onHoldExpired={refetch}
+            />
           ))}
         </div>
       )}
@@ -47,7 +119,94 @@ export const MyBookingsPage: React.FC = () => {
   );
 };
 
-const BookingItem: React.FC<{ booking: Booking; onCancel: (id: string) => void }> = ({ booking, onCancel }) => {
+// Reminds customers who have not confirmed their email and lets them ask for a new link
+const EmailVerificationBanner: React.FC = () => {
+  const { user } = useAuth();
+  const [sent, setSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  if (!user || user.emailVerifiedAt) return null;
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await authApi.resendVerification();
+      setSent(true);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="p-4 mb-6 text-sm text-yellow-800 bg-yellow-100 rounded-lg flex items-center justify-between gap-4">
+      <span>
+        {sent
+          ? `We sent a new verification link to ${user.email}.`
+          : `Please verify your email address (${user.email}) using the link we sent you.`}
+      </span>
+      {!sent && (
+        <Button size="sm" variant="outline" onClick={handleResend} isLoading={isSending}>
+          Resend Link
+        </Button>
+      )}
+    </div>
+  );
+};
+
+// Live countdown until an unconfirmed booking's hold runs out
+const HoldCountdown: React.FC<{ expiresAt: string; onExpire: () => void }> = ({ expiresAt, onExpire }) => {
+  const [remaining, setRemaining] = useState(() => new Date(expiresAt).getTime() - Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const next = new Date(expiresAt).getTime() - Date.now();
+      setRemaining(next);
+      if (next <= 0) {
+        clearInterval(timer);
+        onExpire();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt, onExpire]);
+
+  if (remaining <= 0) {
+    return <span className="text-xs text-red-600">Hold expired</span>;
+  }
+
+  return (
+    <span className="text-xs text-yellow-800">
+      Awaiting confirmation · hold expires in {dateUtils.formatCountdown(remaining)}
+    </span>
+  );
+};
+
+const BookingItem: React.FC<{
+  booking: Booking;
+  onCancel: (id: string) => void;
+  onPay: (id: string, paymentMethod: string) => Promise<void>;
+  onDownloadInvoice: (id: string) => Promise<void>;
+  onHoldExpired: () => void;
+}> = ({ booking, onCancel, onPay, onDownloadInvoice, onHoldExpired }) => {
+  const [paymentMethod, setPaymentMethod] = useState(PAYMENT_METHODS[0].value);
+  const [isPaying, setIsPaying] = useState(false);
+
+  const paid = sumByStatus(booking.payments, 'SUCCEEDED');
+  const processing = sumByStatus(booking.payments, 'PENDING');
+  const refunded = sumByStatus(booking.refunds, 'SUCCEEDED');
+  const outstanding = Number(booking.totalPrice) - paid - processing;
+  const canPay = (booking.status === 'PENDING' || booking.status === 'CONFIRMED') && outstanding > 0;
+  const deposit = booking.deposit;
+  const canDownloadInvoice = ['CONFIRMED', 'PICKED_UP', 'RETURNED'].includes(booking.status);
+
+  const handlePay = async () => {
+    setIsPaying(true);
+    try {
+      await onPay(booking.id, paymentMethod);
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
   const statusColors: Record<BookingStatus, string> = {
     PENDING: 'bg-yellow-100 text-yellow-800',
     CONFIRMED: 'bg-green-100 text-green-800',
@@ -56,14 +215,6 @@ const BookingItem: React.FC<{ booking: Booking; onCancel: (id: string) => void }
     CANCELLED: 'bg-red-100 text-red-800',
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('id-ID', {
-      style: 'currency',
-      currency: 'IDR',
-      minimumFractionDigits: 0
-    }).format(value);
-  };
-
   return (
     <Card className="flex flex-col md:flex-row gap-4 justify-between items-start md:items-center">
       <div className="flex-1">
@@ -72,6 +223,9 @@ const BookingItem: React.FC<{ booking: Booking; onCancel: (id: string) => void }
             {booking.status}
           </span>
           <span className="text-sm text-muted">ID: {booking.id.slice(0, 8)}</span>
+          {booking.status === 'PENDING' && booking.holdExpiresAt && (
+            <HoldCountdown expiresAt={booking.holdExpiresAt} onExpire={onHoldExpired} />
+          )}
         </div>
         
         <h3 className="text-lg font-semibold">
@@ -87,7 +241,66 @@ const BookingItem: React.FC<{ booking: Booking; onCancel: (id: string) => void }
 
       <div className="text-right flex flex-col items-end gap-2">
         <p className="text-lg font-bold text-primary">{formatCurrency(booking.totalPrice)}</p>
+        {Number(booking.discountAmount) > 0 && (
+          <p className="text-xs text-muted">
+            {booking.promoCode ? `Promo code ${booking.promoCode.code}` : 'Discount'}: -{formatCurrency(Number(booking.discountAmount))}
+          </p>
+        )}
+        {booking.charges?.map((charge) => (
+          <p key={charge.id} className="text-xs text-muted">
+            {charge.name}
+            {charge.ratePercent != null && ` ${Number(charge.ratePercent)}%`}: {formatCurrency(Number(charge.amount))}
+          </p>
+        ))}
+        {booking.status === 'CANCELLED' && booking.refundAmount != null && (
+          <p className="text-xs text-muted">
+            Fee {formatCurrency(Number(booking.cancellationFee ?? 0))} · Refund {formatCurrency(Number(booking.refundAmount))}
+          </p>
+        )}
+        {(paid > 0 || processing > 0) && (
+          <p className="text-xs text-muted">
+            Paid {formatCurrency(paid)}
+            {processing > 0 && ` · Processing ${formatCurrency(processing)}`}
+            {refunded > 0 && ` · Refunded ${formatCurrency(refunded)}`}
+          </p>
+        )}
+        {deposit?.status === 'HELD' && (
+          <p className="text-xs text-muted">Deposit held {formatCurrency(Number(deposit.amount))}</p>
+        )}
+        {deposit?.status === 'RELEASED' && (
+          <p className="text-xs text-muted">Deposit of {formatCurrency(Number(deposit.amount))} released</p>
+        )}
+        {deposit?.status === 'CAPTURED' && (
+          <p className="text-xs text-muted">
+            Deposit: {formatCurrency(Number(deposit.capturedAmount ?? 0))} kept
+            {deposit.captureReason && ` for ${deposit.captureReason}`}, the rest released
+          </p>
+        )}
+
+        {canPay && (
+          <div className="flex items-center gap-2">
+            <select
+              aria-label="Payment method"
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value)}
+              className="p-2 border rounded text-sm"
+            >
+              {PAYMENT_METHODS.map((method) => (
+                <option key={method.value} value={method.value}>{method.label}</option>
+              ))}
+            </select>
+            <Button size="sm" onClick={handlePay} isLoading={isPaying}>
+              Pay {formatCurrency(outstanding)}
+            </Button>
+          </div>
+        )}
         
+        {canDownloadInvoice && (
+          <Button variant="outline" size="sm" onClick={() => onDownloadInvoice(booking.id)}>
+            Download Invoice
+          </Button>
+        )}
+
         {booking.status === 'PENDING' || booking.status === 'CONFIRMED' ? (
           <Button 
             variant="danger" 
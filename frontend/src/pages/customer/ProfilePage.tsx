@@ -0,0 +1,350 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { authApi } from '@/api/auth';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card } from '@/components/ui/Card';
+import type { DriverVerificationStatus, User } from '@/types/auth';
+import { AxiosError } from 'axios';
+
+interface ProfileForm {
+  name: string;
+  phone: string;
+}
+
+interface DriverLicenseForm {
+  dateOfBirth: string;
+  driverLicenseNumber: string;
+  driverLicenseCountry: string;
+  driverLicenseExpiresAt: string;
+  image: FileList;
+}
+
+interface PasswordForm {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+const errorMessageOf = (err: unknown, fallback: string) => {
+  const error = err as AxiosError<{ message?: string; error?: { message?: string } }>;
+  return error.response?.data?.error?.message || error.response?.data?.message || fallback;
+};
+
+// Date inputs want YYYY-MM-DD, the API returns full timestamps
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : '');
+
+// Blank inputs clear the stored value
+const orNull = (value: string) => (value.trim() ? value.trim() : null);
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const VERIFICATION_LABELS: Record<DriverVerificationStatus, { label: string; className: string }> = {
+  UNVERIFIED: { label: 'Not submitted', className: 'bg-gray-100 text-gray-800' },
+  PENDING: { label: 'Awaiting review', className: 'bg-yellow-100 text-yellow-800' },
+  VERIFIED: { label: 'Verified', className: 'bg-green-100 text-green-800' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+};
+
+const Notice: React.FC<{ message: string | null; tone: 'error' | 'success' }> = ({ message, tone }) => {
+  if (!message) return null;
+  const colors = tone === 'error' ? 'text-red-700 bg-red-100' : 'text-green-700 bg-green-100';
+  return <div className={`p-4 mb-4 text-sm rounded-lg ${colors}`}>{message}</div>;
+};
+
+const ProfileDetailsForm: React.FC<{ user: User }> = ({ user }) => {
+  const { updateProfile } = useAuth();
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<ProfileForm>({
+    defaultValues: {
+      name: user.name,
+      phone: user.phone || '',
+    },
+  });
+
+  const onSubmit = async (data: ProfileForm) => {
+    setServerError(null);
+    setSaved(false);
+    try {
+      await updateProfile({
+        name: data.name.trim(),
+        phone: orNull(data.phone),
+      });
+      setSaved(true);
+    } catch (err) {
+      setServerError(errorMessageOf(err, 'Could not save your profile. Please try again.'));
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-lg font-semibold mb-4">Personal Details</h2>
+      <Notice message={serverError} tone="error" />
+      <Notice message={saved ? 'Your profile has been saved.' : null} tone="success" />
+      <form onSubmit={handleSubmit(onSubmit)} className="flex-col gap-4">
+        <Input
+          label="Name"
+          {...register('name', { required: 'Name is required' })}
+          error={errors.name?.message}
+        />
+        <Input label="Email" value={user.email} disabled readOnly />
+        <Input
+          label="Phone"
+          type="tel"
+          {...register('phone')}
+          placeholder="+62 812 3456 7890"
+        />
+        <Button type="submit" isLoading={isSubmitting} className="mt-4">
+          Save Profile
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+// Staff check the license before handing over a car; changing it sends it back for review
+const DriverLicenseForm: React.FC<{ user: User }> = ({ user }) => {
+  const { submitDriverLicense } = useAuth();
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const hasImage = !!user.driverLicenseImagePath;
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<DriverLicenseForm>({
+    defaultValues: {
+      dateOfBirth: toDateInput(user.dateOfBirth),
+      driverLicenseNumber: user.driverLicenseNumber || '',
+      driverLicenseCountry: user.driverLicenseCountry || '',
+      driverLicenseExpiresAt: toDateInput(user.driverLicenseExpiresAt),
+    },
+  });
+  const status = VERIFICATION_LABELS[user.driverVerificationStatus];
+
+  const onSubmit = async (data: DriverLicenseForm) => {
+    setServerError(null);
+    setSubmitted(false);
+    try {
+      const file = data.image?.[0];
+      await submitDriverLicense({
+        dateOfBirth: data.dateOfBirth,
+        driverLicenseNumber: data.driverLicenseNumber.trim(),
+        driverLicenseCountry: data.driverLicenseCountry.trim().toUpperCase(),
+        driverLicenseExpiresAt: data.driverLicenseExpiresAt,
+        image: file ? await readAsDataUrl(file) : undefined,
+      });
+      setSubmitted(true);
+    } catch (err) {
+      setServerError(errorMessageOf(err, 'Could not submit your license. Please try again.'));
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Driver's License</h2>
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${status.className}`}>{status.label}</span>
+      </div>
+      <p className="text-sm text-muted mb-4">
+        We check your license before you pick up a car. It must be valid until the end of your rental.
+      </p>
+      <Notice
+        message={user.driverVerificationStatus === 'REJECTED' ? user.driverVerificationNote : null}
+        tone="error"
+      />
+      <Notice message={serverError} tone="error" />
+      <Notice message={submitted ? 'Your license has been submitted for review.' : null} tone="success" />
+      <form onSubmit={handleSubmit(onSubmit)} className="flex-col gap-4">
+        <Input
+          label="Date of Birth"
+          type="date"
+          {...register('dateOfBirth', { required: 'Date of birth is required' })}
+          error={errors.dateOfBirth?.message}
+        />
+        <Input
+          label="License Number"
+          {...register('driverLicenseNumber', { required: 'License number is required' })}
+          error={errors.driverLicenseNumber?.message}
+        />
+        <Input
+          label="Issuing Country"
+          maxLength={2}
+          {...register('driverLicenseCountry', {
+            required: 'Issuing country is required',
+            pattern: { value: /^[A-Za-z]{2}$/, message: 'Use a two-letter country code' }
+          })}
+          error={errors.driverLicenseCountry?.message}
+          placeholder="ID"
+        />
+        <Input
+          label="License Expiry Date"
+          type="date"
+          {...register('driverLicenseExpiresAt', { required: 'Expiry date is required' })}
+          error={errors.driverLicenseExpiresAt?.message}
+        />
+        <Input
+          label={hasImage ? 'Replace License Photo' : 'License Photo'}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          {...register('image', { validate: (files) => hasImage || files?.length > 0 || 'A photo of your license is required' })}
+          error={errors.image?.message}
+        />
+        <Button type="submit" isLoading={isSubmitting} className="mt-4">
+          Submit for Verification
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+const ChangePasswordForm: React.FC = () => {
+  const { changePassword } = useAuth();
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [changed, setChanged] = useState(false);
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<PasswordForm>();
+
+  const onSubmit = async (data: PasswordForm) => {
+    setServerError(null);
+    setChanged(false);
+    try {
+      await changePassword({ currentPassword: data.currentPassword, newPassword: data.newPassword });
+      reset();
+      setChanged(true);
+    } catch (err) {
+      setServerError(errorMessageOf(err, 'Could not change your password. Please try again.'));
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-lg font-semibold mb-4">Change Password</h2>
+      <Notice message={serverError} tone="error" />
+      <Notice
+        message={changed ? 'Your password has been changed. Other devices have been signed out.' : null}
+        tone="success"
+      />
+      <form onSubmit={handleSubmit(onSubmit)} className="flex-col gap-4">
+        <Input
+          label="Current Password"
+          type="password"
+          autoComplete="current-password"
+          {...register('currentPassword', { required: 'Current password is required' })}
+          error={errors.currentPassword?.message}
+        />
+        <Input
+          label="New Password"
+          type="password"
+          autoComplete="new-password"
+          {...register('newPassword', {
+            required: 'New password is required',
+            minLength: { value: 8, message: 'Password must be at least 8 characters' }
+          })}
+          error={errors.newPassword?.message}
+        />
+        <Input
+          label="Confirm New Password"
+          type="password"
+          autoComplete="new-password"
+          {...register('confirmPassword', {
+            validate: (value, values) => value === values.newPassword || 'Passwords do not match'
+          })}
+          error={errors.confirmPassword?.message}
+        />
+        <Button type="submit" isLoading={isSubmitting} className="mt-4">
+          Change Password
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+const AccountDataSection: React.FC = () => {
+  const { deleteAccount } = useAuth();
+  const navigate = useNavigate();
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<{ password: string }>();
+
+  const handleExport = async () => {
+    setServerError(null);
+    setIsExporting(true);
+    try {
+      const blob = await authApi.exportAccountData();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'account-export.json';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setServerError(errorMessageOf(err, 'Could not export your data. Please try again.'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const onDelete = async (data: { password: string }) => {
+    if (!confirm('This permanently deletes your account. Past bookings are kept without your personal details. Continue?')) {
+      return;
+    }
+    setServerError(null);
+    try {
+      await deleteAccount(data.password);
+      navigate('/');
+    } catch (err) {
+      setServerError(errorMessageOf(err, 'Could not delete your account. Please try again.'));
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold mb-4">Your Data</h2>
+      <Notice message={serverError} tone="error" />
+
+      <p className="text-sm text-muted mb-4">
+        Download a copy of your profile, bookings and account activity.
+      </p>
+      <Button variant="outline" onClick={handleExport} isLoading={isExporting} className="mb-6">
+        Download My Data
+      </Button>
+
+      <h3 className="font-medium mb-2">Delete Account</h3>
+      <p className="text-sm text-muted mb-4">
+        Cancel or finish any active bookings first. Enter your password to confirm.
+      </p>
+      <form onSubmit={handleSubmit(onDelete)} className="flex-col gap-4">
+        <Input
+          label="Password"
+          type="password"
+          autoComplete="current-password"
+          {...register('password', { required: 'Password is required' })}
+          error={errors.password?.message}
+        />
+        <Button type="submit" variant="danger" isLoading={isSubmitting} className="mt-4">
+          Delete My Account
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+export const ProfilePage: React.FC = () => {
+  const { user } = useAuth();
+
+  if (!user) return null;
+
+  return (
+    <div className="container py-8" style={{ maxWidth: '640px' }}>
+      <h1 className="text-2xl font-bold mb-6">My Profile</h1>
+      <ProfileDetailsForm user={user} />
+      <DriverLicenseForm user={user} />
+      <ChangePasswordForm />
+      <AccountDataSection />
+    </div>
+  );
+};
@@ -9,13 +9,11 @@ import { Card } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Users, Settings, Fuel, ChevronLeft } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { dateUtils } from '@/utils/dateUtils';
 import { AxiosError } from 'axios';
 
 import { locationsApi } from '@/api/locations';
-import type { Location } from '@/types/location';
+import { addonsApi } from '@/api/addons';
 
-import type { BookingFormInput } from './types'; // Or keep inline if not exported
 import type { AvailabilityResponse } from '@/types/booking';
 
 interface BookingFormInput {
@@ -34,6 +32,9 @@ export const CarDetailPage: React.FC = () => {
   // Availability state
   const [availability, setAvailability] = useState<AvailabilityResponse['data'] | null>(null);
   const [isCheckingAvailability, setIsCheckingAvailability] = useState(false);
+  const [selectedAddonIds, setSelectedAddonIds] = useState<string[]>([]);
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [promoCode, setPromoCode] = useState('');
 
   const { data, isLoading, isError } = useQuery({
     queryKey: ['car', id],
@@ -48,9 +49,47 @@ export const CarDetailPage: React.FC = () => {
 
   const locations = locationsData?.data || [];
 
+  const { data: addonsData } = useQuery({
+    queryKey: ['addons'],
+    queryFn: addonsApi.getAll,
+  });
+
+  const addons = addonsData?.data || [];
+
   const { register, watch, handleSubmit, formState: { errors, isSubmitting } } = useForm<BookingFormInput>();
   const startDate = watch('startDate');
   const endDate = watch('endDate');
+  const pickupLocationId = watch('pickupLocationId');
+  const dropoffLocationId = watch('dropoffLocationId');
+
+  // The quote comes from the server; its token locks in the price when booking
+  const hasValidRange = !!startDate && !!endDate && new Date(startDate) < new Date(endDate);
+  const canQuote = !!id && hasValidRange && !!pickupLocationId && !!dropoffLocationId;
+  const { data: quoteData, error: quoteError, refetch: refetchQuote } = useQuery({
+    queryKey: ['booking-quote', id, startDate, endDate, pickupLocationId, dropoffLocationId, selectedAddonIds, promoCode],
+    queryFn: () => bookingsApi.quote({
+      carId: id!,
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+      pickupLocationId,
+      dropoffLocationId,
+      addonIds: selectedAddonIds,
+      promoCode: promoCode || undefined,
+    }),
+    enabled: canQuote,
+    retry: false,
+  });
+  const quote = canQuote ? quoteData?.data : undefined;
+  // The quote is refused when the promo code cannot be used on this booking
+  const promoCodeError = canQuote && promoCode
+    ? (quoteError as AxiosError<{ error?: { message: string } }> | null)?.response?.data?.error?.message
+    : undefined;
+
+  const toggleAddon = (addonId: string) => {
+    setSelectedAddonIds(prev =>
+      prev.includes(addonId) ? prev.filter(a => a !== addonId) : [...prev, addonId]
+    );
+  };
 
   // Check availability when dates change
   React.useEffect(() => {
@@ -95,8 +134,12 @@ export const CarDetailPage: React.FC = () => {
     onSuccess: () => {
       navigate('/my/bookings');
     },
-    onError: (err: AxiosError<{ message: string }>) => {
-      setBookingError(err.response?.data?.message || 'Failed to create booking');
+    onError: (err: AxiosError<{ message?: string; error?: { code: string; message: string } }>) => {
+      const apiError = err.response?.data?.error;
+      if (apiError?.code === 'QUOTE_EXPIRED') {
+        refetchQuote();
+      }
+      setBookingError(apiError?.message || err.response?.data?.message || 'Failed to create booking');
     }
   });
 
@@ -114,16 +157,6 @@ export const CarDetailPage: React.FC = () => {
     }).format(value);
   };
 
-  const calculateTotal = () => {
-    if (!startDate || !endDate) return 0;
-    const days = dateUtils.calculateDays(startDate, endDate);
-    if (days <= 0) return 0;
-    return days * car.dailyPrice;
-  };
-
-  const total = calculateTotal();
-  const days = startDate && endDate ? dateUtils.calculateDays(startDate, endDate) : 0;
-
   const onSubmit = (formData: BookingFormInput) => {
     if (!isAuthenticated) {
       navigate('/login', { state: { from: `/cars/${id}` } });
@@ -144,7 +177,10 @@ export const CarDetailPage: React.FC = () => {
       startDate: start.toISOString(),
       endDate: end.toISOString(),
       pickupLocationId: formData.pickupLocationId,
-      dropoffLocationId: formData.dropoffLocationId
+      dropoffLocationId: formData.dropoffLocationId,
+      addonIds: selectedAddonIds,
+      promoCode: promoCode || undefined,
+      quoteToken: quote?.quoteToken,
     });
   };
 
@@ -214,6 +250,15 @@ export const CarDetailPage: React.FC = () => {
              {availability && !availability.available && (
                <div className="mb-4 p-3 bg-red-100 text-red-700 text-sm rounded">
                  <strong>Not Available:</strong> Car is booked for these dates.
+                 {availability.conflictingBlackouts.length > 0 && (
+                   <ul className="list-disc ml-4 mt-1 text-xs">
+                     {availability.conflictingBlackouts.map(b => (
+                       <li key={b.id}>
+                         {b.reason}: {new Date(b.startDate).toLocaleDateString()} - {new Date(b.endDate).toLocaleDateString()}
+                       </li>
+                     ))}
+                   </ul>
+                 )}
                  {availability.conflictingBookings.length > 0 && (
                    <ul className="list-disc ml-4 mt-1 text-xs">
                      {availability.conflictingBookings.map(b => (
@@ -257,8 +302,9 @@ export const CarDetailPage: React.FC = () => {
                </div>
 
                <div>
-                 <label className="block text-sm font-medium text-gray-700 mb-1">Pick-up Location</label>
+                 <label htmlFor="pickupLocationId" className="block text-sm font-medium text-gray-700 mb-1">Pick-up Location</label>
                  <select 
+                   id="pickupLocationId"
                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                    style={{ height: '42px', backgroundColor: 'white' }} 
                    {...register('pickupLocationId', { required: 'Pick-up location is required' })}
@@ -272,8 +318,9 @@ export const CarDetailPage: React.FC = () => {
                </div>
 
                <div>
-                 <label className="block text-sm font-medium text-gray-700 mb-1">Return Location</label>
+                 <label htmlFor="dropoffLocationId" className="block text-sm font-medium text-gray-700 mb-1">Return Location</label>
                  <select 
+                   id="dropoffLocationId"
                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                    style={{ height: '42px', backgroundColor: 'white' }} 
                    {...register('dropoffLocationId', { required: 'Return location is required' })}
@@ -286,16 +333,71 @@ export const CarDetailPage: React.FC = () => {
                  {errors.dropoffLocationId && <p className="text-sm text-red-500 mt-1">{errors.dropoffLocationId.message}</p>}
                </div>
 
-               {total > 0 && (
+               {addons.length > 0 && (
+                 <div>
+                   <span className="block text-sm font-medium text-gray-700 mb-1">Add-ons</span>
+                   {addons.map(addon => (
+                     <label key={addon.id} className="flex items-center justify-between text-sm py-1">
+                       <span className="flex items-center gap-2">
+                         <input
+                           type="checkbox"
+                           checked={selectedAddonIds.includes(addon.id)}
+                           onChange={() => toggleAddon(addon.id)}
+                         />
+                         {addon.name}
+                       </span>
+                       <span className="text-muted">
+                         {formatCurrency(addon.price)}{addon.pricingMode === 'PER_DAY' && ' / day'}
+                       </span>
+                     </label>
+                   ))}
+                 </div>
+               )}
+
+               <div>
+                 <label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-1">Promo Code</label>
+                 <div className="flex gap-2">
+                   <Input
+                     id="promoCode"
+                     value={promoCodeInput}
+                     onChange={(e) => setPromoCodeInput(e.target.value)}
+                     placeholder="Enter code"
+                   />
+                   <Button type="button" variant="outline" onClick={() => setPromoCode(promoCodeInput.trim())}>
+                     Apply
+                   </Button>
+                 </div>
+                 {promoCodeError && <p className="text-sm text-red-500 mt-1">{promoCodeError}</p>}
+               </div>
+
+               {quote && (
                  <div className="bg-gray-50 p-4 rounded mt-2">
                    <div className="flex justify-between mb-2">
                      <span>Duration</span>
-                     <span>{days} Days</span>
+                     <span>{quote.days} Days</span>
                    </div>
+                   {quote.lines.filter(line => line.type !== 'DROP_FEE').map((line, index) => (
+                     <div key={`${line.type}-${line.date ?? line.referenceId ?? index}`} className="flex justify-between text-sm text-muted mb-1">
+                       <span>
+                         {line.date ? `${line.date} · ${line.description}` : line.description}
+                         {line.rate !== undefined && ` ${line.rate}%`}
+                       </span>
+                       <span>{line.type === 'DISCOUNT' ? '-' : ''}{formatCurrency(line.amount)}</span>
+                     </div>
+                   ))}
+                   {pickupLocationId !== dropoffLocationId && (
+                     <div className="flex justify-between text-sm text-muted mb-1">
+                       <span>One-way drop fee</span>
+                       <span>{Number(quote.dropFee) > 0 ? formatCurrency(quote.dropFee) : 'Free'}</span>
+                     </div>
+                   )}
                    <div className="flex justify-between font-bold text-lg border-t pt-2">
                      <span>Total</span>
-                     <span>{formatCurrency(total)}</span>
+                     <span>{formatCurrency(quote.totalPrice)}</span>
                    </div>
+                   <p className="text-xs text-muted mt-1">
+                     Price guaranteed until {new Date(quote.expiresAt).toLocaleTimeString()}
+                   </p>
                  </div>
                )}
 
@@ -1,12 +1,32 @@
 import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { carsApi } from '@/api/cars';
+import { locationsApi } from '@/api/locations';
 import { CarCard } from '@/components/cars/CarCard';
 import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import type { CarFilterParams } from '@/types/car';
 
 export const CarListingPage: React.FC = () => {
   const [page, setPage] = useState(1);
-  const [filters] = useState({}); // Placeholder for filter state
+  const [pickupLocationId, setPickupLocationId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const { data: locationsData } = useQuery({
+    queryKey: ['locations'],
+    queryFn: locationsApi.getAll,
+  });
+  const locations = locationsData?.data || [];
+
+  // Cars are only listed at the branch where they will be parked on the pick-up date
+  const filters: CarFilterParams = {
+    ...(pickupLocationId && { pickupLocationId }),
+    ...(startDate && endDate && new Date(startDate) < new Date(endDate) && {
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+    }),
+  };
 
   const { data, isLoading, isError } = useQuery({
     queryKey: ['cars', page, filters],
@@ -27,6 +47,38 @@ export const CarListingPage: React.FC = () => {
         </select>
       </div>
 
+      <div className="flex flex-wrap gap-4 mb-6 items-end">
+        <div>
+          <label htmlFor="pickupLocationFilter" className="block text-sm font-medium text-gray-700 mb-1">Pick-up Location</label>
+          <select
+            id="pickupLocationFilter"
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            style={{ height: '42px', backgroundColor: 'white' }}
+            value={pickupLocationId}
+            onChange={(e) => { setPickupLocationId(e.target.value); setPage(1); }}
+          >
+            <option value="">Any location</option>
+            {locations.map(loc => (
+              <option key={loc.id} value={loc.id}>{loc.name}</option>
+            ))}
+          </select>
+        </div>
+        <Input
+          id="startDateFilter"
+          label="Pick-up Date"
+          type="date"
+          value={startDate}
+          onChange={(e) => { setStartDate(e.target.value); setPage(1); }}
+        />
+        <Input
+          id="endDateFilter"
+          label="Return Date"
+          type="date"
+          value={endDate}
+          onChange={(e) => { setEndDate(e.target.value); setPage(1); }}
+        />
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6" style={{ display: 'grid', gap: '1.5rem', gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))' }}>
         {data?.data.map((car) => (
           <CarCard key={car.id} car={car} />
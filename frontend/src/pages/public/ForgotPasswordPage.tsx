@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Link } from 'react-router-dom';
+import { authApi } from '@/api/auth';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card } from '@/components/ui/Card';
+import { AxiosError } from 'axios';
+
+interface ForgotPasswordForm {
+  email: string;
+}
+
+export const ForgotPasswordPage: React.FC = () => {
+  const [sent, setSent] = useState(false);
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<ForgotPasswordForm>();
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    setServerError(null);
+    try {
+      await authApi.forgotPassword(data.email);
+      setSent(true);
+    } catch (err) {
+      const error = err as AxiosError<{ error?: { message?: string } }>;
+      setServerError(error.response?.data?.error?.message || 'Something went wrong. Please try again.');
+    }
+  };
+
+  return (
+    <div className="container flex items-center" style={{ justifyContent: 'center', minHeight: 'calc(100vh - 200px)' }}>
+      <Card className="w-full max-w-md" style={{ width: '100%', maxWidth: '400px' }}>
+        <h1 className="text-2xl mb-4 text-center">Forgot Password</h1>
+
+        {sent ? (
+          <p className="text-center text-muted">
+            If an account uses that email, we have sent it a link to reset the password. The link expires soon, so use it right away.
+          </p>
+        ) : (
+          <>
+            {serverError && (
+              <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg">
+                {serverError}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit(onSubmit)} className="flex-col gap-4">
+              <Input
+                label="Email"
+                type="email"
+                {...register('email', { required: 'Email is required' })}
+                error={errors.email?.message}
+                placeholder="john@example.com"
+              />
+
+              <Button type="submit" isLoading={isSubmitting} className="mt-4 w-full">
+                Send Reset Link
+              </Button>
+            </form>
+          </>
+        )}
+
+        <p className="text-center mt-4 text-sm text-muted">
+          Remembered it? <Link to="/login" className="text-primary hover:underline">Login</Link>
+        </p>
+      </Card>
+    </div>
+  );
+};
@@ -1,59 +1,208 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { authApi } from '@/api/auth';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card } from '@/components/ui/Card';
 import type { LoginInput } from '@/api/auth';
+import type { TotpEnrollment, TwoFactorChallenge } from '@/types/auth';
 import { AxiosError } from 'axios';
 
+interface CodeForm {
+  code: string;
+}
+
+const errorMessageOf = (err: unknown, fallback: string) => {
+  const error = err as AxiosError<{ message?: string; error?: { message?: string } }>;
+  return error.response?.data?.error?.message || error.response?.data?.message || fallback;
+};
+
+const ErrorBanner: React.FC<{ message: string | null }> = ({ message }) => {
+  if (!message) return null;
+  return (
+    <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg">
+      {message}
+    </div>
+  );
+};
+
+// Second step for accounts with an authenticator: a TOTP code or a recovery code
+const TwoFactorVerifyForm: React.FC<{ challenge: TwoFactorChallenge; onSuccess: () => void }> = ({ challenge, onSuccess }) => {
+  const { verifyTwoFactor } = useAuth();
+  const [serverError, setServerError] = useState<string | null>(null);
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<CodeForm>();
+
+  const onSubmit = async (data: CodeForm) => {
+    setServerError(null);
+    try {
+      await verifyTwoFactor(challenge.challengeToken, data.code);
+      onSuccess();
+    } catch (err) {
+      setServerError(errorMessageOf(err, 'Verification failed. Please try again.'));
+    }
+  };
+
+  return (
+    <>
+      <p className="text-sm text-muted mb-4">
+        Enter the 6-digit code from your authenticator app. If you lost it, enter one of your recovery codes instead.
+      </p>
+      <ErrorBanner message={serverError} />
+      <form onSubmit={handleSubmit(onSubmit)} className="flex-col gap-4">
+        <Input
+          label="Authentication Code"
+          autoComplete="one-time-code"
+          autoFocus
+          {...register('code', { required: 'Code is required' })}
+          error={errors.code?.message}
+          placeholder="123456"
+        />
+        <Button type="submit" isLoading={isSubmitting} className="mt-4 w-full">
+          Verify
+        </Button>
+      </form>
+    </>
+  );
+};
+
+// Mandatory setup for admins without an authenticator; a first valid code completes the login
+const TotpEnrollmentForm: React.FC<{
+  challenge: TwoFactorChallenge;
+  onEnrolled: (recoveryCodes: string[]) => void;
+}> = ({ challenge, onEnrolled }) => {
+  const { confirmTotpEnrollment } = useAuth();
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<CodeForm>();
+
+  useEffect(() => {
+    authApi.startTotpEnrollment(challenge.challengeToken)
+      .then((response) => setEnrollment(response.data))
+      .catch((err) => setServerError(errorMessageOf(err, 'Could not start two-factor setup. Please log in again.')));
+  }, [challenge.challengeToken]);
+
+  const onSubmit = async (data: CodeForm) => {
+    setServerError(null);
+    try {
+      const recoveryCodes = await confirmTotpEnrollment(challenge.challengeToken, data.code);
+      onEnrolled(recoveryCodes);
+    } catch (err) {
+      setServerError(errorMessageOf(err, 'Verification failed. Please try again.'));
+    }
+  };
+
+  return (
+    <>
+      <p className="text-sm text-muted mb-4">
+        Admin accounts require two-factor authentication. Add this account to an authenticator app, then enter the code it shows.
+      </p>
+      <ErrorBanner message={serverError} />
+      {enrollment && (
+        <>
+          <div className="p-4 mb-4 bg-gray-100 rounded-lg text-sm">
+            <p className="mb-2">Setup key:</p>
+            <code className="font-mono break-all" data-testid="totp-secret">{enrollment.secret}</code>
+            <p className="mt-2">
+              <a href={enrollment.otpauthUri} className="text-primary hover:underline">Open in authenticator app</a>
+            </p>
+          </div>
+          <form onSubmit={handleSubmit(onSubmit)} className="flex-col gap-4">
+            <Input
+              label="Authentication Code"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              {...register('code', {
+                required: 'Code is required',
+                pattern: { value: /^\d{6}$/, message: 'Enter the 6-digit code' }
+              })}
+              error={errors.code?.message}
+              placeholder="123456"
+            />
+            <Button type="submit" isLoading={isSubmitting} className="mt-4 w-full">
+              Enable Two-Factor Authentication
+            </Button>
+          </form>
+        </>
+      )}
+    </>
+  );
+};
+
+const RecoveryCodesNotice: React.FC<{ codes: string[]; onContinue: () => void }> = ({ codes, onContinue }) => (
+  <>
+    <p className="text-sm text-muted mb-4">
+      Save these recovery codes somewhere safe. Each one works once if you lose your authenticator, and they will not be shown again.
+    </p>
+    <ul className="p-4 mb-4 bg-gray-100 rounded-lg font-mono text-sm grid grid-cols-2 gap-2">
+      {codes.map((code) => <li key={code}>{code}</li>)}
+    </ul>
+    <Button onClick={onContinue} className="w-full">
+      I Have Saved My Codes
+    </Button>
+  </>
+);
+
 export const LoginPage: React.FC = () => {
   const { login } = useAuth();
   const navigate = useNavigate();
   const [serverError, setServerError] = useState<string | null>(null);
-  
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
   const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<LoginInput>();
 
   const onSubmit = async (data: LoginInput) => {
     setServerError(null);
     try {
-      await login(data);
+      const pending = await login(data);
+      if (pending) {
+        setChallenge(pending);
+        return;
+      }
       navigate('/');
     } catch (err) {
-      const error = err as AxiosError<{ message?: string }>;
-      setServerError(error.response?.data?.message || 'Login failed. Please check your credentials.');
+      setServerError(errorMessageOf(err, 'Login failed. Please check your credentials.'));
     }
   };
 
-  return (
-    <div className="container flex items-center" style={{ justifyContent: 'center', minHeight: 'calc(100vh - 200px)' }}>
-      <Card className="w-full max-w-md" style={{ width: '100%', maxWidth: '400px' }}>
-        <h1 className="text-2xl mb-4 text-center">Login</h1>
-        
-        {serverError && (
-          <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg">
-            {serverError}
-          </div>
-        )}
+  const renderStep = () => {
+    if (recoveryCodes) {
+      return <RecoveryCodesNotice codes={recoveryCodes} onContinue={() => navigate('/')} />;
+    }
+    if (challenge?.type === 'VERIFY') {
+      return <TwoFactorVerifyForm challenge={challenge} onSuccess={() => navigate('/')} />;
+    }
+    if (challenge?.type === 'ENROLL') {
+      return <TotpEnrollmentForm challenge={challenge} onEnrolled={setRecoveryCodes} />;
+    }
+
+    return (
+      <>
+        <ErrorBanner message={serverError} />
 
         <form onSubmit={handleSubmit(onSubmit)} className="flex-col gap-4">
-          <Input 
-            label="Email" 
-            type="email" 
-            {...register('email', { required: 'Email is required' })} 
+          <Input
+            label="Email"
+            type="email"
+            {...register('email', { required: 'Email is required' })}
             error={errors.email?.message}
             placeholder="john@example.com"
           />
-          
-          <Input 
-            label="Password" 
-            type="password" 
-            {...register('password', { required: 'Password is required' })} 
+
+          <Input
+            label="Password"
+            type="password"
+            {...register('password', { required: 'Password is required' })}
             error={errors.password?.message}
             placeholder="••••••••"
           />
 
+          <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+            Forgot password?
+          </Link>
+
           <Button type="submit" isLoading={isSubmitting} className="mt-4 w-full">
             Login
           </Button>
@@ -62,6 +211,17 @@ export const LoginPage: React.FC = () => {
         <p className="text-center mt-4 text-sm text-muted">
           Don't have an account? <Link to="/register" className="text-primary hover:underline">Register</Link>
         </p>
+      </>
+    );
+  };
+
+  return (
+    <div className="container flex items-center" style={{ justifyContent: 'center', minHeight: 'calc(100vh - 200px)' }}>
+      <Card className="w-full max-w-md" style={{ width: '100%', maxWidth: '400px' }}>
+        <h1 className="text-2xl mb-4 text-center">
+          {challenge ? 'Two-Factor Authentication' : 'Login'}
+        </h1>
+        {renderStep()}
       </Card>
     </div>
   );
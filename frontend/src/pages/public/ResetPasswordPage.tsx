@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Link, useSearchParams } from 'react-router-dom';
+import { authApi } from '@/api/auth';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card } from '@/components/ui/Card';
+import { AxiosError } from 'axios';
+
+interface ResetPasswordForm {
+  password: string;
+  confirmPassword: string;
+}
+
+export const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [done, setDone] = useState(false);
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<ResetPasswordForm>();
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    setServerError(null);
+    try {
+      await authApi.resetPassword({ token, password: data.password });
+      setDone(true);
+    } catch (err) {
+      const error = err as AxiosError<{ error?: { message?: string } }>;
+      setServerError(error.response?.data?.error?.message || 'Could not reset the password. Please try again.');
+    }
+  };
+
+  return (
+    <div className="container flex items-center" style={{ justifyContent: 'center', minHeight: 'calc(100vh - 200px)' }}>
+      <Card className="w-full max-w-md" style={{ width: '100%', maxWidth: '400px' }}>
+        <h1 className="text-2xl mb-4 text-center">Reset Password</h1>
+
+        {done ? (
+          <p className="text-center text-muted">
+            Your password has been changed and you have been signed out everywhere.{' '}
+            <Link to="/login" className="text-primary hover:underline">Login</Link> with the new password.
+          </p>
+        ) : !token ? (
+          <p className="text-center text-muted">
+            This reset link is incomplete.{' '}
+            <Link to="/forgot-password" className="text-primary hover:underline">Request a new one</Link>.
+          </p>
+        ) : (
+          <>
+            {serverError && (
+              <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg">
+                {serverError}{' '}
+                <Link to="/forgot-password" className="text-primary hover:underline">Request a new link</Link>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit(onSubmit)} className="flex-col gap-4">
+              <Input
+                label="New Password"
+                type="password"
+                {...register('password', {
+                  required: 'Password is required',
+                  minLength: {
+                    value: 8,
+                    message: "Password must be at least 8 characters"
+                  }
+                })}
+                error={errors.password?.message}
+                placeholder="••••••••"
+              />
+
+              <Input
+                label="Confirm Password"
+                type="password"
+                {...register('confirmPassword', {
+                  validate: (value, values) => value === values.password || 'Passwords do not match'
+                })}
+                error={errors.confirmPassword?.message}
+                placeholder="••••••••"
+              />
+
+              <Button type="submit" isLoading={isSubmitting} className="mt-4 w-full">
+                Set New Password
+              </Button>
+            </form>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { authApi } from '@/api/auth';
+import { Card } from '@/components/ui/Card';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+export const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  // Tokens are single-use, so make sure a remount does not submit it twice
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    authApi.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch(() => setStatus('failed'));
+  }, [token]);
+
+  return (
+    <div className="container flex items-center" style={{ justifyContent: 'center', minHeight: 'calc(100vh - 200px)' }}>
+      <Card className="w-full max-w-md text-center" style={{ width: '100%', maxWidth: '400px' }}>
+        <h1 className="text-2xl mb-4">Email Verification</h1>
+
+        {status === 'verifying' && <p className="text-muted">Verifying your email address...</p>}
+
+        {status === 'verified' && (
+          <p className="text-muted">
+            Your email address is verified. <Link to="/cars" className="text-primary hover:underline">Browse cars</Link>
+          </p>
+        )}
+
+        {status === 'failed' && (
+          <p className="text-muted">
+            This verification link is invalid or has expired. Log in and request a new one from My Bookings.
+          </p>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { AdminDriverVerificationsPage } from '@/pages/admin/AdminDriverVerificationsPage';
+import { adminApi } from '@/api/admin';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { makeUser } from './fixtures';
+
+vi.mock('@/api/admin');
+
+const pendingDriver = makeUser({
+  id: 'u1',
+  name: 'Jane Driver',
+  email: 'jane@test.com',
+  dateOfBirth: '1990-05-17T00:00:00.000Z',
+  driverLicenseNumber: 'B1234567',
+  driverLicenseCountry: 'ID',
+  driverLicenseExpiresAt: '2030-01-31T00:00:00.000Z',
+  driverLicenseSubmittedAt: '2026-02-01T10:00:00.000Z',
+  driverVerificationStatus: 'PENDING',
+});
+
+const renderPage = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <AdminDriverVerificationsPage />
+    </QueryClientProvider>
+  );
+};
+
+describe('AdminDriverVerificationsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(adminApi.getDriverVerifications).mockResolvedValue({ success: true, data: [pendingDriver] });
+    vi.mocked(adminApi.reviewDriverVerification).mockResolvedValue({
+      success: true,
+      data: { ...pendingDriver, driverVerificationStatus: 'VERIFIED' },
+    });
+  });
+
+  it('should approve a license from the queue', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Jane Driver')).toBeInTheDocument();
+    expect(screen.getByText('License: B1234567 (ID)')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Approve/i }));
+
+    await waitFor(() => {
+      expect(adminApi.reviewDriverVerification).toHaveBeenCalledWith('u1', { status: 'VERIFIED' });
+    });
+  });
+
+  it('should only reject with a note', async () => {
+    renderPage();
+
+    const rejectButton = await screen.findByRole('button', { name: /Reject/i });
+    expect(rejectButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Rejection Note'), { target: { value: 'Photo is blurry' } });
+    fireEvent.click(rejectButton);
+
+    await waitFor(() => {
+      expect(adminApi.reviewDriverVerification).toHaveBeenCalledWith('u1', { status: 'REJECTED', note: 'Photo is blurry' });
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { AdminLayout } from '@/components/layout/AdminLayout';
+import { AuthContext } from '@/contexts/AuthContext';
+import type { Permission } from '@/types/auth';
+import { makeAuthContext, makeUser } from './fixtures';
+
+const renderLayout = (permissions: Permission[], path = '/admin/bookings') => {
+  const authContextValue = makeAuthContext({
+    user: makeUser({ name: 'Counter Agent', email: 'counter@test.com', role: 'STAFF', permissions }),
+    hasPermission: (permission: Permission) => permissions.includes(permission),
+  });
+
+  return render(
+    <AuthContext.Provider value={authContextValue}>
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route element={<AdminLayout />}>
+            <Route path="/admin" element={<div>Dashboard Page</div>} />
+            <Route path="/admin/bookings" element={<div>Bookings Page</div>} />
+          </Route>
+          <Route path="/" element={<div>Home Page</div>} />
+        </Routes>
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+};
+
+describe('AdminLayout', () => {
+  it('should only link to the sections the staff role grants', () => {
+    renderLayout(['booking:read', 'booking:status:pickup']);
+
+    expect(screen.getByRole('link', { name: /Bookings/ })).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: /Dashboard/ })).not.toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: /Fleet/ })).not.toBeInTheDocument();
+    expect(screen.getByText('Bookings Page')).toBeInTheDocument();
+  });
+
+  it('should send staff away from a section they cannot use', () => {
+    renderLayout(['booking:read'], '/admin');
+
+    expect(screen.queryByText('Dashboard Page')).not.toBeInTheDocument();
+    expect(screen.getByText('Bookings Page')).toBeInTheDocument();
+  });
+
+  it('should send staff without any back-office permission home', () => {
+    renderLayout([], '/admin');
+
+    expect(screen.getByText('Home Page')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,86 @@
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { AdminSettingsPage } from '@/pages/admin/AdminSettingsPage';
+import { locationsApi } from '@/api/locations';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { Location } from '@/types/location';
+
+vi.mock('@/api/locations');
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: false },
+  },
+});
+
+const mockLocations: Location[] = [
+  {
+    id: 'l1',
+    name: 'Airport',
+    address: 'Airport Rd',
+    isActive: true,
+    openingHours: [{ dayOfWeek: 1, opensAt: '08:00', closesAt: '18:00' }],
+    closures: [{ date: '2026-12-25T00:00:00.000Z', reason: 'Christmas' }],
+  },
+  { id: 'l2', name: 'Downtown', address: 'Center St', isActive: false, openingHours: [], closures: [] },
+];
+
+describe('AdminSettingsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(locationsApi.getAllAdmin).mockResolvedValue({ success: true, data: mockLocations });
+  });
+
+  const renderComponent = () => {
+    return render(
+      <QueryClientProvider client={queryClient}>
+        <AdminSettingsPage />
+      </QueryClientProvider>
+    );
+  };
+
+  it('should list locations with their opening hours and status', async () => {
+    renderComponent();
+
+    expect(await screen.findByText('Airport')).toBeInTheDocument();
+    expect(screen.getByText('Mon 08:00-18:00')).toBeInTheDocument();
+    expect(screen.getByText('Open every day')).toBeInTheDocument();
+    expect(screen.getByText('Inactive')).toBeInTheDocument();
+  });
+
+  it('should save edited hours and closures', async () => {
+    vi.mocked(locationsApi.update).mockResolvedValue({ success: true, data: mockLocations[0] });
+
+    renderComponent();
+    fireEvent.click((await screen.findAllByRole('button', { name: 'Edit' }))[0]);
+
+    fireEvent.click(screen.getByLabelText('Saturday'));
+    fireEvent.change(screen.getByLabelText('Saturday closes at'), { target: { value: '14:00' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Location' }));
+
+    await waitFor(() => {
+      expect(locationsApi.update).toHaveBeenCalledWith('l1', {
+        name: 'Airport',
+        address: 'Airport Rd',
+        openingHours: [
+          { dayOfWeek: 1, opensAt: '08:00', closesAt: '18:00' },
+          { dayOfWeek: 6, opensAt: '08:00', closesAt: '14:00' },
+        ],
+        closures: [{ date: '2026-12-25T00:00:00.000Z', reason: 'Christmas' }],
+      });
+    });
+  });
+
+  it('should show the API error when saving fails', async () => {
+    vi.mocked(locationsApi.create).mockRejectedValue({
+      response: { data: { error: { message: 'A location with this name already exists' } } },
+    });
+
+    renderComponent();
+    fireEvent.click(await screen.findByRole('button', { name: 'Add Location' }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Airport' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Location' }));
+
+    expect(await screen.findByText('A location with this name already exists')).toBeInTheDocument();
+  });
+});
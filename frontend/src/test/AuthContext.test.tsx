@@ -99,7 +99,7 @@ describe('AuthContext', () => {
     (authApi.login as any).mockResolvedValue({
       data: {
         user: { id: '1', name: 'Logged In User', role: 'CUSTOMER' },
-        token: { accessToken: 'new-token' },
+        token: { accessToken: 'new-token', refreshToken: 'new-refresh-token' },
       },
     });
 
@@ -122,6 +122,7 @@ describe('AuthContext', () => {
     });
 
     expect(localStorageMock.setItem).toHaveBeenCalledWith('token', 'new-token');
+    expect(localStorageMock.setItem).toHaveBeenCalledWith('refreshToken', 'new-refresh-token');
   });
 
   it('should logout successfully', async () => {
@@ -150,6 +151,8 @@ describe('AuthContext', () => {
       expect(screen.getByTestId('is-authenticated')).toHaveTextContent('No');
     });
 
+    expect(authApi.logout).toHaveBeenCalledWith('fake-token');
     expect(localStorageMock.removeItem).toHaveBeenCalledWith('token');
+    expect(localStorageMock.removeItem).toHaveBeenCalledWith('refreshToken');
   });
 });
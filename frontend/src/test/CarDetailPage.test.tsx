@@ -3,15 +3,21 @@ import { CarDetailPage } from '@/pages/public/CarDetailPage';
 import { carsApi } from '@/api/cars';
 import { bookingsApi } from '@/api/bookings';
 import { locationsApi } from '@/api/locations';
+import { addonsApi } from '@/api/addons';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { MemoryRouter, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthContext } from '@/contexts/AuthContext';
+import type { Location } from '@/types/location';
+import type { Addon } from '@/types/addon';
+import type { AvailabilityResponse, BookingQuote } from '@/types/booking';
+import { makeAuthContext, makeBooking, makeCar } from './fixtures';
 
 // Mocks
 vi.mock('@/api/cars');
 vi.mock('@/api/bookings');
 vi.mock('@/api/locations');
+vi.mock('@/api/addons');
 
 // Mock specific hooks if needed or wrap providers
 const queryClient = new QueryClient({
@@ -20,47 +26,62 @@ const queryClient = new QueryClient({
   },
 });
 
-const mockUser = { id: '1', name: 'Test User', email: 'test@test.com', role: 'CUSTOMER' };
-const mockAuthenticatedAuthContext = {
-  user: mockUser,
-  isAuthenticated: true,
-  isLoading: false,
-  login: vi.fn(),
-  register: vi.fn(),
-  logout: vi.fn(),
-  isAdmin: false,
-};
-
-const mockCar = {
-  id: 'c1',
-  brand: 'Toyota',
-  model: 'Camry',
-  year: 2024,
-  status: 'ACTIVE',
-  dailyPrice: 500000,
-  images: ['img.jpg'],
-  seats: 5,
-  transmission: 'Automatic',
-  fuel: 'Petrol',
-  type: 'SEDAN',
-};
+const mockCar = makeCar({ images: ['img.jpg'] });
 
-const mockLocations = [
+const mockLocations: Location[] = [
   { id: 'l1', name: 'Airport', address: 'Airport Rd', isActive: true },
   { id: 'l2', name: 'Downtown', address: 'Center St', isActive: true },
 ];
 
+const mockAddons: Addon[] = [
+  { id: 'a1', name: 'GPS Navigation', description: 'GPS', price: 50000, pricingMode: 'PER_BOOKING', isActive: true },
+];
+
+const mockQuote: BookingQuote = {
+  days: 3,
+  lines: [
+    { type: 'BASE', description: 'Daily rate', amount: 500000, date: '2026-02-06' },
+    { type: 'BASE', description: 'Daily rate (Weekend)', amount: 600000, date: '2026-02-07' },
+    { type: 'BASE', description: 'Daily rate (Weekend)', amount: 600000, date: '2026-02-08' },
+    { type: 'ADDON', description: 'GPS Navigation', amount: 50000, referenceId: 'a1' },
+  ],
+  basePrice: 1700000,
+  addonPrice: 50000,
+  dropFee: 0,
+  discountAmount: 0,
+  feeAmount: 0,
+  taxAmount: 0,
+  totalPrice: 1750000,
+  quoteToken: 'quote-token',
+  expiresAt: '2026-02-01T10:15:00.000Z',
+};
+
+const availability = (data: Partial<AvailabilityResponse['data']> = {}): AvailabilityResponse => ({
+  success: true,
+  data: {
+    available: true,
+    carId: 'c1',
+    requestedStartDate: '2026-02-01',
+    requestedEndDate: '2026-02-05',
+    conflictingBookings: [],
+    conflictingBlackouts: [],
+    ...data,
+  },
+});
+
 describe('CarDetailPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    (carsApi.getById as any).mockResolvedValue({ data: mockCar });
-    (locationsApi.getAll as any).mockResolvedValue({ data: mockLocations });
+    vi.mocked(carsApi.getById).mockResolvedValue({ success: true, data: mockCar });
+    vi.mocked(locationsApi.getAll).mockResolvedValue({ success: true, data: mockLocations });
+    vi.mocked(addonsApi.getAll).mockResolvedValue({ success: true, data: mockAddons });
+    vi.mocked(bookingsApi.quote).mockResolvedValue({ success: true, data: mockQuote });
   });
 
-  const renderComponent = (authContextValue = mockAuthenticatedAuthContext) => {
+  const renderComponent = (authContextValue = makeAuthContext()) => {
     return render(
       <QueryClientProvider client={queryClient}>
-        <AuthContext.Provider value={authContextValue as any}>
+        <AuthContext.Provider value={authContextValue}>
           <MemoryRouter initialEntries={['/cars/c1']}>
             <Routes>
               <Route path="/cars/:id" element={<CarDetailPage />} />
@@ -81,9 +102,7 @@ describe('CarDetailPage', () => {
   });
 
   it('should check availability when dates are selected', async () => {
-    (carsApi.checkAvailability as any).mockResolvedValue({
-      data: { available: true, conflictingBookings: [] },
-    });
+    vi.mocked(carsApi.checkAvailability).mockResolvedValue(availability());
 
     renderComponent();
     await waitFor(() => screen.getByText('Toyota Camry'));
@@ -103,12 +122,11 @@ describe('CarDetailPage', () => {
   });
 
   it('should show error when car is unavailable', async () => {
-    (carsApi.checkAvailability as any).mockResolvedValue({
-      data: {
-        available: false,
-        conflictingBookings: [{ id: 'b1', startDate: '2026-02-02', endDate: '2026-02-04' }],
-      },
-    });
+    vi.mocked(carsApi.checkAvailability).mockResolvedValue(availability({
+      available: false,
+      conflictingBookings: [{ id: 'b1', startDate: '2026-02-02', endDate: '2026-02-04', status: 'CONFIRMED' }],
+      conflictingBlackouts: [{ id: 'x1', reason: 'Scheduled service', startDate: '2026-02-04', endDate: '2026-02-05' }],
+    }));
 
     renderComponent();
     await waitFor(() => screen.getByText('Toyota Camry'));
@@ -120,9 +138,128 @@ describe('CarDetailPage', () => {
         expect(carsApi.checkAvailability).toHaveBeenCalled();
         expect(screen.getByText(/Not Available:/)).toBeInTheDocument();
     });
+    expect(screen.getByText(/Scheduled service/)).toBeInTheDocument();
 
     // Button should be disabled
     const button = screen.getByRole('button', { name: /Book Now/i });
     expect(button).toBeDisabled();
   });
+
+  it('should show the itemized server quote and book with its token', async () => {
+    vi.mocked(carsApi.checkAvailability).mockResolvedValue(availability());
+    vi.mocked(bookingsApi.create).mockResolvedValue({ success: true, data: makeBooking({ id: 'b1' }) });
+
+    renderComponent();
+    await waitFor(() => screen.getByText('Toyota Camry'));
+
+    fireEvent.change(screen.getByLabelText(/Pick-up Date/i), { target: { value: '2026-02-06' } });
+    fireEvent.change(screen.getByLabelText(/Return Date/i), { target: { value: '2026-02-09' } });
+    fireEvent.change(screen.getByLabelText(/Pick-up Location/i), { target: { value: 'l1' } });
+    fireEvent.change(screen.getByLabelText(/Return Location/i), { target: { value: 'l2' } });
+    fireEvent.click(await screen.findByRole('checkbox'));
+
+    await waitFor(() => {
+      expect(bookingsApi.quote).toHaveBeenCalledWith(
+        expect.objectContaining({ pickupLocationId: 'l1', dropoffLocationId: 'l2', addonIds: ['a1'] })
+      );
+    });
+
+    expect(await screen.findByText('Rp 1.750.000')).toBeInTheDocument();
+    expect(screen.getByText('2026-02-07 · Daily rate (Weekend)')).toBeInTheDocument();
+
+    await waitFor(() => expect(screen.getByText('✓ Car is available!')).toBeInTheDocument());
+    fireEvent.click(screen.getByRole('button', { name: /Book Now/i }));
+
+    await waitFor(() => {
+      expect(bookingsApi.create).toHaveBeenCalledWith(
+        expect.objectContaining({ addonIds: ['a1'], quoteToken: 'quote-token' }),
+        expect.anything()
+      );
+    });
+  });
+
+  it('should show the one-way drop fee when returning at another location', async () => {
+    vi.mocked(carsApi.checkAvailability).mockResolvedValue(availability());
+    vi.mocked(bookingsApi.quote).mockResolvedValue({
+      success: true,
+      data: {
+        ...mockQuote,
+        lines: [...mockQuote.lines, { type: 'DROP_FEE', description: 'One-way drop fee', amount: 150000 }],
+        dropFee: 150000,
+        totalPrice: 1900000,
+      },
+    });
+
+    renderComponent();
+    await waitFor(() => screen.getByText('Toyota Camry'));
+
+    fireEvent.change(screen.getByLabelText(/Pick-up Date/i), { target: { value: '2026-02-06' } });
+    fireEvent.change(screen.getByLabelText(/Return Date/i), { target: { value: '2026-02-09' } });
+    fireEvent.change(screen.getByLabelText(/Pick-up Location/i), { target: { value: 'l1' } });
+    fireEvent.change(screen.getByLabelText(/Return Location/i), { target: { value: 'l2' } });
+
+    expect(await screen.findByText('Rp 1.900.000')).toBeInTheDocument();
+    expect(screen.getByText('One-way drop fee')).toBeInTheDocument();
+    expect(screen.getByText('Rp 150.000')).toBeInTheDocument();
+  });
+  it('should quote and book with an applied promo code', async () => {
+    vi.mocked(carsApi.checkAvailability).mockResolvedValue(availability());
+    vi.mocked(bookingsApi.create).mockResolvedValue({ success: true, data: makeBooking({ id: 'b1' }) });
+    vi.mocked(bookingsApi.quote).mockImplementation(async ({ promoCode }) => ({
+      success: true,
+      data: promoCode
+        ? {
+            ...mockQuote,
+            lines: [...mockQuote.lines, { type: 'DISCOUNT', description: 'Promo code SPRING20', amount: 340000 }],
+            discountAmount: 340000,
+            totalPrice: 1410000,
+          }
+        : mockQuote,
+    }));
+
+    renderComponent();
+    await waitFor(() => screen.getByText('Toyota Camry'));
+
+    fireEvent.change(screen.getByLabelText(/Pick-up Date/i), { target: { value: '2026-02-06' } });
+    fireEvent.change(screen.getByLabelText(/Return Date/i), { target: { value: '2026-02-09' } });
+    fireEvent.change(screen.getByLabelText(/Pick-up Location/i), { target: { value: 'l1' } });
+    fireEvent.change(screen.getByLabelText(/Return Location/i), { target: { value: 'l1' } });
+    fireEvent.change(screen.getByLabelText(/Promo Code/i), { target: { value: ' spring20 ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(await screen.findByText('Promo code SPRING20')).toBeInTheDocument();
+    expect(screen.getByText('-Rp 340.000')).toBeInTheDocument();
+    expect(screen.getByText('Rp 1.410.000')).toBeInTheDocument();
+
+    await waitFor(() => expect(screen.getByText('✓ Car is available!')).toBeInTheDocument());
+    fireEvent.click(screen.getByRole('button', { name: /Book Now/i }));
+
+    await waitFor(() => {
+      expect(bookingsApi.create).toHaveBeenCalledWith(
+        expect.objectContaining({ promoCode: 'spring20', quoteToken: 'quote-token' }),
+        expect.anything()
+      );
+    });
+  });
+
+  it('should say why a promo code cannot be used', async () => {
+    vi.mocked(bookingsApi.quote).mockImplementation(async ({ promoCode }) => {
+      if (promoCode) {
+        throw { response: { data: { error: { message: 'Promo code SUV10 only applies to SUV cars' } } } };
+      }
+      return { success: true, data: mockQuote };
+    });
+
+    renderComponent();
+    await waitFor(() => screen.getByText('Toyota Camry'));
+
+    fireEvent.change(screen.getByLabelText(/Pick-up Date/i), { target: { value: '2026-02-06' } });
+    fireEvent.change(screen.getByLabelText(/Return Date/i), { target: { value: '2026-02-09' } });
+    fireEvent.change(screen.getByLabelText(/Pick-up Location/i), { target: { value: 'l1' } });
+    fireEvent.change(screen.getByLabelText(/Return Location/i), { target: { value: 'l1' } });
+    fireEvent.change(screen.getByLabelText(/Promo Code/i), { target: { value: 'SUV10' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(await screen.findByText('Promo code SUV10 only applies to SUV cars')).toBeInTheDocument();
+  });
 });
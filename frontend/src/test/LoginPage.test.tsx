@@ -0,0 +1,70 @@
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { LoginPage } from '@/pages/public/LoginPage';
+import { authApi } from '@/api/auth';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { MemoryRouter } from 'react-router-dom';
+import { AuthContext } from '@/contexts/AuthContext';
+import { makeAuthContext } from './fixtures';
+
+vi.mock('@/api/auth');
+
+const mockAuthContext = makeAuthContext({ user: null, isAuthenticated: false });
+
+const renderPage = () => {
+  return render(
+    <AuthContext.Provider value={mockAuthContext}>
+      <MemoryRouter>
+        <LoginPage />
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+};
+
+const submitCredentials = () => {
+  fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'admin@example.com' } });
+  fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'Password123' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Login' }));
+};
+
+describe('LoginPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should ask for an authenticator code when the login returns a challenge', async () => {
+    vi.mocked(mockAuthContext.login).mockResolvedValue({ challengeToken: 'challenge-1', type: 'VERIFY', expiresAt: '2026-02-01T10:05:00.000Z' });
+    vi.mocked(mockAuthContext.verifyTwoFactor).mockResolvedValue(undefined);
+
+    renderPage();
+    submitCredentials();
+
+    const codeInput = await screen.findByLabelText('Authentication Code');
+    fireEvent.change(codeInput, { target: { value: '123456' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Verify' }));
+
+    await waitFor(() => {
+      expect(mockAuthContext.verifyTwoFactor).toHaveBeenCalledWith('challenge-1', '123456');
+    });
+  });
+
+  it('should walk an admin through enrollment and show the recovery codes', async () => {
+    vi.mocked(mockAuthContext.login).mockResolvedValue({ challengeToken: 'challenge-2', type: 'ENROLL', expiresAt: '2026-02-01T10:05:00.000Z' });
+    vi.mocked(authApi.startTotpEnrollment).mockResolvedValue({
+      success: true,
+      data: { secret: 'JBSWY3DPEHPK3PXP', otpauthUri: 'otpauth://totp/Car%20Rental:admin?secret=JBSWY3DPEHPK3PXP' },
+    });
+    vi.mocked(mockAuthContext.confirmTotpEnrollment).mockResolvedValue(['a1b2c-3d4e5', 'f6a7b-8c9d0']);
+
+    renderPage();
+    submitCredentials();
+
+    expect(await screen.findByTestId('totp-secret')).toHaveTextContent('JBSWY3DPEHPK3PXP');
+    expect(authApi.startTotpEnrollment).toHaveBeenCalledWith('challenge-2');
+
+    fireEvent.change(screen.getByLabelText('Authentication Code'), { target: { value: '654321' } });
+    fireEvent.click(screen.getByRole('button', { name: /Enable Two-Factor/i }));
+
+    expect(await screen.findByText('a1b2c-3d4e5')).toBeInTheDocument();
+    expect(mockAuthContext.confirmTotpEnrollment).toHaveBeenCalledWith('challenge-2', '654321');
+  });
+});
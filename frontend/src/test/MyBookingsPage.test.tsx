@@ -0,0 +1,173 @@
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { MyBookingsPage } from '@/pages/customer/MyBookingsPage';
+import { bookingsApi } from '@/api/bookings';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { AuthContext } from '@/contexts/AuthContext';
+import { makeAuthContext, makeBooking, makeCar, makeDeposit, makePayment, makePromoCode, paginated } from './fixtures';
+
+vi.mock('@/api/bookings');
+vi.mock('@/api/auth');
+
+const booking = makeBooking({
+  car: makeCar({ model: 'Avanza' }),
+  payments: [
+    makePayment({ id: 'p1', amount: 400000, status: 'SUCCEEDED' }),
+    makePayment({ id: 'p2', amount: 100000, status: 'FAILED' }),
+  ],
+});
+
+const renderPage = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <AuthContext.Provider value={makeAuthContext()}>
+      <QueryClientProvider client={queryClient}>
+        <MemoryRouter>
+          <MyBookingsPage />
+        </MemoryRouter>
+      </QueryClientProvider>
+    </AuthContext.Provider>
+  );
+};
+
+describe('MyBookingsPage payments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('alert', vi.fn());
+    vi.mocked(bookingsApi.getMyBookings).mockResolvedValue(paginated([booking]));
+    vi.mocked(bookingsApi.pay).mockResolvedValue({
+      success: true,
+      data: { payment: makePayment({ id: 'p3', amount: 600000 }), booking: { ...booking, status: 'CONFIRMED' } },
+    });
+  });
+
+  it('should pay the outstanding balance with the chosen method', async () => {
+    renderPage();
+
+    expect(await screen.findByText(/Paid/)).toHaveTextContent('400.000');
+    fireEvent.change(screen.getByLabelText('Payment method'), { target: { value: 'fake_async' } });
+    fireEvent.click(screen.getByRole('button', { name: /Pay .*600\.000/ }));
+
+    await waitFor(() => {
+      expect(bookingsApi.pay).toHaveBeenCalledWith('booking-1234', { paymentMethod: 'fake_async' });
+    });
+    expect(bookingsApi.getMyBookings).toHaveBeenCalledTimes(2);
+  });
+
+  it('should show why a payment was declined', async () => {
+    vi.mocked(bookingsApi.pay).mockRejectedValue({
+      response: { data: { error: { message: 'Card declined' } } },
+    });
+    renderPage();
+
+    fireEvent.click(await screen.findByRole('button', { name: /Pay/ }));
+
+    await waitFor(() => {
+      expect(window.alert).toHaveBeenCalledWith('Card declined');
+    });
+  });
+
+  it('should not offer to pay a fully paid booking', async () => {
+    vi.mocked(bookingsApi.getMyBookings).mockResolvedValue(
+      paginated([{ ...booking, status: 'CONFIRMED', payments: [makePayment({ amount: 1000000 })] }])
+    );
+    renderPage();
+
+    expect(await screen.findByText(/Paid/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /^Pay/ })).not.toBeInTheDocument();
+  });
+});
+
+describe('MyBookingsPage deposits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show a deposit held at pickup', async () => {
+    vi.mocked(bookingsApi.getMyBookings).mockResolvedValue(
+      paginated([{ ...booking, status: 'PICKED_UP', deposit: makeDeposit({ amount: 1000000 }) }])
+    );
+    renderPage();
+
+    expect(await screen.findByText(/Deposit held/)).toHaveTextContent('1.000.000');
+  });
+
+  it('should say what was kept from the deposit on return', async () => {
+    vi.mocked(bookingsApi.getMyBookings).mockResolvedValue(
+      paginated([{
+        ...booking,
+        status: 'RETURNED',
+        deposit: makeDeposit({ amount: 1000000, status: 'CAPTURED', capturedAmount: 250000, captureReason: 'Scratched bumper' }),
+      }])
+    );
+    renderPage();
+
+    const line = await screen.findByText(/kept for Scratched bumper/);
+    expect(line).toHaveTextContent('250.000');
+  });
+});
+
+describe('MyBookingsPage charges', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the taxes and fees charged on the booking', async () => {
+    vi.mocked(bookingsApi.getMyBookings).mockResolvedValue(
+      paginated([{
+        ...booking,
+        charges: [
+          { id: 'ch1', bookingId: booking.id, ruleId: null, kind: 'FEE', name: 'Airport fee', ratePercent: null, amount: 50000 },
+          { id: 'ch2', bookingId: booking.id, ruleId: null, kind: 'TAX', name: 'PPN', ratePercent: 11, amount: 99000 },
+        ],
+      }])
+    );
+    renderPage();
+
+    expect(await screen.findByText(/Airport fee/)).toHaveTextContent('50.000');
+    expect(screen.getByText(/PPN 11%/)).toHaveTextContent('99.000');
+  });
+
+  it('should show the promo code discount taken off the booking', async () => {
+    vi.mocked(bookingsApi.getMyBookings).mockResolvedValue(
+      paginated([{ ...booking, discountAmount: 200000, promoCode: makePromoCode({ code: 'SPRING20' }) }])
+    );
+    renderPage();
+
+    expect(await screen.findByText(/Promo code SPRING20/)).toHaveTextContent('-Rp');
+    expect(screen.getByText(/Promo code SPRING20/)).toHaveTextContent('200.000');
+  });
+});
+
+describe('MyBookingsPage invoices', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('alert', vi.fn());
+    URL.createObjectURL = vi.fn(() => 'blob:invoice');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it('should download the invoice of a confirmed booking', async () => {
+    vi.mocked(bookingsApi.getMyBookings).mockResolvedValue(paginated([{ ...booking, status: 'CONFIRMED' }]));
+    vi.mocked(bookingsApi.getInvoicePdf).mockResolvedValue(new Blob(['%PDF-1.4'], { type: 'application/pdf' }));
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    renderPage();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Download Invoice' }));
+
+    await waitFor(() => {
+      expect(click).toHaveBeenCalled();
+    });
+    expect(bookingsApi.getInvoicePdf).toHaveBeenCalledWith('booking-1234');
+    click.mockRestore();
+  });
+
+  it('should not offer an invoice before the booking is confirmed', async () => {
+    vi.mocked(bookingsApi.getMyBookings).mockResolvedValue(paginated([booking]));
+    renderPage();
+
+    expect(await screen.findByText(/Paid/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Download Invoice' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,107 @@
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { ProfilePage } from '@/pages/customer/ProfilePage';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { MemoryRouter } from 'react-router-dom';
+import { AuthContext } from '@/contexts/AuthContext';
+import { makeAuthContext, makeUser } from './fixtures';
+
+vi.mock('@/api/auth');
+
+const mockAuthContext = makeAuthContext({
+  user: makeUser({
+    dateOfBirth: '1990-05-17T00:00:00.000Z',
+    driverLicenseNumber: 'B1234567',
+    driverLicenseCountry: 'ID',
+  }),
+});
+
+const renderPage = () => {
+  return render(
+    <AuthContext.Provider value={mockAuthContext}>
+      <MemoryRouter>
+        <ProfilePage />
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+};
+
+describe('ProfilePage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should save the edited details', async () => {
+    vi.mocked(mockAuthContext.updateProfile).mockResolvedValue(undefined);
+
+    renderPage();
+
+    fireEvent.change(screen.getByLabelText('Phone'), { target: { value: '+62 812 3456 7890' } });
+    fireEvent.click(screen.getByRole('button', { name: /Save Profile/i }));
+
+    await waitFor(() => {
+      expect(mockAuthContext.updateProfile).toHaveBeenCalledWith({
+        name: 'Test User',
+        phone: '+62 812 3456 7890',
+      });
+    });
+    expect(await screen.findByText('Your profile has been saved.')).toBeInTheDocument();
+  });
+
+  it('should submit the driver license with its photo for review', async () => {
+    vi.mocked(mockAuthContext.submitDriverLicense).mockResolvedValue(undefined);
+
+    renderPage();
+
+    expect(screen.getByLabelText('Date of Birth')).toHaveValue('1990-05-17');
+    expect(screen.getByText('Not submitted')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('License Expiry Date'), { target: { value: '2030-01-31' } });
+    fireEvent.change(screen.getByLabelText('License Photo'), {
+      target: { files: [new File(['license'], 'license.png', { type: 'image/png' })] },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /Submit for Verification/i }));
+
+    await waitFor(() => {
+      expect(mockAuthContext.submitDriverLicense).toHaveBeenCalledWith({
+        dateOfBirth: '1990-05-17',
+        driverLicenseNumber: 'B1234567',
+        driverLicenseCountry: 'ID',
+        driverLicenseExpiresAt: '2030-01-31',
+        image: expect.stringMatching(/^data:image\/png;base64,/),
+      });
+    });
+    expect(await screen.findByText('Your license has been submitted for review.')).toBeInTheDocument();
+  });
+
+  it('should show the server error when the current password is wrong', async () => {
+    vi.mocked(mockAuthContext.changePassword).mockRejectedValue({
+      response: { data: { error: { message: 'Current password is incorrect' } } },
+    });
+
+    renderPage();
+
+    fireEvent.change(screen.getByLabelText('Current Password'), { target: { value: 'WrongPassword1' } });
+    fireEvent.change(screen.getByLabelText('New Password'), { target: { value: 'NewPassword456' } });
+    fireEvent.change(screen.getByLabelText('Confirm New Password'), { target: { value: 'NewPassword456' } });
+    fireEvent.click(screen.getByRole('button', { name: /^Change Password$/i }));
+
+    expect(await screen.findByText('Current password is incorrect')).toBeInTheDocument();
+    expect(mockAuthContext.changePassword).toHaveBeenCalledWith({
+      currentPassword: 'WrongPassword1',
+      newPassword: 'NewPassword456',
+    });
+  });
+
+  it('should delete the account after confirmation', async () => {
+    vi.mocked(mockAuthContext.deleteAccount).mockResolvedValue(undefined);
+    vi.stubGlobal('confirm', vi.fn(() => true));
+
+    renderPage();
+
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'Password123' } });
+    fireEvent.click(screen.getByRole('button', { name: /Delete My Account/i }));
+
+    await waitFor(() => {
+      expect(mockAuthContext.deleteAccount).toHaveBeenCalledWith('Password123');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { ResetPasswordPage } from '@/pages/public/ResetPasswordPage';
+import { authApi } from '@/api/auth';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+
+vi.mock('@/api/auth');
+
+const renderPage = (path: string) => {
+  return render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+      </Routes>
+    </MemoryRouter>
+  );
+};
+
+describe('ResetPasswordPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should submit the new password with the token from the link', async () => {
+    vi.mocked(authApi.resetPassword).mockResolvedValue(undefined);
+
+    renderPage('/reset-password?token=abc123');
+
+    fireEvent.change(screen.getByLabelText('New Password'), { target: { value: 'NewPassword456' } });
+    fireEvent.change(screen.getByLabelText('Confirm Password'), { target: { value: 'NewPassword456' } });
+    fireEvent.click(screen.getByRole('button', { name: /Set New Password/i }));
+
+    await waitFor(() => {
+      expect(authApi.resetPassword).toHaveBeenCalledWith({ token: 'abc123', password: 'NewPassword456' });
+    });
+    expect(await screen.findByText(/Your password has been changed/)).toBeInTheDocument();
+  });
+
+  it('should show the server error for an expired link', async () => {
+    vi.mocked(authApi.resetPassword).mockRejectedValue({
+      response: { data: { error: { message: 'Password reset link is invalid or has expired' } } },
+    });
+
+    renderPage('/reset-password?token=expired');
+
+    fireEvent.change(screen.getByLabelText('New Password'), { target: { value: 'NewPassword456' } });
+    fireEvent.change(screen.getByLabelText('Confirm Password'), { target: { value: 'NewPassword456' } });
+    fireEvent.click(screen.getByRole('button', { name: /Set New Password/i }));
+
+    expect(await screen.findByText(/invalid or has expired/)).toBeInTheDocument();
+  });
+});
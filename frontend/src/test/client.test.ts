@@ -0,0 +1,60 @@
+import axios, { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { client } from '@/api/client';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+const respond = (config: InternalAxiosRequestConfig, status: number): Promise<AxiosResponse> => {
+  const response = { data: {}, status, statusText: '', headers: {}, config };
+  return status < 400
+    ? Promise.resolve(response)
+    : Promise.reject(new AxiosError('Request failed', undefined, config, null, response));
+};
+
+describe('client', () => {
+  const originalAdapter = client.defaults.adapter;
+  let seenTokens: (string | undefined)[];
+
+  beforeEach(() => {
+    localStorage.clear();
+    seenTokens = [];
+    // Only the refreshed access token is accepted
+    client.defaults.adapter = (config) => {
+      const authorization = config.headers.Authorization as string | undefined;
+      seenTokens.push(authorization);
+      return respond(config, authorization === 'Bearer fresh-access' ? 200 : 401);
+    };
+  });
+
+  afterEach(() => {
+    client.defaults.adapter = originalAdapter;
+    vi.restoreAllMocks();
+  });
+
+  it('should refresh an expired access token once and retry the request', async () => {
+    localStorage.setItem('token', 'stale-access');
+    localStorage.setItem('refreshToken', 'refresh-1');
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({
+      data: { data: { token: { accessToken: 'fresh-access', refreshToken: 'refresh-2' } } },
+    });
+
+    const [first, second] = await Promise.all([client.get('/bookings'), client.get('/cars')]);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    // Concurrent failures share a single refresh
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post).toHaveBeenCalledWith(expect.stringContaining('/auth/refresh'), { refreshToken: 'refresh-1' });
+    expect(localStorage.getItem('refreshToken')).toBe('refresh-2');
+    expect(seenTokens.filter((token) => token === 'Bearer fresh-access')).toHaveLength(2);
+  });
+
+  it('should clear the session when the refresh fails', async () => {
+    localStorage.setItem('token', 'stale-access');
+    localStorage.setItem('refreshToken', 'revoked');
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('401'));
+
+    await expect(client.get('/bookings')).rejects.toBeInstanceOf(AxiosError);
+
+    expect(localStorage.getItem('token')).toBeNull();
+    expect(localStorage.getItem('refreshToken')).toBeNull();
+  });
+});
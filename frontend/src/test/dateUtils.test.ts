@@ -28,4 +28,15 @@ describe('dateUtils', () => {
       expect(dateUtils.formatDate(date)).toBe('Jan 01, 2024');
     });
   });
+
+  describe('formatCountdown', () => {
+    it('should format hours, minutes and seconds', () => {
+      expect(dateUtils.formatCountdown((3600 + 5 * 60 + 9) * 1000)).toBe('1h 05m 09s');
+    });
+
+    it('should drop hours under an hour and never go negative', () => {
+      expect(dateUtils.formatCountdown(90 * 1000)).toBe('1m 30s');
+      expect(dateUtils.formatCountdown(-5000)).toBe('0m 00s');
+    });
+  });
 });
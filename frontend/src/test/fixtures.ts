@@ -0,0 +1,141 @@
+import type { ContextType } from 'react';
+import { vi } from 'vitest';
+import { AuthContext } from '@/contexts/AuthContext';
+import type { User } from '@/types/auth';
+import type { Car, PaginatedResponse } from '@/types/car';
+import type { Booking, Deposit, Payment, PromoCode } from '@/types/booking';
+
+export type AuthContextValue = NonNullable<ContextType<typeof AuthContext>>;
+
+// A customer with a verified email and no driver's license on file
+export const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: '1',
+  email: 'test@test.com',
+  name: 'Test User',
+  role: 'CUSTOMER',
+  emailVerifiedAt: '2026-01-01T00:00:00.000Z',
+  phone: null,
+  dateOfBirth: null,
+  driverLicenseNumber: null,
+  driverLicenseCountry: null,
+  driverLicenseExpiresAt: null,
+  driverLicenseImagePath: null,
+  driverVerificationStatus: 'UNVERIFIED',
+  driverLicenseSubmittedAt: null,
+  driverVerifiedAt: null,
+  driverVerificationNote: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Signed in as makeUser(), with every action mocked
+export const makeAuthContext = (overrides: Partial<AuthContextValue> = {}): AuthContextValue => ({
+  user: makeUser(),
+  isLoading: false,
+  login: vi.fn(),
+  verifyTwoFactor: vi.fn(),
+  confirmTotpEnrollment: vi.fn(),
+  register: vi.fn(),
+  logout: vi.fn(),
+  updateProfile: vi.fn(),
+  submitDriverLicense: vi.fn(),
+  changePassword: vi.fn(),
+  deleteAccount: vi.fn(),
+  isAuthenticated: true,
+  isAdmin: false,
+  hasPermission: vi.fn(() => false),
+  ...overrides,
+});
+
+export const makeCar = (overrides: Partial<Car> = {}): Car => ({
+  id: 'c1',
+  brand: 'Toyota',
+  model: 'Camry',
+  year: 2024,
+  type: 'SEDAN',
+  seats: 5,
+  transmission: 'AT',
+  fuel: 'GAS',
+  dailyPrice: 500000,
+  status: 'ACTIVE',
+  images: [],
+  currentLocationId: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// A PENDING booking of makeCar() with nothing paid
+export const makeBooking = (overrides: Partial<Booking> = {}): Booking => ({
+  id: 'booking-1234',
+  userId: '1',
+  carId: 'c1',
+  startDate: '2026-03-10T00:00:00.000Z',
+  endDate: '2026-03-12T00:00:00.000Z',
+  days: 2,
+  basePrice: 1000000,
+  addonPrice: 0,
+  dropFee: 0,
+  discountAmount: 0,
+  feeAmount: 0,
+  taxAmount: 0,
+  totalPrice: 1000000,
+  status: 'PENDING',
+  holdExpiresAt: null,
+  createdAt: '2026-03-01T00:00:00.000Z',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+  car: makeCar(),
+  payments: [],
+  refunds: [],
+  ...overrides,
+});
+
+export const makePayment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'p1',
+  bookingId: 'booking-1234',
+  amount: 0,
+  status: 'SUCCEEDED',
+  gateway: 'fake',
+  gatewayReference: null,
+  failureReason: null,
+  settledAt: null,
+  createdAt: '2026-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+export const makeDeposit = (overrides: Partial<Deposit> = {}): Deposit => ({
+  id: 'd1',
+  bookingId: 'booking-1234',
+  amount: 0,
+  status: 'HELD',
+  capturedAmount: null,
+  captureReason: null,
+  failureReason: null,
+  heldAt: null,
+  settledAt: null,
+  createdAt: '2026-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+export const makePromoCode = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+  id: 'promo-1',
+  code: 'PROMO',
+  description: null,
+  discountType: 'PERCENTAGE',
+  discountValue: 10,
+  validFrom: null,
+  validUntil: null,
+  maxRedemptions: null,
+  maxRedemptionsPerUser: null,
+  minDays: null,
+  isActive: true,
+  ...overrides,
+});
+
+// A single page holding every item
+export const paginated = <T>(data: T[]): PaginatedResponse<T> => ({
+  success: true,
+  data,
+  meta: { page: 1, limit: data.length, total: data.length, totalPages: 1 },
+});
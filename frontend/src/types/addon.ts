@@ -1,7 +1,16 @@
+export type AddonPricingMode = 'PER_BOOKING' | 'PER_DAY';
+
+export interface AddonStock {
+  locationId: string;
+  quantity: number;
+}
+
 export interface Addon {
   id: string;
   name: string;
   description: string;
-  pricePerBooking: number;
+  price: number;
+  pricingMode: AddonPricingMode;
   isActive: boolean;
+  stock?: AddonStock[]; // Locations without an entry have unlimited supply
 }
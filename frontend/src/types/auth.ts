@@ -1,21 +1,81 @@
+export type Permission =
+  | 'booking:read'
+  | 'booking:status:confirm'
+  | 'booking:status:pickup'
+  | 'booking:status:return'
+  | 'booking:status:cancel'
+  | 'car:write'
+  | 'pricing:write'
+  | 'location:write'
+  | 'addon:write'
+  | 'analytics:read'
+  | 'user:unlock'
+  | 'driver:verify';
+
+// UNVERIFIED until a license is submitted; PENDING while staff review it
+export type DriverVerificationStatus = 'UNVERIFIED' | 'PENDING' | 'VERIFIED' | 'REJECTED';
+
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'CUSTOMER' | 'ADMIN';
+  role: 'CUSTOMER' | 'STAFF' | 'ADMIN';
+  // Only returned by /auth/me; admins hold every permission
+  permissions?: Permission[];
+  // Only returned by /auth/me; branches a staff member is limited to, null for every branch
+  locationIds?: string[] | null;
+  emailVerifiedAt: string | null;
+  phone: string | null;
+  dateOfBirth: string | null;
+  driverLicenseNumber: string | null;
+  driverLicenseCountry: string | null;
+  driverLicenseExpiresAt: string | null;
+  driverLicenseImagePath: string | null;
+  driverVerificationStatus: DriverVerificationStatus;
+  driverLicenseSubmittedAt: string | null;
+  driverVerifiedAt: string | null;
+  // Reason given by staff when the license was rejected
+  driverVerificationNote: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface AuthTokens {
+  accessToken: string;
+  expiresIn: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+export interface AuthSession {
+  user: User;
+  token: AuthTokens;
+}
+
 export interface AuthResponse {
   success: boolean;
-  data: {
-    user: User;
-    token: {
-      accessToken: string;
-      expiresIn: string;
-    };
-  };
+  data: AuthSession;
+}
+
+// VERIFY asks for an authenticator code; ENROLL requires setting up an authenticator first
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  type: 'VERIFY' | 'ENROLL';
+  expiresAt: string;
+}
+
+export interface LoginResponse {
+  success: boolean;
+  data: AuthSession | { challenge: TwoFactorChallenge };
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TotpEnrollmentResult extends AuthSession {
+  recoveryCodes: string[];
 }
 
 export interface LoginConfig {
@@ -3,6 +3,78 @@ import type { User } from './auth';
 
 export type BookingStatus = 'PENDING' | 'CONFIRMED' | 'PICKED_UP' | 'RETURNED' | 'CANCELLED';
 
+// Shared by payments and refunds
+export type PaymentStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+export interface Payment {
+  id: string;
+  bookingId: string;
+  amount: number;
+  status: PaymentStatus;
+  gateway: string;
+  gatewayReference: string | null;
+  failureReason: string | null;
+  settledAt: string | null;
+  createdAt: string;
+}
+
+export interface Refund {
+  id: string;
+  bookingId: string;
+  paymentId: string;
+  amount: number;
+  status: PaymentStatus;
+  reason: string | null;
+  failureReason: string | null;
+  settledAt: string | null;
+  createdAt: string;
+}
+
+export type DepositStatus = 'PENDING' | 'HELD' | 'RELEASED' | 'CAPTURED' | 'FAILED';
+
+// Held on the card at pickup; released or partly captured on return
+export interface Deposit {
+  id: string;
+  bookingId: string;
+  amount: number;
+  status: DepositStatus;
+  capturedAmount: number | null;
+  captureReason: string | null;
+  failureReason: string | null;
+  heldAt: string | null;
+  settledAt: string | null;
+  createdAt: string;
+}
+
+export type ChargeKind = 'FEE' | 'TAX';
+
+// Tax or fee line as charged when the booking was made
+export interface BookingCharge {
+  id: string;
+  bookingId: string;
+  ruleId: string | null;
+  kind: ChargeKind;
+  name: string;
+  ratePercent: number | null; // null for fixed amounts
+  amount: number;
+}
+
+export type DiscountType = 'PERCENTAGE' | 'FIXED';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  validFrom: string | null;
+  validUntil: string | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerUser: number | null;
+  minDays: number | null;
+  isActive: boolean;
+}
+
 export interface Booking {
   id: string;
   userId: string;
@@ -12,12 +84,25 @@ export interface Booking {
   days: number;
   basePrice: number;
   addonPrice: number;
+  dropFee: number;
+  discountAmount: number;
+  feeAmount: number;
+  taxAmount: number;
   totalPrice: number;
   status: BookingStatus;
+  cancelReason?: string | null;
+  cancellationFee?: number | null;
+  refundAmount?: number | null;
+  holdExpiresAt?: string | null; // PENDING bookings are cancelled automatically after this
   createdAt: string;
   updatedAt: string;
   car?: Car; // Joined car details
   user?: User; // Joined user details
+  promoCode?: PromoCode | null;
+  charges?: BookingCharge[];
+  payments?: Payment[];
+  refunds?: Refund[];
+  deposit?: Deposit | null;
 }
 
 export interface CreateBookingInput {
@@ -27,6 +112,67 @@ export interface CreateBookingInput {
   pickupLocationId: string;
   dropoffLocationId: string;
   addonIds?: string[];
+  promoCode?: string;
+  quoteToken?: string;
+}
+
+export interface CancellationPreview {
+  bookingId: string;
+  status: BookingStatus;
+  totalPrice: number;
+  allowed: boolean;
+  hoursBeforeStart: number;
+  feePercent: number;
+  cancellationFee: number;
+  refundAmount: number;
+  reason?: string;
+}
+
+export interface CreatePaymentInput {
+  amount?: number; // Defaults to the outstanding balance
+  paymentMethod: string;
+}
+
+export interface CreatePaymentResult {
+  payment: Payment;
+  booking: Booking;
+}
+
+// A modified booking keeps the promo code it was made with
+export type ModifyBookingInput = Partial<Omit<CreateBookingInput, 'quoteToken' | 'promoCode'>>;
+
+export interface ModifyBookingResult {
+  booking: Booking;
+  previousTotalPrice: number;
+  newTotalPrice: number;
+  priceDifference: number; // positive: customer owes more, negative: refund
+}
+
+export type BookingQuoteInput = Omit<CreateBookingInput, 'quoteToken'>;
+
+export type QuoteLineType = 'BASE' | 'ADDON' | 'DROP_FEE' | 'DISCOUNT' | 'FEE' | 'TAX';
+
+export interface QuoteLine {
+  type: QuoteLineType;
+  description: string;
+  amount: number;
+  date?: string;
+  referenceId?: string;
+  rate?: number; // FEE and TAX lines charged as a percentage
+}
+
+export interface BookingQuote {
+  days: number;
+  lines: QuoteLine[];
+  basePrice: number;
+  addonPrice: number;
+  dropFee: number;
+  discountAmount: number;
+  feeAmount: number;
+  taxAmount: number;
+  totalPrice: number;
+  quoteToken: string;
+  expiresAt: string;
 }
 
 export interface BookingFilterParams {
@@ -41,6 +187,13 @@ export interface ConflictingBooking {
   status: BookingStatus;
 }
 
+export interface ConflictingBlackout {
+  id: string;
+  reason: string;
+  startDate: string;
+  endDate: string;
+}
+
 export interface AvailabilityResponse {
   success: boolean;
   data: {
@@ -49,5 +202,6 @@ export interface AvailabilityResponse {
     requestedStartDate: string;
     requestedEndDate: string;
     conflictingBookings: ConflictingBooking[];
+    conflictingBlackouts: ConflictingBlackout[];
   };
 }
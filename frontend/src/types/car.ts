@@ -15,6 +15,7 @@ export interface Car {
   dailyPrice: number;
   status: CarStatus;
   images: string[];
+  currentLocationId: string | null;
   isAvailable?: boolean;
   createdAt: string;
   updatedAt: string;
@@ -31,6 +32,7 @@ export interface CarFilterParams {
   priceMax?: number;
   startDate?: string;
   endDate?: string;
+  pickupLocationId?: string;
   sort?: string;
   order?: 'asc' | 'desc';
 }
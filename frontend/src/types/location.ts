@@ -1,6 +1,26 @@
+export interface LocationOpeningHours {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  opensAt: string;   // HH:mm
+  closesAt: string;  // HH:mm
+}
+
+export interface LocationClosure {
+  date: string; // ISO Date
+  reason?: string | null;
+}
+
 export interface Location {
   id: string;
   name: string;
   address: string;
   isActive: boolean;
+  openingHours?: LocationOpeningHours[]; // Empty means open every day
+  closures?: LocationClosure[];
+}
+
+export interface LocationInput {
+  name: string;
+  address?: string | null;
+  openingHours?: LocationOpeningHours[];
+  closures?: LocationClosure[];
 }
@@ -17,5 +17,17 @@ export const dateUtils = {
 
   toISODate: (date: Date): string => {
     return date.toISOString().split('T')[0];
+  },
+
+  // Remaining time as "1h 05m 09s"; hours are dropped when under an hour
+  formatCountdown: (milliseconds: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return hours > 0
+      ? `${hours}h ${pad(minutes)}m ${pad(seconds)}s`
+      : `${minutes}m ${pad(seconds)}s`;
   }
 };